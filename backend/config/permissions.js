@@ -0,0 +1,64 @@
+/**
+ * Role permission matrix
+ * Maps each permission to the User.role values allowed to use it.
+ */
+
+const ROLES = ['Officer', 'Detective', 'Admin', 'Prosecutor', 'Judge'];
+
+// Custody roles understood by the policy engine
+const CUSTODY_ROLES = ['COLLECTOR', 'FORENSIC_ANALYST', 'DETECTIVE', 'COURT_CLERK'];
+
+const PERMISSIONS = {
+    // Evidence vault
+    'evidence:read': ROLES,
+    'evidence:download': ROLES,
+    'evidence:upload': ['Officer', 'Detective'],
+    'evidence:verify': ['Officer', 'Detective'],
+    'reports:generate': ROLES,
+    'ai:analyze': ['Officer', 'Detective'],
+    'cases:read': ROLES,
+    'cases:manage': ['Detective', 'Admin'],
+
+    // Chain of custody
+    'custody:read': ROLES,
+    'custody:log': ['Officer', 'Detective'],
+    // Check in evidence held by someone else
+    'custody:override': ['Admin'],
+    'policies:read': ROLES,
+    'policies:manage': ['Admin'],
+
+    // Monitoring
+    'analytics:read': ROLES,
+    'alerts:read': ROLES,
+    'alerts:manage': ['Admin'],
+    'outbox:manage': ['Admin'],
+    'reconciliation:run': ['Admin'],
+    'chain:roles': ['Admin'],
+    'audit:read': ['Detective', 'Admin', 'Prosecutor', 'Judge'],
+
+    // Administration
+    'users:read': ['Admin']
+};
+
+/**
+ * Check whether a role holds a permission
+ */
+function hasPermission(role, permission) {
+    const allowed = PERMISSIONS[permission];
+    return !!allowed && allowed.includes(role);
+}
+
+/**
+ * List every permission granted to a role
+ */
+function getPermissionsForRole(role) {
+    return Object.keys(PERMISSIONS).filter(permission => hasPermission(role, permission));
+}
+
+module.exports = {
+    ROLES,
+    CUSTODY_ROLES,
+    PERMISSIONS,
+    hasPermission,
+    getPermissionsForRole
+};
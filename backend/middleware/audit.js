@@ -0,0 +1,41 @@
+const auditLogService = require('../services/auditLogService');
+
+/**
+ * Record an audit log entry once the response has been sent.
+ * Mount before requirePermission so that denied requests are recorded too.
+ * Handlers can add context through res.locals.audit = { resourceId, severity, details }.
+ * Without an explicit severity, failed requests are recorded as warnings.
+ * The request body is never copied into the log.
+ */
+function audit(action, resourceType = null) {
+    return (req, res, next) => {
+        res.on('finish', () => {
+            const extra = res.locals.audit || {};
+            const actor = req.user
+                ? { actor: req.user.badgeNumber, actorName: req.user.name, actorRole: req.user.role }
+                : { actor: (req.body && req.body.badgeId) || 'anonymous' };
+
+            auditLogService.recordAuditEntry({
+                ...actor,
+                action,
+                severity: extra.severity || (res.statusCode >= 400 ? 'warning' : 'info'),
+                resourceType,
+                resourceId: extra.resourceId || req.params.evidenceId || req.params.caseNumber || req.params.id || null,
+                details: {
+                    method: req.method,
+                    path: req.originalUrl,
+                    statusCode: res.statusCode,
+                    outcome: res.statusCode < 400 ? 'SUCCESS' : 'FAILURE',
+                    ...extra.details
+                },
+                ipAddress: req.ip,
+                userAgent: req.get('user-agent')
+            });
+        });
+        next();
+    };
+}
+
+module.exports = {
+    audit
+};
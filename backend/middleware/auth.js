@@ -0,0 +1,62 @@
+const authService = require('../services/authService');
+const { hasPermission } = require('../config/permissions');
+
+// Routes that can be called without a session
+const PUBLIC_ROUTES = [
+    'POST /api/auth/login',
+    'GET /api/health'
+];
+
+// EventSource cannot send headers, so these routes also accept ?token=
+const QUERY_TOKEN_ROUTES = [
+    'GET /api/events'
+];
+
+/**
+ * Require a valid bearer token on every API route except PUBLIC_ROUTES.
+ * The authenticated user is attached as req.user.
+ */
+function requireAuth(req, res, next) {
+    if (req.method === 'OPTIONS' || PUBLIC_ROUTES.includes(`${req.method} ${req.path}`)) {
+        return next();
+    }
+
+    const header = req.headers.authorization || '';
+    let [scheme, token] = header.split(' ');
+
+    if (!token && req.query.token && QUERY_TOKEN_ROUTES.includes(`${req.method} ${req.path}`)) {
+        scheme = 'Bearer';
+        token = String(req.query.token);
+    }
+
+    if (scheme !== 'Bearer' || !token) {
+        return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    try {
+        req.user = authService.verifyToken(token);
+        next();
+    } catch (error) {
+        return res.status(401).json({ error: 'Invalid or expired session', message: error.message });
+    }
+}
+
+/**
+ * Require the authenticated user's role to hold a permission from config/permissions.js
+ */
+function requirePermission(permission) {
+    return (req, res, next) => {
+        if (!req.user || !hasPermission(req.user.role, permission)) {
+            return res.status(403).json({
+                error: 'Forbidden',
+                message: `Role ${req.user ? req.user.role : 'anonymous'} lacks permission ${permission}`
+            });
+        }
+        next();
+    };
+}
+
+module.exports = {
+    requireAuth,
+    requirePermission
+};
@@ -0,0 +1,64 @@
+const crypto = require('crypto');
+require('dotenv').config(); // Loads .env from current directory
+
+const supabaseService = require('../services/supabaseService');
+const userStorage = require('../services/userStorage');
+const { hashPassword } = require('../utils/crypto');
+const { ROLES, CUSTODY_ROLES } = require('../config/permissions');
+
+async function createUser() {
+    const [badgeNumber, name, role, password, custodyRole] = process.argv.slice(2);
+
+    if (!badgeNumber || !name || !role || !password) {
+        console.log('Usage: node scripts/createUser.js <badgeNumber> "<Full Name>" <role> <password> [custodyRole]');
+        console.log(`   Roles: ${ROLES.join(', ')}`);
+        console.log(`   Custody roles: ${CUSTODY_ROLES.join(', ')}`);
+        process.exit(1);
+    }
+
+    if (custodyRole && !CUSTODY_ROLES.includes(custodyRole)) {
+        console.error(`❌ Unknown custody role "${custodyRole}". Expected one of: ${CUSTODY_ROLES.join(', ')}`);
+        process.exit(1);
+    }
+
+    if (!ROLES.includes(role)) {
+        console.error(`❌ Unknown role "${role}". Expected one of: ${ROLES.join(', ')}`);
+        process.exit(1);
+    }
+
+    const useSupabase = supabaseService.initializeSupabase();
+    const existing = useSupabase
+        ? await supabaseService.getUserByBadgeNumber(badgeNumber)
+        : userStorage.getUserByBadgeNumber(badgeNumber);
+
+    const user = {
+        id: existing ? existing.id : crypto.randomUUID(),
+        badge_number: badgeNumber,
+        name,
+        role,
+        custody_role: custodyRole || null,
+        password_hash: hashPassword(password),
+        active: true
+    };
+
+    try {
+        if (existing) {
+            console.log(`👤 Updating existing user ${badgeNumber}...`);
+        } else {
+            console.log(`👤 Creating user ${badgeNumber}...`);
+        }
+
+        if (useSupabase) {
+            await supabaseService.saveUser(user);
+            console.log('✅ User saved to Supabase');
+        } else {
+            userStorage.saveUser(user);
+            console.log('✅ User saved to local storage (data/users.json)');
+        }
+    } catch (error) {
+        console.error('❌ Failed to save user:', error.message);
+        process.exit(1);
+    }
+}
+
+createUser();
@@ -0,0 +1,35 @@
+require('dotenv').config(); // Loads .env from current directory
+
+const supabaseService = require('../services/supabaseService');
+const tamperLedgerService = require('../services/tamperLedgerService');
+
+/**
+ * One-time move of data/tamper_ledger.json into the tamper_alerts table.
+ * Safe to re-run: events already imported are skipped.
+ */
+async function importTamperLedger() {
+    console.log('🚨 Importing tamper ledger...');
+
+    if (!supabaseService.initializeSupabase()) {
+        console.error('❌ Supabase is not configured; set SUPABASE_URL and SUPABASE_SERVICE_KEY in .env');
+        process.exit(1);
+    }
+
+    const events = tamperLedgerService.loadLocalEvents();
+    if (!events.length) {
+        console.log(`   No events found in ${tamperLedgerService.STORAGE_FILE}`);
+        return;
+    }
+
+    console.log(`   Found ${events.length} events in ${tamperLedgerService.STORAGE_FILE}`);
+    const { imported, skipped, failed } = await tamperLedgerService.importLegacyEvents(events);
+
+    console.log(`✅ Imported ${imported}, skipped ${skipped} already imported`);
+    if (failed.length) {
+        console.error(`❌ ${failed.length} events failed:`);
+        failed.forEach(({ id, error }) => console.error(`   ${id}: ${error}`));
+        process.exit(1);
+    }
+}
+
+importTamperLedger();
@@ -0,0 +1,76 @@
+require('dotenv').config(); // Loads .env from current directory
+
+const fs = require('fs');
+const { ethers } = require('ethers');
+const supabaseService = require('../services/supabaseService');
+const blockchainService = require('../services/blockchainService');
+const custodyPolicyService = require('../services/custodyPolicyService');
+const batchService = require('../services/batchService');
+const registryMigrationService = require('../services/registryMigrationService');
+
+const USAGE = 'Usage: node scripts/migrateRegistry.js --from <old contract address> [--from-rpc <url>] [--from-block <n>] [--out <file>]';
+
+function option(args, name) {
+    const index = args.indexOf(name);
+    return index === -1 ? null : args[index + 1] || '';
+}
+
+/**
+ * Re-anchor every item and batch of an old EvidenceRegistry deployment in the
+ * one CONTRACT_ADDRESS names, with the same IDs, and write the signed old-to-new
+ * mapping. Point CONTRACT_ADDRESS and PRIVATE_KEY at the new deployment and stop
+ * the server first: the tool sends transactions outside the transaction outbox.
+ * An interrupted run can be started again and continues where it stopped.
+ */
+async function migrateRegistry() {
+    const args = process.argv.slice(2);
+    const fromAddress = option(args, '--from');
+    const fromRpc = option(args, '--from-rpc') || process.env.BLOCKCHAIN_RPC_URL || 'http://127.0.0.1:8545';
+    const fromBlock = Number(option(args, '--from-block') || 0);
+    const outFile = option(args, '--out');
+
+    if (!fromAddress || !Number.isInteger(fromBlock) || fromBlock < 0 || outFile === '') {
+        console.error(USAGE);
+        process.exit(2);
+    }
+
+    const databaseReady = supabaseService.initializeSupabase();
+    if (!(await blockchainService.initialize())) {
+        console.error('❌ Could not connect to the new registry; check CONTRACT_ADDRESS and BLOCKCHAIN_RPC_URL');
+        process.exit(1);
+    }
+    await custodyPolicyService.initialize(databaseReady);
+    batchService.initialize(databaseReady);
+    registryMigrationService.initialize(databaseReady);
+
+    const fromProvider = new ethers.JsonRpcProvider(fromRpc);
+    console.log(`🚚 Migrating registry ${fromAddress} into ${process.env.CONTRACT_ADDRESS}...`);
+    let result;
+    try {
+        result = await registryMigrationService.migrate({
+            fromAddress,
+            fromProvider,
+            fromBlock,
+            onProgress: message => console.log(`   ${message}`)
+        });
+    } finally {
+        fromProvider.destroy();
+        blockchainService.provider.destroy();
+    }
+    if (result.error) {
+        console.error(`❌ ${result.error}`);
+        process.exit(1);
+    }
+
+    const { document } = result;
+    const file = outFile || `registry-migration-${document.id}.json`;
+    fs.writeFileSync(file, JSON.stringify(document, null, 2));
+    console.log(`✅ Migrated ${document.evidence.length} items and ${document.batches.length} batches`);
+    console.log(`   Signed ID mapping written to ${file} (key ${document.signature.keyId})`);
+}
+
+migrateRegistry().catch(error => {
+    console.error('❌ Migration stopped:', error.shortMessage || error.message);
+    console.error('   Run the same command again to continue where it stopped');
+    process.exit(1);
+});
@@ -0,0 +1,55 @@
+const fs = require('fs');
+const { ethers } = require('ethers');
+const { verifyProofBundle } = require('../utils/proofBundle');
+
+const USAGE = 'Usage: node scripts/verifyProofBundle.js <bundle.json> [evidence-file] [--rpc <url>]';
+
+const STATUS_ICONS = { PASS: '✅', FAIL: '❌', SKIPPED: '⏭️ ' };
+
+/**
+ * Check an exported proof bundle against an evidence file and any RPC node of
+ * the chain it was anchored on. Reads no configuration and never contacts the
+ * vault backend, so it can be handed to opposing counsel as-is.
+ * Exits 0 when every check that ran passed.
+ */
+async function verify() {
+    const args = process.argv.slice(2);
+    const rpcFlag = args.indexOf('--rpc');
+    const rpcUrl = rpcFlag !== -1 ? args[rpcFlag + 1] : null;
+    const [bundlePath, filePath] = args.filter((arg, i) => rpcFlag === -1 || (i !== rpcFlag && i !== rpcFlag + 1));
+
+    if (!bundlePath || (rpcFlag !== -1 && !rpcUrl)) {
+        console.error(USAGE);
+        process.exit(2);
+    }
+
+    let bundle;
+    try {
+        bundle = JSON.parse(fs.readFileSync(bundlePath, 'utf8'));
+    } catch (error) {
+        console.error(`❌ Could not read bundle ${bundlePath}: ${error.message}`);
+        process.exit(2);
+    }
+
+    const fileBuffer = filePath ? fs.readFileSync(filePath) : null;
+    const provider = rpcUrl ? new ethers.JsonRpcProvider(rpcUrl, undefined, { staticNetwork: true }) : null;
+
+    console.log(`🔍 Verifying proof bundle for evidence #${bundle.evidence ? bundle.evidence.evidenceId : '?'}`);
+    if (!provider) console.log('   No --rpc given: checking the bundle and file only');
+
+    const result = await verifyProofBundle(bundle, { fileBuffer, provider });
+    result.checks.forEach(({ check, status, detail }) => {
+        console.log(`${STATUS_ICONS[status]} ${check}: ${detail}`);
+    });
+    if (provider) provider.destroy();
+
+    if (!result.valid) {
+        console.error('❌ Proof bundle verification FAILED');
+        process.exit(1);
+    }
+    console.log(result.chainChecked
+        ? '✅ Proof bundle verified against the chain'
+        : '✅ Proof bundle is intact (not compared with the chain)');
+}
+
+verify();
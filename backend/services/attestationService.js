@@ -0,0 +1,215 @@
+/**
+ * Attestation Service - Independent confirmation of evidence by verifier nodes
+ *
+ * Each configured verifier key (VERIFIER1_KEY, VERIFIER2_KEY, ...) belongs to a
+ * node an admin has granted the registry's VERIFIER role. A digest that does not
+ * match the registered hash is refused rather than attested, so a client cannot
+ * push the nodes into rejecting an item. Each node then fetches and hashes the
+ * stored copy of the file itself, and signs its own verdict with
+ * attestVerification through the transaction outbox, so an item's attestations
+ * show how many separate keys confirmed it. A node can attest an item only
+ * once. The contract settles an item's consensus once quorumThreshold
+ * attestations agree and keeps it when a minority disagrees; it marks the item
+ * disputed only when the opposing verdict reaches quorumThreshold too.
+ */
+
+const crypto = require('crypto');
+const blockchainService = require('./blockchainService');
+const chainIndexerService = require('./chainIndexerService');
+const supabaseService = require('./supabaseService');
+const txOutboxService = require('./txOutboxService');
+
+function sameAddress(a, b) {
+    return a.toLowerCase() === b.toLowerCase();
+}
+
+function toPublic(attestation) {
+    const node = blockchainService.verifiers.find(v => sameAddress(v.address, attestation.verifier));
+    return {
+        verifier: attestation.verifier,
+        verifierName: node ? node.name : null,
+        verified: attestation.verified,
+        attestedAt: new Date(attestation.timestamp * 1000).toISOString(),
+        txHash: attestation.txHash || null,
+        blockNumber: attestation.blockNumber || null
+    };
+}
+
+/**
+ * One-line description of a consensus, e.g. "Attested by 3/3 verifiers"
+ */
+function describeConsensus({ status, confirmations, rejections, threshold }) {
+    // Out of every verifier we know of, not just those that have attested so far
+    const total = Math.max(confirmations + rejections, blockchainService.verifiers.length);
+    switch (status) {
+        case 'CONFIRMED':
+            return `Attested by ${confirmations}/${total} verifiers`;
+        case 'REJECTED':
+            return `Rejected by ${rejections}/${total} verifiers`;
+        case 'DISPUTED':
+            return `Disputed: ${confirmations} verified, ${rejections} rejected`;
+        case 'PENDING':
+            return `${confirmations + rejections} of ${threshold} attestations needed for quorum`;
+        default:
+            return 'No attestations';
+    }
+}
+
+/**
+ * Whether an individually registered item with this ID exists on chain
+ */
+async function exists(evidenceId) {
+    const numericId = Number(evidenceId);
+    return Number.isInteger(numericId) && numericId >= 1 && numericId <= await blockchainService.getEvidenceCount();
+}
+
+/**
+ * Attestations recorded for an item, their consensus, and the configured verifier nodes
+ * @returns {Promise<Object>} - { attestations, consensus, verifiers } or { error, code }
+ */
+async function listAttestations(evidenceId) {
+    if (!blockchainService.initialized) {
+        return { error: 'Blockchain not available', code: 503 };
+    }
+    if (!(await exists(evidenceId))) {
+        return { error: `Evidence ${evidenceId} not found on chain`, code: 404 };
+    }
+
+    const attestations = (await blockchainService.getAttestations(evidenceId)).map(toPublic);
+    const consensus = {
+        ...await blockchainService.getConsensus(evidenceId),
+        threshold: await blockchainService.getQuorumThreshold()
+    };
+    consensus.label = describeConsensus(consensus);
+    const verifiers = await Promise.all(blockchainService.verifiers.map(async node => ({
+        name: node.name,
+        address: node.address,
+        registered: await blockchainService.isRegisteredVerifier(node.address),
+        attested: attestations.some(a => sameAddress(a.verifier, node.address))
+    })));
+    return { attestations, consensus, verifiers };
+}
+
+/**
+ * Consensus of every attested item, read from the chain index
+ * @returns {Promise<Map>} - evidence ID => { status, confirmations, rejections, threshold, label }
+ */
+async function getConsensusSummaries() {
+    const summaries = new Map();
+    if (!blockchainService.initialized) return summaries;
+
+    const [attested, reached, disputed] = await Promise.all(
+        ['VerificationAttested', 'QuorumReached', 'AttestationDisputed'].map(eventName => chainIndexerService.listChainEvents({ eventName }))
+    );
+    const threshold = await blockchainService.getQuorumThreshold();
+
+    for (const event of attested) {
+        const summary = summaries.get(event.evidenceId) || { status: 'PENDING', confirmations: 0, rejections: 0, threshold };
+        if (event.args.verified) {
+            summary.confirmations++;
+        } else {
+            summary.rejections++;
+        }
+        summaries.set(event.evidenceId, summary);
+    }
+    // A quorum keeps the threshold in force when it was reached; a dispute is final
+    for (const event of reached) {
+        const summary = summaries.get(event.evidenceId);
+        if (!summary) continue;
+        summary.status = event.args.verified ? 'CONFIRMED' : 'REJECTED';
+        summary.threshold = Number(event.args.threshold);
+    }
+    for (const event of disputed) {
+        const summary = summaries.get(event.evidenceId);
+        if (summary) summary.status = 'DISPUTED';
+    }
+
+    for (const summary of summaries.values()) {
+        summary.label = describeConsensus(summary);
+    }
+    return summaries;
+}
+
+/**
+ * SHA-256 of the stored copy of an item, fetched by the node rather than taken from the request
+ * @returns {Promise<string|null>} - 0x-prefixed digest, or null when the file is not in storage
+ */
+async function hashStoredCopy(evidenceId) {
+    const record = await supabaseService.getEvidenceById(evidenceId);
+    const url = record && await supabaseService.getFileUrl(record.storage_path);
+    if (!url) return null;
+
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Could not read the stored copy of evidence ${evidenceId} (HTTP ${response.status})`);
+    }
+    const hash = crypto.createHash('sha256');
+    for await (const chunk of response.body) {
+        hash.update(chunk);
+    }
+    return '0x' + hash.digest('hex');
+}
+
+/**
+ * Have verifier nodes check an item against the chain and queue their signed verdicts
+ * @param {string} evidenceId
+ * @param {string} submittedHash - 0x-prefixed SHA-256 digest; must match the registered hash
+ * @param {string} [verifier] - Address of one node; every node that has not attested yet when omitted
+ * @param {Object} user - Who asked for the attestations ({ badgeNumber, name })
+ * @returns {Promise<Object>} - { verdicts, outbox, skipped } or { error, code }; outbox holds one entry per verdict
+ */
+async function attest(evidenceId, submittedHash, verifier, user) {
+    const current = await listAttestations(evidenceId);
+    if (current.error) return current;
+    if (current.verifiers.length === 0) {
+        return { error: 'No verifier keys configured', code: 503 };
+    }
+
+    const selected = verifier
+        ? current.verifiers.filter(node => sameAddress(node.address, verifier))
+        : current.verifiers;
+    if (selected.length === 0) {
+        return { error: `No verifier node with address ${verifier}`, code: 404 };
+    }
+    const pending = selected.filter(node => !node.attested);
+    if (pending.length === 0) {
+        return { error: verifier ? 'This verifier node has already attested' : 'Every verifier node has already attested', code: 409 };
+    }
+
+    const { matches, expectedHash } = await blockchainService.checkEvidence(evidenceId, submittedHash);
+    if (!matches) {
+        return { error: 'The submitted hash does not match the registered hash; record a verification instead, which flags the item', code: 409 };
+    }
+
+    const verdicts = [];
+    const outbox = [];
+    const skipped = [];
+    for (const node of pending) {
+        if (!node.registered) {
+            skipped.push({ verifier: node.address, verifierName: node.name, reason: 'Does not hold the VERIFIER role on chain' });
+            continue;
+        }
+        // Without a stored copy the node can only confirm the digest against its own read of the registry
+        const storedHash = await hashStoredCopy(evidenceId);
+        const verified = storedHash === null || storedHash.toLowerCase() === expectedHash.toLowerCase();
+        const entry = await txOutboxService.enqueue(
+            'ATTEST_VERIFICATION',
+            { evidenceId, verified, verifier: node.address },
+            { submittedHash, storedHash },
+            user
+        );
+        verdicts.push({ verifier: node.address, verifierName: node.name, verified, storedHash, outboxId: entry.id });
+        outbox.push(entry);
+    }
+
+    if (verdicts.length === 0) {
+        return { error: 'No verifier node could attest', code: 409, skipped };
+    }
+    return { verdicts, outbox, skipped };
+}
+
+module.exports = {
+    listAttestations,
+    getConsensusSummaries,
+    attest
+};
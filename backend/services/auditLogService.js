@@ -0,0 +1,295 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const supabaseService = require('./supabaseService');
+const { computeCanonicalHash } = require('../utils/crypto');
+
+// Local fallback is append-only JSON Lines so each entry is a single write
+const STORAGE_FILE = path.join(__dirname, '../data/audit_log.jsonl');
+const GENESIS_HASH = '0x' + '0'.repeat(64);
+const VERIFY_PAGE_SIZE = 1000;
+const SEVERITIES = ['info', 'warning', 'critical'];
+// Times an append re-reads the chain tail after another process took its sequence number
+const MAX_APPEND_RETRIES = 5;
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+// Ensure data directory exists
+const dataDir = path.dirname(STORAGE_FILE);
+if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+}
+
+// Initial load
+let localEntries = [];
+if (fs.existsSync(STORAGE_FILE)) {
+    try {
+        localEntries = fs.readFileSync(STORAGE_FILE, 'utf8')
+            .split('\n')
+            .filter(line => line.trim())
+            .map(line => JSON.parse(line));
+    } catch (e) {
+        console.error('Failed to load audit log storage:', e);
+        localEntries = [];
+    }
+}
+
+let useDatabase = false;
+let lastEntry = null;
+
+// Appends are serialized behind initialize() so every entry links to the one before it
+let markReady;
+let appendQueue = new Promise(resolve => { markReady = resolve; });
+
+/**
+ * Choose the storage backend and load the tail of the hash chain
+ * @param {boolean} databaseReady - Whether Supabase is available
+ */
+async function initialize(databaseReady) {
+    useDatabase = databaseReady;
+    try {
+        lastEntry = useDatabase
+            ? await supabaseService.getLatestAuditEntry()
+            : localEntries[localEntries.length - 1] || null;
+    } catch (error) {
+        console.error('⚠️ Audit log falling back to local storage:', error.message);
+        useDatabase = false;
+        lastEntry = localEntries[localEntries.length - 1] || null;
+    }
+    markReady();
+}
+
+/**
+ * Compute the hash of an entry, covering every field and the previous entry's hash
+ */
+function computeEntryHash(entry) {
+    return computeCanonicalHash({
+        sequence: entry.sequence,
+        actor: entry.actor,
+        actor_name: entry.actor_name,
+        actor_role: entry.actor_role,
+        action: entry.action,
+        severity: entry.severity,
+        resource_type: entry.resource_type,
+        resource_id: entry.resource_id,
+        details: entry.details,
+        ip_address: entry.ip_address,
+        user_agent: entry.user_agent,
+        created_at: new Date(entry.created_at).toISOString(),
+        prev_hash: entry.prev_hash
+    });
+}
+
+function buildEntry(params) {
+    const entry = {
+        id: crypto.randomUUID(),
+        sequence: lastEntry ? Number(lastEntry.sequence) + 1 : 1,
+        actor: params.actor || 'SYSTEM',
+        actor_name: params.actorName || null,
+        actor_role: params.actorRole || null,
+        action: params.action,
+        severity: SEVERITIES.includes(params.severity) ? params.severity : 'info',
+        resource_type: params.resourceType || null,
+        resource_id: params.resourceId != null ? String(params.resourceId) : null,
+        details: JSON.parse(JSON.stringify(params.details || {})),
+        ip_address: params.ipAddress ? params.ipAddress.replace(/^::ffff:/, '') : null,
+        user_agent: params.userAgent || null,
+        created_at: new Date().toISOString(),
+        prev_hash: lastEntry ? lastEntry.entry_hash : GENESIS_HASH
+    };
+    entry.entry_hash = computeEntryHash(entry);
+    return entry;
+}
+
+async function appendEntry(params) {
+    if (!useDatabase) {
+        const entry = buildEntry(params);
+        fs.appendFileSync(STORAGE_FILE, JSON.stringify(entry) + '\n');
+        localEntries.push(entry);
+        lastEntry = entry;
+        return entry;
+    }
+
+    // Another server writing to the same database may have taken the next sequence
+    // number; the UNIQUE constraint rejects the duplicate, so link to its entry instead
+    for (let attempt = 0; ; attempt++) {
+        const entry = buildEntry(params);
+        try {
+            await supabaseService.saveAuditEntry(entry);
+            lastEntry = entry;
+            return entry;
+        } catch (error) {
+            if (error.code !== UNIQUE_VIOLATION || attempt >= MAX_APPEND_RETRIES) throw error;
+            lastEntry = await supabaseService.getLatestAuditEntry();
+        }
+    }
+}
+
+/**
+ * Append an entry to the audit log
+ * @param {Object} params
+ * @param {string} params.actor - Badge number of the caller, or "SYSTEM"
+ * @param {string} [params.actorName] - Display name of the caller
+ * @param {string} [params.actorRole] - Role of the caller
+ * @param {string} params.action - e.g. "CUSTODY_EVENT_LOGGED"
+ * @param {string} [params.severity] - info | warning | critical (defaults to info)
+ * @param {string} [params.resourceType] - e.g. "evidence"
+ * @param {string} [params.resourceId] - e.g. the evidence ID
+ * @param {Object} [params.details] - Extra context (never secrets)
+ * @param {string} [params.ipAddress]
+ * @param {string} [params.userAgent]
+ * @returns {Promise<Object|null>} - The stored entry, or null on failure
+ */
+function recordAuditEntry(params) {
+    const task = appendQueue.then(() => appendEntry(params));
+    appendQueue = task.catch(() => { });
+
+    return task.catch(error => {
+        console.error('⚠️ Audit log failed to record entry:', error.message);
+        return null;
+    });
+}
+
+/**
+ * Check whether a local entry matches the query filters
+ */
+function matchesFilters(entry, filters) {
+    if (filters.actor) {
+        const needle = filters.actor.toLowerCase();
+        const byBadge = entry.actor === filters.actor;
+        const byName = (entry.actor_name || '').toLowerCase().includes(needle);
+        if (!byBadge && !byName) return false;
+    }
+    if (filters.actions && filters.actions.length && !filters.actions.includes(entry.action)) return false;
+    if (filters.resourceType && entry.resource_type !== filters.resourceType) return false;
+    if (filters.resourceId && entry.resource_id !== filters.resourceId) return false;
+    if (filters.severities && filters.severities.length && !filters.severities.includes(entry.severity || 'info')) return false;
+    if (filters.from && new Date(entry.created_at) < new Date(filters.from)) return false;
+    if (filters.to && new Date(entry.created_at) > new Date(filters.to)) return false;
+    return true;
+}
+
+/**
+ * Get one page of audit entries, newest first
+ * @param {Object} filters - { actor, actions, resourceType, resourceId, severities, from, to }
+ * @param {Object} page - { cursor, limit }; cursor is the sequence to continue below
+ * @returns {Promise<Object>} - { entries, nextCursor }
+ */
+async function queryAuditEntries(filters = {}, { cursor = null, limit = 50 } = {}) {
+    let entries;
+    if (useDatabase) {
+        // Fetch one extra row to learn whether another page exists
+        entries = await supabaseService.getAuditEntries({ ascending: false, beforeSequence: cursor, limit: limit + 1, filters });
+    } else {
+        entries = [];
+        for (let i = localEntries.length - 1; i >= 0 && entries.length <= limit; i--) {
+            const entry = localEntries[i];
+            if (cursor !== null && Number(entry.sequence) >= cursor) continue;
+            if (matchesFilters(entry, filters)) entries.push(entry);
+        }
+    }
+
+    const hasMore = entries.length > limit;
+    entries = entries.slice(0, limit);
+
+    return {
+        entries,
+        nextCursor: hasMore ? Number(entries[entries.length - 1].sequence) : null
+    };
+}
+
+/**
+ * Collect every entry matching the filters, oldest first, for export
+ * @param {Object} filters
+ * @param {number} maxRows - Hard cap on the export size
+ * @returns {Promise<Object>} - { entries, truncated }
+ */
+async function collectAuditEntries(filters = {}, maxRows = 50000) {
+    let entries = [];
+    if (useDatabase) {
+        let afterSequence = null;
+        while (entries.length <= maxRows) {
+            const page = await supabaseService.getAuditEntries({ ascending: true, afterSequence, limit: VERIFY_PAGE_SIZE, filters });
+            entries.push(...page);
+            if (page.length < VERIFY_PAGE_SIZE) break;
+            afterSequence = page[page.length - 1].sequence;
+        }
+    } else {
+        entries = localEntries.filter(entry => matchesFilters(entry, filters));
+    }
+
+    return {
+        entries: entries.slice(0, maxRows),
+        truncated: entries.length > maxRows
+    };
+}
+
+/**
+ * Walk the whole chain and report the first broken link
+ * @returns {Promise<Object>} - { valid, totalEntries, headHash, brokenAt }
+ */
+async function verifyChain() {
+    let previous = null;
+    let totalEntries = 0;
+
+    const check = (entry) => {
+        const expectedSequence = previous ? Number(previous.sequence) + 1 : 1;
+        const expectedPrevHash = previous ? previous.entry_hash : GENESIS_HASH;
+        const recomputed = computeEntryHash(entry);
+
+        let reason = null;
+        if (Number(entry.sequence) !== expectedSequence) {
+            reason = `Sequence gap: expected #${expectedSequence}, found #${entry.sequence}`;
+        } else if (entry.prev_hash !== expectedPrevHash) {
+            reason = 'Previous-hash link does not match the preceding entry';
+        } else if (entry.entry_hash !== recomputed) {
+            reason = 'Entry contents do not match its stored hash';
+        }
+
+        if (reason) {
+            return {
+                sequence: Number(entry.sequence),
+                id: entry.id,
+                reason,
+                storedHash: entry.entry_hash,
+                recomputedHash: recomputed,
+                expectedPrevHash,
+                actualPrevHash: entry.prev_hash
+            };
+        }
+
+        previous = entry;
+        totalEntries++;
+        return null;
+    };
+
+    if (useDatabase) {
+        let afterSequence = null;
+        for (;;) {
+            const page = await supabaseService.getAuditEntries({ ascending: true, afterSequence, limit: VERIFY_PAGE_SIZE });
+            for (const entry of page) {
+                const brokenAt = check(entry);
+                if (brokenAt) return { valid: false, totalEntries, headHash: previous ? previous.entry_hash : GENESIS_HASH, brokenAt };
+            }
+            if (page.length < VERIFY_PAGE_SIZE) break;
+            afterSequence = page[page.length - 1].sequence;
+        }
+    } else {
+        for (const entry of localEntries) {
+            const brokenAt = check(entry);
+            if (brokenAt) return { valid: false, totalEntries, headHash: previous ? previous.entry_hash : GENESIS_HASH, brokenAt };
+        }
+    }
+
+    return { valid: true, totalEntries, headHash: previous ? previous.entry_hash : GENESIS_HASH, brokenAt: null };
+}
+
+module.exports = {
+    SEVERITIES,
+    initialize,
+    recordAuditEntry,
+    queryAuditEntries,
+    collectAuditEntries,
+    verifyChain,
+    computeEntryHash
+};
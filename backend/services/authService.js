@@ -0,0 +1,99 @@
+/**
+ * Auth Service - Issues and validates session tokens for badge holders
+ */
+
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const { verifyPassword } = require('../utils/crypto');
+const { getPermissionsForRole } = require('../config/permissions');
+require('dotenv').config();
+
+const TOKEN_TTL = process.env.JWT_EXPIRES_IN || '8h';
+
+class AuthService {
+    constructor() {
+        this.secret = process.env.JWT_SECRET;
+        if (!this.secret) {
+            // Tokens will not survive a restart, but the server stays usable for local development
+            console.warn('⚠️  JWT_SECRET not set - using an ephemeral signing key');
+            this.secret = crypto.randomBytes(32).toString('hex');
+        }
+
+        // jti -> expiry (ms); logged-out tokens are rejected until they expire
+        this.revoked = new Map();
+    }
+
+    /**
+     * Check credentials against a stored user row
+     * @returns {Object|null} - Public user profile, or null if the credentials are wrong
+     */
+    checkCredentials(userRow, password) {
+        if (!userRow || userRow.active === false) return null;
+        if (!verifyPassword(password, userRow.password_hash)) return null;
+        return this.toPublicUser(userRow);
+    }
+
+    /**
+     * Map a users table row to the frontend User shape
+     */
+    toPublicUser(userRow) {
+        return {
+            id: userRow.id,
+            name: userRow.name,
+            role: userRow.role,
+            badgeNumber: userRow.badge_number,
+            custodyRole: userRow.custody_role || null,
+            permissions: getPermissionsForRole(userRow.role)
+        };
+    }
+
+    /**
+     * Sign a session token for a user
+     */
+    issueToken(user) {
+        const token = jwt.sign(
+            { name: user.name, role: user.role, badgeNumber: user.badgeNumber, custodyRole: user.custodyRole },
+            this.secret,
+            { subject: String(user.id), jwtid: crypto.randomUUID(), expiresIn: TOKEN_TTL }
+        );
+        const { exp } = jwt.decode(token);
+
+        return { token, expiresAt: new Date(exp * 1000).toISOString() };
+    }
+
+    /**
+     * Validate a session token
+     * @returns {Object} - The authenticated user with the token id attached
+     * @throws if the token is invalid, expired or revoked
+     */
+    verifyToken(token) {
+        const payload = jwt.verify(token, this.secret);
+        if (this.revoked.has(payload.jti)) {
+            throw new Error('Token has been revoked');
+        }
+
+        return {
+            id: payload.sub,
+            name: payload.name,
+            role: payload.role,
+            badgeNumber: payload.badgeNumber,
+            custodyRole: payload.custodyRole || null,
+            permissions: getPermissionsForRole(payload.role),
+            tokenId: payload.jti,
+            tokenExpiresAt: payload.exp * 1000
+        };
+    }
+
+    /**
+     * Revoke a token on logout
+     */
+    revokeToken(user) {
+        const now = Date.now();
+        for (const [jti, expiresAt] of this.revoked) {
+            if (expiresAt < now) this.revoked.delete(jti);
+        }
+        this.revoked.set(user.tokenId, user.tokenExpiresAt);
+    }
+}
+
+module.exports = new AuthService();
@@ -0,0 +1,195 @@
+/**
+ * Batch Service - Evidence registered in bulk under a single on-chain Merkle root
+ */
+
+const fs = require('fs');
+const path = require('path');
+const supabaseService = require('./supabaseService');
+const evidenceStorage = require('./evidenceStorage');
+
+// Local fallback when Supabase is not configured
+const STORAGE_FILE = path.join(__dirname, '../data/batches.json');
+
+// Batch items have no evidence ID on chain, so they are numbered within their batch: B<batchId>-<item>
+const BATCH_ITEM_ID_PATTERN = /^B(\d+)-(\d+)$/;
+
+let useDatabase = false;
+
+// Ensure data directory exists
+const dataDir = path.dirname(STORAGE_FILE);
+if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+}
+
+function loadLocalBatches() {
+    if (!fs.existsSync(STORAGE_FILE)) return [];
+    try {
+        return JSON.parse(fs.readFileSync(STORAGE_FILE, 'utf8'));
+    } catch (e) {
+        console.error('Failed to load batch storage:', e);
+        return [];
+    }
+}
+
+let batches = loadLocalBatches();
+
+function persist() {
+    try {
+        fs.writeFileSync(STORAGE_FILE, JSON.stringify(batches, null, 2));
+    } catch (e) {
+        console.error('Failed to persist batches:', e);
+    }
+}
+
+function fromRow(row) {
+    return {
+        batchId: String(row.batch_id),
+        caseId: row.case_id,
+        merkleRoot: row.merkle_root,
+        itemCount: row.item_count,
+        txHash: row.tx_hash,
+        blockNumber: row.block_number,
+        gasUsed: row.gas_used,
+        registeredBy: { badgeNumber: row.registered_by, name: row.registered_by_name || row.registered_by },
+        registeredAt: new Date(row.created_at).toISOString()
+    };
+}
+
+function toRow(batch) {
+    return {
+        batch_id: batch.batchId,
+        case_id: batch.caseId,
+        merkle_root: batch.merkleRoot,
+        item_count: batch.itemCount,
+        tx_hash: batch.txHash,
+        block_number: batch.blockNumber,
+        gas_used: batch.gasUsed,
+        registered_by: batch.registeredBy.badgeNumber,
+        registered_by_name: batch.registeredBy.name,
+        created_at: batch.registeredAt
+    };
+}
+
+// Batch fields of an evidence row, named as in the local store
+function itemFromRow(row) {
+    return {
+        evidenceId: row.evidence_id,
+        fileName: row.file_name,
+        fileSize: row.file_size,
+        evidenceHash: row.sha256_hash,
+        batchIndex: row.batch_index,
+        merkleProof: row.merkle_proof,
+        storagePath: row.storage_path
+    };
+}
+
+/**
+ * Choose the batch store
+ * @param {boolean} databaseReady - Whether Supabase initialized
+ */
+function initialize(databaseReady) {
+    useDatabase = databaseReady;
+    if (!useDatabase) batches = loadLocalBatches();
+}
+
+/**
+ * Evidence ID of the item at a position in a batch
+ * @param {string} batchId
+ * @param {number} index - Zero-based position in the Merkle tree
+ */
+function batchItemId(batchId, index) {
+    return `B${batchId}-${index + 1}`;
+}
+
+/**
+ * Whether an evidence ID belongs to a batch item rather than an individually registered one
+ */
+function isBatchItemId(evidenceId) {
+    return BATCH_ITEM_ID_PATTERN.test(String(evidenceId));
+}
+
+/**
+ * Save a registered batch and its items
+ * @param {Object} batch - { batchId, caseId, merkleRoot, itemCount, txHash, blockNumber, gasUsed, registeredBy, registeredAt }
+ * @param {Array<Object>} items - Evidence metadata in the local store's shape, including batch fields
+ */
+async function saveBatch(batch, items) {
+    if (useDatabase) {
+        await supabaseService.saveEvidenceBatch(toRow(batch));
+        await supabaseService.saveEvidenceItems(items.map(item => ({
+            evidence_id: item.evidenceId,
+            case_id: item.caseId,
+            file_name: item.fileName,
+            file_size: item.fileSize,
+            mime_type: item.mimeType,
+            evidence_type: item.evidenceType || 'Unknown',
+            source: item.source || 'Batch Upload',
+            collected_by: item.collectedBy,
+            sha256_hash: item.evidenceHash,
+            storage_path: item.storagePath,
+            tx_hash: item.txHash,
+            block_number: item.blockNumber,
+            batch_id: item.batchId,
+            batch_index: item.batchIndex,
+            merkle_proof: item.merkleProof,
+            ai_analysis: null
+        })));
+        return;
+    }
+
+    batches.unshift(batch);
+    persist();
+    evidenceStorage.saveEvidenceItems(items);
+}
+
+/**
+ * Get a batch with its items in tree order
+ * @param {string} batchId
+ * @returns {Promise<Object|null>} - { batch, items }
+ */
+async function getBatch(batchId) {
+    if (useDatabase) {
+        const row = await supabaseService.getEvidenceBatch(batchId);
+        if (!row) return null;
+        const items = await supabaseService.getEvidenceByBatch(batchId);
+        return { batch: fromRow(row), items: items.map(itemFromRow) };
+    }
+
+    const batch = batches.find(b => b.batchId === String(batchId));
+    if (!batch) return null;
+    const items = evidenceStorage.getAllEvidence()
+        .filter(e => e.batchId === batch.batchId)
+        .sort((a, b) => a.batchIndex - b.batchIndex)
+        .map(({ evidenceId, fileName, fileSize, evidenceHash, batchIndex, merkleProof, storagePath }) =>
+            ({ evidenceId, fileName, fileSize, evidenceHash, batchIndex, merkleProof, storagePath: storagePath || null }));
+    return { batch, items };
+}
+
+/**
+ * Point a batch and its items at the transaction that now anchors its root, e.g. after a registry migration
+ * @param {string} batchId
+ * @param {Object} anchor - { txHash, blockNumber, gasUsed }
+ */
+async function updateBatchAnchor(batchId, { txHash, blockNumber, gasUsed }) {
+    if (useDatabase) {
+        await supabaseService.updateEvidenceBatch(batchId,
+            { tx_hash: txHash, block_number: blockNumber, gas_used: gasUsed },
+            { tx_hash: txHash, block_number: blockNumber });
+        return;
+    }
+
+    const batch = batches.find(b => b.batchId === String(batchId));
+    if (!batch) return;
+    Object.assign(batch, { txHash, blockNumber, gasUsed });
+    persist();
+    evidenceStorage.updateEvidence(e => e.batchId === batch.batchId, { txHash, blockNumber });
+}
+
+module.exports = {
+    initialize,
+    batchItemId,
+    isBatchItemId,
+    saveBatch,
+    getBatch,
+    updateBatchAnchor
+};
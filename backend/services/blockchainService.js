@@ -7,23 +7,64 @@ const EVIDENCE_REGISTRY_ABI = [
     "function logCustodyEvent(uint256 evidenceId, bytes32 action) external",
     "function logCustodyEventWithMetadata(uint256 evidenceId, bytes32 action, bytes32 metadataHash) external",
     "function verifyEvidence(uint256 evidenceId, bytes32 submittedHash) external returns (bool verified)",
+    "function checkEvidence(uint256 evidenceId, bytes32 submittedHash) external view returns (bool matches, bytes32 expectedHash, uint8 status)",
     "function getEvidence(uint256 evidenceId) external view returns (tuple(bytes32 evidenceHash, string caseId, address collector, uint256 timestamp, uint8 status, uint256 custodyEventCount))",
     "function getCustodyEvent(uint256 evidenceId, uint256 eventIndex) external view returns (tuple(address handler, bytes32 action, uint256 timestamp, bytes32 metadataHash))",
     "function getCustodyEventCount(uint256 evidenceId) external view returns (uint256 count)",
     "function getEvidenceCount() external view returns (uint256)",
+    "function registerBatch(bytes32 merkleRoot, string calldata caseId, uint256 itemCount) external returns (uint256 batchId)",
+    "function verifyBatchItem(uint256 batchId, bytes32 itemHash, bytes32[] calldata proof) external view returns (bool)",
+    "function getBatch(uint256 batchId) external view returns (tuple(bytes32 merkleRoot, string caseId, uint256 itemCount, address collector, uint256 timestamp))",
+    "function getBatchCount() external view returns (uint256)",
     "function getActionHash(string memory actionName) external pure returns (bytes32)",
+    "function isRegisteredVerifier(address verifier) external view returns (bool)",
+    "function attestVerification(uint256 evidenceId, bool verified) external",
+    "function getAttestationCount(uint256 evidenceId) external view returns (uint256)",
+    "function getAttestation(uint256 evidenceId, uint256 index) external view returns (tuple(address verifier, bool verified, uint256 timestamp))",
+    "function getConsensus(uint256 evidenceId) external view returns (tuple(uint8 status, uint256 confirmations, uint256 rejections))",
+    "function quorumThreshold() external view returns (uint256)",
+    "function hasRole(bytes32 role, address account) external view returns (bool)",
+    "function grantRole(bytes32 role, address account) external",
+    "function revokeRole(bytes32 role, address account) external",
     "event EvidenceRegistered(uint256 indexed evidenceId, bytes32 indexed evidenceHash, string caseId, address indexed collector, uint256 timestamp)",
+    "event BatchRegistered(uint256 indexed batchId, bytes32 indexed merkleRoot, string caseId, uint256 itemCount, address indexed collector, uint256 timestamp)",
     "event CustodyEventLogged(uint256 indexed evidenceId, address indexed handler, bytes32 action, uint256 eventIndex, uint256 timestamp)",
     "event VerificationPassed(uint256 indexed evidenceId, address indexed verifier, uint256 timestamp)",
-    "event TamperDetected(uint256 indexed evidenceId, address indexed verifier, bytes32 expectedHash, bytes32 submittedHash, uint256 timestamp)"
+    "event TamperDetected(uint256 indexed evidenceId, address indexed verifier, bytes32 expectedHash, bytes32 submittedHash, uint256 timestamp)",
+    "event VerificationAttested(uint256 indexed evidenceId, address indexed verifier, bool verified, uint256 timestamp)",
+    "event QuorumReached(uint256 indexed evidenceId, bool verified, uint256 confirmations, uint256 rejections, uint256 threshold, uint256 timestamp)",
+    "event AttestationDisputed(uint256 indexed evidenceId, uint256 confirmations, uint256 rejections, uint256 timestamp)",
+    "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender, uint256 timestamp)",
+    "event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender, uint256 timestamp)",
+    "event PolicyViolation(uint256 indexed evidenceId, address indexed violator, bytes32 violationType, string details, uint256 timestamp)"
 ];
 
+// EvidenceRegistry.EvidenceStatus, by enum value
+const EVIDENCE_STATUSES = ['NONE', 'REGISTERED', 'FLAGGED', 'VERIFIED'];
+// EvidenceRegistry.ConsensusStatus, by enum value
+const CONSENSUS_STATUSES = ['NONE', 'PENDING', 'CONFIRMED', 'REJECTED', 'DISPUTED'];
+// EvidenceRegistry access roles; each role ID is keccak256 of its name
+const CONTRACT_ROLES = ['ADMIN', 'COLLECTOR', 'CUSTODIAN', 'VERIFIER'];
+// Hardhat and Ganache; a local chain is short enough to search from genesis
+const LOCAL_CHAIN_IDS = [31337n, 1337n];
+
+function toBytes32(hash) {
+    return hash.startsWith('0x') ? hash : `0x${hash}`;
+}
+
 class BlockchainService {
     constructor() {
         this.provider = null;
         this.signer = null;
+        this.signerAddress = null;
         this.contract = null;
         this.initialized = false;
+        // Access roles defined by the registry
+        this.contractRoles = CONTRACT_ROLES;
+        // Verifier nodes that sign attestations: { name, address, signer, contract }
+        this.verifiers = [];
+        // Block the contract was deployed in; event searches start here
+        this.deployBlock = null;
     }
 
     async initialize() {
@@ -60,16 +101,22 @@ class BlockchainService {
                 this.signer
             );
 
+            this.verifiers = await this.loadVerifiers(!privateKey);
+
             // Test connection
             const network = await this.provider.getNetwork();
+            this.deployBlock = this.readDeployBlock(network.chainId);
             const signerAddress = await this.signer.getAddress();
+            this.signerAddress = signerAddress;
 
             console.log('✅ Blockchain connected:');
             console.log('   Network:', network.name, `(chainId: ${network.chainId})`);
-            console.log('   Contract:', contractAddress);
+            console.log('   Contract:', contractAddress, `(deployed in block ${this.deployBlock})`);
             console.log('   Signer:', signerAddress);
+            console.log('   Verifier nodes:', this.verifiers.length);
 
             this.initialized = true;
+            await this.checkSignerRoles(signerAddress);
             return true;
         } catch (error) {
             console.error('❌ Blockchain initialization failed:', error.message);
@@ -78,148 +125,356 @@ class BlockchainService {
     }
 
     /**
-     * Register evidence on blockchain
+     * CONTRACT_DEPLOY_BLOCK, which only a local chain may leave unset
      */
-    async registerEvidence(evidenceHash, caseId) {
-        if (!this.initialized) {
-            throw new Error('Blockchain service not initialized');
+    readDeployBlock(chainId) {
+        const value = process.env.CONTRACT_DEPLOY_BLOCK;
+        if (value === undefined || value.trim() === '') {
+            if (LOCAL_CHAIN_IDS.includes(chainId)) return 0;
+            throw new Error(`CONTRACT_DEPLOY_BLOCK must be set on chain ${chainId}; deploy.js records it in deployment-info.json`);
+        }
+        const block = Number(value);
+        if (!Number.isInteger(block) || block < 0) {
+            throw new Error(`CONTRACT_DEPLOY_BLOCK must be a block number, got "${value}"`);
         }
+        return block;
+    }
 
-        try {
-            // Convert hash to bytes32 if it's a hex string
-            const hashBytes32 = evidenceHash.startsWith('0x') ? evidenceHash : `0x${evidenceHash}`;
-
-            console.log('📝 Registering evidence on blockchain...');
-            console.log('   Hash:', hashBytes32);
-            console.log('   Case ID:', caseId);
-
-            const tx = await this.contract.registerEvidence(hashBytes32, caseId);
-            console.log('   Transaction sent:', tx.hash);
-
-            const receipt = await tx.wait();
-            console.log('   Transaction confirmed in block:', receipt.blockNumber);
-
-            // Extract evidence ID from event
-            const event = receipt.logs.find(log => {
-                try {
-                    const parsed = this.contract.interface.parseLog(log);
-                    return parsed && parsed.name === 'EvidenceRegistered';
-                } catch {
-                    return false;
-                }
-            });
+    /**
+     * Verifier node keys from VERIFIER1_KEY, VERIFIER2_KEY, ...
+     * @param {boolean} useNodeAccounts - With no keys set, use the node's accounts 1-3 as deploy.js does
+     */
+    async loadVerifiers(useNodeAccounts) {
+        const signers = [];
+        for (let i = 1; process.env[`VERIFIER${i}_KEY`]; i++) {
+            signers.push(new ethers.Wallet(process.env[`VERIFIER${i}_KEY`], this.provider));
+        }
+        if (signers.length === 0 && useNodeAccounts) {
+            const accounts = await this.provider.listAccounts();
+            for (let i = 1; i <= 3 && i < accounts.length; i++) {
+                signers.push(await this.provider.getSigner(i));
+            }
+        }
 
-            if (event) {
-                const parsed = this.contract.interface.parseLog(event);
-                const evidenceId = parsed.args[0];
+        return Promise.all(signers.map(async (signer, i) => ({
+            name: `Verifier ${i + 1}`,
+            address: await signer.getAddress(),
+            signer,
+            contract: this.contract.connect(signer)
+        })));
+    }
 
-                return {
-                    evidenceId: evidenceId.toString(),
-                    txHash: receipt.hash,
-                    blockNumber: receipt.blockNumber,
-                    gasUsed: receipt.gasUsed.toString()
-                };
+    /**
+     * Warn when the signing account cannot make the writes the backend sends
+     */
+    async checkSignerRoles(signerAddress) {
+        try {
+            const roles = await this.getRoles(signerAddress);
+            const missing = ['COLLECTOR', 'CUSTODIAN'].filter(role => !roles.includes(role));
+            if (missing.length) {
+                console.warn(`⚠️  Signer lacks ${missing.join(' and ')} on chain - registrations and custody logs will revert`);
             }
-
-            throw new Error('EvidenceRegistered event not found in receipt');
         } catch (error) {
-            console.error('❌ Evidence registration failed:', error);
-            throw error;
+            console.warn('⚠️  Could not read signer roles:', error.message);
+        }
+    }
+
+    /**
+     * Contract function and arguments for a write that goes through the transaction outbox
+     * @param {string} kind - REGISTER_EVIDENCE | REGISTER_BATCH | LOG_CUSTODY_EVENT | VERIFY_EVIDENCE | SET_ROLE | ATTEST_VERIFICATION
+     * @param {Object} params - Inputs recorded with the outbox entry
+     */
+    encodeCall(kind, params) {
+        switch (kind) {
+            case 'REGISTER_EVIDENCE':
+                return { method: 'registerEvidence', args: [toBytes32(params.evidenceHash), params.caseId] };
+            case 'REGISTER_BATCH':
+                return { method: 'registerBatch', args: [toBytes32(params.merkleRoot), params.caseId, params.itemCount] };
+            case 'LOG_CUSTODY_EVENT':
+                // getActionHash is keccak256 of the name, so it is computed locally
+                return params.metadataHash
+                    ? { method: 'logCustodyEventWithMetadata', args: [params.evidenceId, ethers.id(params.action), toBytes32(params.metadataHash)] }
+                    : { method: 'logCustodyEvent', args: [params.evidenceId, ethers.id(params.action)] };
+            case 'VERIFY_EVIDENCE':
+                return { method: 'verifyEvidence', args: [params.evidenceId, toBytes32(params.submittedHash)] };
+            case 'SET_ROLE':
+                return { method: params.action === 'REVOKE' ? 'revokeRole' : 'grantRole', args: [ethers.id(params.role), params.account] };
+            case 'ATTEST_VERIFICATION':
+                return { method: 'attestVerification', args: [params.evidenceId, params.verified] };
+            default:
+                throw new Error(`Unknown contract write: ${kind}`);
+        }
+    }
+
+    /**
+     * Account that signs a contract write: the verifier node for an attestation, the backend signer otherwise
+     */
+    senderOf(kind, params) {
+        return kind === 'ATTEST_VERIFICATION' ? params.verifier : this.signerAddress;
+    }
+
+    /**
+     * Signer holding the key of an account this server sends from
+     */
+    signerFor(address) {
+        if (address.toLowerCase() === this.signerAddress.toLowerCase()) return this.signer;
+        const node = this.verifiers.find(v => v.address.toLowerCase() === address.toLowerCase());
+        if (!node) {
+            throw new Error(`No key configured for ${address}`);
         }
+        return node.signer;
     }
 
     /**
-     * Log custody event on blockchain
+     * Unsigned transaction request for a contract write, from the account that signs it
      */
-    async logCustodyEvent(evidenceId, action, metadataHash = null) {
+    prepareTransaction(kind, params) {
         if (!this.initialized) {
             throw new Error('Blockchain service not initialized');
         }
 
-        try {
-            // Get action hash
-            const actionHash = await this.contract.getActionHash(action);
-
-            console.log(`📋 Logging custody event: ${action}`);
-            console.log('   Evidence ID:', evidenceId);
-            console.log('   Action Hash:', actionHash);
+        const { method, args } = this.encodeCall(kind, params);
+        return {
+            from: this.senderOf(kind, params),
+            to: this.contract.target,
+            data: this.contract.interface.encodeFunctionData(method, args)
+        };
+    }
 
-            let tx;
-            if (metadataHash) {
-                const metadataBytes32 = metadataHash.startsWith('0x') ? metadataHash : `0x${metadataHash}`;
-                tx = await this.contract.logCustodyEventWithMetadata(evidenceId, actionHash, metadataBytes32);
-            } else {
-                tx = await this.contract.logCustodyEvent(evidenceId, actionHash);
+    /**
+     * Events emitted by this contract in a receipt
+     */
+    parseReceiptEvents(receipt) {
+        const events = [];
+        for (const log of receipt.logs) {
+            try {
+                const parsed = this.contract.interface.parseLog(log);
+                if (parsed) events.push(parsed);
+            } catch {
+                // Logs from other contracts
             }
+        }
+        return events;
+    }
+
+    /**
+     * Result of a mined contract write, in the shape the direct methods return
+     */
+    readTransactionResult(kind, receipt) {
+        const base = {
+            txHash: receipt.hash,
+            blockNumber: receipt.blockNumber,
+            gasUsed: receipt.gasUsed.toString()
+        };
+        const events = this.parseReceiptEvents(receipt);
+
+        if (kind === 'REGISTER_EVIDENCE') {
+            const registered = events.find(event => event.name === 'EvidenceRegistered');
+            if (!registered) throw new Error('EvidenceRegistered event not found in receipt');
+            return { evidenceId: registered.args.evidenceId.toString(), ...base };
+        }
+
+        if (kind === 'REGISTER_BATCH') {
+            const registered = events.find(event => event.name === 'BatchRegistered');
+            if (!registered) throw new Error('BatchRegistered event not found in receipt');
+            return { batchId: registered.args.batchId.toString(), ...base };
+        }
 
-            console.log('   Transaction sent:', tx.hash);
-            const receipt = await tx.wait();
-            console.log('   Transaction confirmed in block:', receipt.blockNumber);
+        if (kind === 'ATTEST_VERIFICATION') {
+            const attested = events.find(event => event.name === 'VerificationAttested');
+            if (!attested) throw new Error('VerificationAttested event not found in receipt');
+            return {
+                verifier: attested.args.verifier,
+                verified: attested.args.verified,
+                timestamp: Number(attested.args.timestamp),
+                ...base
+            };
+        }
 
+        if (kind === 'VERIFY_EVIDENCE') {
+            const verification = events.find(event => event.name === 'VerificationPassed' || event.name === 'TamperDetected');
+            if (!verification) throw new Error('No verification event found');
+            if (verification.name === 'VerificationPassed') {
+                return { verified: true, ...base, timestamp: Date.now() };
+            }
             return {
-                txHash: receipt.hash,
-                blockNumber: receipt.blockNumber,
-                gasUsed: receipt.gasUsed.toString()
+                verified: false,
+                ...base,
+                expectedHash: verification.args.expectedHash,
+                submittedHash: verification.args.submittedHash,
+                timestamp: Date.now()
             };
+        }
+
+        return base;
+    }
+
+    /**
+     * Send a contract write and wait for it to be mined, bypassing the outbox.
+     * Only for tools run while the server is stopped: the outbox tracks the signer's nonce.
+     */
+    async sendAndWait(kind, params) {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
+        }
+
+        const { method, args } = this.encodeCall(kind, params);
+        const tx = await this.contract[method](...args);
+        return this.readTransactionResult(kind, await tx.wait());
+    }
+
+    /**
+     * Read-only handle on another deployment of the registry, e.g. one being migrated from
+     * @param {string} address - Contract address
+     * @param {Object} provider - ethers provider for that deployment's chain
+     */
+    connectRegistry(address, provider) {
+        return new ethers.Contract(address, EVIDENCE_REGISTRY_ABI, provider);
+    }
+
+    /**
+     * Send a prepared transaction without waiting for it to be mined
+     * @param {Object} request - From prepareTransaction(); its from address picks the key
+     * @param {Object} overrides - { nonce, maxFeePerGas, maxPriorityFeePerGas } or { nonce, gasPrice }, optionally gasLimit
+     * @returns {Promise<Object>} - { hash, gasLimit }
+     */
+    async sendPreparedTransaction(request, overrides) {
+        const tx = await this.signerFor(request.from).sendTransaction({ ...request, ...overrides });
+        return { hash: tx.hash, gasLimit: tx.gasLimit.toString() };
+    }
+
+    /**
+     * Transaction count of an account this server sends from; 'pending' includes transactions not yet mined
+     */
+    async getAccountNonce(address, blockTag = 'pending') {
+        return this.provider.getTransactionCount(address, blockTag);
+    }
+
+    /**
+     * Current network fee suggestion
+     */
+    async getFeeData() {
+        return this.provider.getFeeData();
+    }
+
+    /**
+     * Receipt of a transaction, or null while it is not mined
+     */
+    async getTransactionReceipt(txHash) {
+        return this.provider.getTransactionReceipt(txHash);
+    }
+
+    /**
+     * Find the registration of a hash from its EvidenceRegistered event, e.g. when
+     * a transaction was sent but its hash was lost before it could be recorded
+     * @returns {Promise<Object|null>} - { evidenceId, txHash, blockNumber, gasUsed }
+     */
+    async findRegistration(evidenceHash) {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
+        }
+
+        const logs = await this.contract.queryFilter(this.contract.filters.EvidenceRegistered(null, toBytes32(evidenceHash)), this.deployBlock);
+        if (!logs.length) return null;
+        const receipt = await this.provider.getTransactionReceipt(logs[0].transactionHash);
+        return this.readTransactionResult('REGISTER_EVIDENCE', receipt);
+    }
+
+    /**
+     * Find a batch registration from its BatchRegistered event, e.g. when the
+     * transaction was sent but its hash was lost before it could be recorded.
+     * The same root can be registered more than once, so the latest one is taken.
+     * @returns {Promise<Object|null>} - { batchId, txHash, blockNumber, gasUsed }
+     */
+    async findBatchRegistration(merkleRoot) {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
+        }
+
+        const logs = await this.contract.queryFilter(this.contract.filters.BatchRegistered(null, toBytes32(merkleRoot)), this.deployBlock);
+        if (!logs.length) return null;
+        const receipt = await this.provider.getTransactionReceipt(logs[logs.length - 1].transactionHash);
+        return this.readTransactionResult('REGISTER_BATCH', receipt);
+    }
+
+    /**
+     * Find a verifier's attestation of an item from its VerificationAttested event,
+     * e.g. when the transaction was sent but its hash was lost before it could be recorded
+     * @returns {Promise<Object|null>} - { verifier, verified, timestamp, txHash, blockNumber, gasUsed }
+     */
+    async findAttestation(evidenceId, verifier) {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
+        }
+
+        const logs = await this.contract.queryFilter(this.contract.filters.VerificationAttested(evidenceId, verifier), this.deployBlock);
+        if (!logs.length) return null;
+        const receipt = await this.provider.getTransactionReceipt(logs[0].transactionHash);
+        return this.readTransactionResult('ATTEST_VERIFICATION', receipt);
+    }
+
+    /**
+     * Check an item's Merkle proof against its batch root using the contract's view function
+     */
+    async verifyBatchItem(batchId, itemHash, proof) {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
+        }
+
+        try {
+            const hashBytes32 = itemHash.startsWith('0x') ? itemHash : `0x${itemHash}`;
+            return await this.contract.verifyBatchItem(batchId, hashBytes32, proof);
         } catch (error) {
-            console.error('❌ Custody event logging failed:', error);
+            console.error('❌ Batch item check failed:', error);
             throw error;
         }
     }
 
     /**
-     * Verify evidence integrity
+     * Get batch details from blockchain
      */
-    async verifyEvidence(evidenceId, submittedHash) {
+    async getBatch(batchId) {
         if (!this.initialized) {
             throw new Error('Blockchain service not initialized');
         }
 
         try {
-            const hashBytes32 = submittedHash.startsWith('0x') ? submittedHash : `0x${submittedHash}`;
-
-            console.log('🔍 Verifying evidence on blockchain...');
-            console.log('   Evidence ID:', evidenceId);
-            console.log('   Submitted Hash:', hashBytes32);
+            const batch = await this.contract.getBatch(batchId);
 
-            const tx = await this.contract.verifyEvidence(evidenceId, hashBytes32);
-            const receipt = await tx.wait();
+            return {
+                merkleRoot: batch[0],
+                caseId: batch[1],
+                itemCount: Number(batch[2]),
+                collector: batch[3],
+                timestamp: Number(batch[4])
+            };
+        } catch (error) {
+            console.error('❌ Failed to get batch:', error);
+            throw error;
+        }
+    }
 
-            // Check for VerificationPassed or TamperDetected events
-            const verificationEvent = receipt.logs.find(log => {
-                try {
-                    const parsed = this.contract.interface.parseLog(log);
-                    return parsed && (parsed.name === 'VerificationPassed' || parsed.name === 'TamperDetected');
-                } catch {
-                    return false;
-                }
-            });
+    /**
+     * Compare a hash with the registered one using the contract's view function.
+     * Nothing is written: no gas, no events, and the stored status is left alone.
+     */
+    async checkEvidence(evidenceId, submittedHash) {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
+        }
 
-            if (verificationEvent) {
-                const parsed = this.contract.interface.parseLog(verificationEvent);
-
-                if (parsed.name === 'VerificationPassed') {
-                    return {
-                        verified: true,
-                        txHash: receipt.hash,
-                        blockNumber: receipt.blockNumber,
-                        timestamp: Date.now()
-                    };
-                } else if (parsed.name === 'TamperDetected') {
-                    return {
-                        verified: false,
-                        txHash: receipt.hash,
-                        blockNumber: receipt.blockNumber,
-                        expectedHash: parsed.args.expectedHash,
-                        submittedHash: parsed.args.submittedHash,
-                        timestamp: Date.now()
-                    };
-                }
-            }
+        try {
+            const hashBytes32 = submittedHash.startsWith('0x') ? submittedHash : `0x${submittedHash}`;
+            const [matches, expectedHash, status] = await this.contract.checkEvidence(evidenceId, hashBytes32);
 
-            throw new Error('No verification event found');
+            return {
+                matches,
+                expectedHash,
+                status: Number(status),
+                statusName: EVIDENCE_STATUSES[Number(status)] || 'UNKNOWN'
+            };
         } catch (error) {
-            console.error('❌ Evidence verification failed:', error);
+            console.error('❌ Evidence check failed:', error);
             throw error;
         }
     }
@@ -249,6 +504,137 @@ class BlockchainService {
         }
     }
 
+    /**
+     * Number of individually registered evidence items; their IDs run from 1 to this
+     */
+    async getEvidenceCount() {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
+        }
+        return Number(await this.contract.getEvidenceCount());
+    }
+
+    /**
+     * Number of registered batches; their IDs run from 1 to this
+     */
+    async getBatchCount() {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
+        }
+        return Number(await this.contract.getBatchCount());
+    }
+
+    /**
+     * Whether an address holds the verifier role
+     */
+    async isRegisteredVerifier(address) {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
+        }
+        return this.contract.isRegisteredVerifier(address);
+    }
+
+    /**
+     * Record a verifier node's verdict on an item, signed with that node's key, and wait for it to be mined.
+     * Only for tools run while the server is stopped: the outbox tracks each node's nonce.
+     * @param {string} verifierAddress - One of this.verifiers
+     */
+    async attestVerification(verifierAddress, evidenceId, verified) {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
+        }
+        const node = this.verifiers.find(v => v.address.toLowerCase() === verifierAddress.toLowerCase());
+        if (!node) {
+            throw new Error(`No key configured for verifier ${verifierAddress}`);
+        }
+
+        try {
+            console.log(`📝 ${node.name} attesting Evidence #${evidenceId}: ${verified ? 'verified' : 'rejected'}`);
+            const tx = await node.contract.attestVerification(evidenceId, verified);
+            return this.readTransactionResult('ATTEST_VERIFICATION', await tx.wait());
+        } catch (error) {
+            console.error('❌ Attestation failed:', error.message);
+            throw error;
+        }
+    }
+
+    /**
+     * Agreement among an item's attestations
+     */
+    async getConsensus(evidenceId) {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
+        }
+
+        const consensus = await this.contract.getConsensus(evidenceId);
+        return {
+            status: CONSENSUS_STATUSES[Number(consensus[0])] || 'UNKNOWN',
+            confirmations: Number(consensus[1]),
+            rejections: Number(consensus[2])
+        };
+    }
+
+    /**
+     * Agreeing attestations the contract needs to settle an item's consensus
+     */
+    async getQuorumThreshold() {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
+        }
+        return Number(await this.contract.quorumThreshold());
+    }
+
+    /**
+     * Names of the registry roles an address holds
+     */
+    async getRoles(address) {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
+        }
+
+        const held = await Promise.all(CONTRACT_ROLES.map(role => this.contract.hasRole(ethers.id(role), address)));
+        return CONTRACT_ROLES.filter((role, i) => held[i]);
+    }
+
+    /**
+     * Every attestation recorded for an item, oldest first
+     */
+    async getAttestations(evidenceId) {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
+        }
+
+        const count = Number(await this.contract.getAttestationCount(evidenceId));
+        const attestations = [];
+        for (let i = 0; i < count; i++) {
+            const attestation = await this.contract.getAttestation(evidenceId, i);
+            attestations.push({
+                verifier: attestation[0],
+                verified: attestation[1],
+                timestamp: Number(attestation[2])
+            });
+        }
+        return attestations;
+    }
+
+    /**
+     * Get one custody event of an item
+     */
+    async getCustodyEvent(evidenceId, eventIndex) {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
+        }
+
+        const event = await this.contract.getCustodyEvent(evidenceId, eventIndex);
+        return {
+            handler: event[0],
+            action: event[1],
+            timestamp: Number(event[2]),
+            metadataHash: event[3],
+            eventIndex: Number(eventIndex)
+        };
+    }
+
     /**
      * Get all custody events for evidence
      */
@@ -263,14 +649,7 @@ class BlockchainService {
             const events = [];
 
             for (let i = 0; i < eventCount; i++) {
-                const event = await this.contract.getCustodyEvent(evidenceId, i);
-                events.push({
-                    handler: event[0],
-                    action: event[1],
-                    timestamp: Number(event[2]),
-                    metadataHash: event[3],
-                    eventIndex: i
-                });
+                events.push(await this.getCustodyEvent(evidenceId, i));
             }
 
             return events;
@@ -281,18 +660,122 @@ class BlockchainService {
     }
 
     /**
-     * Get action name from hash
+     * Chain ID and contract address the service is connected to
+     */
+    async getNetworkInfo() {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
+        }
+
+        const network = await this.provider.getNetwork();
+        return {
+            chainId: network.chainId.toString(),
+            network: network.name,
+            contractAddress: await this.contract.getAddress()
+        };
+    }
+
+    /**
+     * Entries of the contract ABI, in JSON form, for the named functions and events
+     */
+    getAbiFragments(names) {
+        const abi = JSON.parse(new ethers.Interface(EVIDENCE_REGISTRY_ABI).formatJson());
+        return abi.filter(fragment => names.includes(fragment.name));
+    }
+
+    /**
+     * Block and log position of the transaction that registered an evidence item
      */
-    async getActionName(actionHash) {
-        const actions = ['COLLECTED', 'ACCESSED', 'TRANSFERRED', 'VERIFIED', 'ANALYZED'];
+    async getRegistrationReceipt(evidenceId, txHash) {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
+        }
+
+        const receipt = await this.provider.getTransactionReceipt(txHash);
+        if (!receipt) return null;
 
-        for (const action of actions) {
-            const hash = await this.contract.getActionHash(action);
-            if (hash === actionHash) {
-                return action;
+        const log = receipt.logs.find(entry => {
+            try {
+                const parsed = this.contract.interface.parseLog(entry);
+                return parsed && parsed.name === 'EvidenceRegistered' && parsed.args.evidenceId.toString() === String(evidenceId);
+            } catch {
+                return false;
             }
+        });
+        if (!log) return null;
+
+        return {
+            txHash: receipt.hash,
+            blockNumber: receipt.blockNumber,
+            blockHash: receipt.blockHash,
+            logIndex: log.index
+        };
+    }
+
+    /**
+     * Transactions that logged each custody event of an item, keyed by event index
+     * @param {number} fromBlock - Block to start searching from (the registration block)
+     */
+    async getCustodyEventLogs(evidenceId, fromBlock) {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
+        }
+
+        const logs = await this.contract.queryFilter(this.contract.filters.CustodyEventLogged(evidenceId), fromBlock);
+        const byIndex = new Map();
+        for (const log of logs) {
+            byIndex.set(Number(log.args.eventIndex), {
+                txHash: log.transactionHash,
+                blockNumber: log.blockNumber,
+                blockHash: log.blockHash,
+                logIndex: log.index
+            });
+        }
+        return byIndex;
+    }
+
+    /**
+     * Latest block number of the connected chain
+     */
+    async getBlockNumber() {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
+        }
+        return this.provider.getBlockNumber();
+    }
+
+    /**
+     * Registry events of the given names in a block range, in chain order
+     * @returns {Promise<Array>} - { name, args, txHash, blockNumber, logIndex }; args are plain values
+     */
+    async getRegistryLogs(eventNames, fromBlock, toBlock) {
+        if (!this.initialized) {
+            throw new Error('Blockchain service not initialized');
         }
-        return 'UNKNOWN';
+
+        const iface = this.contract.interface;
+        const logs = await this.provider.getLogs({
+            address: await this.contract.getAddress(),
+            fromBlock,
+            toBlock,
+            topics: [eventNames.map(name => iface.getEvent(name).topicHash)]
+        });
+
+        return logs.map(log => {
+            const parsed = iface.parseLog(log);
+            const args = {};
+            parsed.fragment.inputs.forEach((input, i) => {
+                const value = parsed.args[i];
+                args[input.name] = typeof value === 'bigint' ? value.toString() : value;
+            });
+            return {
+                name: parsed.name,
+                args,
+                txHash: log.transactionHash,
+                blockNumber: log.blockNumber,
+                logIndex: log.index
+            };
+        });
     }
 
     /**
@@ -0,0 +1,212 @@
+/**
+ * Case Service - Investigation cases that evidence is registered against
+ */
+
+const fs = require('fs');
+const path = require('path');
+const supabaseService = require('./supabaseService');
+
+// Local fallback when Supabase is not configured
+const STORAGE_FILE = path.join(__dirname, '../data/cases.json');
+
+const CASE_STATUSES = ['OPEN', 'CLOSED'];
+
+// Case numbers are stored on chain with each evidence item, so keep them short and unambiguous
+const CASE_NUMBER_PATTERN = /^[A-Za-z0-9][A-Za-z0-9-]{1,39}$/;
+
+let useDatabase = false;
+
+// Ensure data directory exists
+const dataDir = path.dirname(STORAGE_FILE);
+if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+}
+
+function loadLocalCases() {
+    if (!fs.existsSync(STORAGE_FILE)) return [];
+    try {
+        return JSON.parse(fs.readFileSync(STORAGE_FILE, 'utf8'));
+    } catch (e) {
+        console.error('Failed to load case storage:', e);
+        return [];
+    }
+}
+
+let cases = loadLocalCases();
+
+function persist() {
+    try {
+        fs.writeFileSync(STORAGE_FILE, JSON.stringify(cases, null, 2));
+    } catch (e) {
+        console.error('Failed to persist cases:', e);
+    }
+}
+
+// Compact reference to a user, as stored on cases
+function userRef(user) {
+    return { badgeNumber: user.badgeNumber, name: user.name };
+}
+
+function fromRow(row) {
+    return {
+        caseNumber: row.case_number,
+        title: row.title,
+        description: row.description,
+        status: row.status,
+        leadInvestigator: { badgeNumber: row.lead_investigator, name: row.lead_investigator_name || row.lead_investigator },
+        openedAt: new Date(row.opened_at).toISOString(),
+        closedAt: row.closed_at ? new Date(row.closed_at).toISOString() : null,
+        createdBy: { badgeNumber: row.created_by, name: row.created_by_name || row.created_by },
+        updatedAt: new Date(row.updated_at).toISOString()
+    };
+}
+
+function toRow(caseRecord) {
+    return {
+        case_number: caseRecord.caseNumber,
+        title: caseRecord.title,
+        description: caseRecord.description,
+        status: caseRecord.status,
+        lead_investigator: caseRecord.leadInvestigator.badgeNumber,
+        lead_investigator_name: caseRecord.leadInvestigator.name,
+        opened_at: caseRecord.openedAt,
+        closed_at: caseRecord.closedAt,
+        created_by: caseRecord.createdBy.badgeNumber,
+        created_by_name: caseRecord.createdBy.name,
+        updated_at: caseRecord.updatedAt
+    };
+}
+
+/**
+ * Choose the case store
+ * @param {boolean} databaseReady - Whether Supabase initialized
+ */
+function initialize(databaseReady) {
+    useDatabase = databaseReady;
+    if (!useDatabase) cases = loadLocalCases();
+}
+
+/**
+ * List cases, newest first
+ * @param {Object} [filters] - { status }
+ * @returns {Promise<Array>}
+ */
+async function listCases({ status = null } = {}) {
+    const all = useDatabase
+        ? (await supabaseService.getCases()).map(fromRow)
+        : [...cases].sort((a, b) => b.openedAt.localeCompare(a.openedAt));
+    return status ? all.filter(c => c.status === status) : all;
+}
+
+/**
+ * Get a case by its number
+ * @param {string} caseNumber
+ * @returns {Promise<Object|null>}
+ */
+async function getCase(caseNumber) {
+    if (useDatabase) {
+        const row = await supabaseService.getCaseByNumber(caseNumber);
+        return row ? fromRow(row) : null;
+    }
+    return cases.find(c => c.caseNumber === caseNumber) || null;
+}
+
+/**
+ * Open a new case
+ * @param {Object} params - { caseNumber, title, description }
+ * @param {Object} leadInvestigator - User leading the case
+ * @param {Object} actor - Authenticated user
+ * @returns {Promise<Object>} - { case } on success, or { error, code }
+ */
+async function createCase({ caseNumber, title, description }, leadInvestigator, actor) {
+    const number = caseNumber ? String(caseNumber).trim() : '';
+    if (!CASE_NUMBER_PATTERN.test(number)) {
+        return { error: 'Case number must be 2-40 letters, digits or dashes, e.g. CASE-2024-001', code: 400 };
+    }
+    if (!(title && title.trim())) return { error: 'Case title is required', code: 400 };
+    if (await getCase(number)) return { error: `Case ${number} already exists`, code: 409 };
+
+    const now = new Date().toISOString();
+    const caseRecord = {
+        caseNumber: number,
+        title: title.trim(),
+        description: description ? description.trim() : null,
+        status: 'OPEN',
+        leadInvestigator: userRef(leadInvestigator),
+        openedAt: now,
+        closedAt: null,
+        createdBy: userRef(actor),
+        updatedAt: now
+    };
+
+    if (useDatabase) {
+        return { case: fromRow(await supabaseService.saveCase(toRow(caseRecord))) };
+    }
+    cases.push(caseRecord);
+    persist();
+    return { case: caseRecord };
+}
+
+/**
+ * Edit a case. Closing stamps closedAt; reopening clears it.
+ * @param {string} caseNumber
+ * @param {Object} changes - { title, description, status }
+ * @param {Object|null} leadInvestigator - New lead, or null to keep the current one
+ * @returns {Promise<Object>} - { case, previousStatus } on success, or { error, code }
+ */
+async function updateCase(caseNumber, { title, description, status }, leadInvestigator) {
+    const existing = await getCase(caseNumber);
+    if (!existing) return { error: 'Case not found', code: 404 };
+
+    if (status !== undefined && !CASE_STATUSES.includes(status)) {
+        return { error: `status must be one of: ${CASE_STATUSES.join(', ')}`, code: 400 };
+    }
+    if (title !== undefined && !(title && title.trim())) return { error: 'Case title cannot be empty', code: 400 };
+
+    const nextStatus = status || existing.status;
+    const updated = {
+        ...existing,
+        title: title !== undefined ? title.trim() : existing.title,
+        description: description !== undefined ? (description ? description.trim() : null) : existing.description,
+        status: nextStatus,
+        leadInvestigator: leadInvestigator ? userRef(leadInvestigator) : existing.leadInvestigator,
+        closedAt: nextStatus === existing.status
+            ? existing.closedAt
+            : (nextStatus === 'CLOSED' ? new Date().toISOString() : null),
+        updatedAt: new Date().toISOString()
+    };
+
+    if (useDatabase) {
+        const row = await supabaseService.updateCase(caseNumber, toRow(updated));
+        return { case: fromRow(row), previousStatus: existing.status };
+    }
+    cases = cases.map(c => (c.caseNumber === caseNumber ? updated : c));
+    persist();
+    return { case: updated, previousStatus: existing.status };
+}
+
+/**
+ * Check that evidence may be registered against a case
+ * @param {string} caseNumber
+ * @returns {Promise<Object>} - { case } when the case exists and is open, or { error, code }
+ */
+async function checkCaseForUpload(caseNumber) {
+    const caseRecord = await getCase(caseNumber);
+    if (!caseRecord) {
+        return { error: `Case ${caseNumber} does not exist; open it on the Cases page first`, code: 400 };
+    }
+    if (caseRecord.status !== 'OPEN') {
+        return { error: `Case ${caseNumber} is closed; reopen it before adding evidence`, code: 409 };
+    }
+    return { case: caseRecord };
+}
+
+module.exports = {
+    CASE_STATUSES,
+    initialize,
+    listCases,
+    getCase,
+    createCase,
+    updateCase,
+    checkCaseForUpload
+};
@@ -0,0 +1,360 @@
+/**
+ * Chain Indexer Service - Mirrors registry events into the database
+ *
+ * Reading custody history straight from the contract costs one call per event,
+ * plus more to name each action. The indexer follows the registry's logs in
+ * block ranges instead, stores registrations, custody events, verifications,
+ * attestations with their quorum outcomes, policy violations and role changes
+ * with their transaction and block, and records the last block it processed so
+ * it resumes there after a restart. Custody, consensus, role and analytics
+ * queries are answered from the index.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { ethers } = require('ethers');
+const supabaseService = require('./supabaseService');
+const blockchainService = require('./blockchainService');
+const custodyPolicyService = require('./custodyPolicyService');
+
+// Local fallback when Supabase is not configured
+const STORAGE_FILE = path.join(__dirname, '../data/chain_index.json');
+
+const INDEXER_NAME = 'evidence-registry';
+const CUSTODY_EVENT = 'CustodyEventLogged';
+const CHAIN_EVENTS = ['EvidenceRegistered', 'VerificationPassed', 'TamperDetected', 'PolicyViolation', 'VerificationAttested', 'QuorumReached', 'AttestationDisputed', 'RoleGranted', 'RoleRevoked'];
+
+const POLL_INTERVAL_MS = parseInt(process.env.INDEXER_POLL_INTERVAL_MS, 10) || 5000;
+// RPC providers cap how many blocks one eth_getLogs call may cover
+const BLOCK_RANGE = parseInt(process.env.INDEXER_BLOCK_RANGE, 10) || 2000;
+// Blocks to stay behind the head so a reorg cannot leave orphaned events in the index
+const CONFIRMATIONS = parseInt(process.env.INDEXER_CONFIRMATIONS, 10) || 0;
+
+// Custody actions the backend logs; policies can name further steps
+const CUSTODY_ACTIONS = ['COLLECTED', 'SEALED', 'ACCESSED', 'TRANSFERRED', 'ANALYZED', 'VERIFIED', 'CHECKED_OUT', 'CHECKED_IN', 'VIOLATION', 'MIGRATED'];
+
+let useDatabase = false;
+let timer = null;
+// The sync pass in progress, shared by everyone waiting on it
+let syncing = null;
+let syncState = { contractAddress: null, lastBlock: null, syncedAt: null };
+
+// Ensure data directory exists
+const dataDir = path.dirname(STORAGE_FILE);
+if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+}
+
+function loadLocalIndex() {
+    const empty = { contractAddress: null, lastBlock: null, syncedAt: null, custodyEvents: [], chainEvents: [] };
+    if (!fs.existsSync(STORAGE_FILE)) return empty;
+    try {
+        return { ...empty, ...JSON.parse(fs.readFileSync(STORAGE_FILE, 'utf8')) };
+    } catch (e) {
+        console.error('Failed to load chain index:', e);
+        return empty;
+    }
+}
+
+let localIndex = loadLocalIndex();
+
+function persistLocal() {
+    try {
+        fs.writeFileSync(STORAGE_FILE, JSON.stringify({ ...localIndex, ...syncState }, null, 2));
+    } catch (e) {
+        console.error('Failed to persist chain index:', e);
+    }
+}
+
+function fromCustodyRow(row) {
+    return {
+        evidenceId: row.evidence_id,
+        eventIndex: row.event_index,
+        action: row.action,
+        actionHash: row.action_hash,
+        handler: row.handler,
+        metadataHash: row.metadata_hash,
+        txHash: row.tx_hash,
+        blockNumber: Number(row.block_number),
+        logIndex: row.log_index,
+        timestamp: new Date(row.timestamp).toISOString()
+    };
+}
+
+function toCustodyRow(event) {
+    return {
+        evidence_id: event.evidenceId,
+        event_index: event.eventIndex,
+        action: event.action,
+        action_hash: event.actionHash,
+        handler: event.handler,
+        metadata_hash: event.metadataHash,
+        tx_hash: event.txHash,
+        block_number: event.blockNumber,
+        log_index: event.logIndex,
+        timestamp: event.timestamp
+    };
+}
+
+function fromChainEventRow(row) {
+    return {
+        eventName: row.event_name,
+        evidenceId: row.evidence_id,
+        args: row.args,
+        txHash: row.tx_hash,
+        blockNumber: Number(row.block_number),
+        logIndex: row.log_index,
+        timestamp: new Date(row.timestamp).toISOString()
+    };
+}
+
+function toChainEventRow(event) {
+    return {
+        event_name: event.eventName,
+        evidence_id: event.evidenceId,
+        args: event.args,
+        tx_hash: event.txHash,
+        block_number: event.blockNumber,
+        log_index: event.logIndex,
+        timestamp: event.timestamp
+    };
+}
+
+/**
+ * Action hashes the index can name: the built-in actions and every step of every policy version
+ */
+async function getActionNames(extraNames = []) {
+    const names = new Set([...CUSTODY_ACTIONS, ...extraNames]);
+    const { policies } = await custodyPolicyService.listPolicies({ includeArchived: true });
+    for (const policy of policies) {
+        const { requiredOrder = [], actionRoles = {}, allowedSkips = [] } = policy.rules;
+        [...requiredOrder, ...Object.keys(actionRoles), ...allowedSkips].forEach(name => names.add(name));
+    }
+    return new Map([...names].map(name => [ethers.id(name), name]));
+}
+
+/**
+ * Turn registry logs into index records. Custody logs do not carry the
+ * metadata hash, so it is read from the contract once per event.
+ */
+async function buildRecords(logs, actionNames) {
+    const custodyEvents = [];
+    const chainEvents = [];
+    for (const log of logs) {
+        // Role changes are the only events not about an item
+        const evidenceId = log.args.evidenceId === undefined ? null : String(log.args.evidenceId);
+        const timestamp = new Date(Number(log.args.timestamp) * 1000).toISOString();
+        if (log.name === CUSTODY_EVENT) {
+            const stored = await blockchainService.getCustodyEvent(evidenceId, log.args.eventIndex);
+            custodyEvents.push({
+                evidenceId,
+                eventIndex: Number(log.args.eventIndex),
+                action: actionNames.get(log.args.action) || 'UNKNOWN',
+                actionHash: log.args.action,
+                handler: log.args.handler,
+                metadataHash: stored.metadataHash,
+                txHash: log.txHash,
+                blockNumber: log.blockNumber,
+                logIndex: log.logIndex,
+                timestamp
+            });
+        } else {
+            chainEvents.push({
+                eventName: log.name,
+                evidenceId,
+                args: log.args,
+                txHash: log.txHash,
+                blockNumber: log.blockNumber,
+                logIndex: log.logIndex,
+                timestamp
+            });
+        }
+    }
+    return { custodyEvents, chainEvents };
+}
+
+/**
+ * Store the records of a block range, then move the sync point past it.
+ * Records are keyed, so a range interrupted before the sync point moved is
+ * simply indexed again.
+ */
+async function saveRange({ custodyEvents, chainEvents }, lastBlock) {
+    const syncedAt = new Date().toISOString();
+
+    if (useDatabase) {
+        for (const event of custodyEvents) await supabaseService.saveCustodyEvent(toCustodyRow(event));
+        for (const event of chainEvents) await supabaseService.saveChainEvent(toChainEventRow(event));
+        await supabaseService.saveChainSyncState({
+            name: INDEXER_NAME,
+            contract_address: syncState.contractAddress,
+            last_block: lastBlock,
+            updated_at: syncedAt
+        });
+        syncState = { ...syncState, lastBlock, syncedAt };
+        return;
+    }
+
+    syncState = { ...syncState, lastBlock, syncedAt };
+    const custodyKey = event => `${event.evidenceId}:${event.eventIndex}`;
+    const chainKey = event => `${event.txHash}:${event.logIndex}`;
+    const newCustody = new Set(custodyEvents.map(custodyKey));
+    const newChain = new Set(chainEvents.map(chainKey));
+    localIndex.custodyEvents = [...localIndex.custodyEvents.filter(e => !newCustody.has(custodyKey(e))), ...custodyEvents];
+    localIndex.chainEvents = [...localIndex.chainEvents.filter(e => !newChain.has(chainKey(e))), ...chainEvents];
+    persistLocal();
+}
+
+async function runSync() {
+    const { contractAddress } = await blockchainService.getNetworkInfo();
+    if (syncState.contractAddress && syncState.contractAddress !== contractAddress) {
+        console.warn(`⚠️ [Indexer] Index was built from ${syncState.contractAddress}; indexing ${contractAddress} from its deploy block`);
+        syncState = { contractAddress, lastBlock: null, syncedAt: null };
+        // A migrated registry reuses evidence IDs, so records from the old one must not linger
+        if (useDatabase) await supabaseService.clearChainIndex();
+        localIndex = { ...localIndex, custodyEvents: [], chainEvents: [] };
+    }
+    syncState.contractAddress = contractAddress;
+
+    const head = (await blockchainService.getBlockNumber()) - CONFIRMATIONS;
+    let fromBlock = syncState.lastBlock === null ? blockchainService.deployBlock : syncState.lastBlock + 1;
+    if (fromBlock > head) return;
+
+    const actionNames = await getActionNames();
+    let indexed = 0;
+    while (fromBlock <= head) {
+        const toBlock = Math.min(fromBlock + BLOCK_RANGE - 1, head);
+        const logs = await blockchainService.getRegistryLogs([CUSTODY_EVENT, ...CHAIN_EVENTS], fromBlock, toBlock);
+        await saveRange(await buildRecords(logs, actionNames), toBlock);
+        indexed += logs.length;
+        fromBlock = toBlock + 1;
+    }
+    if (indexed) console.log(`🗂️  [Indexer] Indexed ${indexed} registry event(s) through block ${head}`);
+}
+
+/**
+ * Index everything up to the chain head, joining a pass already in progress
+ */
+function sync() {
+    if (!blockchainService.initialized) return Promise.resolve();
+    if (!syncing) {
+        syncing = runSync().finally(() => { syncing = null; });
+    }
+    return syncing;
+}
+
+/**
+ * Bring the index up to the head before answering a query. A pass that was
+ * already running may have started before the caller's transaction was mined,
+ * so it is followed by a fresh one. If the chain cannot be reached the query
+ * is answered from what is already indexed.
+ */
+async function catchUp() {
+    try {
+        if (syncing) await syncing.catch(() => {});
+        await sync();
+    } catch (error) {
+        console.warn('⚠️ [Indexer] Answering from the index without catching up:', error.message);
+    }
+}
+
+/**
+ * Choose the index store and load the sync point
+ * @param {boolean} databaseReady - Whether Supabase initialized
+ */
+async function initialize(databaseReady) {
+    useDatabase = databaseReady;
+    if (useDatabase) {
+        try {
+            const row = await supabaseService.getChainSyncState(INDEXER_NAME);
+            syncState = row
+                ? { contractAddress: row.contract_address, lastBlock: Number(row.last_block), syncedAt: new Date(row.updated_at).toISOString() }
+                : { contractAddress: null, lastBlock: null, syncedAt: null };
+        } catch (error) {
+            console.error('⚠️ Chain indexer falling back to local storage:', error.message);
+            useDatabase = false;
+        }
+    }
+    if (!useDatabase) {
+        localIndex = loadLocalIndex();
+        const { contractAddress, lastBlock, syncedAt } = localIndex;
+        syncState = { contractAddress, lastBlock, syncedAt };
+    }
+
+    if (syncState.lastBlock !== null) console.log(`🗂️  [Indexer] Resuming after block ${syncState.lastBlock}`);
+}
+
+/**
+ * Follow new blocks in the background
+ */
+function start() {
+    if (timer) return;
+    timer = setInterval(() => {
+        sync().catch(error => console.error('⚠️ Chain indexer pass failed:', error.message));
+    }, POLL_INTERVAL_MS);
+    timer.unref();
+    sync().catch(error => console.error('⚠️ Chain indexer pass failed:', error.message));
+}
+
+/**
+ * Custody events of an item, in log order
+ * @param {string[]} [actionNames] - Further names to try for actions the index could not name
+ * @returns {Promise<Array>} - { evidenceId, eventIndex, action, actionHash, handler, metadataHash, txHash, blockNumber, logIndex, timestamp }
+ */
+async function getCustodyEvents(evidenceId, actionNames = []) {
+    await catchUp();
+    const events = useDatabase
+        ? (await supabaseService.getCustodyEvents({ evidenceId: String(evidenceId) })).map(fromCustodyRow)
+        : localIndex.custodyEvents.filter(e => e.evidenceId === String(evidenceId));
+
+    const extra = new Map(actionNames.map(name => [ethers.id(name), name]));
+    return events
+        .map(event => (event.action === 'UNKNOWN' && extra.has(event.actionHash) ? { ...event, action: extra.get(event.actionHash) } : event))
+        .sort((a, b) => a.eventIndex - b.eventIndex);
+}
+
+/**
+ * Custody events of every item logged at or after a time, oldest first
+ */
+async function listCustodyEvents({ since = null } = {}) {
+    await catchUp();
+    if (useDatabase) {
+        return (await supabaseService.getCustodyEvents({ since })).map(fromCustodyRow);
+    }
+    return localIndex.custodyEvents
+        .filter(e => !since || e.timestamp >= since)
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * Indexed registrations, verifications, attestations, violations and role changes, oldest first
+ * @param {Object} [filters] - { evidenceId, eventName, since }
+ */
+async function listChainEvents({ evidenceId = null, eventName = null, since = null } = {}) {
+    await catchUp();
+    if (useDatabase) {
+        return (await supabaseService.getChainEvents({ evidenceId, eventName, since })).map(fromChainEventRow);
+    }
+    return localIndex.chainEvents
+        .filter(e => (!evidenceId || e.evidenceId === String(evidenceId))
+            && (!eventName || e.eventName === eventName)
+            && (!since || e.timestamp >= since))
+        .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
+
+/**
+ * Where the index stands, for the health check
+ */
+function getStatus() {
+    return { ...syncState, running: !!timer };
+}
+
+module.exports = {
+    initialize,
+    start,
+    sync,
+    getActionNames,
+    getCustodyEvents,
+    listCustodyEvents,
+    listChainEvents,
+    getStatus
+};
@@ -0,0 +1,118 @@
+/**
+ * Chain Role Service - Who may write to EvidenceRegistry
+ *
+ * The registry accepts registrations only from COLLECTOR holders, custody logs
+ * only from CUSTODIAN holders and attestations only from VERIFIER holders, and
+ * only an ADMIN can change who holds what. Changes are sent through the
+ * transaction outbox with the backend's account, so that account must hold
+ * ADMIN for them to go through.
+ * Current holders are rebuilt from the indexed RoleGranted and RoleRevoked
+ * events.
+ */
+
+const { ethers } = require('ethers');
+const blockchainService = require('./blockchainService');
+const chainIndexerService = require('./chainIndexerService');
+const txOutboxService = require('./txOutboxService');
+
+/**
+ * What this server knows an account as: its own signer or one of its verifier nodes
+ */
+function nameAccount(address, signerAddress) {
+    if (address.toLowerCase() === signerAddress.toLowerCase()) return 'Backend signer';
+    const node = blockchainService.verifiers.find(v => v.address.toLowerCase() === address.toLowerCase());
+    return node ? node.name : null;
+}
+
+/**
+ * Holders of every registry role, and the roles of the backend's signing account
+ * @returns {Promise<Object>} - { roles: [{ role, holders }], signer } or { error, code }
+ */
+async function listRoles() {
+    if (!blockchainService.initialized) {
+        return { error: 'Blockchain not available', code: 503 };
+    }
+
+    const [granted, revoked] = await Promise.all(
+        ['RoleGranted', 'RoleRevoked'].map(eventName => chainIndexerService.listChainEvents({ eventName }))
+    );
+    const changes = [...granted, ...revoked].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    const roleNames = new Map(blockchainService.contractRoles.map(role => [ethers.id(role), role]));
+
+    const holders = new Map(blockchainService.contractRoles.map(role => [role, new Map()]));
+    for (const change of changes) {
+        const role = roleNames.get(change.args.role);
+        if (!role) continue;
+        const key = change.args.account.toLowerCase();
+        if (change.eventName === 'RoleGranted') {
+            holders.get(role).set(key, {
+                address: change.args.account,
+                grantedBy: change.args.sender,
+                grantedAt: change.timestamp,
+                txHash: change.txHash
+            });
+        } else {
+            holders.get(role).delete(key);
+        }
+    }
+
+    const signerAddress = await blockchainService.signer.getAddress();
+    return {
+        roles: blockchainService.contractRoles.map(role => ({
+            role,
+            holders: [...holders.get(role).values()].map(holder => ({ ...holder, name: nameAccount(holder.address, signerAddress) }))
+        })),
+        signer: { address: signerAddress, roles: await blockchainService.getRoles(signerAddress) }
+    };
+}
+
+/**
+ * Queue a grant of a registry role to an account, or its revocation
+ * @param {string} action - GRANT | REVOKE
+ * @param {string} role - ADMIN | COLLECTOR | CUSTODIAN | VERIFIER
+ * @param {string} account - Address
+ * @param {Object} user - Who asked for the change
+ * @returns {Promise<Object>} - { role, account, name, action, outbox } or { error, code }
+ */
+async function changeRole(action, role, account, user) {
+    if (!blockchainService.initialized) {
+        return { error: 'Blockchain not available', code: 503 };
+    }
+    const roleName = String(role || '').toUpperCase();
+    if (!blockchainService.contractRoles.includes(roleName)) {
+        return { error: `role must be one of ${blockchainService.contractRoles.join(', ')}`, code: 400 };
+    }
+    if (!ethers.isAddress(account)) {
+        return { error: 'account must be an address', code: 400 };
+    }
+    const address = ethers.getAddress(account);
+
+    const signerAddress = await blockchainService.signer.getAddress();
+    if (!(await blockchainService.getRoles(signerAddress)).includes('ADMIN')) {
+        return { error: 'The backend signing account does not hold ADMIN on chain', code: 403 };
+    }
+    if (action === 'REVOKE' && roleName === 'ADMIN' && address === signerAddress) {
+        return { error: 'The backend signing account cannot revoke its own ADMIN role', code: 409 };
+    }
+    const held = (await blockchainService.getRoles(address)).includes(roleName);
+    if (action === 'GRANT' && held) {
+        return { error: `${address} already holds ${roleName}`, code: 409 };
+    }
+    if (action === 'REVOKE' && !held) {
+        return { error: `${address} does not hold ${roleName}`, code: 409 };
+    }
+
+    const entry = await txOutboxService.enqueue('SET_ROLE', { action, role: roleName, account: address }, {}, user);
+    return {
+        role: roleName,
+        account: address,
+        name: nameAccount(address, signerAddress),
+        action,
+        outbox: entry
+    };
+}
+
+module.exports = {
+    listRoles,
+    changeRole
+};
@@ -0,0 +1,418 @@
+/**
+ * Custody Policy Service - Versioned custody policies and their assignment to cases and evidence types
+ */
+
+const fs = require('fs');
+const path = require('path');
+const supabaseService = require('./supabaseService');
+const { CUSTODY_ROLES } = require('../config/permissions');
+
+// Local fallback when Supabase is not configured
+const STORAGE_FILE = path.join(__dirname, '../data/custody_policies.json');
+
+const DEFAULT_POLICY_ID = 'default';
+
+// Rules of the policy every evidence item falls back to
+const DEFAULT_RULES = {
+    allowedRoles: ['COLLECTOR', 'FORENSIC_ANALYST', 'DETECTIVE', 'COURT_CLERK'],
+    // Actions restricted to specific custody roles (actions not listed fall back to allowedRoles)
+    actionRoles: {
+        ANALYZED: ['FORENSIC_ANALYST']
+    },
+    requiredOrder: ['COLLECTED', 'SEALED', 'ANALYZED', 'VERIFIED'],
+    allowedSkips: [],
+    maxAccessDurationHours: 48,
+    noParallelAccess: true
+};
+
+// What a policy can be assigned to; a case assignment wins over an evidence type assignment
+const SCOPE_TYPES = ['CASE', 'EVIDENCE_TYPE'];
+
+const STEP_PATTERN = /^[A-Z][A-Z_]*$/;
+const MAX_ACCESS_DURATION_HOURS = 24 * 365;
+
+let useDatabase = false;
+
+// Ensure data directory exists
+const dataDir = path.dirname(STORAGE_FILE);
+if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+}
+
+function loadLocalStore() {
+    if (!fs.existsSync(STORAGE_FILE)) return { policies: [], assignments: [] };
+    try {
+        return JSON.parse(fs.readFileSync(STORAGE_FILE, 'utf8'));
+    } catch (e) {
+        console.error('Failed to load custody policy storage:', e);
+        return { policies: [], assignments: [] };
+    }
+}
+
+let store = loadLocalStore();
+
+function persist() {
+    try {
+        fs.writeFileSync(STORAGE_FILE, JSON.stringify(store, null, 2));
+    } catch (e) {
+        console.error('Failed to persist custody policies:', e);
+    }
+}
+
+// Compact reference to a user, as stored on policies and assignments
+function userRef(user) {
+    return { badgeNumber: user.badgeNumber, name: user.name };
+}
+
+function fromPolicyRow(row) {
+    return {
+        policyId: row.policy_id,
+        version: row.version,
+        name: row.name,
+        description: row.description,
+        rules: row.rules,
+        archived: !!row.archived,
+        createdBy: { badgeNumber: row.created_by, name: row.created_by_name || row.created_by },
+        createdAt: new Date(row.created_at).toISOString()
+    };
+}
+
+function fromAssignmentRow(row) {
+    return {
+        scopeType: row.scope_type,
+        scopeValue: row.scope_value,
+        policyId: row.policy_id,
+        assignedBy: { badgeNumber: row.assigned_by, name: row.assigned_by_name || row.assigned_by },
+        assignedAt: new Date(row.created_at).toISOString()
+    };
+}
+
+/**
+ * Choose the policy store and make sure the default policy exists
+ * @param {boolean} databaseReady - Whether Supabase initialized
+ */
+async function initialize(databaseReady) {
+    useDatabase = databaseReady;
+    if (!useDatabase) store = loadLocalStore();
+
+    try {
+        const versions = await getAllVersions();
+        if (!versions.some(p => p.policyId === DEFAULT_POLICY_ID)) {
+            await insertVersion({
+                policyId: DEFAULT_POLICY_ID,
+                version: 1,
+                name: 'Default custody policy',
+                description: 'Applies to evidence without a case or evidence type assignment',
+                rules: DEFAULT_RULES,
+                archived: false,
+                createdBy: { badgeNumber: 'system', name: 'System' },
+                createdAt: new Date().toISOString()
+            });
+            console.log('📜 Custody policies: seeded default policy');
+        }
+    } catch (error) {
+        // Another instance may have seeded it first
+        console.error('⚠️ Custody policies: could not seed default policy:', error.message);
+    }
+}
+
+async function getAllVersions() {
+    if (useDatabase) {
+        return (await supabaseService.getCustodyPolicies()).map(fromPolicyRow);
+    }
+    return store.policies;
+}
+
+async function getAssignments() {
+    if (useDatabase) {
+        return (await supabaseService.getPolicyAssignments()).map(fromAssignmentRow);
+    }
+    return store.assignments;
+}
+
+async function insertVersion(policy) {
+    if (useDatabase) {
+        return fromPolicyRow(await supabaseService.saveCustodyPolicy({
+            policy_id: policy.policyId,
+            version: policy.version,
+            name: policy.name,
+            description: policy.description,
+            rules: policy.rules,
+            archived: policy.archived,
+            created_by: policy.createdBy.badgeNumber,
+            created_by_name: policy.createdBy.name
+        }));
+    }
+    store.policies.push(policy);
+    persist();
+    return policy;
+}
+
+// Latest version of each policy
+function latestVersions(versions) {
+    const latest = new Map();
+    for (const policy of versions) {
+        const current = latest.get(policy.policyId);
+        if (!current || policy.version > current.version) latest.set(policy.policyId, policy);
+    }
+    return [...latest.values()];
+}
+
+/**
+ * Check and normalise policy rules
+ * @param {Object} rules - Candidate rules
+ * @returns {Object} - { rules } on success, or { error }
+ */
+function validateRules(rules) {
+    if (!rules || typeof rules !== 'object') return { error: 'rules are required' };
+
+    const { requiredOrder, allowedSkips = [], maxAccessDurationHours, noParallelAccess } = rules;
+    const allowedRoles = rules.allowedRoles || DEFAULT_RULES.allowedRoles;
+    const actionRoles = rules.actionRoles || {};
+
+    if (!Array.isArray(requiredOrder) || requiredOrder.length === 0) {
+        return { error: 'requiredOrder must list at least one custody step' };
+    }
+    const badStep = requiredOrder.find(step => typeof step !== 'string' || !STEP_PATTERN.test(step));
+    if (badStep !== undefined) {
+        return { error: `Invalid custody step ${badStep}; use upper-case names such as SEALED` };
+    }
+    if (new Set(requiredOrder).size !== requiredOrder.length) {
+        return { error: 'requiredOrder must not repeat a step' };
+    }
+
+    if (!Array.isArray(allowedSkips)) return { error: 'allowedSkips must be a list of steps' };
+    const unknownSkip = allowedSkips.find(step => !requiredOrder.includes(step));
+    if (unknownSkip !== undefined) {
+        return { error: `allowedSkips contains ${unknownSkip}, which is not in requiredOrder` };
+    }
+
+    if (typeof maxAccessDurationHours !== 'number' || !(maxAccessDurationHours > 0) || maxAccessDurationHours > MAX_ACCESS_DURATION_HOURS) {
+        return { error: `maxAccessDurationHours must be between 0 and ${MAX_ACCESS_DURATION_HOURS}` };
+    }
+    if (typeof noParallelAccess !== 'boolean') return { error: 'noParallelAccess must be true or false' };
+
+    const roleLists = [allowedRoles, ...Object.values(actionRoles)];
+    if (roleLists.some(list => !Array.isArray(list) || list.length === 0)) {
+        return { error: 'Role lists must name at least one custody role' };
+    }
+    const unknownRole = roleLists.flat().find(role => !CUSTODY_ROLES.includes(role));
+    if (unknownRole !== undefined) {
+        return { error: `Unknown custody role ${unknownRole}. Expected one of: ${CUSTODY_ROLES.join(', ')}` };
+    }
+
+    return {
+        rules: { allowedRoles, actionRoles, requiredOrder, allowedSkips, maxAccessDurationHours, noParallelAccess }
+    };
+}
+
+/**
+ * URL-safe policy ID derived from its name
+ */
+function slugify(name) {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * List the latest version of every policy, with current assignments
+ * @param {Object} [options]
+ * @param {boolean} [options.includeArchived]
+ * @returns {Promise<Object>} - { policies, assignments }
+ */
+async function listPolicies({ includeArchived = false } = {}) {
+    const policies = latestVersions(await getAllVersions())
+        .filter(policy => includeArchived || !policy.archived);
+    return { policies, assignments: await getAssignments() };
+}
+
+/**
+ * Get a policy's latest version and its version history
+ * @param {string} policyId
+ * @returns {Promise<Object|null>} - { policy, versions } (versions newest first)
+ */
+async function getPolicy(policyId) {
+    const versions = (await getAllVersions())
+        .filter(policy => policy.policyId === policyId)
+        .sort((a, b) => b.version - a.version);
+    if (!versions.length) return null;
+    return { policy: versions[0], versions };
+}
+
+/**
+ * Create a policy at version 1
+ * @param {Object} params - { name, description, rules }
+ * @param {Object} actor - Authenticated user
+ * @returns {Promise<Object>} - { policy } on success, or { error, code }
+ */
+async function createPolicy({ name, description, rules }, actor) {
+    if (!(name && name.trim())) return { error: 'Policy name is required', code: 400 };
+
+    const policyId = slugify(name);
+    if (!policyId) return { error: 'Policy name must contain letters or digits', code: 400 };
+    if (await getPolicy(policyId)) return { error: `Policy ${policyId} already exists`, code: 409 };
+
+    const checked = validateRules(rules);
+    if (checked.error) return { error: checked.error, code: 400 };
+
+    const policy = await insertVersion({
+        policyId,
+        version: 1,
+        name: name.trim(),
+        description: description ? description.trim() : null,
+        rules: checked.rules,
+        archived: false,
+        createdBy: userRef(actor),
+        createdAt: new Date().toISOString()
+    });
+    return { policy };
+}
+
+/**
+ * Save a new version of a policy; earlier versions are kept unchanged
+ * @param {string} policyId
+ * @param {Object} params - { name, description, rules }; name and description default to the current version
+ * @param {Object} actor - Authenticated user
+ * @returns {Promise<Object>} - { policy } on success, or { error, code }
+ */
+async function updatePolicy(policyId, { name, description, rules }, actor) {
+    const existing = await getPolicy(policyId);
+    if (!existing) return { error: 'Policy not found', code: 404 };
+    if (existing.policy.archived) return { error: 'Archived policies cannot be changed', code: 409 };
+
+    const checked = validateRules(rules);
+    if (checked.error) return { error: checked.error, code: 400 };
+
+    const policy = await insertVersion({
+        policyId,
+        version: existing.policy.version + 1,
+        name: name && name.trim() ? name.trim() : existing.policy.name,
+        description: description !== undefined ? (description ? description.trim() : null) : existing.policy.description,
+        rules: checked.rules,
+        archived: false,
+        createdBy: userRef(actor),
+        createdAt: new Date().toISOString()
+    });
+    return { policy };
+}
+
+/**
+ * Archive a policy. Its versions stay on record for custody events that used them.
+ * @param {string} policyId
+ * @returns {Promise<Object>} - { policy } on success, or { error, code }
+ */
+async function archivePolicy(policyId) {
+    const existing = await getPolicy(policyId);
+    if (!existing) return { error: 'Policy not found', code: 404 };
+    if (policyId === DEFAULT_POLICY_ID) return { error: 'The default policy cannot be archived', code: 409 };
+
+    const assigned = (await getAssignments()).filter(a => a.policyId === policyId);
+    if (assigned.length) {
+        const scopes = assigned.map(a => `${a.scopeType} ${a.scopeValue}`).join(', ');
+        return { error: `Policy is still assigned to ${scopes}`, code: 409 };
+    }
+
+    if (useDatabase) {
+        await supabaseService.archiveCustodyPolicy(policyId);
+    } else {
+        store.policies.forEach(policy => {
+            if (policy.policyId === policyId) policy.archived = true;
+        });
+        persist();
+    }
+    return { policy: { ...existing.policy, archived: true } };
+}
+
+/**
+ * Assign a policy to a case or an evidence type, replacing any earlier assignment
+ * @param {Object} params - { scopeType, scopeValue, policyId }
+ * @param {Object} actor - Authenticated user
+ * @returns {Promise<Object>} - { assignment } on success, or { error, code }
+ */
+async function assignPolicy({ scopeType, scopeValue, policyId }, actor) {
+    if (!SCOPE_TYPES.includes(scopeType)) {
+        return { error: `scopeType must be one of: ${SCOPE_TYPES.join(', ')}`, code: 400 };
+    }
+    if (!(scopeValue && String(scopeValue).trim())) return { error: 'scopeValue is required', code: 400 };
+
+    const existing = await getPolicy(policyId);
+    if (!existing) return { error: 'Policy not found', code: 404 };
+    if (existing.policy.archived) return { error: 'Archived policies cannot be assigned', code: 409 };
+
+    const assignment = {
+        scopeType,
+        scopeValue: String(scopeValue).trim(),
+        policyId,
+        assignedBy: userRef(actor),
+        assignedAt: new Date().toISOString()
+    };
+
+    if (useDatabase) {
+        return {
+            assignment: fromAssignmentRow(await supabaseService.savePolicyAssignment({
+                scope_type: assignment.scopeType,
+                scope_value: assignment.scopeValue,
+                policy_id: policyId,
+                assigned_by: assignment.assignedBy.badgeNumber,
+                assigned_by_name: assignment.assignedBy.name,
+                created_at: assignment.assignedAt
+            }))
+        };
+    }
+
+    store.assignments = store.assignments
+        .filter(a => !(a.scopeType === scopeType && a.scopeValue === assignment.scopeValue));
+    store.assignments.push(assignment);
+    persist();
+    return { assignment };
+}
+
+/**
+ * Remove the policy assignment for a case or evidence type
+ * @returns {Promise<Object>} - { removed: true } on success, or { error, code }
+ */
+async function unassignPolicy(scopeType, scopeValue) {
+    let removed;
+    if (useDatabase) {
+        removed = await supabaseService.deletePolicyAssignment(scopeType, scopeValue);
+    } else {
+        const before = store.assignments.length;
+        store.assignments = store.assignments
+            .filter(a => !(a.scopeType === scopeType && a.scopeValue === scopeValue));
+        removed = store.assignments.length < before;
+        if (removed) persist();
+    }
+    return removed ? { removed: true } : { error: 'Assignment not found', code: 404 };
+}
+
+/**
+ * Resolve the policy that governs a piece of evidence:
+ * case assignment, then evidence type assignment, then the default policy
+ * @param {Object} context - { caseId, evidenceType }
+ * @returns {Promise<Object>} - Latest version of the governing policy
+ */
+async function resolvePolicy({ caseId, evidenceType } = {}) {
+    const assignments = await getAssignments();
+    const match = (caseId && assignments.find(a => a.scopeType === 'CASE' && a.scopeValue === String(caseId)))
+        || (evidenceType && assignments.find(a => a.scopeType === 'EVIDENCE_TYPE' && a.scopeValue === evidenceType));
+
+    const resolved = await getPolicy(match ? match.policyId : DEFAULT_POLICY_ID);
+    if (resolved) return resolved.policy;
+
+    // Default policy could not be seeded (e.g. the table is missing); fall back to its built-in rules
+    return { policyId: DEFAULT_POLICY_ID, version: 0, name: 'Default custody policy', rules: DEFAULT_RULES };
+}
+
+module.exports = {
+    DEFAULT_POLICY_ID,
+    SCOPE_TYPES,
+    initialize,
+    validateRules,
+    listPolicies,
+    getPolicy,
+    createPolicy,
+    updatePolicy,
+    archivePolicy,
+    assignPolicy,
+    unassignPolicy,
+    resolvePolicy
+};
@@ -35,6 +35,21 @@ function saveEvidence(metadata) {
     }
 }
 
+/**
+ * Save metadata for several items with a single write
+ * @param {Array<Object>} items
+ */
+function saveEvidenceItems(items) {
+    evidence.unshift(...[...items].reverse());
+    try {
+        fs.writeFileSync(STORAGE_FILE, JSON.stringify(evidence, null, 2));
+        return true;
+    } catch (e) {
+        console.error('Failed to save evidence:', e);
+        return false;
+    }
+}
+
 /**
  * Get all evidence
  * @returns {Array}
@@ -52,8 +67,28 @@ function getEvidenceById(id) {
     return evidence.find(e => e.evidenceId === id);
 }
 
+/**
+ * Change fields of stored items
+ * @param {Function} match - Picks the items to change
+ * @param {Object} changes
+ * @returns {number} - Items changed
+ */
+function updateEvidence(match, changes) {
+    const matched = evidence.filter(match);
+    matched.forEach(e => Object.assign(e, changes));
+    if (!matched.length) return 0;
+    try {
+        fs.writeFileSync(STORAGE_FILE, JSON.stringify(evidence, null, 2));
+    } catch (e) {
+        console.error('Failed to save evidence:', e);
+    }
+    return matched.length;
+}
+
 module.exports = {
     saveEvidence,
+    saveEvidenceItems,
     getAllEvidence,
-    getEvidenceById
+    getEvidenceById,
+    updateEvidence
 };
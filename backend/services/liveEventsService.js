@@ -0,0 +1,111 @@
+/**
+ * Live Events Service - Pushes new alerts, custody events, registrations, chain write progress and reconciliation results to browsers over SSE
+ */
+
+const { hasPermission } = require('../config/permissions');
+
+// Permission a subscriber needs to receive each event type
+const EVENT_PERMISSIONS = {
+    'alert.created': 'alerts:read',
+    'alert.updated': 'alerts:read',
+    'custody.logged': 'custody:read',
+    'custody.violation': 'custody:read',
+    'evidence.registered': 'evidence:read',
+    'outbox.updated': 'evidence:read',
+    'reconciliation.completed': 'audit:read'
+};
+
+const HEARTBEAT_MS = 25000;
+// Recent events kept so a reconnecting browser can catch up via Last-Event-ID
+const REPLAY_BUFFER_SIZE = 200;
+// Longest delay setTimeout honours; anything larger fires immediately
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+class LiveEventsService {
+    constructor() {
+        this.clients = new Set();
+        this.buffer = [];
+        this.nextId = 1;
+    }
+
+    /**
+     * Attach an SSE response stream for an authenticated user
+     * @param {Object} req - Express request (req.user must be set)
+     * @param {Object} res - Express response kept open for the stream
+     */
+    subscribe(req, res) {
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no'
+        });
+        res.write('retry: 5000\n\n');
+
+        const client = { user: req.user, res };
+        this.clients.add(client);
+
+        // Replay anything missed since the browser's last event
+        const lastEventId = parseInt(req.get('Last-Event-ID'), 10);
+        if (!isNaN(lastEventId)) {
+            this.buffer
+                .filter(event => event.id > lastEventId)
+                .forEach(event => this._send(client, event));
+        }
+
+        const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+
+        // Close the stream when the session token expires; the browser reconnects with a fresh one.
+        // Sessions longer than one timer can span are waited out a step at a time.
+        let expiry;
+        const armExpiry = () => {
+            const remaining = Math.max(0, req.user.tokenExpiresAt - Date.now());
+            expiry = remaining > MAX_TIMER_DELAY_MS
+                ? setTimeout(armExpiry, MAX_TIMER_DELAY_MS)
+                : setTimeout(() => res.end(), remaining);
+        };
+        armExpiry();
+
+        req.on('close', () => {
+            clearInterval(heartbeat);
+            clearTimeout(expiry);
+            this.clients.delete(client);
+        });
+    }
+
+    /**
+     * Broadcast an event to every subscriber allowed to see it
+     * @param {string} type - One of EVENT_PERMISSIONS
+     * @param {Object} data - JSON payload
+     */
+    publish(type, data) {
+        const event = { id: this.nextId++, type, data, at: new Date().toISOString() };
+
+        this.buffer.push(event);
+        if (this.buffer.length > REPLAY_BUFFER_SIZE) this.buffer.shift();
+
+        for (const client of this.clients) {
+            this._send(client, event);
+        }
+    }
+
+    _send(client, event) {
+        const permission = EVENT_PERMISSIONS[event.type];
+        if (permission && !hasPermission(client.user.role, permission)) return;
+
+        try {
+            client.res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({ ...event.data, at: event.at })}\n\n`);
+        } catch (error) {
+            console.error('⚠️ Live event delivery failed:', error.message);
+        }
+    }
+
+    /**
+     * Number of open streams
+     */
+    getClientCount() {
+        return this.clients.size;
+    }
+}
+
+module.exports = new LiveEventsService();
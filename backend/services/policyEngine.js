@@ -3,31 +3,156 @@
  * ITEM #3: Minimal enforcement + on-chain violation record
  */
 
-// Sample policy for demonstration
-const defaultPolicy = {
-    allowedRoles: ['COLLECTOR', 'FORENSIC_ANALYST', 'DETECTIVE', 'COURT_CLERK'],
-    requiredOrder: ['COLLECTED', 'SEALED', 'ANALYZED', 'VERIFIED'],
-    allowedSkips: [],
-    maxAccessDurationHours: 48,
-    noParallelAccess: true
+const fs = require('fs');
+const path = require('path');
+const supabaseService = require('./supabaseService');
+const blockchainService = require('./blockchainService');
+const txOutboxService = require('./txOutboxService');
+const chainIndexerService = require('./chainIndexerService');
+const custodyPolicyService = require('./custodyPolicyService');
+const tamperLedgerService = require('./tamperLedgerService');
+const auditLogService = require('./auditLogService');
+const liveEventsService = require('./liveEventsService');
+const { computeObjectHash } = require('../utils/crypto');
+
+// Local fallback for per-evidence custody state when Supabase is not configured
+const STATE_FILE = path.join(__dirname, '../data/custody_state.json');
+
+// Custody role assumed for each account role when the user has no explicit custody_role
+const DEFAULT_CUSTODY_ROLES = {
+    Officer: 'COLLECTOR',
+    Detective: 'DETECTIVE',
+    Prosecutor: 'COURT_CLERK',
+    Judge: 'COURT_CLERK',
+    Admin: null
 };
 
-// In-memory state for demo (would be database in production)
-const activeCheckouts = new Map(); // evidenceId -> {handler, since}
-const custodyState = new Map(); // evidenceId -> currentStep
+const HOUR_MS = 1000 * 60 * 60;
+
+function loadLocalState() {
+    if (!fs.existsSync(STATE_FILE)) return {};
+    try {
+        return JSON.parse(fs.readFileSync(STATE_FILE, 'utf8'));
+    } catch (e) {
+        console.error('Failed to load custody state storage:', e);
+        return {};
+    }
+}
+
+function fromStateRow(row) {
+    return {
+        evidenceId: row.evidence_id,
+        currentStep: row.current_step,
+        checkout: row.checkout,
+        policyId: row.policy_id,
+        policyVersion: row.policy_version,
+        rebuiltFromChain: !!row.rebuilt_from_chain,
+        updatedAt: new Date(row.updated_at).toISOString()
+    };
+}
 
 class PolicyEngine {
+    constructor() {
+        this.useDatabase = false;
+        this.localState = loadLocalState(); // evidenceId -> state
+    }
+
     /**
-     * Validate custody action against policy
+     * Choose where custody state is persisted
+     * @param {boolean} databaseReady - Whether Supabase initialized
      */
-    async validateCustodyAction(evidenceId, action, handler, details) {
-        const policy = defaultPolicy; // In production, load from database
+    initialize(databaseReady) {
+        this.useDatabase = databaseReady;
+    }
 
-        // 1. Validate role (simplified - handler.role would come from auth)
-        // For demo, we allow all actions
+    /**
+     * Validate custody action against policy. Nothing is saved: the caller passes
+     * nextState to saveState once the custody event is queued for the chain, so a
+     * write that never happens does not advance the item or leave it checked out.
+     * @param {Object} actor - Authenticated user performing the action (req.user)
+     * @param {Object} [context] - { caseId, evidenceType } used to pick the governing policy
+     * @returns {Promise<Object>} - { valid, policy, nextState } or { valid: false, violation, details, policy }
+     */
+    async validateCustodyAction(evidenceId, action, actor, details, context = {}) {
+        const governing = await custodyPolicyService.resolvePolicy(context);
+        const policyRef = { policyId: governing.policyId, version: governing.version };
+
+        const state = await this.loadState(evidenceId, governing.rules);
+        const outcome = this._evaluate(state, action, actor, details, governing.rules);
+        if (!outcome.valid) {
+            return { valid: false, violation: outcome.violation, details: outcome.details, policy: policyRef };
+        }
+
+        return {
+            valid: true,
+            policy: policyRef,
+            nextState: {
+                evidenceId,
+                ...outcome.nextState,
+                policyId: policyRef.policyId,
+                policyVersion: policyRef.version,
+                rebuiltFromChain: false,
+                updatedAt: new Date().toISOString()
+            }
+        };
+    }
+
+    /**
+     * Dry run: check one or more custody actions against policy without recording
+     * anything. Each step sees the state left by the steps before it; a rejected
+     * step leaves the state unchanged, as it would for a real submission.
+     * @param {Array<string>} actions - Proposed actions, in order
+     * @param {Object} actor - Authenticated user who would perform them
+     * @param {Object} [details] - Details sent with the actions (e.g. { purpose })
+     * @param {Object} [context] - { caseId, evidenceType }
+     * @returns {Promise<Object>} - { valid, steps, policy, startState, finalState }
+     */
+    async simulateCustodyActions(evidenceId, actions, actor, details, context = {}) {
+        const governing = await custodyPolicyService.resolvePolicy(context);
+        const startState = await this.loadState(evidenceId, governing.rules, { persist: false });
+
+        let state = startState;
+        const steps = actions.map(action => {
+            const outcome = this._evaluate(state, action, actor, details, governing.rules);
+            if (!outcome.valid) {
+                return { action, valid: false, violation: outcome.violation, details: outcome.details };
+            }
+            state = outcome.nextState;
+            return { action, valid: true };
+        });
+
+        return {
+            valid: steps.every(step => step.valid),
+            steps,
+            policy: { policyId: governing.policyId, version: governing.version, name: governing.name },
+            startState: startState ? { currentStep: startState.currentStep, checkout: startState.checkout } : null,
+            finalState: state ? { currentStep: state.currentStep, checkout: state.checkout } : null
+        };
+    }
+
+    /**
+     * Run every policy check for one action against a custody state. Pure: the
+     * caller decides whether to persist nextState.
+     * @param {Object|null} state - { currentStep, checkout } or null for evidence with no history
+     * @param {Object} policy - Policy rules
+     * @returns {Object} - { valid: true, nextState } or { valid: false, violation, details }
+     */
+    _evaluate(state, action, actor, details, policy) {
+        const handler = actor.badgeNumber;
+        const checkout = state ? state.checkout : null;
+
+        // 1. Validate role
+        const roleCheck = this._validateRole(actor, action, policy);
+        if (!roleCheck.valid) {
+            return {
+                valid: false,
+                violation: 'ROLE_NOT_PERMITTED',
+                details: roleCheck.reason
+            };
+        }
 
         // 2. Validate custody order
-        const currentStep = custodyState.get(evidenceId) || 'NONE';
+        const currentStep = state ? state.currentStep : 'NONE';
         if (currentStep !== 'NONE') {
             const orderValid = this._validateOrder(currentStep, action, policy);
             if (!orderValid.valid) {
@@ -41,20 +166,18 @@ class PolicyEngine {
 
         // 3. Check parallel access
         if (policy.noParallelAccess && action !== 'COLLECTED') {
-            const checkout = activeCheckouts.get(evidenceId);
             if (checkout && checkout.handler !== handler) {
                 return {
                     valid: false,
                     violation: 'PARALLEL_ACCESS_VIOLATION',
-                    details: `Evidence currently held by ${checkout.handler}`
+                    details: `Evidence currently held by ${checkout.handlerName} (badge ${checkout.handler})`
                 };
             }
         }
 
         // 4. Check access duration
-        const checkout = activeCheckouts.get(evidenceId);
         if (checkout) {
-            const hoursHeld = (Date.now() - checkout.since) / (1000 * 60 * 60);
+            const hoursHeld = (Date.now() - checkout.since) / HOUR_MS;
             if (hoursHeld > policy.maxAccessDurationHours) {
                 return {
                     valid: false,
@@ -65,10 +188,125 @@ class PolicyEngine {
         }
 
         // All validations passed
-        // Update state
-        custodyState.set(evidenceId, action);
-        if (action === 'ACCESSED' || action === 'TRANSFERRED') {
-            activeCheckouts.set(evidenceId, { handler, since: Date.now() });
+        // Next state. Only steps in requiredOrder move the custody position; ad-hoc
+        // actions such as ACCESSED or CHECKED_OUT leave it where it was.
+        const since = Date.now();
+        return {
+            valid: true,
+            nextState: {
+                currentStep: policy.requiredOrder.includes(action) ? action : currentStep,
+                // Only a check-out hands the evidence to the caller; accesses and transfers are logged without one
+                checkout: action === 'CHECKED_OUT'
+                    ? {
+                        handler,
+                        handlerName: actor.name,
+                        since,
+                        dueAt: since + policy.maxAccessDurationHours * HOUR_MS,
+                        purpose: (details && details.purpose) || null,
+                        overdueFlaggedAt: null
+                    }
+                    : checkout
+            }
+        };
+    }
+
+    /**
+     * Get the persisted custody state for evidence
+     * @returns {Promise<Object|null>}
+     */
+    async getState(evidenceId) {
+        if (this.useDatabase) {
+            const row = await supabaseService.getCustodyState(String(evidenceId));
+            return row ? fromStateRow(row) : null;
+        }
+        return this.localState[evidenceId] || null;
+    }
+
+    async saveState(state) {
+        if (this.useDatabase) {
+            await supabaseService.saveCustodyState({
+                evidence_id: String(state.evidenceId),
+                current_step: state.currentStep,
+                checkout: state.checkout,
+                policy_id: state.policyId,
+                policy_version: state.policyVersion,
+                rebuilt_from_chain: state.rebuiltFromChain,
+                updated_at: state.updatedAt
+            });
+            return state;
+        }
+
+        this.localState[state.evidenceId] = state;
+        try {
+            fs.writeFileSync(STATE_FILE, JSON.stringify(this.localState, null, 2));
+        } catch (e) {
+            console.error('Failed to persist custody state:', e);
+        }
+        return state;
+    }
+
+    /**
+     * Persisted state, or state rebuilt from on-chain custody history when none was saved
+     * @param {Object} policy - Rules of the governing policy
+     * @param {Object} [options]
+     * @param {boolean} [options.persist] - Save a rebuilt state (false for dry runs)
+     * @returns {Promise<Object|null>}
+     */
+    async loadState(evidenceId, policy, { persist = true } = {}) {
+        const state = await this.getState(evidenceId);
+        if (state || !blockchainService.initialized) return state;
+        return this.rebuildState(evidenceId, policy, { persist });
+    }
+
+    /**
+     * Rebuild custody order state by replaying the indexed on-chain custody events.
+     * Checkouts cannot be recovered this way: the chain records the backend
+     * wallet as handler, not the officer holding the evidence.
+     * @param {Object} policy - Rules of the governing policy (its steps are recognised by name)
+     * @param {Object} [options]
+     * @param {boolean} [options.persist] - Save the rebuilt state (default true)
+     * @returns {Promise<Object|null>} - The rebuilt state, or null if nothing was logged on chain
+     */
+    async rebuildState(evidenceId, policy, { persist = true } = {}) {
+        const events = await chainIndexerService.getCustodyEvents(evidenceId, policy.requiredOrder);
+        const steps = events.filter(event => policy.requiredOrder.includes(event.action));
+        if (!events.length) return null;
+
+        const state = {
+            evidenceId,
+            currentStep: steps.length ? steps[steps.length - 1].action : 'NONE',
+            checkout: null,
+            policyId: null,
+            policyVersion: null,
+            rebuiltFromChain: true,
+            updatedAt: new Date().toISOString()
+        };
+        if (!persist) return state;
+
+        console.log(`🔁 [Policy Engine] Rebuilt custody state for Evidence #${evidenceId} from ${events.length} on-chain events`);
+        return this.saveState(state);
+    }
+
+    /**
+     * Resolve the custody role of an authenticated user
+     */
+    resolveCustodyRole(actor) {
+        if (!actor) return null;
+        return actor.custodyRole || DEFAULT_CUSTODY_ROLES[actor.role] || null;
+    }
+
+    /**
+     * Validate that the actor's custody role may perform the action
+     */
+    _validateRole(actor, action, policy) {
+        const custodyRole = this.resolveCustodyRole(actor);
+        const allowed = (policy.actionRoles && policy.actionRoles[action]) || policy.allowedRoles;
+
+        if (!custodyRole || !allowed.includes(custodyRole)) {
+            return {
+                valid: false,
+                reason: `${actor.name} (${custodyRole || actor.role}) may not log ${action}; allowed roles: ${allowed.join(', ')}`
+            };
         }
 
         return { valid: true };
@@ -116,11 +354,175 @@ class PolicyEngine {
         return { valid: true };
     }
 
+    /**
+     * Check evidence out to the caller. The most recent check-out is the holder of
+     * record; whether someone else may take it over is decided by noParallelAccess.
+     * @param {Object} actor - Authenticated user (req.user)
+     * @param {Object} context - { caseId, evidenceType }
+     * @param {string} [purpose] - Why the evidence is being taken
+     * @returns {Promise<Object>} - validateCustodyAction result plus checkout, or { error, code }.
+     *     Like validateCustodyAction, it saves nothing.
+     */
+    async checkOut(evidenceId, actor, context, purpose) {
+        const state = await this.getState(evidenceId);
+        if (state && state.checkout && state.checkout.handler === actor.badgeNumber) {
+            return { error: 'You already have this evidence checked out', code: 409 };
+        }
+
+        const result = await this.validateCustodyAction(evidenceId, 'CHECKED_OUT', actor, { purpose }, context);
+        if (!result.valid) return result;
+
+        return { ...result, checkout: result.nextState.checkout };
+    }
+
+    /**
+     * Check that the caller may return checked-out evidence. The checkout stays
+     * open until the caller has queued CHECKED_IN and calls releaseCheckout.
+     * @param {Object} actor - Authenticated user (req.user)
+     * @param {Object} [options]
+     * @param {boolean} [options.force] - Let a supervisor check in evidence held by someone else
+     * @returns {Promise<Object>} - { checkout, hoursHeld } on success, or { error, code }
+     */
+    async checkIn(evidenceId, actor, { force = false } = {}) {
+        const state = await this.getState(evidenceId);
+        if (!state || !state.checkout) {
+            return { error: 'Evidence is not checked out', code: 409 };
+        }
+        if (state.checkout.handler !== actor.badgeNumber && !force) {
+            return {
+                error: `Evidence is held by ${state.checkout.handlerName} (badge ${state.checkout.handler}); only they can check it in`,
+                code: 403
+            };
+        }
+
+        return { checkout: state.checkout, hoursHeld: (Date.now() - state.checkout.since) / HOUR_MS };
+    }
+
     /**
      * Release evidence checkout
      */
-    releaseCheckout(evidenceId) {
-        activeCheckouts.delete(evidenceId);
+    async releaseCheckout(evidenceId) {
+        const state = await this.getState(evidenceId);
+        if (!state || !state.checkout) return;
+        await this.saveState({ ...state, checkout: null, updatedAt: new Date().toISOString() });
+    }
+
+    /**
+     * Every open checkout, oldest first
+     * @returns {Promise<Array>} - [{ evidenceId, handler, handlerName, since, dueAt, purpose, overdue, ... }]
+     */
+    async getActiveCheckouts() {
+        const states = this.useDatabase
+            ? (await supabaseService.getActiveCheckouts()).map(fromStateRow)
+            : Object.values(this.localState).filter(state => state.checkout);
+
+        const now = Date.now();
+        return states
+            .map(state => ({
+                evidenceId: state.evidenceId,
+                ...state.checkout,
+                overdue: !!state.checkout.dueAt && now > state.checkout.dueAt,
+                policyId: state.policyId,
+                policyVersion: state.policyVersion
+            }))
+            .sort((a, b) => a.since - b.since);
+    }
+
+    /**
+     * Queue a policy violation for the chain as a VIOLATION custody event and push it to live clients
+     * @param {Object} params
+     * @param {string} params.evidenceId
+     * @param {string} params.action - The custody action that broke policy
+     * @param {Object} params.handler - { badgeNumber, name } of who was responsible
+     * @param {string} params.violation - e.g. PARALLEL_ACCESS_VIOLATION
+     * @param {string} params.details - Human readable explanation
+     * @param {Object} [params.policy] - { policyId, version } in force
+     * @returns {Promise<Object|null>} - The transaction outbox entry, or null when the blockchain is unavailable
+     */
+    async recordViolation({ evidenceId, action, handler, violation, details, policy }) {
+        let entry = null;
+        if (blockchainService.initialized) {
+            const violationHash = computeObjectHash({
+                type: violation,
+                details,
+                handler: handler.badgeNumber,
+                policy,
+                timestamp: Date.now()
+            });
+            // Not awaited on chain: the violation is announced now and written as soon as the outbox can
+            entry = await txOutboxService.enqueue('LOG_CUSTODY_EVENT', { evidenceId, action: 'VIOLATION', metadataHash: violationHash }, {}, null);
+        }
+
+        liveEventsService.publish('custody.violation', {
+            evidenceId,
+            action,
+            violation,
+            details,
+            handler: { badgeNumber: handler.badgeNumber, name: handler.name },
+            txHash: null
+        });
+        return entry;
+    }
+
+    /**
+     * Flag every checkout that has run past its due time: raise a tamper alert,
+     * write an on-chain VIOLATION and record it in the audit log. Each checkout
+     * is flagged once; checking it in clears it.
+     * @returns {Promise<number>} - Number of checkouts newly flagged
+     */
+    async sweepOverdueCheckouts() {
+        const overdue = (await this.getActiveCheckouts()).filter(c => c.overdue && !c.overdueFlaggedAt);
+
+        for (const checkout of overdue) {
+            const hoursOver = (Date.now() - checkout.dueAt) / HOUR_MS;
+            const details = `Checked out by ${checkout.handlerName} (badge ${checkout.handler}) at ${new Date(checkout.since).toISOString()}; due back ${new Date(checkout.dueAt).toISOString()}`;
+            const policy = { policyId: checkout.policyId, version: checkout.policyVersion };
+
+            // Flag first so a failing alert or transaction is not retried on every sweep
+            const state = await this.getState(checkout.evidenceId);
+            await this.saveState({
+                ...state,
+                checkout: { ...state.checkout, overdueFlaggedAt: Date.now() },
+                updatedAt: new Date().toISOString()
+            });
+
+            console.log(`⏰ [Policy Engine] Checkout overdue: Evidence #${checkout.evidenceId} held by ${checkout.handlerName} (${hoursOver.toFixed(1)}h over)`);
+
+            await tamperLedgerService.recordTamperEvent({
+                evidenceId: checkout.evidenceId,
+                detectedBy: 'POLICY',
+                alertType: 'CHECKOUT_OVERDUE',
+                reason: `Checkout overdue. ${details}`,
+                riskScore: 70,
+                details: { holder: { badgeNumber: checkout.handler, name: checkout.handlerName }, since: checkout.since, dueAt: checkout.dueAt, policy }
+            });
+
+            let outboxId = null;
+            try {
+                const entry = await this.recordViolation({
+                    evidenceId: checkout.evidenceId,
+                    action: 'CHECKED_OUT',
+                    handler: { badgeNumber: checkout.handler, name: checkout.handlerName },
+                    violation: 'ACCESS_DURATION_EXCEEDED',
+                    details,
+                    policy
+                });
+                outboxId = entry ? entry.id : null;
+            } catch (error) {
+                console.error(`⚠️ Failed to queue overdue checkout for the chain for Evidence #${checkout.evidenceId}:`, error.message);
+            }
+
+            await auditLogService.recordAuditEntry({
+                actor: 'SYSTEM',
+                action: 'CHECKOUT_OVERDUE',
+                severity: 'critical',
+                resourceType: 'evidence',
+                resourceId: checkout.evidenceId,
+                details: { holder: checkout.handler, since: checkout.since, dueAt: checkout.dueAt, policy, outboxId }
+            });
+        }
+
+        return overdue.length;
     }
 }
 
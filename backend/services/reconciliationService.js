@@ -0,0 +1,323 @@
+/**
+ * Reconciliation Service - Checks the evidence store against the registry
+ *
+ * Evidence metadata is saved after its registration is mined, with nothing
+ * spanning the two writes, so the database and the chain can drift apart.
+ * A reconciliation run reads every stored record back from EvidenceRegistry
+ * and reports IDs that are not on chain, hashes that differ, custody event
+ * counts that differ from the chain index, and registrations with no stored
+ * record. Runs are scheduled and can also be started by an administrator.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const supabaseService = require('./supabaseService');
+const blockchainService = require('./blockchainService');
+const chainIndexerService = require('./chainIndexerService');
+const txOutboxService = require('./txOutboxService');
+const evidenceStorage = require('./evidenceStorage');
+const auditLogService = require('./auditLogService');
+const liveEventsService = require('./liveEventsService');
+
+// Local fallback when Supabase is not configured
+const STORAGE_FILE = path.join(__dirname, '../data/reconciliation_reports.json');
+
+const ISSUE_TYPES = ['MISSING_ON_CHAIN', 'HASH_MISMATCH', 'CUSTODY_COUNT_MISMATCH', 'NOT_IN_DATABASE'];
+
+const INTERVAL_MS = parseInt(process.env.RECONCILIATION_INTERVAL_MS, 10) || 60 * 60 * 1000;
+// Reports kept in the local store
+const LOCAL_REPORT_LIMIT = 20;
+
+let useDatabase = false;
+let timer = null;
+// The run in progress, if any
+let running = null;
+
+// Ensure data directory exists
+const dataDir = path.dirname(STORAGE_FILE);
+if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+}
+
+function loadLocalReports() {
+    if (!fs.existsSync(STORAGE_FILE)) return [];
+    try {
+        return JSON.parse(fs.readFileSync(STORAGE_FILE, 'utf8'));
+    } catch (e) {
+        console.error('Failed to load reconciliation reports:', e);
+        return [];
+    }
+}
+
+// Newest first
+let reports = loadLocalReports();
+
+function fromRow(row) {
+    return {
+        id: row.id,
+        status: row.status,
+        trigger: row.trigger,
+        triggeredBy: row.triggered_by ? { badgeNumber: row.triggered_by, name: row.triggered_by_name || row.triggered_by } : null,
+        databaseCount: row.database_count,
+        chainCount: row.chain_count,
+        summary: row.summary,
+        issues: row.issues,
+        startedAt: new Date(row.started_at).toISOString(),
+        finishedAt: new Date(row.finished_at).toISOString()
+    };
+}
+
+function toRow(report) {
+    return {
+        id: report.id,
+        status: report.status,
+        trigger: report.trigger,
+        triggered_by: report.triggeredBy ? report.triggeredBy.badgeNumber : null,
+        triggered_by_name: report.triggeredBy ? report.triggeredBy.name : null,
+        database_count: report.databaseCount,
+        chain_count: report.chainCount,
+        summary: report.summary,
+        issues: report.issues,
+        started_at: report.startedAt,
+        finished_at: report.finishedAt
+    };
+}
+
+/**
+ * Every stored evidence record, in the fields the comparison needs
+ */
+async function getStoredEvidence() {
+    if (useDatabase) {
+        return (await supabaseService.getEvidence({})).map(row => ({
+            evidenceId: String(row.evidence_id),
+            caseId: row.case_id,
+            fileName: row.file_name,
+            evidenceHash: row.sha256_hash,
+            batchId: row.batch_id ? String(row.batch_id) : null,
+            merkleProof: row.merkle_proof || null
+        }));
+    }
+    return evidenceStorage.getAllEvidence().map(e => ({
+        evidenceId: String(e.evidenceId),
+        caseId: e.caseId,
+        fileName: e.fileName,
+        evidenceHash: e.evidenceHash,
+        batchId: e.batchId || null,
+        merkleProof: e.merkleProof || null
+    }));
+}
+
+function sameHash(a, b) {
+    return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Issues for one batch item, whose hash is anchored by its batch's Merkle root
+ */
+async function checkBatchItem(record, chainBatchCount) {
+    const base = { evidenceId: record.evidenceId, caseId: record.caseId, fileName: record.fileName, batchId: record.batchId };
+    if (Number(record.batchId) > chainBatchCount) {
+        return [{ type: 'MISSING_ON_CHAIN', ...base, details: `Batch #${record.batchId} does not exist on chain` }];
+    }
+    if (!record.merkleProof || !(await blockchainService.verifyBatchItem(record.batchId, record.evidenceHash, record.merkleProof))) {
+        return [{
+            type: 'HASH_MISMATCH',
+            ...base,
+            storedHash: record.evidenceHash,
+            details: `Stored hash and Merkle proof do not lead to the root of batch #${record.batchId}`
+        }];
+    }
+    return [];
+}
+
+/**
+ * Issues for one individually registered item
+ */
+async function checkRegisteredItem(record, chainCount, custodyCounts) {
+    const base = { evidenceId: record.evidenceId, caseId: record.caseId, fileName: record.fileName };
+    const numericId = Number(record.evidenceId);
+    if (!Number.isInteger(numericId) || numericId < 1 || numericId > chainCount) {
+        return [{ type: 'MISSING_ON_CHAIN', ...base, storedHash: record.evidenceHash, details: `No registry entry with ID ${record.evidenceId}` }];
+    }
+
+    const onChain = await blockchainService.getEvidence(numericId);
+    const issues = [];
+    if (!sameHash(onChain.evidenceHash, record.evidenceHash)) {
+        issues.push({
+            type: 'HASH_MISMATCH',
+            ...base,
+            storedHash: record.evidenceHash,
+            chainHash: onChain.evidenceHash,
+            details: 'sha256_hash differs from the registered evidenceHash'
+        });
+    }
+    const indexed = custodyCounts.get(record.evidenceId) || 0;
+    if (indexed !== onChain.custodyEventCount) {
+        issues.push({
+            type: 'CUSTODY_COUNT_MISMATCH',
+            ...base,
+            chainCount: onChain.custodyEventCount,
+            indexedCount: indexed,
+            details: `${onChain.custodyEventCount} custody event(s) on chain, ${indexed} in the database`
+        });
+    }
+    return issues;
+}
+
+async function save(report) {
+    if (useDatabase) {
+        await supabaseService.saveReconciliationReport(toRow(report));
+        return;
+    }
+    reports = [report, ...reports].slice(0, LOCAL_REPORT_LIMIT);
+    try {
+        fs.writeFileSync(STORAGE_FILE, JSON.stringify(reports, null, 2));
+    } catch (e) {
+        console.error('Failed to persist reconciliation reports:', e);
+    }
+}
+
+async function runReconciliation(trigger, user) {
+    const startedAt = new Date().toISOString();
+    const records = await getStoredEvidence();
+    const chainCount = await blockchainService.getEvidenceCount();
+    const chainBatchCount = await blockchainService.getBatchCount();
+
+    const custodyCounts = new Map();
+    for (const event of await chainIndexerService.listCustodyEvents()) {
+        custodyCounts.set(event.evidenceId, (custodyCounts.get(event.evidenceId) || 0) + 1);
+    }
+
+    const issues = [];
+    for (const record of records) {
+        issues.push(...(record.batchId
+            ? await checkBatchItem(record, chainBatchCount)
+            : await checkRegisteredItem(record, chainCount, custodyCounts)));
+    }
+
+    // Registrations whose metadata the outbox is still saving are not orphans
+    const stored = new Set(records.map(r => r.evidenceId));
+    const beingSaved = new Set(txOutboxService.getPendingRegistrations()
+        .filter(({ entry }) => entry.result && entry.result.evidenceId)
+        .map(({ entry }) => String(entry.result.evidenceId)));
+    for (let id = 1; id <= chainCount; id++) {
+        if (stored.has(String(id)) || beingSaved.has(String(id))) continue;
+        const onChain = await blockchainService.getEvidence(id);
+        issues.push({
+            type: 'NOT_IN_DATABASE',
+            evidenceId: String(id),
+            caseId: onChain.caseId,
+            chainHash: onChain.evidenceHash,
+            registeredAt: new Date(onChain.timestamp * 1000).toISOString(),
+            details: 'Registered on chain with no stored evidence record'
+        });
+    }
+
+    const summary = Object.fromEntries(ISSUE_TYPES.map(type => [type, issues.filter(i => i.type === type).length]));
+    const report = {
+        id: crypto.randomUUID(),
+        status: issues.length ? 'ISSUES_FOUND' : 'CLEAN',
+        trigger,
+        triggeredBy: user ? { badgeNumber: user.badgeNumber, name: user.name } : null,
+        databaseCount: records.length,
+        chainCount,
+        summary,
+        issues,
+        startedAt,
+        finishedAt: new Date().toISOString()
+    };
+    await save(report);
+
+    console.log(`🔎 [Reconciliation] ${records.length} record(s) checked against ${chainCount} registration(s): ${issues.length} issue(s)`);
+    liveEventsService.publish('reconciliation.completed', {
+        reportId: report.id,
+        status: report.status,
+        summary,
+        at: report.finishedAt
+    });
+    // Manual runs are audited by their request
+    if (trigger === 'SCHEDULED' && issues.length) {
+        auditLogService.recordAuditEntry({
+            actor: 'SYSTEM',
+            action: 'RECONCILIATION_ISSUES_FOUND',
+            severity: 'warning',
+            resourceType: 'reconciliation',
+            resourceId: report.id,
+            details: { summary }
+        });
+    }
+    return report;
+}
+
+/**
+ * Compare the evidence store with the chain
+ * @param {Object} [options] - { trigger: 'SCHEDULED' | 'MANUAL', user }
+ * @returns {Promise<Object>} - { report } or { error, code }
+ */
+async function run({ trigger = 'MANUAL', user = null } = {}) {
+    if (!blockchainService.initialized) {
+        return { error: 'Blockchain not available', code: 503 };
+    }
+    if (running) {
+        return { error: 'A reconciliation run is already in progress', code: 409 };
+    }
+
+    running = runReconciliation(trigger, user);
+    try {
+        return { report: await running };
+    } finally {
+        running = null;
+    }
+}
+
+/**
+ * Choose the report store
+ * @param {boolean} databaseReady - Whether Supabase initialized
+ */
+function initialize(databaseReady) {
+    useDatabase = databaseReady;
+    if (!useDatabase) reports = loadLocalReports();
+}
+
+/**
+ * Run on a schedule in the background
+ */
+function start() {
+    if (timer) return;
+    timer = setInterval(() => {
+        run({ trigger: 'SCHEDULED' })
+            .then(result => {
+                if (result.error && result.code !== 409) console.warn(`⚠️ Reconciliation skipped: ${result.error}`);
+            })
+            .catch(error => console.error('⚠️ Reconciliation run failed:', error.message));
+    }, INTERVAL_MS);
+    timer.unref();
+}
+
+/**
+ * The most recent report with its issues, or null before the first run
+ */
+async function getLatestReport() {
+    if (useDatabase) {
+        const row = await supabaseService.getLatestReconciliationReport();
+        return row ? fromRow(row) : null;
+    }
+    return reports[0] || null;
+}
+
+/**
+ * Whether a run is in progress
+ */
+function isRunning() {
+    return !!running;
+}
+
+module.exports = {
+    ISSUE_TYPES,
+    initialize,
+    start,
+    run,
+    getLatestReport,
+    isRunning
+};
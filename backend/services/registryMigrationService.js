@@ -0,0 +1,570 @@
+/**
+ * Registry Migration Service - Evidence that outlives a contract deployment
+ *
+ * Redeploying EvidenceRegistry leaves every registration on the old contract.
+ * A migration (scripts/migrateRegistry.js) reads each item and batch from the
+ * old registry and registers it again in a fresh deployment in ID order, so
+ * every item keeps its ID, then logs a MIGRATED custody event whose metadata
+ * hash commits to the old record, its custody log, status and attestations.
+ * A VERIFIED or FLAGGED status is restored by replaying the item's last
+ * verification, and attestations by the verifier nodes this server holds keys
+ * for; when it cannot replay them all, none are and they are listed as not
+ * replayed. The old and new anchors
+ * are listed in a signed mapping document. Mapping documents are kept here so
+ * that IDs, proof bundles and custody history from earlier registries resolve
+ * to the current one.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { ethers } = require('ethers');
+const supabaseService = require('./supabaseService');
+const blockchainService = require('./blockchainService');
+const chainIndexerService = require('./chainIndexerService');
+const batchService = require('./batchService');
+const evidenceStorage = require('./evidenceStorage');
+const signingService = require('./signingService');
+const { computeStringHash, computeCanonicalHash } = require('../utils/crypto');
+const { signedContent } = require('../utils/proofBundle');
+
+// Local fallback when Supabase is not configured
+const STORAGE_FILE = path.join(__dirname, '../data/registry_migrations.json');
+
+const MIGRATION_FORMAT = 'evidence-registry-migration';
+const MIGRATION_VERSION = 2;
+const MIGRATED_ACTION = 'MIGRATED';
+const EVIDENCE_STATUSES = ['NONE', 'REGISTERED', 'FLAGGED', 'VERIFIED'];
+
+const BATCH_ITEM_ID_PATTERN = /^B(\d+)-(\d+)$/;
+
+let useDatabase = false;
+
+// Ensure data directory exists
+const dataDir = path.dirname(STORAGE_FILE);
+if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+}
+
+function loadLocalMigrations() {
+    if (!fs.existsSync(STORAGE_FILE)) return [];
+    try {
+        return JSON.parse(fs.readFileSync(STORAGE_FILE, 'utf8'));
+    } catch (e) {
+        console.error('Failed to load registry migrations:', e);
+        return [];
+    }
+}
+
+// Oldest first
+let migrations = loadLocalMigrations();
+
+function sameHex(a, b) {
+    return typeof a === 'string' && typeof b === 'string' && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Choose the migration store
+ * @param {boolean} databaseReady - Whether Supabase initialized
+ */
+function initialize(databaseReady) {
+    useDatabase = databaseReady;
+    if (!useDatabase) migrations = loadLocalMigrations();
+}
+
+/**
+ * Every recorded migration document, oldest first
+ */
+async function listMigrations() {
+    if (useDatabase) {
+        return (await supabaseService.getRegistryMigrations()).map(row => row.document);
+    }
+    return migrations;
+}
+
+/**
+ * One migration document by ID, with whether its signature still holds
+ * @returns {Promise<Object|null>} - { document, signatureValid }
+ */
+async function getMigration(id) {
+    const document = (await listMigrations()).find(m => m.id === id);
+    return document ? { document, signatureValid: verifySignature(document) } : null;
+}
+
+/**
+ * Whether a mapping document is unchanged since it was signed
+ */
+function verifySignature(document) {
+    const { signature } = document;
+    if (!signature || !signature.signature || !signature.publicKey) return false;
+    const content = signedContent(document);
+    return computeStringHash(content) === signature.sha256
+        && signingService.verify(content, signature.signature, signature.publicKey);
+}
+
+async function recordMigration(document) {
+    if (useDatabase) {
+        await supabaseService.saveRegistryMigration({
+            id: document.id,
+            from_chain_id: document.from.chainId,
+            from_contract: document.from.contractAddress,
+            to_chain_id: document.to.chainId,
+            to_contract: document.to.contractAddress,
+            document,
+            migrated_at: document.migratedAt
+        });
+        return;
+    }
+    migrations = [...migrations.filter(m => m.id !== document.id), document];
+    try {
+        fs.writeFileSync(STORAGE_FILE, JSON.stringify(migrations, null, 2));
+    } catch (e) {
+        console.error('Failed to persist registry migrations:', e);
+        throw e;
+    }
+}
+
+/**
+ * Hash a migrated item's old record commits to: the MIGRATED event's metadata hash on the new registry
+ */
+function recordHash(source, entry) {
+    return computeCanonicalHash({
+        chainId: source.chainId,
+        contractAddress: source.contractAddress,
+        evidenceId: entry.oldId,
+        evidenceHash: entry.evidenceHash,
+        caseId: entry.caseId,
+        collector: entry.collector,
+        registeredAt: entry.registeredAt,
+        status: entry.status,
+        custody: entry.custody,
+        attestations: entry.attestations
+    });
+}
+
+/**
+ * Mapping entry for an evidence ID in one migration; batch item IDs follow their batch
+ * @returns {Object|null} - { oldId, newId, entry }
+ */
+function findMapping(migration, evidenceId, direction) {
+    const [idField, otherField] = direction === 'forward' ? ['oldId', 'newId'] : ['newId', 'oldId'];
+    const batchItem = String(evidenceId).match(BATCH_ITEM_ID_PATTERN);
+    if (batchItem) {
+        const batch = migration.batches.find(b => b[idField] === batchItem[1]);
+        return batch ? { [idField]: String(evidenceId), [otherField]: `B${batch[otherField]}-${batchItem[2]}`, entry: batch } : null;
+    }
+    const entry = migration.evidence.find(e => e[idField] === String(evidenceId));
+    return entry ? { oldId: entry.oldId, newId: entry.newId, entry } : null;
+}
+
+/**
+ * Follow an evidence ID from any known registry to the registry it is anchored in now
+ * @param {string} contractAddress - Registry the ID was issued by
+ * @param {string} evidenceId
+ * @returns {Promise<Object>} - { evidenceId, chainId, contractAddress, current, hops } or { error, code }
+ */
+async function resolveEvidence(contractAddress, evidenceId) {
+    const all = await listMigrations();
+    const current = blockchainService.initialized ? await blockchainService.getNetworkInfo() : null;
+    const known = (current && sameHex(contractAddress, current.contractAddress))
+        || all.some(m => sameHex(m.from.contractAddress, contractAddress) || sameHex(m.to.contractAddress, contractAddress));
+    if (!known) {
+        return { error: `${contractAddress} is not a known registry`, code: 404 };
+    }
+
+    let address = contractAddress;
+    let id = String(evidenceId);
+    let chainId = null;
+    const hops = [];
+    // Each registry is migrated from at most once, so this ends after every migration at the latest
+    for (let migration = all.find(m => sameHex(m.from.contractAddress, address)); migration && hops.length < all.length;
+        migration = all.find(m => sameHex(m.from.contractAddress, address))) {
+        const mapping = findMapping(migration, id, 'forward');
+        if (!mapping) {
+            return { error: `Evidence ${id} was not migrated from ${address}`, code: 404 };
+        }
+        hops.push({
+            migrationId: migration.id,
+            migratedAt: migration.migratedAt,
+            from: { ...migration.from, evidenceId: mapping.oldId },
+            to: { ...migration.to, evidenceId: mapping.newId, txHash: mapping.entry.reanchor.txHash }
+        });
+        address = migration.to.contractAddress;
+        chainId = migration.to.chainId;
+        id = mapping.newId;
+    }
+
+    const isCurrent = !!current && sameHex(address, current.contractAddress);
+    return {
+        evidenceId: id,
+        chainId: isCurrent ? current.chainId : chainId,
+        contractAddress: address,
+        current: isCurrent,
+        hops
+    };
+}
+
+/**
+ * Where a current item was anchored before, oldest registry first, with the status, custody log and attestations it had there
+ * @returns {Promise<Array>} - { migrationId, chainId, contractAddress, evidenceId, registration, status, custody, attestations, migratedAt }
+ */
+async function getPreviousAnchors(evidenceId) {
+    if (!blockchainService.initialized) return [];
+    const all = await listMigrations();
+    const anchors = [];
+    let { contractAddress: address } = await blockchainService.getNetworkInfo();
+    let id = String(evidenceId);
+
+    for (let migration = all.find(m => sameHex(m.to.contractAddress, address)); migration && anchors.length < all.length;
+        migration = all.find(m => sameHex(m.to.contractAddress, address))) {
+        const mapping = findMapping(migration, id, 'backward');
+        if (!mapping) break;
+        anchors.unshift({
+            migrationId: migration.id,
+            chainId: migration.from.chainId,
+            contractAddress: migration.from.contractAddress,
+            evidenceId: mapping.oldId,
+            registration: mapping.entry.registration,
+            status: mapping.entry.status || null,
+            custody: mapping.entry.custody || [],
+            attestations: mapping.entry.attestations || [],
+            migratedAt: migration.migratedAt
+        });
+        address = migration.from.contractAddress;
+        id = mapping.oldId;
+    }
+    return anchors;
+}
+
+/**
+ * A check for a proof bundle exported from a registry that has since been migrated:
+ * the item must be anchored in the current registry with the bundle's hash
+ * @returns {Promise<Object|null>} - { check, status, detail }, or null when the bundle is from the current registry
+ */
+async function checkMigratedBundle(bundle) {
+    if (!bundle || !bundle.chain || !bundle.evidence) return null;
+    const resolved = await resolveEvidence(bundle.chain.contractAddress, bundle.evidence.evidenceId);
+    if (resolved.error || !resolved.hops.length) return null;
+
+    const from = resolved.hops[0].from;
+    const route = `Registry ${from.contractAddress} was migrated to ${resolved.contractAddress}; evidence #${from.evidenceId} is anchored there as #${resolved.evidenceId}`;
+    if (!resolved.current) {
+        return { check: 'migration', status: 'SKIPPED', detail: `${route}, which is not the registry this server uses` };
+    }
+    if (BATCH_ITEM_ID_PATTERN.test(resolved.evidenceId)) {
+        return { check: 'migration', status: 'PASS', detail: `${route} under the same Merkle root` };
+    }
+
+    const onChain = await blockchainService.getEvidence(resolved.evidenceId);
+    const passed = sameHex(onChain.evidenceHash, bundle.evidence.sha256);
+    return {
+        check: 'migration',
+        status: passed ? 'PASS' : 'FAIL',
+        detail: passed ? route : `${route}, which holds ${onChain.evidenceHash} instead of the bundle's hash`
+    };
+}
+
+/**
+ * Registries this server knows of: the current one and every one migrated from
+ */
+async function listVersions() {
+    const all = await listMigrations();
+    const current = blockchainService.initialized ? await blockchainService.getNetworkInfo() : null;
+    const versions = all.map(m => ({
+        chainId: m.from.chainId,
+        contractAddress: m.from.contractAddress,
+        current: false,
+        migratedTo: m.to.contractAddress,
+        migrationId: m.id,
+        migratedAt: m.migratedAt,
+        evidenceCount: m.evidence.length,
+        batchCount: m.batches.length
+    }));
+    if (current) {
+        versions.push({ chainId: current.chainId, contractAddress: current.contractAddress, current: true });
+    }
+    return versions;
+}
+
+// ============================================
+// Migration (run by scripts/migrateRegistry.js)
+// ============================================
+
+/**
+ * An item as the old registry holds it, with its custody log and attestations
+ */
+async function readOldEvidence(oldContract, id, fromBlock, actionNames) {
+    const record = await oldContract.getEvidence(id);
+    const custody = [];
+    for (let i = 0; i < Number(record.custodyEventCount); i++) {
+        const event = await oldContract.getCustodyEvent(id, i);
+        custody.push({
+            eventIndex: i,
+            action: actionNames.get(event.action) || 'UNKNOWN',
+            actionHash: event.action,
+            handler: event.handler,
+            timestamp: new Date(Number(event.timestamp) * 1000).toISOString(),
+            metadataHash: event.metadataHash
+        });
+    }
+
+    const attestations = [];
+    const attestationCount = Number(await oldContract.getAttestationCount(id));
+    for (let i = 0; i < attestationCount; i++) {
+        const attestation = await oldContract.getAttestation(id, i);
+        attestations.push({
+            verifier: attestation.verifier,
+            verified: attestation.verified,
+            attestedAt: new Date(Number(attestation.timestamp) * 1000).toISOString()
+        });
+    }
+
+    const logs = await oldContract.queryFilter(oldContract.filters.EvidenceRegistered(id), fromBlock);
+    return {
+        oldId: String(id),
+        evidenceHash: record.evidenceHash,
+        caseId: record.caseId,
+        collector: record.collector,
+        registeredAt: new Date(Number(record.timestamp) * 1000).toISOString(),
+        status: EVIDENCE_STATUSES[Number(record.status)] || 'UNKNOWN',
+        registration: logs.length ? { txHash: logs[0].transactionHash, blockNumber: logs[0].blockNumber } : null,
+        custody,
+        attestations
+    };
+}
+
+/**
+ * Give a re-anchored item the status it had on the old registry by sending its
+ * last verification again: the registered hash for VERIFIED, the hash that
+ * failed to match for FLAGGED
+ * @returns {Promise<string|null>} - Transaction hash, or null when nothing was sent
+ */
+async function restoreStatus(oldContract, entry, fromBlock) {
+    if (entry.status !== 'VERIFIED' && entry.status !== 'FLAGGED') return null;
+    const onNew = await blockchainService.getEvidence(entry.newId);
+    if (EVIDENCE_STATUSES[onNew.status] === entry.status) return null;
+
+    let submittedHash = entry.evidenceHash;
+    if (entry.status === 'FLAGGED') {
+        const detections = await oldContract.queryFilter(oldContract.filters.TamperDetected(entry.oldId), fromBlock);
+        if (!detections.length) {
+            throw new Error(`Evidence #${entry.oldId} is FLAGGED but no TamperDetected event was found from block ${fromBlock}; pass an earlier --from-block`);
+        }
+        submittedHash = detections[detections.length - 1].args.submittedHash;
+    }
+    const result = await blockchainService.sendAndWait('VERIFY_EVIDENCE', { evidenceId: entry.newId, submittedHash });
+    return result.txHash;
+}
+
+/**
+ * Have the verifier nodes an item's attestations came from attest again as they
+ * did on the old registry. A partial replay could settle a different consensus,
+ * so nothing is replayed unless this server holds every node's key and each
+ * node holds VERIFIER on the new registry.
+ * @returns {Promise<Object>} - { txHashes, notReplayed }; notReplayed lists the verifiers of attestations left out
+ */
+async function replayAttestations(entry) {
+    const done = await blockchainService.getAttestations(entry.newId);
+    const pending = entry.attestations.filter(attestation => !done.some(a => sameHex(a.verifier, attestation.verifier)));
+
+    const nodes = [];
+    for (const attestation of pending) {
+        const node = blockchainService.verifiers.find(v => sameHex(v.address, attestation.verifier));
+        if (!node || !(await blockchainService.isRegisteredVerifier(node.address))) {
+            return { txHashes: [], notReplayed: pending.map(a => a.verifier) };
+        }
+        nodes.push(node);
+    }
+
+    const txHashes = [];
+    for (const [i, node] of nodes.entries()) {
+        const result = await blockchainService.attestVerification(node.address, entry.newId, pending[i].verified);
+        txHashes.push(result.txHash);
+    }
+    return { txHashes, notReplayed: [] };
+}
+
+/**
+ * Number of batches in the old registry. Registries deployed before batch
+ * registration have no getBatchCount, and the call reverts without data.
+ */
+async function readOldBatchCount(oldContract) {
+    try {
+        return Number(await oldContract.getBatchCount());
+    } catch (error) {
+        if (error.code === 'CALL_EXCEPTION' && !error.revert) return null;
+        throw error;
+    }
+}
+
+async function readOldBatch(oldContract, id, fromBlock) {
+    const batch = await oldContract.getBatch(id);
+    const logs = await oldContract.queryFilter(oldContract.filters.BatchRegistered(id), fromBlock);
+    return {
+        oldId: String(id),
+        merkleRoot: batch.merkleRoot,
+        caseId: batch.caseId,
+        itemCount: Number(batch.itemCount),
+        collector: batch.collector,
+        registeredAt: new Date(Number(batch.timestamp) * 1000).toISOString(),
+        registration: logs.length ? { txHash: logs[0].transactionHash, blockNumber: logs[0].blockNumber } : null
+    };
+}
+
+/**
+ * The stored record of a re-anchored item now points at its new transaction
+ */
+async function updateStoredAnchor(evidenceId, { txHash, blockNumber, gasUsed }) {
+    if (useDatabase) {
+        if (await supabaseService.getEvidenceById(evidenceId)) {
+            await supabaseService.updateEvidence(evidenceId, { tx_hash: txHash, block_number: blockNumber, gas_used: gasUsed });
+        }
+        return;
+    }
+    evidenceStorage.updateEvidence(e => e.evidenceId === evidenceId, { txHash, blockNumber });
+}
+
+/**
+ * Re-anchor every item and batch of an old registry in the registry blockchainService is connected to.
+ * The target must be a fresh deployment, or one an interrupted run of the same migration left behind,
+ * which is picked up where it stopped.
+ * @param {Object} options
+ * @param {string} options.fromAddress - Old registry
+ * @param {Object} options.fromProvider - ethers provider for the old registry's chain
+ * @param {number} [options.fromBlock] - Block the old registry was deployed in
+ * @param {Function} [options.onProgress] - Called with a message after each step
+ * @returns {Promise<Object>} - { document } or { error, code }
+ */
+async function migrate({ fromAddress, fromProvider, fromBlock = 0, onProgress = () => {} }) {
+    if (!blockchainService.initialized) {
+        return { error: 'Blockchain not available', code: 503 };
+    }
+    if (!ethers.isAddress(fromAddress)) {
+        return { error: 'The old registry address is not an address', code: 400 };
+    }
+    const target = await blockchainService.getNetworkInfo();
+    const network = await fromProvider.getNetwork();
+    const source = { chainId: network.chainId.toString(), contractAddress: ethers.getAddress(fromAddress) };
+    if (source.chainId === target.chainId && sameHex(source.contractAddress, target.contractAddress)) {
+        return { error: 'The old and new registries are the same contract', code: 400 };
+    }
+    const to = { chainId: target.chainId, contractAddress: ethers.getAddress(target.contractAddress) };
+    const previous = (await listMigrations()).find(m => sameHex(m.from.contractAddress, source.contractAddress));
+    if (previous) {
+        return { error: `${source.contractAddress} was already migrated to ${previous.to.contractAddress} (migration ${previous.id})`, code: 409 };
+    }
+
+    const oldContract = blockchainService.connectRegistry(source.contractAddress, fromProvider);
+    const evidenceCount = Number(await oldContract.getEvidenceCount());
+    const oldBatchCount = await readOldBatchCount(oldContract);
+    if (oldBatchCount === null) {
+        onProgress(`${source.contractAddress} predates batch registration; there are no batches to migrate`);
+    }
+    const batchCount = oldBatchCount || 0;
+    const existingEvidence = await blockchainService.getEvidenceCount();
+    const existingBatches = await blockchainService.getBatchCount();
+    if (existingEvidence > evidenceCount || existingBatches > batchCount) {
+        return { error: `${to.contractAddress} already holds more registrations than ${source.contractAddress}; migrate into a fresh deployment`, code: 409 };
+    }
+
+    const actionNames = await chainIndexerService.getActionNames();
+    const evidence = [];
+    for (let id = 1; id <= evidenceCount; id++) {
+        const entry = await readOldEvidence(oldContract, id, fromBlock, actionNames);
+        entry.newId = String(id);
+        const migratedRecord = recordHash(source, entry);
+
+        let reanchor;
+        if (id <= existingEvidence) {
+            // Left by an interrupted run: it must be this item, registered again
+            const onNew = await blockchainService.getEvidence(id);
+            if (!sameHex(onNew.evidenceHash, entry.evidenceHash)) {
+                return { error: `Evidence #${id} in ${to.contractAddress} is not evidence #${id} of ${source.contractAddress}; migrate into a fresh deployment`, code: 409 };
+            }
+            reanchor = await blockchainService.findRegistration(entry.evidenceHash);
+        } else {
+            reanchor = await blockchainService.sendAndWait('REGISTER_EVIDENCE', { evidenceHash: entry.evidenceHash, caseId: entry.caseId });
+            if (reanchor.evidenceId !== entry.newId) {
+                throw new Error(`Evidence #${id} was registered as #${reanchor.evidenceId}; another account is writing to ${to.contractAddress}`);
+            }
+        }
+
+        const logged = (await blockchainService.getCustodyEvents(id)).find(e => sameHex(e.metadataHash, migratedRecord));
+        const migratedEvent = logged
+            ? { txHash: null, eventIndex: logged.eventIndex }
+            : await blockchainService.sendAndWait('LOG_CUSTODY_EVENT', { evidenceId: entry.newId, action: MIGRATED_ACTION, metadataHash: migratedRecord });
+
+        const statusTxHash = await restoreStatus(oldContract, entry, fromBlock);
+        const attestations = await replayAttestations(entry);
+
+        entry.recordHash = migratedRecord;
+        entry.reanchor = {
+            txHash: reanchor.txHash,
+            blockNumber: reanchor.blockNumber,
+            migratedTxHash: migratedEvent.txHash,
+            statusTxHash,
+            attestationTxHashes: attestations.txHashes,
+            attestationsNotReplayed: attestations.notReplayed
+        };
+        await updateStoredAnchor(entry.newId, { txHash: reanchor.txHash, blockNumber: reanchor.blockNumber, gasUsed: reanchor.gasUsed || '0' });
+        evidence.push(entry);
+        onProgress(`Evidence #${entry.oldId} re-anchored as #${entry.newId} (${reanchor.txHash})`);
+        if (attestations.notReplayed.length) {
+            onProgress(`Evidence #${entry.newId}: attestations by ${attestations.notReplayed.join(', ')} were not replayed, as not every verifier could attest again; they are kept in the signed mapping only`);
+        }
+    }
+
+    const batches = [];
+    for (let id = 1; id <= batchCount; id++) {
+        const entry = await readOldBatch(oldContract, id, fromBlock);
+        entry.newId = String(id);
+
+        let reanchor;
+        if (id <= existingBatches) {
+            const onNew = await blockchainService.getBatch(id);
+            if (!sameHex(onNew.merkleRoot, entry.merkleRoot)) {
+                return { error: `Batch #${id} in ${to.contractAddress} is not batch #${id} of ${source.contractAddress}; migrate into a fresh deployment`, code: 409 };
+            }
+            const [log] = await blockchainService.contract.queryFilter(blockchainService.contract.filters.BatchRegistered(id), blockchainService.deployBlock);
+            const receipt = await blockchainService.getTransactionReceipt(log.transactionHash);
+            reanchor = { txHash: receipt.hash, blockNumber: receipt.blockNumber, gasUsed: receipt.gasUsed.toString() };
+        } else {
+            reanchor = await blockchainService.sendAndWait('REGISTER_BATCH', { merkleRoot: entry.merkleRoot, caseId: entry.caseId, itemCount: entry.itemCount });
+            if (reanchor.batchId !== entry.newId) {
+                throw new Error(`Batch #${id} was registered as #${reanchor.batchId}; another account is writing to ${to.contractAddress}`);
+            }
+        }
+
+        entry.reanchor = { txHash: reanchor.txHash, blockNumber: reanchor.blockNumber };
+        await batchService.updateBatchAnchor(entry.newId, reanchor);
+        batches.push(entry);
+        onProgress(`Batch #${entry.oldId} re-anchored as #${entry.newId} (${reanchor.txHash})`);
+    }
+
+    const document = {
+        format: MIGRATION_FORMAT,
+        version: MIGRATION_VERSION,
+        id: crypto.randomUUID(),
+        from: source,
+        to,
+        migratedBy: await blockchainService.signer.getAddress(),
+        migratedAt: new Date().toISOString(),
+        evidence,
+        batches
+    };
+    document.signature = signingService.sign(signedContent(document));
+    await recordMigration(document);
+    return { document };
+}
+
+module.exports = {
+    MIGRATION_FORMAT,
+    initialize,
+    listMigrations,
+    getMigration,
+    listVersions,
+    resolveEvidence,
+    getPreviousAnchors,
+    checkMigratedBundle,
+    migrate
+};
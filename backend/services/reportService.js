@@ -0,0 +1,274 @@
+/**
+ * Report Service - Court-ready PDF integrity reports for an evidence item or a whole case
+ *
+ * The facts in a report are first collected into a plain data object. Its canonical JSON
+ * is signed, embedded in the PDF as report-data.json, and its SHA-256 (the content hash)
+ * is printed in every page footer, so a printed or forwarded copy can be checked later.
+ */
+
+const crypto = require('crypto');
+const PDFDocument = require('pdfkit');
+const signingService = require('./signingService');
+const { canonicalStringify, computeFileHash } = require('../utils/crypto');
+
+// Name of the embedded file holding the canonical report data
+const DATA_ATTACHMENT = 'report-data.json';
+
+// On-chain EvidenceStatus enum, by index
+const CHAIN_STATUSES = ['NONE', 'REGISTERED', 'FLAGGED', 'VERIFIED'];
+
+const PAGE_MARGIN = 50;
+const FOOTER_HEIGHT = 30;
+const COLORS = { text: '#0f172a', muted: '#64748b', rule: '#cbd5e1', danger: '#b91c1c' };
+
+/**
+ * Assemble the data a report is rendered from
+ * @param {Object} params
+ * @param {string} params.type - EVIDENCE or CASE
+ * @param {string} params.subject - Evidence ID or case number
+ * @param {Object|null} params.caseRecord - The case, for case reports
+ * @param {Array} params.evidence - Per-item facts (see server.js collectEvidenceReport)
+ * @param {Object} params.generatedBy - Authenticated user
+ * @returns {Object}
+ */
+function createReportData({ type, subject, caseRecord = null, evidence, generatedBy }) {
+    return {
+        reportId: `RPT-${Date.now()}-${crypto.randomBytes(3).toString('hex')}`,
+        type,
+        subject,
+        generatedAt: new Date().toISOString(),
+        generatedBy: { badgeNumber: generatedBy.badgeNumber, name: generatedBy.name, role: generatedBy.role },
+        case: caseRecord,
+        evidence
+    };
+}
+
+function heading(doc, text, size = 14) {
+    doc.moveDown(0.8);
+    doc.font('Helvetica-Bold').fontSize(size).fillColor(COLORS.text).text(text);
+    const y = doc.y + 2;
+    doc.moveTo(PAGE_MARGIN, y).lineTo(doc.page.width - PAGE_MARGIN, y).strokeColor(COLORS.rule).lineWidth(0.5).stroke();
+    doc.moveDown(0.4);
+}
+
+function field(doc, label, value, { mono = false } = {}) {
+    doc.font('Helvetica-Bold').fontSize(9).fillColor(COLORS.muted).text(`${label}: `, { continued: true });
+    doc.font(mono ? 'Courier' : 'Helvetica').fillColor(COLORS.text)
+        .text(value === null || value === undefined || value === '' ? 'N/A' : String(value));
+}
+
+function note(doc, text, color = COLORS.muted) {
+    doc.font('Helvetica-Oblique').fontSize(9).fillColor(color).text(text);
+}
+
+function formatDate(value) {
+    return value ? new Date(value).toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC') : 'N/A';
+}
+
+function renderCase(doc, caseRecord) {
+    heading(doc, `Case ${caseRecord.caseNumber}`);
+    field(doc, 'Title', caseRecord.title);
+    field(doc, 'Status', caseRecord.status);
+    field(doc, 'Lead investigator', `${caseRecord.leadInvestigator.name} (badge ${caseRecord.leadInvestigator.badgeNumber})`);
+    field(doc, 'Opened', formatDate(caseRecord.openedAt));
+    field(doc, 'Closed', caseRecord.closedAt ? formatDate(caseRecord.closedAt) : 'Open');
+    if (caseRecord.description) field(doc, 'Description', caseRecord.description);
+}
+
+function renderEvidence(doc, item) {
+    heading(doc, `Evidence #${item.evidenceId}${item.fileName ? ` - ${item.fileName}` : ''}`);
+
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(COLORS.text).text('File metadata');
+    field(doc, 'Case', item.caseId);
+    field(doc, 'File name', item.fileName);
+    field(doc, 'Size (bytes)', item.fileSize);
+    field(doc, 'MIME type', item.mimeType);
+    field(doc, 'Evidence type', item.evidenceType);
+    field(doc, 'Source', item.source);
+    field(doc, 'Collected by', item.collectedBy);
+    field(doc, 'Registered', formatDate(item.registeredAt));
+    field(doc, 'Current status', item.status.toUpperCase());
+
+    doc.moveDown(0.5);
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(COLORS.text).text('Blockchain anchor');
+    field(doc, 'SHA-256', item.sha256, { mono: true });
+    field(doc, 'Registration tx', item.txHash, { mono: true });
+    field(doc, 'Block number', item.blockNumber);
+    if (item.onChain) {
+        field(doc, 'On-chain hash', item.onChain.evidenceHash, { mono: true });
+        field(doc, 'On-chain collector', item.onChain.collector, { mono: true });
+        field(doc, 'On-chain timestamp', formatDate(item.onChain.timestamp * 1000));
+        field(doc, 'On-chain status', CHAIN_STATUSES[item.onChain.status] || item.onChain.status);
+        if (item.onChain.evidenceHash.toLowerCase() !== String(item.sha256).toLowerCase()) {
+            note(doc, 'The on-chain hash does not match the stored SHA-256.', COLORS.danger);
+        }
+    } else {
+        note(doc, 'The blockchain could not be read when this report was generated.');
+    }
+
+    doc.moveDown(0.5);
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(COLORS.text).text(`Custody timeline (${item.custody.length} events)`);
+    if (!item.custodySource) {
+        note(doc, 'Custody history unavailable: the blockchain could not be read.');
+    } else if (!item.custody.length) {
+        note(doc, 'No custody events recorded on chain.');
+    }
+    item.custody.forEach(event => {
+        doc.font('Helvetica').fontSize(9).fillColor(event.action === 'VIOLATION' ? COLORS.danger : COLORS.text)
+            .text(`${event.eventIndex + 1}. ${formatDate(event.timestamp)}  ${event.action}  by ${event.handler}`);
+        doc.font('Courier').fontSize(8).fillColor(COLORS.muted).text(`   metadata ${event.metadataHash}`);
+    });
+
+    doc.moveDown(0.5);
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(COLORS.text).text(`Verification results (${item.verifications.length})`);
+    if (!item.verifications.length) note(doc, 'The file has not been re-verified against the chain.');
+    item.verifications.forEach(v => {
+        doc.font('Helvetica').fontSize(9).fillColor(v.verdict === 'TAMPERED' ? COLORS.danger : COLORS.text)
+            .text(`${formatDate(v.timestamp)}  ${v.verdict || 'NO VERDICT'}  by ${v.actor.name} (badge ${v.actor.badgeNumber}), audit entry #${v.auditSequence}`);
+        if (v.submittedHash) doc.font('Courier').fontSize(8).fillColor(COLORS.muted).text(`   submitted ${v.submittedHash}`);
+    });
+
+    doc.moveDown(0.5);
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(COLORS.text)
+        .text(`Verifier attestations (${item.attestations ? item.attestations.length : 0})`);
+    if (item.consensus) {
+        field(doc, 'Consensus', `${item.consensus.status} - ${item.consensus.label} (quorum ${item.consensus.threshold})`);
+    }
+    if (!item.attestations) {
+        note(doc, 'Attestations unavailable: the blockchain could not be read.');
+    } else if (!item.attestations.length) {
+        note(doc, 'No verifier node has attested this item.');
+    }
+    (item.attestations || []).forEach(a => {
+        doc.font('Helvetica').fontSize(9).fillColor(a.verified ? COLORS.text : COLORS.danger)
+            .text(`${formatDate(a.attestedAt)}  ${a.verified ? 'VERIFIED' : 'REJECTED'}  by ${a.verifierName || 'external verifier'}`);
+        doc.font('Courier').fontSize(8).fillColor(COLORS.muted).text(`   verifier ${a.verifier}`);
+    });
+
+    doc.moveDown(0.5);
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(COLORS.text).text('AI analysis');
+    if (item.aiAnalysis) {
+        field(doc, 'Risk score', `${item.aiAnalysis.riskScore}/100`);
+        field(doc, 'Manipulation probability', item.aiAnalysis.manipulationProbability);
+        if (item.aiAnalysis.explanation) field(doc, 'Explanation', item.aiAnalysis.explanation);
+        if (item.aiAnalysis.signals && item.aiAnalysis.signals.length) {
+            field(doc, 'Signals', item.aiAnalysis.signals.map(s => (typeof s === 'string' ? s : s.name || JSON.stringify(s))).join('; '));
+        }
+    } else {
+        note(doc, 'No AI analysis on record.');
+    }
+
+    doc.moveDown(0.5);
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(COLORS.text).text(`Tamper ledger (${item.tamperHistory.length} alerts)`);
+    if (!item.tamperHistory.length) note(doc, 'No tamper alerts raised.');
+    item.tamperHistory.forEach(alert => {
+        doc.font('Helvetica').fontSize(9).fillColor(COLORS.text)
+            .text(`${formatDate(alert.timestamp)}  ${alert.alertType} (${alert.severity}) - ${alert.status}`);
+        doc.font('Helvetica').fontSize(8).fillColor(COLORS.muted).text(`   ${alert.reason}`);
+        (alert.history || []).forEach(change => {
+            const what = change.type === 'NOTE_ADDED'
+                ? `note: ${change.note}`
+                : `${change.type.toLowerCase().replace('_', ' ')} ${change.from || '-'} -> ${change.to || '-'}`;
+            doc.text(`   ${formatDate(change.at)} ${change.by ? change.by.name : 'system'}: ${what}`);
+        });
+        if (alert.resolutionNotes) doc.text(`   resolution: ${alert.resolutionNotes}`);
+    });
+}
+
+function renderIntegrity(doc, data, contentHash, signature) {
+    heading(doc, 'Integrity');
+    field(doc, 'Report ID', data.reportId);
+    field(doc, 'Content SHA-256', contentHash, { mono: true });
+    field(doc, 'Signature (Ed25519, base64)', signature.signature, { mono: true });
+    field(doc, 'Signing key ID', signature.keyId, { mono: true });
+    doc.moveDown(0.3);
+    doc.font('Courier').fontSize(7).fillColor(COLORS.muted).text(signature.publicKey);
+    doc.moveDown(0.3);
+    doc.font('Helvetica').fontSize(9).fillColor(COLORS.text).text(
+        `To check this report: extract the embedded ${DATA_ATTACHMENT}, confirm its SHA-256 equals the content hash above ` +
+        'and in every page footer, and verify the signature over that file with the public key shown. ' +
+        'The vault also records the hash of this PDF file in its audit log at generation time.'
+    );
+}
+
+function renderFooters(doc, reportId, contentHash) {
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+        doc.switchToPage(i);
+        // Write into the bottom margin without triggering a page break
+        const bottom = doc.page.margins.bottom;
+        doc.page.margins.bottom = 0;
+        doc.font('Helvetica').fontSize(7).fillColor(COLORS.muted).text(
+            `${reportId}  |  Content SHA-256 ${contentHash}  |  Page ${i + 1} of ${range.count}`,
+            PAGE_MARGIN,
+            doc.page.height - FOOTER_HEIGHT,
+            { width: doc.page.width - PAGE_MARGIN * 2, align: 'center', lineBreak: false }
+        );
+        doc.page.margins.bottom = bottom;
+    }
+}
+
+/**
+ * Render report data as a signed PDF
+ * @param {Object} data - From createReportData
+ * @returns {Promise<Object>} - { buffer, contentHash, pdfSha256, signature }
+ */
+function renderReport(data) {
+    const canonical = canonicalStringify(data);
+    const signature = signingService.sign(canonical);
+    const contentHash = signature.sha256;
+
+    const title = data.type === 'CASE' ? `Case ${data.subject}` : `Evidence #${data.subject}`;
+    const doc = new PDFDocument({
+        size: 'A4',
+        margin: PAGE_MARGIN,
+        bufferPages: true,
+        info: {
+            Title: `Evidence Integrity Report - ${title}`,
+            Author: 'Sentinel Digital Evidence Vault',
+            Subject: data.reportId,
+            CreationDate: new Date(data.generatedAt)
+        }
+    });
+
+    const chunks = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    const finished = new Promise((resolve, reject) => {
+        doc.on('end', resolve);
+        doc.on('error', reject);
+    });
+
+    doc.font('Helvetica-Bold').fontSize(20).fillColor(COLORS.text).text('Evidence Integrity Report');
+    doc.font('Helvetica').fontSize(12).fillColor(COLORS.muted).text(title);
+    doc.moveDown(0.5);
+    field(doc, 'Report ID', data.reportId);
+    field(doc, 'Generated', formatDate(data.generatedAt));
+    field(doc, 'Generated by', `${data.generatedBy.name} (badge ${data.generatedBy.badgeNumber}, ${data.generatedBy.role})`);
+    field(doc, 'Evidence items', data.evidence.length);
+
+    if (data.case) renderCase(doc, data.case);
+    data.evidence.forEach((item, index) => {
+        if (index > 0 || data.case) doc.addPage();
+        renderEvidence(doc, item);
+    });
+    renderIntegrity(doc, data, contentHash, signature);
+
+    doc.file(Buffer.from(canonical, 'utf8'), {
+        name: DATA_ATTACHMENT,
+        type: 'application/json',
+        description: 'Canonical report data covered by the content hash and signature'
+    });
+    renderFooters(doc, data.reportId, contentHash);
+    doc.end();
+
+    return finished.then(() => {
+        const buffer = Buffer.concat(chunks);
+        return { buffer, contentHash, pdfSha256: computeFileHash(buffer), signature };
+    });
+}
+
+module.exports = {
+    DATA_ATTACHMENT,
+    createReportData,
+    renderReport
+};
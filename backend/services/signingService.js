@@ -0,0 +1,94 @@
+/**
+ * Signing Service - Signs exported documents so recipients can check them offline
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { computeFileHash } = require('../utils/crypto');
+require('dotenv').config();
+
+// Ed25519 key in PEM; generated on first start if it does not exist
+const KEY_FILE = process.env.SIGNING_KEY_PATH || path.join(__dirname, '../data/signing_key.pem');
+
+class SigningService {
+    constructor() {
+        this.privateKey = null;
+        this.publicKeyPem = null;
+        this.keyId = null;
+    }
+
+    /**
+     * Load the signing key, creating one on first use
+     */
+    _loadKey() {
+        if (this.privateKey) return;
+
+        if (fs.existsSync(KEY_FILE)) {
+            this.privateKey = crypto.createPrivateKey(fs.readFileSync(KEY_FILE, 'utf8'));
+        } else {
+            const { privateKey } = crypto.generateKeyPairSync('ed25519');
+            fs.mkdirSync(path.dirname(KEY_FILE), { recursive: true });
+            fs.writeFileSync(KEY_FILE, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+            console.log(`🔑 Generated new document signing key at ${KEY_FILE}`);
+            this.privateKey = privateKey;
+        }
+
+        const publicKey = crypto.createPublicKey(this.privateKey);
+        this.publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' });
+        // Short fingerprint of the public key so documents can name the key that signed them
+        this.keyId = crypto.createHash('sha256')
+            .update(publicKey.export({ type: 'spki', format: 'der' }))
+            .digest('hex')
+            .slice(0, 16);
+    }
+
+    /**
+     * Public half of the signing key
+     * @returns {Object} - { algorithm, keyId, publicKey }
+     */
+    getPublicKey() {
+        this._loadKey();
+        return { algorithm: 'Ed25519', keyId: this.keyId, publicKey: this.publicKeyPem };
+    }
+
+    /**
+     * Sign a document
+     * @param {string|Buffer} content - Exact bytes the recipient will hold
+     * @returns {Object} - { algorithm, keyId, publicKey, sha256, signature, signedAt }
+     */
+    sign(content) {
+        this._loadKey();
+        const buffer = Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf8');
+        const signature = crypto.sign(null, buffer, this.privateKey).toString('base64');
+
+        return {
+            ...this.getPublicKey(),
+            sha256: computeFileHash(buffer),
+            signature,
+            signedAt: new Date().toISOString()
+        };
+    }
+
+    /**
+     * Check a detached signature
+     * @param {string|Buffer} content
+     * @param {string} signature - Base64 signature
+     * @param {string} [publicKeyPem] - Defaults to this server's key
+     * @returns {boolean}
+     */
+    verify(content, signature, publicKeyPem) {
+        if (!publicKeyPem) {
+            this._loadKey();
+            publicKeyPem = this.publicKeyPem;
+        }
+        const buffer = Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf8');
+        try {
+            return crypto.verify(null, buffer, crypto.createPublicKey(publicKeyPem), Buffer.from(signature, 'base64'));
+        } catch (error) {
+            return false;
+        }
+    }
+}
+
+module.exports = new SigningService();
@@ -22,7 +22,7 @@ function initializeSupabase() {
     }
 }
 
-// Upload file to Supabase Storage
+// Upload file to Supabase Storage; large files are passed as a read stream instead of a Buffer
 async function uploadFile(fileBuffer, fileName, mimeType) {
     if (!supabase) return { path: null, url: null, error: "Supabase not initialized" };
 
@@ -36,7 +36,9 @@ async function uploadFile(fileBuffer, fileName, mimeType) {
             .from('evidence-files')
             .upload(path, fileBuffer, {
                 contentType: mimeType,
-                upsert: false
+                upsert: false,
+                // Node's fetch only sends a streamed body in half-duplex mode
+                ...(Buffer.isBuffer(fileBuffer) ? {} : { duplex: 'half' })
             });
 
         if (error) throw error;
@@ -88,6 +90,81 @@ async function saveEvidenceMetadata(evidenceData) {
     }
 }
 
+// Save metadata for many Evidence items in one insert
+async function saveEvidenceItems(rows) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('evidence')
+            .insert(rows)
+            .select();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Save Evidence Items Error:', error.message);
+        throw error;
+    }
+}
+
+// Get the Evidence items of a batch, in tree order
+async function getEvidenceByBatch(batchId) {
+    if (!supabase) return [];
+
+    try {
+        const { data, error } = await supabase
+            .from('evidence')
+            .select('*')
+            .eq('batch_id', batchId)
+            .order('batch_index', { ascending: true });
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Batch Evidence Error:', error.message);
+        throw error;
+    }
+}
+
+// Save an Evidence Batch
+async function saveEvidenceBatch(batchData) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('evidence_batches')
+            .insert([batchData])
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Save Batch Error:', error.message);
+        throw error;
+    }
+}
+
+// Get an Evidence Batch by its on-chain ID
+async function getEvidenceBatch(batchId) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('evidence_batches')
+            .select('*')
+            .eq('batch_id', batchId)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Batch Error:', error.message);
+        throw error;
+    }
+}
+
 // Get All Evidence (with optional filters)
 async function getEvidence(filters = {}) {
     if (!supabase) return [];
@@ -107,6 +184,10 @@ async function getEvidence(filters = {}) {
             query = query.ilike('evidence_type', filters.type);
         }
 
+        if (filters.caseId) {
+            query = query.eq('case_id', filters.caseId);
+        }
+
         // Remove status filter here as it requires derived logic (tamper alerts)
         // We will filter in server.js after aggregating data.
 
@@ -139,14 +220,14 @@ async function getEvidenceById(evidenceId) {
     }
 }
 
-// Save Custody Event
+// Save an indexed Custody Event; indexing the same event again overwrites it
 async function saveCustodyEvent(eventData) {
     if (!supabase) return null;
 
     try {
         const { data, error } = await supabase
             .from('custody_events')
-            .insert([eventData])
+            .upsert([eventData], { onConflict: 'evidence_id,event_index' })
             .select()
             .single();
 
@@ -154,8 +235,29 @@ async function saveCustodyEvent(eventData) {
         return data;
     } catch (error) {
         console.error('Save Custody Error:', error.message);
-        // Don't throw, just log
-        return null;
+        throw error;
+    }
+}
+
+// Get indexed Custody Events, by evidence item and/or since a time, oldest first
+async function getCustodyEvents({ evidenceId = null, since = null } = {}) {
+    if (!supabase) return [];
+
+    try {
+        let query = supabase
+            .from('custody_events')
+            .select('*')
+            .order('timestamp', { ascending: true })
+            .order('event_index', { ascending: true });
+        if (evidenceId) query = query.eq('evidence_id', evidenceId);
+        if (since) query = query.gte('timestamp', since);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Custody Events Error:', error.message);
+        throw error;
     }
 }
 
@@ -167,14 +269,811 @@ async function saveTamperAlert(alertData) {
         const { data, error } = await supabase
             .from('tamper_alerts')
             .insert([alertData])
-            .select()
+            .select('*, history:tamper_alert_history(*)')
             .single();
 
         if (error) throw error;
         return data;
     } catch (error) {
         console.error('Save Alert Error:', error.message);
-        return null;
+        throw error;
+    }
+}
+
+// Get Tamper Alerts (newest first) with their history
+async function getTamperAlerts({ evidenceId = null, statuses = [], severities = [], assignedTo = null } = {}) {
+    if (!supabase) return [];
+
+    try {
+        let query = supabase
+            .from('tamper_alerts')
+            .select('*, history:tamper_alert_history(*)')
+            .order('created_at', { ascending: false });
+
+        // Alerts for evidence without a database row keep the ID in details
+        if (evidenceId) query = query.or(`evidence_id.eq.${evidenceId},details->>evidenceId.eq.${evidenceId}`);
+        if (statuses.length) query = query.in('status', statuses);
+        if (severities.length) query = query.in('severity', severities);
+        if (assignedTo) query = query.eq('assigned_to', assignedTo);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Alerts Error:', error.message);
+        throw error;
+    }
+}
+
+// Get a Tamper Alert by ID with its history
+async function getTamperAlertById(alertId) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('tamper_alerts')
+            .select('*, history:tamper_alert_history(*)')
+            .eq('id', alertId)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Alert Error:', error.message);
+        throw error;
+    }
+}
+
+// Find a Tamper Alert imported from the legacy JSON ledger
+async function getTamperAlertByLegacyId(legacyId) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('tamper_alerts')
+            .select('id')
+            .eq('details->>legacyId', legacyId)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Alert Error:', error.message);
+        throw error;
+    }
+}
+
+// Get the Tamper Alert raised by a given source (e.g. an outbox entry)
+async function getTamperAlertBySourceKey(sourceKey) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('tamper_alerts')
+            .select('*, history:tamper_alert_history(*)')
+            .eq('details->>sourceKey', sourceKey)
+            .limit(1)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Alert Error:', error.message);
+        throw error;
+    }
+}
+
+// Update Tamper Alert columns
+async function updateTamperAlert(alertId, changes) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('tamper_alerts')
+            .update(changes)
+            .eq('id', alertId)
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Update Alert Error:', error.message);
+        throw error;
+    }
+}
+
+// Save Tamper Alert History entries
+async function saveTamperAlertHistory(entries) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('tamper_alert_history')
+            .insert(entries)
+            .select();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Save Alert History Error:', error.message);
+        throw error;
+    }
+}
+
+// Get every Custody Policy version
+async function getCustodyPolicies() {
+    if (!supabase) return [];
+
+    try {
+        const { data, error } = await supabase
+            .from('custody_policies')
+            .select('*')
+            .order('policy_id', { ascending: true })
+            .order('version', { ascending: true });
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Policies Error:', error.message);
+        throw error;
+    }
+}
+
+// Save a Custody Policy version
+async function saveCustodyPolicy(policyData) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('custody_policies')
+            .insert([policyData])
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Save Policy Error:', error.message);
+        throw error;
+    }
+}
+
+// Archive every version of a Custody Policy
+async function archiveCustodyPolicy(policyId) {
+    if (!supabase) return null;
+
+    try {
+        const { error } = await supabase
+            .from('custody_policies')
+            .update({ archived: true })
+            .eq('policy_id', policyId);
+
+        if (error) throw error;
+        return true;
+    } catch (error) {
+        console.error('Archive Policy Error:', error.message);
+        throw error;
+    }
+}
+
+// Get Policy Assignments
+async function getPolicyAssignments() {
+    if (!supabase) return [];
+
+    try {
+        const { data, error } = await supabase
+            .from('custody_policy_assignments')
+            .select('*')
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Policy Assignments Error:', error.message);
+        throw error;
+    }
+}
+
+// Save (or replace) a Policy Assignment
+async function savePolicyAssignment(assignmentData) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('custody_policy_assignments')
+            .upsert([assignmentData], { onConflict: 'scope_type,scope_value' })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Save Policy Assignment Error:', error.message);
+        throw error;
+    }
+}
+
+// Delete a Policy Assignment
+async function deletePolicyAssignment(scopeType, scopeValue) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('custody_policy_assignments')
+            .delete()
+            .eq('scope_type', scopeType)
+            .eq('scope_value', scopeValue)
+            .select();
+
+        if (error) throw error;
+        return data.length > 0;
+    } catch (error) {
+        console.error('Delete Policy Assignment Error:', error.message);
+        throw error;
+    }
+}
+
+// Get Custody State for evidence
+async function getCustodyState(evidenceId) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('custody_state')
+            .select('*')
+            .eq('evidence_id', evidenceId)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Custody State Error:', error.message);
+        throw error;
+    }
+}
+
+// Get Custody State rows with an open checkout
+async function getActiveCheckouts() {
+    if (!supabase) return [];
+
+    try {
+        const { data, error } = await supabase
+            .from('custody_state')
+            .select('*')
+            .not('checkout', 'is', null);
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Active Checkouts Error:', error.message);
+        throw error;
+    }
+}
+
+// Save Custody State for evidence
+async function saveCustodyState(stateData) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('custody_state')
+            .upsert([stateData], { onConflict: 'evidence_id' })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Save Custody State Error:', error.message);
+        throw error;
+    }
+}
+
+// Get all Cases, newest first
+async function getCases() {
+    if (!supabase) return [];
+
+    try {
+        const { data, error } = await supabase
+            .from('cases')
+            .select('*')
+            .order('opened_at', { ascending: false });
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Cases Error:', error.message);
+        throw error;
+    }
+}
+
+// Get Case by its number
+async function getCaseByNumber(caseNumber) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('cases')
+            .select('*')
+            .eq('case_number', caseNumber)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Case Error:', error.message);
+        throw error;
+    }
+}
+
+// Save a new Case
+async function saveCase(caseData) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('cases')
+            .insert([caseData])
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Save Case Error:', error.message);
+        throw error;
+    }
+}
+
+// Update a Case
+async function updateCase(caseNumber, changes) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('cases')
+            .update(changes)
+            .eq('case_number', caseNumber)
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Update Case Error:', error.message);
+        throw error;
+    }
+}
+
+// Get User by Badge Number
+async function getUserByBadgeNumber(badgeNumber) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('users')
+            .select('*')
+            .eq('badge_number', badgeNumber)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get User Error:', error.message);
+        return null;
+    }
+}
+
+// Get all active Users
+async function getUsers() {
+    if (!supabase) return [];
+
+    try {
+        const { data, error } = await supabase
+            .from('users')
+            .select('*')
+            .eq('active', true)
+            .order('name', { ascending: true });
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Users Error:', error.message);
+        return [];
+    }
+}
+
+// Save User (insert or update by badge number)
+async function saveUser(userData) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('users')
+            .upsert([userData], { onConflict: 'badge_number' })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Save User Error:', error.message);
+        throw error;
+    }
+}
+
+// Save Audit Log Entry
+async function saveAuditEntry(entry) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('audit_log')
+            .insert([entry])
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Save Audit Entry Error:', error.message);
+        throw error;
+    }
+}
+
+// Get the most recent Audit Log Entry (tail of the hash chain)
+async function getLatestAuditEntry() {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('audit_log')
+            .select('*')
+            .order('sequence', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Latest Audit Entry Error:', error.message);
+        throw error;
+    }
+}
+
+// Get Audit Log Entries ordered by sequence, optionally filtered
+async function getAuditEntries({ ascending = false, afterSequence = null, beforeSequence = null, limit = 500, filters = {} } = {}) {
+    if (!supabase) return [];
+
+    try {
+        let query = supabase
+            .from('audit_log')
+            .select('*')
+            .order('sequence', { ascending })
+            .limit(limit);
+
+        if (afterSequence !== null) query = query.gt('sequence', afterSequence);
+        if (beforeSequence !== null) query = query.lt('sequence', beforeSequence);
+
+        if (filters.actor) {
+            // Strip PostgREST filter syntax before building the OR clause
+            const actor = filters.actor.replace(/[,()*%]/g, '');
+            query = query.or(`actor.eq.${actor},actor_name.ilike.*${actor}*`);
+        }
+        if (filters.actions && filters.actions.length) query = query.in('action', filters.actions);
+        if (filters.resourceType) query = query.eq('resource_type', filters.resourceType);
+        if (filters.resourceId) query = query.eq('resource_id', filters.resourceId);
+        if (filters.severities && filters.severities.length) query = query.in('severity', filters.severities);
+        if (filters.from) query = query.gte('created_at', filters.from);
+        if (filters.to) query = query.lte('created_at', filters.to);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Audit Entries Error:', error.message);
+        throw error;
+    }
+}
+
+// Get Transaction Outbox entries not yet confirmed and handled, oldest first
+async function getOpenOutboxEntries() {
+    if (!supabase) return [];
+
+    try {
+        const { data, error } = await supabase
+            .from('tx_outbox')
+            .select('*')
+            .or('status.neq.CONFIRMED,handled_at.is.null')
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Open Outbox Entries Error:', error.message);
+        throw error;
+    }
+}
+
+// Get recent Transaction Outbox entries, newest first
+async function getOutboxEntries({ status = null, limit = 100 } = {}) {
+    if (!supabase) return [];
+
+    try {
+        let query = supabase
+            .from('tx_outbox')
+            .select('*')
+            .order('created_at', { ascending: false })
+            .limit(limit);
+        if (status) query = query.eq('status', status);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Outbox Entries Error:', error.message);
+        throw error;
+    }
+}
+
+// Get a Transaction Outbox entry
+async function getOutboxEntry(id) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('tx_outbox')
+            .select('*')
+            .eq('id', id)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Outbox Entry Error:', error.message);
+        throw error;
+    }
+}
+
+// Save a Transaction Outbox entry
+async function saveOutboxEntry(entryData) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('tx_outbox')
+            .upsert([entryData], { onConflict: 'id' })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Save Outbox Entry Error:', error.message);
+        throw error;
+    }
+}
+
+// Save an indexed registry event other than a custody log
+async function saveChainEvent(eventData) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('chain_events')
+            .upsert([eventData], { onConflict: 'tx_hash,log_index' })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Save Chain Event Error:', error.message);
+        throw error;
+    }
+}
+
+// Drop every indexed custody log and registry event, e.g. when the index moves to another contract
+async function clearChainIndex() {
+    if (!supabase) return null;
+
+    try {
+        for (const table of ['custody_events', 'chain_events']) {
+            const { error } = await supabase
+                .from(table)
+                .delete()
+                .not('id', 'is', null);
+
+            if (error) throw error;
+        }
+        return true;
+    } catch (error) {
+        console.error('Clear Chain Index Error:', error.message);
+        throw error;
+    }
+}
+
+// Get indexed registry events, oldest first
+async function getChainEvents({ evidenceId = null, eventName = null, since = null } = {}) {
+    if (!supabase) return [];
+
+    try {
+        let query = supabase
+            .from('chain_events')
+            .select('*')
+            .order('block_number', { ascending: true })
+            .order('log_index', { ascending: true });
+        if (evidenceId) query = query.eq('evidence_id', evidenceId);
+        if (eventName) query = query.eq('event_name', eventName);
+        if (since) query = query.gte('timestamp', since);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Chain Events Error:', error.message);
+        throw error;
+    }
+}
+
+// Get how far an indexer has read
+async function getChainSyncState(name) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('chain_sync_state')
+            .select('*')
+            .eq('name', name)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Chain Sync State Error:', error.message);
+        throw error;
+    }
+}
+
+// Save how far an indexer has read
+async function saveChainSyncState(stateData) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('chain_sync_state')
+            .upsert([stateData], { onConflict: 'name' })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Save Chain Sync State Error:', error.message);
+        throw error;
+    }
+}
+
+// Save a reconciliation report
+async function saveReconciliationReport(reportData) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('reconciliation_reports')
+            .upsert([reportData], { onConflict: 'id' })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Save Reconciliation Report Error:', error.message);
+        throw error;
+    }
+}
+
+// Get the most recent reconciliation report
+async function getLatestReconciliationReport() {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('reconciliation_reports')
+            .select('*')
+            .order('finished_at', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Reconciliation Report Error:', error.message);
+        throw error;
+    }
+}
+
+// Update the Evidence row of one item
+async function updateEvidence(evidenceId, changes) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('evidence')
+            .update(changes)
+            .eq('evidence_id', evidenceId)
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Update Evidence Error:', error.message);
+        throw error;
+    }
+}
+
+// Update an Evidence batch and every item in it
+async function updateEvidenceBatch(batchId, batchChanges, itemChanges) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('evidence_batches')
+            .update(batchChanges)
+            .eq('batch_id', batchId)
+            .select()
+            .single();
+        if (error) throw error;
+
+        const { error: itemsError } = await supabase
+            .from('evidence')
+            .update(itemChanges)
+            .eq('batch_id', batchId);
+        if (itemsError) throw itemsError;
+
+        return data;
+    } catch (error) {
+        console.error('Update Evidence Batch Error:', error.message);
+        throw error;
+    }
+}
+
+// Save a signed registry migration document
+async function saveRegistryMigration(migrationData) {
+    if (!supabase) return null;
+
+    try {
+        const { data, error } = await supabase
+            .from('registry_migrations')
+            .upsert([migrationData], { onConflict: 'id' })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Save Registry Migration Error:', error.message);
+        throw error;
+    }
+}
+
+// Get every registry migration, oldest first
+async function getRegistryMigrations() {
+    if (!supabase) return [];
+
+    try {
+        const { data, error } = await supabase
+            .from('registry_migrations')
+            .select('*')
+            .order('migrated_at', { ascending: true });
+
+        if (error) throw error;
+        return data;
+    } catch (error) {
+        console.error('Get Registry Migrations Error:', error.message);
+        throw error;
     }
 }
 
@@ -183,8 +1082,53 @@ module.exports = {
     uploadFile,
     getFileUrl,
     saveEvidenceMetadata,
+    saveEvidenceItems,
+    getEvidenceByBatch,
+    saveEvidenceBatch,
+    getEvidenceBatch,
     getEvidence,
     getEvidenceById,
+    updateEvidence,
+    updateEvidenceBatch,
     saveCustodyEvent,
-    saveTamperAlert
+    getCustodyEvents,
+    saveChainEvent,
+    clearChainIndex,
+    getChainEvents,
+    getChainSyncState,
+    saveChainSyncState,
+    saveReconciliationReport,
+    getLatestReconciliationReport,
+    saveRegistryMigration,
+    getRegistryMigrations,
+    saveTamperAlert,
+    getTamperAlerts,
+    getTamperAlertById,
+    getTamperAlertByLegacyId,
+    getTamperAlertBySourceKey,
+    updateTamperAlert,
+    saveTamperAlertHistory,
+    getCustodyPolicies,
+    saveCustodyPolicy,
+    archiveCustodyPolicy,
+    getPolicyAssignments,
+    savePolicyAssignment,
+    deletePolicyAssignment,
+    getCustodyState,
+    getActiveCheckouts,
+    saveCustodyState,
+    getCases,
+    getCaseByNumber,
+    saveCase,
+    updateCase,
+    getUserByBadgeNumber,
+    getUsers,
+    saveUser,
+    saveAuditEntry,
+    getLatestAuditEntry,
+    getAuditEntries,
+    getOpenOutboxEntries,
+    getOutboxEntries,
+    getOutboxEntry,
+    saveOutboxEntry
 };
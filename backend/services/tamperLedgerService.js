@@ -1,25 +1,238 @@
 const fs = require('fs');
 const path = require('path');
+const supabaseService = require('./supabaseService');
+const liveEventsService = require('./liveEventsService');
 
+// Local fallback when Supabase is not configured; also the source for scripts/importTamperLedger.js
 const STORAGE_FILE = path.join(__dirname, '../data/tamper_ledger.json');
 
+// Alert lifecycle: which states each state may move to
+const ALERT_STATUSES = ['OPEN', 'ACKNOWLEDGED', 'UNDER_INVESTIGATION', 'RESOLVED', 'FALSE_POSITIVE'];
+const ALERT_TRANSITIONS = {
+    OPEN: ['ACKNOWLEDGED', 'UNDER_INVESTIGATION', 'RESOLVED', 'FALSE_POSITIVE'],
+    ACKNOWLEDGED: ['UNDER_INVESTIGATION', 'RESOLVED', 'FALSE_POSITIVE'],
+    UNDER_INVESTIGATION: ['RESOLVED', 'FALSE_POSITIVE'],
+    RESOLVED: ['OPEN'],
+    FALSE_POSITIVE: ['OPEN']
+};
+const CLOSED_STATUSES = ['RESOLVED', 'FALSE_POSITIVE'];
+const SEVERITIES = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+// tamper_alerts.alert_type for each detection source
+const ALERT_TYPES = {
+    VERIFICATION: 'HASH_MISMATCH',
+    AI: 'AI_MANIPULATION_RISK'
+};
+const DEFAULT_ALERT_TYPE = 'TAMPER_SUSPECTED';
+
+// Postgres foreign key violation (evidence not registered in the database)
+const FOREIGN_KEY_VIOLATION = '23503';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+let useDatabase = false;
+
 // Ensure data directory exists
 const dataDir = path.dirname(STORAGE_FILE);
 if (!fs.existsSync(dataDir)) {
     fs.mkdirSync(dataDir, { recursive: true });
 }
 
-// Initial load
-let tamperEvents = [];
-if (fs.existsSync(STORAGE_FILE)) {
+/**
+ * Read events from the JSON ledger file
+ * @returns {Array}
+ */
+function loadLocalEvents() {
+    if (!fs.existsSync(STORAGE_FILE)) return [];
     try {
-        tamperEvents = JSON.parse(fs.readFileSync(STORAGE_FILE, 'utf8'));
+        return JSON.parse(fs.readFileSync(STORAGE_FILE, 'utf8'));
     } catch (e) {
         console.error('Failed to load tamper ledger storage:', e);
+        return [];
+    }
+}
+
+let tamperEvents = loadLocalEvents();
+
+function persist() {
+    try {
+        fs.writeFileSync(STORAGE_FILE, JSON.stringify(tamperEvents, null, 2));
+    } catch (e) {
+        console.error('Failed to persist tamper ledger:', e);
+    }
+}
+
+/**
+ * Choose the alert store. Supabase's tamper_alerts table when available,
+ * otherwise the local JSON ledger.
+ * @param {boolean} databaseReady - Whether Supabase initialized
+ */
+function initialize(databaseReady) {
+    useDatabase = databaseReady;
+    if (useDatabase) {
         tamperEvents = [];
+        console.log('🚨 Tamper ledger: using tamper_alerts table');
+    } else {
+        tamperEvents = loadLocalEvents();
+        console.log(`🚨 Tamper ledger: using local storage (${tamperEvents.length} events)`);
     }
 }
 
+/**
+ * Map a risk score to an alert severity
+ * @param {number} riskScore - 0-100
+ * @returns {string} - LOW | MEDIUM | HIGH | CRITICAL
+ */
+function severityForScore(riskScore) {
+    if (riskScore >= 90) return 'CRITICAL';
+    if (riskScore >= 70) return 'HIGH';
+    if (riskScore >= 40) return 'MEDIUM';
+    return 'LOW';
+}
+
+/**
+ * Fill in type and lifecycle fields for events recorded before alerts had them
+ */
+function withLifecycle(event) {
+    return {
+        ...event,
+        alertType: event.alertType || ALERT_TYPES[event.detectedBy] || DEFAULT_ALERT_TYPE,
+        details: event.details || null,
+        status: event.status || 'OPEN',
+        severity: event.severity || severityForScore(event.riskScore),
+        assignedTo: event.assignedTo || null,
+        resolved: !!event.resolved,
+        resolvedBy: event.resolvedBy || null,
+        resolvedAt: event.resolvedAt || null,
+        resolutionNotes: event.resolutionNotes || null,
+        history: event.history || []
+    };
+}
+
+// Compact reference to a user, as stored on alerts and history entries
+function userRef(user) {
+    return { badgeNumber: user.badgeNumber, name: user.name };
+}
+
+function userRefFromColumns(badgeNumber, name) {
+    return badgeNumber ? { badgeNumber, name: name || badgeNumber } : null;
+}
+
+/**
+ * Convert a tamper_alerts row (with embedded history) to the alert shape the API returns
+ * @param {Object} row
+ * @returns {Object}
+ */
+function fromRow(row) {
+    const { legacyId, evidenceId, ...details } = row.details || {};
+    const history = (row.history || [])
+        .slice()
+        .sort((a, b) => new Date(a.created_at) - new Date(b.created_at))
+        .map(entry => ({
+            type: entry.change_type,
+            from: entry.from_value,
+            to: entry.to_value,
+            by: userRefFromColumns(entry.changed_by, entry.changed_by_name),
+            note: entry.note,
+            at: new Date(entry.created_at).toISOString()
+        }));
+
+    return {
+        id: row.id,
+        evidenceId: row.evidence_id || evidenceId || null,
+        alertType: row.alert_type,
+        detectedBy: row.detected_by,
+        reason: row.reason,
+        riskScore: row.risk_score || 0,
+        details: Object.keys(details).length ? details : null,
+        timestamp: new Date(row.created_at).getTime(),
+        status: row.status,
+        severity: row.severity,
+        assignedTo: userRefFromColumns(row.assigned_to, row.assigned_to_name),
+        resolved: !!row.resolved,
+        resolvedBy: userRefFromColumns(row.resolved_by, row.resolved_by_name),
+        resolvedAt: row.resolved_at ? new Date(row.resolved_at).toISOString() : null,
+        resolutionNotes: row.resolution_notes,
+        history
+    };
+}
+
+/**
+ * Convert an alert (or a partial lifecycle change) to tamper_alerts columns
+ * @param {Object} alert
+ * @returns {Object}
+ */
+function toRow(alert) {
+    const row = {};
+    if ('status' in alert) row.status = alert.status;
+    if ('severity' in alert) row.severity = alert.severity;
+    if ('assignedTo' in alert) {
+        row.assigned_to = alert.assignedTo ? alert.assignedTo.badgeNumber : null;
+        row.assigned_to_name = alert.assignedTo ? alert.assignedTo.name : null;
+    }
+    if ('resolved' in alert) row.resolved = alert.resolved;
+    if ('resolvedBy' in alert) {
+        row.resolved_by = alert.resolvedBy ? alert.resolvedBy.badgeNumber : null;
+        row.resolved_by_name = alert.resolvedBy ? alert.resolvedBy.name : null;
+    }
+    if ('resolvedAt' in alert) row.resolved_at = alert.resolvedAt;
+    if ('resolutionNotes' in alert) row.resolution_notes = alert.resolutionNotes;
+    return row;
+}
+
+/**
+ * Convert a history entry to a tamper_alert_history row
+ */
+function historyToRow(alertId, entry) {
+    return {
+        alert_id: alertId,
+        change_type: entry.type,
+        from_value: entry.from,
+        to_value: entry.to,
+        changed_by: entry.by.badgeNumber,
+        changed_by_name: entry.by.name,
+        note: entry.note,
+        created_at: entry.at
+    };
+}
+
+/**
+ * Insert an alert into tamper_alerts. Evidence that only exists on-chain (no
+ * evidence row) is kept in details.evidenceId instead of the foreign key column.
+ * @param {Object} alert - Alert in API shape, lifecycle fields filled in
+ * @returns {Promise<Object>} - The stored alert
+ */
+async function insertAlertRow(alert) {
+    const row = {
+        evidence_id: alert.evidenceId,
+        alert_type: alert.alertType,
+        detected_by: alert.detectedBy,
+        severity: alert.severity,
+        risk_score: Math.max(0, Math.min(100, Math.round(alert.riskScore || 0))),
+        reason: alert.reason,
+        details: { ...(alert.details || {}), ...(alert.legacyId ? { legacyId: alert.legacyId } : {}) },
+        ...toRow(alert),
+        ...(alert.timestamp ? { created_at: new Date(alert.timestamp).toISOString() } : {})
+    };
+
+    let stored;
+    try {
+        stored = await supabaseService.saveTamperAlert(row);
+    } catch (error) {
+        if (error.code !== FOREIGN_KEY_VIOLATION) throw error;
+        stored = await supabaseService.saveTamperAlert({
+            ...row,
+            evidence_id: null,
+            details: { ...row.details, evidenceId: alert.evidenceId }
+        });
+    }
+
+    if (alert.history && alert.history.length) {
+        await supabaseService.saveTamperAlertHistory(alert.history.map(entry => historyToRow(stored.id, entry)));
+        stored = await supabaseService.getTamperAlertById(stored.id);
+    }
+    return fromRow(stored);
+}
+
 /**
  * Record a new tamper event
  * @param {Object} params - Event details
@@ -27,31 +240,48 @@ if (fs.existsSync(STORAGE_FILE)) {
  * @param {string} params.detectedBy - "AI" | "VERIFICATION"
  * @param {string} params.reason - Description of the tampering detection
  * @param {number} params.riskScore - Risk score (0-100)
- * @returns {Object|null} - The recorded event or null on failure
+ * @param {string} [params.alertType] - Defaults from detectedBy
+ * @param {Object} [params.details] - Extra context stored with the alert
+ * @param {string} [params.sourceKey] - Identifies what raised the alert (e.g. an outbox entry); a second
+ *     alert with the same key is not recorded and the first one is returned instead
+ * @returns {Promise<Object|null>} - The recorded event or null on failure
  */
-function recordTamperEvent({ evidenceId, detectedBy, reason, riskScore }) {
+async function recordTamperEvent({ evidenceId, detectedBy, reason, riskScore, alertType, details, sourceKey }) {
     try {
         if (!evidenceId) return null;
 
-        const event = {
+        if (sourceKey) {
+            const existing = await findAlertBySourceKey(sourceKey);
+            if (existing) {
+                console.log(`🚨 [Tamper Ledger] Already recorded: ${sourceKey}`);
+                return existing;
+            }
+        }
+
+        const source = detectedBy || "UNKNOWN";
+        const draft = withLifecycle({
             id: `TMR-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
             evidenceId,
-            detectedBy: detectedBy || "UNKNOWN",
+            alertType,
+            detectedBy: source,
             reason: reason || "No reason provided",
             riskScore: riskScore || 0,
+            details: sourceKey ? { ...(details || {}), sourceKey } : (details || null),
             timestamp: Date.now()
-        };
+        });
 
-        tamperEvents.push(event);
-
-        // Persist to file
-        try {
-            fs.writeFileSync(STORAGE_FILE, JSON.stringify(tamperEvents, null, 2));
-        } catch (e) {
-            console.error('Failed to persist tamper event:', e);
+        let event;
+        if (useDatabase) {
+            // The table assigns the ID and creation time
+            event = await insertAlertRow({ ...draft, id: undefined, timestamp: undefined });
+        } else {
+            event = draft;
+            tamperEvents.push(event);
+            persist();
         }
+        liveEventsService.publish('alert.created', { alert: event });
 
-        console.log(`🚨 [Tamper Ledger] Append: Evidence #${evidenceId} | Source: ${detectedBy}`);
+        console.log(`🚨 [Tamper Ledger] Append: Evidence #${evidenceId} | Source: ${source}`);
         return event;
     } catch (error) {
         console.error('⚠️ Tamper ledger failed to record event:', error.message);
@@ -59,26 +289,214 @@ function recordTamperEvent({ evidenceId, detectedBy, reason, riskScore }) {
     }
 }
 
+async function findAlertBySourceKey(sourceKey) {
+    if (useDatabase) {
+        const row = await supabaseService.getTamperAlertBySourceKey(sourceKey);
+        return row ? fromRow(row) : null;
+    }
+    return tamperEvents.find(event => event.details && event.details.sourceKey === sourceKey) || null;
+}
+
 /**
  * Get tamper events for a specific evidence ID
  * @param {string} evidenceId - Evidence ID to filter by
- * @returns {Array} - List of events for this evidence
+ * @returns {Promise<Array>} - List of events for this evidence
  */
-function getTamperEvents(evidenceId) {
+async function getTamperEvents(evidenceId) {
     if (!evidenceId) return [];
-    return tamperEvents.filter(event => event.evidenceId === evidenceId);
+    if (useDatabase) {
+        const rows = await supabaseService.getTamperAlerts({ evidenceId });
+        return rows.map(fromRow);
+    }
+    return tamperEvents.filter(event => event.evidenceId === evidenceId).map(withLifecycle);
 }
 
 /**
  * Get all recorded tamper events
- * @returns {Array} - List of all events
+ * @param {Object} [filters]
+ * @param {Array<string>} [filters.statuses] - Only alerts in these states
+ * @param {Array<string>} [filters.severities] - Only alerts with these severities
+ * @param {string} [filters.assignedTo] - Only alerts assigned to this badge number
+ * @returns {Promise<Array>} - List of matching events
+ */
+async function getAllTamperEvents({ statuses = [], severities = [], assignedTo = null } = {}) {
+    if (useDatabase) {
+        const rows = await supabaseService.getTamperAlerts({ statuses, severities, assignedTo });
+        return rows.map(fromRow);
+    }
+    return tamperEvents
+        .map(withLifecycle)
+        .filter(alert => !statuses.length || statuses.includes(alert.status))
+        .filter(alert => !severities.length || severities.includes(alert.severity))
+        .filter(alert => !assignedTo || (alert.assignedTo && alert.assignedTo.badgeNumber === assignedTo));
+}
+
+/**
+ * Get a single alert by ID
+ * @param {string} alertId
+ * @returns {Promise<Object|null>}
+ */
+async function getTamperEventById(alertId) {
+    if (useDatabase) {
+        if (!UUID_PATTERN.test(alertId)) return null;
+        const row = await supabaseService.getTamperAlertById(alertId);
+        return row ? fromRow(row) : null;
+    }
+    const event = tamperEvents.find(e => e.id === alertId);
+    return event ? withLifecycle(event) : null;
+}
+
+// Apply a change to a stored alert and append a history entry
+async function applyChange(alertId, change, historyEntry) {
+    const entry = { ...historyEntry, at: new Date().toISOString() };
+    let updated;
+
+    if (useDatabase) {
+        if (Object.keys(change).length) {
+            await supabaseService.updateTamperAlert(alertId, toRow(change));
+        }
+        await supabaseService.saveTamperAlertHistory([historyToRow(alertId, entry)]);
+        updated = await getTamperEventById(alertId);
+    } else {
+        const index = tamperEvents.findIndex(e => e.id === alertId);
+        updated = {
+            ...withLifecycle(tamperEvents[index]),
+            ...change
+        };
+        updated.history = [...updated.history, entry];
+
+        tamperEvents[index] = updated;
+        persist();
+    }
+
+    liveEventsService.publish('alert.updated', { alert: updated });
+    return updated;
+}
+
+/**
+ * Move an alert to a new lifecycle state
+ * @param {string} alertId
+ * @param {string} status - Target state from ALERT_STATUSES
+ * @param {Object} actor - Authenticated user making the change
+ * @param {string} [note] - Required when resolving or marking as false positive
+ * @returns {Promise<Object>} - { alert } on success, or { error, code }
+ */
+async function updateAlertStatus(alertId, status, actor, note) {
+    const alert = await getTamperEventById(alertId);
+    if (!alert) return { error: 'Alert not found', code: 404 };
+
+    if (!ALERT_STATUSES.includes(status)) {
+        return { error: `Unknown status ${status}`, code: 400 };
+    }
+    if (!ALERT_TRANSITIONS[alert.status].includes(status)) {
+        return { error: `Cannot move alert from ${alert.status} to ${status}`, code: 409 };
+    }
+
+    const closing = CLOSED_STATUSES.includes(status);
+    if (closing && !(note && note.trim())) {
+        return { error: 'Resolution notes are required to close an alert', code: 400 };
+    }
+
+    const change = closing
+        ? { status, resolved: true, resolvedBy: userRef(actor), resolvedAt: new Date().toISOString(), resolutionNotes: note.trim() }
+        : { status, resolved: false, resolvedBy: null, resolvedAt: null, resolutionNotes: null };
+
+    const updated = await applyChange(alertId, change, {
+        type: 'STATUS_CHANGED',
+        from: alert.status,
+        to: status,
+        by: userRef(actor),
+        note: note ? note.trim() : null
+    });
+
+    console.log(`🛡️  [Tamper Ledger] Alert ${alertId}: ${alert.status} → ${status} by ${actor.name}`);
+    return { alert: updated };
+}
+
+/**
+ * Assign an alert to a user, or clear the assignment
+ * @param {string} alertId
+ * @param {Object|null} assignee - { badgeNumber, name } or null to unassign
+ * @param {Object} actor - Authenticated user making the change
+ * @returns {Promise<Object>} - { alert } on success, or { error, code }
+ */
+async function assignAlert(alertId, assignee, actor) {
+    const alert = await getTamperEventById(alertId);
+    if (!alert) return { error: 'Alert not found', code: 404 };
+
+    const updated = await applyChange(alertId, { assignedTo: assignee ? userRef(assignee) : null }, {
+        type: 'ASSIGNED',
+        from: alert.assignedTo ? alert.assignedTo.badgeNumber : null,
+        to: assignee ? assignee.badgeNumber : null,
+        by: userRef(actor),
+        note: null
+    });
+
+    return { alert: updated };
+}
+
+/**
+ * Add an investigation note to an alert
+ * @param {string} alertId
+ * @param {string} note
+ * @param {Object} actor - Authenticated user adding the note
+ * @returns {Promise<Object>} - { alert } on success, or { error, code }
+ */
+async function addAlertNote(alertId, note, actor) {
+    const alert = await getTamperEventById(alertId);
+    if (!alert) return { error: 'Alert not found', code: 404 };
+    if (!(note && note.trim())) return { error: 'Note is required', code: 400 };
+
+    const updated = await applyChange(alertId, {}, {
+        type: 'NOTE_ADDED',
+        from: null,
+        to: null,
+        by: userRef(actor),
+        note: note.trim()
+    });
+
+    return { alert: updated };
+}
+
+/**
+ * Copy events from the legacy JSON ledger into tamper_alerts. Events already
+ * imported (matched on details.legacyId) are skipped, so re-running is safe.
+ * @param {Array} events - Events as stored in tamper_ledger.json
+ * @returns {Promise<Object>} - { imported, skipped, failed }
  */
-function getAllTamperEvents() {
-    return [...tamperEvents];
+async function importLegacyEvents(events) {
+    const summary = { imported: 0, skipped: 0, failed: [] };
+
+    for (const legacy of events) {
+        try {
+            if (await supabaseService.getTamperAlertByLegacyId(legacy.id)) {
+                summary.skipped++;
+                continue;
+            }
+
+            const { id, ...event } = withLifecycle(legacy);
+            await insertAlertRow({ ...event, legacyId: id });
+            summary.imported++;
+        } catch (error) {
+            summary.failed.push({ id: legacy.id, error: error.message });
+        }
+    }
+
+    return summary;
 }
 
 module.exports = {
+    STORAGE_FILE,
+    ALERT_STATUSES,
+    SEVERITIES,
+    initialize,
+    loadLocalEvents,
+    importLegacyEvents,
     recordTamperEvent,
     getTamperEvents,
-    getAllTamperEvents
+    getAllTamperEvents,
+    getTamperEventById,
+    updateAlertStatus,
+    assignAlert,
+    addAlertNote
 };
@@ -0,0 +1,645 @@
+/**
+ * Transaction Outbox Service - Durable queue for contract writes
+ *
+ * Registrations, custody events, verifications, role changes and verifier node
+ * attestations are recorded here before anything is sent, so a failed RPC call or
+ * a restart never loses a chain write. Attestations are signed with the
+ * attesting node's key and every other write with the backend signer.
+ * A single worker sends entries in order with nonces it assigns itself, retries
+ * failed sends with backoff, re-sends transactions that sit unmined with a
+ * higher fee, and runs the confirmation handler for each entry once it is mined.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { EventEmitter } = require('events');
+const supabaseService = require('./supabaseService');
+const blockchainService = require('./blockchainService');
+const auditLogService = require('./auditLogService');
+const liveEventsService = require('./liveEventsService');
+
+// Local fallback when Supabase is not configured
+const STORAGE_FILE = path.join(__dirname, '../data/tx_outbox.json');
+
+const KINDS = ['REGISTER_EVIDENCE', 'REGISTER_BATCH', 'LOG_CUSTODY_EVENT', 'VERIFY_EVIDENCE', 'SET_ROLE', 'ATTEST_VERIFICATION'];
+
+const POLL_INTERVAL_MS = parseInt(process.env.OUTBOX_POLL_INTERVAL_MS, 10) || 3000;
+const MAX_ATTEMPTS = parseInt(process.env.OUTBOX_MAX_ATTEMPTS, 10) || 8;
+const RETRY_BASE_MS = parseInt(process.env.OUTBOX_RETRY_BASE_MS, 10) || 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+// A mined entry whose confirmation handler keeps throwing is marked failed after this many tries
+const MAX_HANDLER_ATTEMPTS = parseInt(process.env.OUTBOX_MAX_HANDLER_ATTEMPTS, 10) || 8;
+// How long a sent transaction may sit unmined before it is re-sent with a higher fee
+const STUCK_AFTER_MS = parseInt(process.env.OUTBOX_STUCK_AFTER_MS, 10) || 60 * 1000;
+// Nodes reject a replacement unless it pays at least 10% more
+const GAS_BUMP_PERCENT = Math.max(parseInt(process.env.OUTBOX_GAS_BUMP_PERCENT, 10) || 20, 10);
+const MAX_FEE_WEI = process.env.OUTBOX_MAX_FEE_GWEI ? BigInt(Math.round(parseFloat(process.env.OUTBOX_MAX_FEE_GWEI) * 1e9)) : null;
+// Confirmed entries kept in the local store so their outcome can still be looked up
+const LOCAL_CONFIRMED_LIMIT = 500;
+
+let useDatabase = false;
+let timer = null;
+let ticking = false;
+// Next nonce to use, by sending account; a missing one means ask the node
+const nextNonces = new Map();
+const handlers = new Map();
+const settledEvents = new EventEmitter();
+settledEvents.setMaxListeners(0);
+
+// Ensure data directory exists
+const dataDir = path.dirname(STORAGE_FILE);
+if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+}
+
+function loadLocalEntries() {
+    if (!fs.existsSync(STORAGE_FILE)) return [];
+    try {
+        return JSON.parse(fs.readFileSync(STORAGE_FILE, 'utf8'));
+    } catch (e) {
+        console.error('Failed to load transaction outbox:', e);
+        return [];
+    }
+}
+
+// Every entry in local mode; with a database, those not yet confirmed and handled
+let entries = loadLocalEntries();
+
+function fromRow(row) {
+    return {
+        id: row.id,
+        kind: row.kind,
+        params: row.params,
+        context: row.context || {},
+        status: row.status,
+        attempts: row.attempts,
+        nonce: row.nonce === null ? null : Number(row.nonce),
+        txHashes: row.tx_hashes || [],
+        fees: row.fees,
+        lastError: row.last_error,
+        nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at).toISOString() : null,
+        sentAt: row.sent_at ? new Date(row.sent_at).toISOString() : null,
+        result: row.result,
+        handledAt: row.handled_at ? new Date(row.handled_at).toISOString() : null,
+        handlerAttempts: row.handler_attempts,
+        createdBy: { badgeNumber: row.created_by, name: row.created_by_name || row.created_by },
+        createdAt: new Date(row.created_at).toISOString(),
+        updatedAt: new Date(row.updated_at).toISOString()
+    };
+}
+
+function toRow(entry) {
+    return {
+        id: entry.id,
+        kind: entry.kind,
+        params: entry.params,
+        context: entry.context,
+        status: entry.status,
+        attempts: entry.attempts,
+        nonce: entry.nonce,
+        tx_hashes: entry.txHashes,
+        fees: entry.fees,
+        last_error: entry.lastError,
+        next_attempt_at: entry.nextAttemptAt,
+        sent_at: entry.sentAt,
+        result: entry.result,
+        handled_at: entry.handledAt,
+        handler_attempts: entry.handlerAttempts,
+        created_by: entry.createdBy.badgeNumber,
+        created_by_name: entry.createdBy.name,
+        created_at: entry.createdAt,
+        updated_at: entry.updatedAt
+    };
+}
+
+function isDone(entry) {
+    return entry.status === 'CONFIRMED' && !!entry.handledAt;
+}
+
+// Nothing more will happen without someone acting on it
+function isSettled(entry) {
+    return entry.status === 'FAILED' || isDone(entry);
+}
+
+/**
+ * Entry fields returned to clients; the confirmation context stays on the server
+ */
+function toPublic(entry) {
+    return {
+        id: entry.id,
+        kind: entry.kind,
+        params: entry.params,
+        status: entry.status,
+        settled: isSettled(entry),
+        attempts: entry.attempts,
+        nonce: entry.nonce,
+        txHash: entry.txHashes[entry.txHashes.length - 1] || null,
+        gasBumps: Math.max(entry.txHashes.length - 1, 0),
+        lastError: entry.lastError,
+        nextAttemptAt: entry.nextAttemptAt,
+        result: entry.result,
+        createdBy: entry.createdBy,
+        createdAt: entry.createdAt,
+        updatedAt: entry.updatedAt
+    };
+}
+
+async function save(entry) {
+    entry.updatedAt = new Date().toISOString();
+    if (useDatabase) {
+        await supabaseService.saveOutboxEntry(toRow(entry));
+        if (isDone(entry)) entries = entries.filter(e => e.id !== entry.id);
+    } else {
+        // Keep open and failed entries and the most recent confirmed ones
+        const done = entries.filter(isDone);
+        if (done.length > LOCAL_CONFIRMED_LIMIT) {
+            const drop = new Set(done
+                .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt))
+                .slice(0, done.length - LOCAL_CONFIRMED_LIMIT)
+                .map(e => e.id));
+            entries = entries.filter(e => !drop.has(e.id));
+        }
+        try {
+            fs.writeFileSync(STORAGE_FILE, JSON.stringify(entries, null, 2));
+        } catch (e) {
+            console.error('Failed to persist transaction outbox:', e);
+        }
+    }
+
+    liveEventsService.publish('outbox.updated', { entry: toPublic(entry) });
+    if (isSettled(entry)) settledEvents.emit(entry.id, toPublic(entry));
+}
+
+function errorMessage(error) {
+    return error.shortMessage || error.reason || error.message;
+}
+
+// The contract rejected the call; sending it again would fail the same way
+function isRevert(error) {
+    return error.code === 'CALL_EXCEPTION';
+}
+
+function isNonceTaken(error) {
+    return error.code === 'NONCE_EXPIRED' || /nonce too low|nonce has already been used/i.test(error.message || '');
+}
+
+// A transaction with this nonce is already waiting in the mempool
+function isAlreadyPending(error) {
+    return error.code === 'REPLACEMENT_UNDERPRICED' || /already known|replacement transaction underpriced/i.test(error.message || '');
+}
+
+function backoffMs(attempts) {
+    return Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+}
+
+/**
+ * Fees for a first send, or for a replacement at least GAS_BUMP_PERCENT above the last one
+ */
+async function chooseFees(previous) {
+    const feeData = await blockchainService.getFeeData();
+    const bump = value => (BigInt(value) * BigInt(100 + GAS_BUMP_PERCENT)) / 100n;
+    const max = (a, b) => (a > b ? a : b);
+    const cap = value => (MAX_FEE_WEI !== null && value > MAX_FEE_WEI ? MAX_FEE_WEI : value);
+
+    if (feeData.maxFeePerGas !== null) {
+        let maxFeePerGas = feeData.maxFeePerGas;
+        let maxPriorityFeePerGas = feeData.maxPriorityFeePerGas;
+        if (previous && previous.maxFeePerGas) {
+            maxFeePerGas = max(maxFeePerGas, bump(previous.maxFeePerGas));
+            maxPriorityFeePerGas = max(maxPriorityFeePerGas, bump(previous.maxPriorityFeePerGas));
+        }
+        maxFeePerGas = cap(maxFeePerGas);
+        return {
+            maxFeePerGas: maxFeePerGas.toString(),
+            maxPriorityFeePerGas: (maxPriorityFeePerGas > maxFeePerGas ? maxFeePerGas : maxPriorityFeePerGas).toString()
+        };
+    }
+
+    let gasPrice = feeData.gasPrice;
+    if (previous && previous.gasPrice) gasPrice = max(gasPrice, bump(previous.gasPrice));
+    return { gasPrice: cap(gasPrice).toString() };
+}
+
+function feeOverrides(fees) {
+    const overrides = fees.gasPrice
+        ? { gasPrice: BigInt(fees.gasPrice) }
+        : { maxFeePerGas: BigInt(fees.maxFeePerGas), maxPriorityFeePerGas: BigInt(fees.maxPriorityFeePerGas) };
+    // Replacements reuse the first send's gas limit; estimating again would run against the pending original
+    if (fees.gasLimit) overrides.gasLimit = BigInt(fees.gasLimit);
+    return overrides;
+}
+
+async function runHandler(entry) {
+    const handler = handlers.get(entry.kind);
+    try {
+        if (handler) await handler(entry);
+        entry.handledAt = new Date().toISOString();
+        entry.lastError = null;
+        entry.nextAttemptAt = null;
+    } catch (error) {
+        // The transaction stands; only the bookkeeping is retried, with backoff
+        entry.handlerAttempts = (entry.handlerAttempts || 0) + 1;
+        console.error(`⚠️ [Outbox] Confirmation handler failed for ${entry.kind} ${entry.id} (attempt ${entry.handlerAttempts}):`, error.message);
+        if (entry.handlerAttempts >= MAX_HANDLER_ATTEMPTS) {
+            return fail(entry, `Confirmation handler gave up after ${entry.handlerAttempts} attempts: ${error.message}`);
+        }
+        entry.lastError = `Confirmation handler failed: ${error.message}`;
+        entry.nextAttemptAt = new Date(Date.now() + backoffMs(entry.handlerAttempts)).toISOString();
+    }
+    await save(entry);
+}
+
+async function confirm(entry, result) {
+    entry.status = 'CONFIRMED';
+    entry.result = result;
+    entry.lastError = null;
+    entry.nextAttemptAt = null;
+    console.log(`✅ [Outbox] ${entry.kind} ${entry.id} confirmed in block ${result.blockNumber}`);
+    await runHandler(entry);
+}
+
+async function fail(entry, reason) {
+    entry.status = 'FAILED';
+    entry.lastError = reason;
+    entry.nextAttemptAt = null;
+    console.error(`❌ [Outbox] ${entry.kind} ${entry.id} failed: ${reason}`);
+    await save(entry);
+
+    auditLogService.recordAuditEntry({
+        actor: 'SYSTEM',
+        action: 'CHAIN_WRITE_FAILED',
+        severity: 'warning',
+        resourceType: 'outbox',
+        resourceId: entry.id,
+        details: { kind: entry.kind, params: entry.params, attempts: entry.attempts, txHashes: entry.txHashes, mined: !!entry.result, reason, requestedBy: entry.createdBy }
+    });
+}
+
+// Lowercase address of the account an entry is sent from
+function senderOf(entry) {
+    return blockchainService.senderOf(entry.kind, entry.params).toLowerCase();
+}
+
+/**
+ * A registration or attestation may already be on chain when a send was lost
+ * before its hash was recorded; look it up by evidence hash, by Merkle root for
+ * a batch, or by item and verifier for an attestation
+ */
+async function recoverRegistration(entry) {
+    if (!['REGISTER_EVIDENCE', 'REGISTER_BATCH', 'ATTEST_VERIFICATION'].includes(entry.kind)) return false;
+    // Without an earlier send, a registration found on chain belongs to someone else
+    if (!entry.txHashes.length && entry.attempts === 0) return false;
+    let existing;
+    if (entry.kind === 'REGISTER_BATCH') {
+        existing = await blockchainService.findBatchRegistration(entry.params.merkleRoot);
+    } else if (entry.kind === 'ATTEST_VERIFICATION') {
+        existing = await blockchainService.findAttestation(entry.params.evidenceId, entry.params.verifier);
+    } else {
+        existing = await blockchainService.findRegistration(entry.params.evidenceHash);
+    }
+    if (!existing) return false;
+    console.log(`🔁 [Outbox] Found earlier write of ${entry.id} in ${existing.txHash}`);
+    entry.txHashes.push(existing.txHash);
+    await confirm(entry, existing);
+    return true;
+}
+
+/**
+ * Send a queued entry
+ * @returns {Promise<boolean>} - Whether it was sent
+ */
+async function sendEntry(entry) {
+    const sender = senderOf(entry);
+    try {
+        const request = blockchainService.prepareTransaction(entry.kind, entry.params);
+        if (entry.nonce === null) {
+            entry.nonce = Math.max(nextNonces.get(sender) || 0, await blockchainService.getAccountNonce(sender, 'pending'));
+        }
+        entry.fees = await chooseFees(entry.fees);
+
+        const { hash: txHash, gasLimit } = await blockchainService.sendPreparedTransaction(request, { nonce: entry.nonce, ...feeOverrides(entry.fees) });
+        nextNonces.set(sender, entry.nonce + 1);
+        entry.fees.gasLimit = gasLimit;
+        entry.txHashes.push(txHash);
+        entry.status = 'SENT';
+        entry.sentAt = new Date().toISOString();
+        entry.lastError = null;
+        entry.nextAttemptAt = null;
+        console.log(`📤 [Outbox] ${entry.kind} ${entry.id} sent as ${txHash} (nonce ${entry.nonce})`);
+        await save(entry);
+        return true;
+    } catch (error) {
+        if (isRevert(error)) {
+            if (await recoverRegistration(entry)) return true;
+            nextNonces.delete(sender);
+            entry.nonce = null;
+            await fail(entry, `Rejected by the contract: ${errorMessage(error)}`);
+            return false;
+        }
+        if (isAlreadyPending(error) && entry.txHashes.length) {
+            // An earlier broadcast for this nonce is still waiting to be mined
+            entry.status = 'SENT';
+            await save(entry);
+            return true;
+        }
+        if (isNonceTaken(error)) {
+            if (await recoverRegistration(entry)) return true;
+            // Something else used the nonce (another process with the same key); take a fresh one
+            nextNonces.delete(sender);
+            entry.nonce = null;
+        }
+
+        entry.attempts++;
+        entry.lastError = errorMessage(error);
+        if (entry.attempts >= MAX_ATTEMPTS) {
+            nextNonces.delete(sender);
+            entry.nonce = null;
+            await fail(entry, `Gave up after ${entry.attempts} attempts: ${entry.lastError}`);
+            return false;
+        }
+        entry.nextAttemptAt = new Date(Date.now() + backoffMs(entry.attempts)).toISOString();
+        console.warn(`⚠️ [Outbox] ${entry.kind} ${entry.id} send failed (attempt ${entry.attempts}), retrying at ${entry.nextAttemptAt}: ${entry.lastError}`);
+        await save(entry);
+        return false;
+    }
+}
+
+/**
+ * Look for a receipt of any broadcast of a sent entry; re-send with a higher fee when it is stuck
+ */
+async function checkSentEntry(entry) {
+    for (const txHash of [...entry.txHashes].reverse()) {
+        const receipt = await blockchainService.getTransactionReceipt(txHash);
+        if (!receipt) continue;
+        if (receipt.status === 0) {
+            return fail(entry, `Transaction ${txHash} reverted`);
+        }
+        return confirm(entry, blockchainService.readTransactionResult(entry.kind, receipt));
+    }
+
+    const waitedMs = Date.now() - new Date(entry.sentAt).getTime();
+    if (waitedMs < STUCK_AFTER_MS) return;
+
+    const minedNonce = await blockchainService.getAccountNonce(senderOf(entry), 'latest');
+    if (minedNonce > entry.nonce) {
+        // The nonce was used, but not by any transaction we sent for this entry
+        if (await recoverRegistration(entry)) return;
+        console.warn(`⚠️ [Outbox] Nonce ${entry.nonce} of ${entry.id} was used by another transaction; sending again`);
+        entry.status = 'QUEUED';
+        entry.nonce = null;
+        nextNonces.delete(senderOf(entry));
+        return save(entry);
+    }
+
+    // Same nonce, higher fee: whichever version is mined first settles the entry
+    try {
+        const fees = { ...await chooseFees(entry.fees), gasLimit: entry.fees.gasLimit };
+        const request = blockchainService.prepareTransaction(entry.kind, entry.params);
+        const { hash: txHash } = await blockchainService.sendPreparedTransaction(request, { nonce: entry.nonce, ...feeOverrides(fees) });
+        entry.fees = fees;
+        entry.txHashes.push(txHash);
+        console.log(`⛽ [Outbox] ${entry.kind} ${entry.id} unmined for ${Math.round(waitedMs / 1000)}s; re-sent as ${txHash} with a higher fee`);
+    } catch (error) {
+        entry.lastError = `Fee bump failed: ${errorMessage(error)}`;
+        console.warn(`⚠️ [Outbox] ${entry.lastError}`);
+    }
+    entry.sentAt = new Date().toISOString();
+    await save(entry);
+}
+
+/**
+ * One pass over the open entries, oldest first
+ */
+async function tick() {
+    if (ticking || !blockchainService.initialized) return;
+    ticking = true;
+    try {
+        const open = entries
+            .filter(entry => !isSettled(entry))
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        const now = Date.now();
+        const isWaiting = entry => entry.nextAttemptAt && new Date(entry.nextAttemptAt).getTime() > now;
+        // Accounts with an unsent entry; nothing later from the same account is sent until it is,
+        // so each account's writes reach the chain in the order they were queued
+        const blocked = new Set();
+
+        for (const entry of open) {
+            const sender = senderOf(entry);
+            try {
+                if (entry.status === 'CONFIRMED') {
+                    if (!isWaiting(entry)) await runHandler(entry);
+                } else if (entry.status === 'SENT') {
+                    await checkSentEntry(entry);
+                } else if (!blocked.has(sender) && !isWaiting(entry)) {
+                    await sendEntry(entry);
+                }
+            } catch (error) {
+                // The RPC may be down; try again on the next pass
+                console.error(`⚠️ [Outbox] Processing ${entry.id} failed:`, error.message);
+            }
+            if (entry.status === 'QUEUED') blocked.add(sender);
+        }
+    } finally {
+        ticking = false;
+    }
+}
+
+/**
+ * Choose the outbox store and load the entries that are still open
+ * @param {boolean} databaseReady - Whether Supabase initialized
+ */
+async function initialize(databaseReady) {
+    useDatabase = databaseReady;
+    if (useDatabase) {
+        try {
+            entries = (await supabaseService.getOpenOutboxEntries()).map(fromRow);
+        } catch (error) {
+            console.error('⚠️ Transaction outbox falling back to local storage:', error.message);
+            useDatabase = false;
+            entries = loadLocalEntries();
+        }
+    } else {
+        entries = loadLocalEntries();
+    }
+
+    const open = entries.filter(entry => !isSettled(entry)).length;
+    if (open) console.log(`📬 [Outbox] Resuming ${open} pending chain write(s)`);
+}
+
+/**
+ * Start processing entries in the background
+ */
+function start() {
+    if (timer) return;
+    timer = setInterval(() => {
+        tick().catch(error => console.error('⚠️ Transaction outbox pass failed:', error.message));
+    }, POLL_INTERVAL_MS);
+    timer.unref();
+    tick().catch(error => console.error('⚠️ Transaction outbox pass failed:', error.message));
+}
+
+/**
+ * Set the function that records the outcome of a mined write of one kind.
+ * It runs again with backoff if it throws, up to OUTBOX_MAX_HANDLER_ATTEMPTS times
+ * before the entry is marked failed, so it must be safe to repeat.
+ * @param {string} kind
+ * @param {Function} handler - async (entry) => void; entry.result holds the decoded receipt
+ */
+function onConfirmed(kind, handler) {
+    handlers.set(kind, handler);
+}
+
+/**
+ * Record a contract write; it is sent by the background worker
+ * @param {string} kind - REGISTER_EVIDENCE | REGISTER_BATCH | LOG_CUSTODY_EVENT | VERIFY_EVIDENCE | SET_ROLE | ATTEST_VERIFICATION
+ * @param {Object} params - Contract call inputs (see blockchainService.encodeCall)
+ * @param {Object} context - Anything the confirmation handler needs
+ * @param {Object} user - Who asked for the write ({ badgeNumber, name }), or null for the system
+ * @returns {Promise<Object>} - The entry, public fields only
+ */
+async function enqueue(kind, params, context, user) {
+    if (!KINDS.includes(kind)) {
+        throw new Error(`Unknown contract write: ${kind}`);
+    }
+
+    const now = new Date().toISOString();
+    const entry = {
+        id: crypto.randomUUID(),
+        kind,
+        params,
+        context: context || {},
+        status: 'QUEUED',
+        attempts: 0,
+        nonce: null,
+        txHashes: [],
+        fees: null,
+        lastError: null,
+        nextAttemptAt: null,
+        sentAt: null,
+        result: null,
+        handledAt: null,
+        handlerAttempts: 0,
+        createdBy: user ? { badgeNumber: user.badgeNumber, name: user.name } : { badgeNumber: 'SYSTEM', name: 'SYSTEM' },
+        createdAt: now,
+        updatedAt: now
+    };
+
+    entries.push(entry);
+    await save(entry);
+
+    // Send right away instead of waiting for the next pass
+    setImmediate(() => tick().catch(error => console.error('⚠️ Transaction outbox pass failed:', error.message)));
+    return toPublic(entry);
+}
+
+/**
+ * Wait for an entry to settle, up to a time limit
+ * @returns {Promise<Object|null>} - The entry as it stands when it settles or the time runs out
+ */
+async function waitFor(id, timeoutMs) {
+    const entry = await getEntry(id);
+    if (!entry || entry.settled) return entry;
+
+    return new Promise(resolve => {
+        const timeout = setTimeout(() => {
+            settledEvents.removeListener(id, onSettled);
+            getEntry(id).then(resolve, () => resolve(entry));
+        }, timeoutMs);
+        function onSettled(settled) {
+            clearTimeout(timeout);
+            resolve(settled);
+        }
+        settledEvents.once(id, onSettled);
+    });
+}
+
+/**
+ * Get an entry by ID
+ * @returns {Promise<Object|null>} - Public fields only
+ */
+async function getEntry(id) {
+    const entry = entries.find(e => e.id === id);
+    if (entry) return toPublic(entry);
+    if (!useDatabase) return null;
+    const row = await supabaseService.getOutboxEntry(id);
+    return row ? toPublic(fromRow(row)) : null;
+}
+
+/**
+ * List entries, newest first
+ * @param {Object} [filters] - { status, kind, limit }
+ * @returns {Promise<Array>} - Public fields only
+ */
+async function listEntries({ status = null, kind = null, limit = 100 } = {}) {
+    const all = useDatabase
+        ? (await supabaseService.getOutboxEntries({ status, limit })).map(fromRow)
+        : [...entries].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return all
+        .filter(entry => (!status || entry.status === status) && (!kind || entry.kind === kind))
+        .slice(0, limit)
+        .map(toPublic);
+}
+
+/**
+ * Open registrations with what will be saved once they are mined, for showing
+ * evidence that is still waiting for its on-chain ID. Failed ones are included
+ * until they are retried.
+ * @returns {Array<Object>} - { entry, context }
+ */
+function getPendingRegistrations() {
+    return entries
+        .filter(entry => entry.kind === 'REGISTER_EVIDENCE' && (!isSettled(entry) || entry.status === 'FAILED'))
+        .map(entry => ({ entry: toPublic(entry), context: entry.context }));
+}
+
+/**
+ * Whether a registration of this hash is already waiting in the outbox
+ */
+function hasPendingRegistration(evidenceHash) {
+    return entries.some(entry => entry.kind === 'REGISTER_EVIDENCE' && !isSettled(entry) && entry.params.evidenceHash === evidenceHash);
+}
+
+/**
+ * Send a failed entry again from scratch, or for one already mined, run its
+ * confirmation handler again
+ * @returns {Promise<Object>} - { entry } or { error, code }
+ */
+async function retryEntry(id) {
+    let entry = entries.find(e => e.id === id);
+    if (!entry && useDatabase) {
+        const row = await supabaseService.getOutboxEntry(id);
+        if (row) {
+            entry = fromRow(row);
+            entries.push(entry);
+        }
+    }
+    if (!entry) {
+        return { error: 'Outbox entry not found', code: 404 };
+    }
+    if (entry.status !== 'FAILED') {
+        return { error: `Only failed entries can be retried; this one is ${entry.status}`, code: 409 };
+    }
+
+    if (entry.result) {
+        Object.assign(entry, { status: 'CONFIRMED', handlerAttempts: 0, lastError: null, nextAttemptAt: null });
+    } else {
+        Object.assign(entry, { status: 'QUEUED', attempts: 0, nonce: null, fees: null, lastError: null, nextAttemptAt: null });
+    }
+    await save(entry);
+    setImmediate(() => tick().catch(error => console.error('⚠️ Transaction outbox pass failed:', error.message)));
+    return { entry: toPublic(entry) };
+}
+
+module.exports = {
+    initialize,
+    start,
+    onConfirmed,
+    enqueue,
+    waitFor,
+    getEntry,
+    listEntries,
+    getPendingRegistrations,
+    hasPendingRegistration,
+    retryEntry
+};
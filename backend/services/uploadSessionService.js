@@ -0,0 +1,300 @@
+/**
+ * Upload Session Service - Resumable chunked uploads for large evidence files
+ *
+ * Chunks are appended to a staging file on disk and fed into a running SHA-256
+ * as they arrive, so a file is never held in memory. Session metadata sits next
+ * to the staging file, which lets an upload resume after a dropped connection
+ * or a server restart.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { normalizeHash } = require('../utils/crypto');
+
+const UPLOAD_DIR = process.env.UPLOAD_STAGING_DIR || path.join(__dirname, '../data/uploads');
+const CHUNK_SIZE = (parseInt(process.env.UPLOAD_CHUNK_SIZE_MB, 10) || 5) * 1024 * 1024;
+const MAX_FILE_SIZE = (parseInt(process.env.UPLOAD_MAX_FILE_SIZE_MB, 10) || 20 * 1024) * 1024 * 1024;
+const SESSION_TTL_MS = (parseInt(process.env.UPLOAD_SESSION_TTL_HOURS, 10) || 24) * 60 * 60 * 1000;
+
+const SESSION_FILE = 'session.json';
+const DATA_FILE = 'data.part';
+
+// Running hashes and in-flight flags; lost on restart and rebuilt from the staging file
+const hashers = new Map();
+const busy = new Set();
+
+if (!fs.existsSync(UPLOAD_DIR)) {
+    fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+}
+
+function sessionDir(uploadId) {
+    return path.join(UPLOAD_DIR, uploadId);
+}
+
+function dataPath(uploadId) {
+    return path.join(sessionDir(uploadId), DATA_FILE);
+}
+
+async function readSession(uploadId) {
+    // Upload IDs are UUIDs; anything else could point outside the staging directory
+    if (!/^[0-9a-f-]{36}$/.test(uploadId)) return null;
+    try {
+        return JSON.parse(await fs.promises.readFile(path.join(sessionDir(uploadId), SESSION_FILE), 'utf8'));
+    } catch {
+        return null;
+    }
+}
+
+async function writeSession(session) {
+    session.updatedAt = new Date().toISOString();
+    await fs.promises.writeFile(path.join(sessionDir(session.uploadId), SESSION_FILE), JSON.stringify(session, null, 2));
+}
+
+/**
+ * Session fields returned to the client
+ */
+function toPublic(session) {
+    return {
+        uploadId: session.uploadId,
+        fileName: session.fileName,
+        fileSize: session.fileSize,
+        mimeType: session.mimeType,
+        caseId: session.caseId,
+        chunkSize: session.chunkSize,
+        bytesReceived: session.bytesReceived,
+        complete: session.bytesReceived === session.fileSize,
+        createdAt: session.createdAt,
+        expiresAt: new Date(new Date(session.updatedAt).getTime() + SESSION_TTL_MS).toISOString()
+    };
+}
+
+/**
+ * Hash state for a session, re-reading the staging file when the server has restarted
+ * since the last chunk. Also trims bytes left behind by a chunk that failed mid-write.
+ */
+async function getHasher(session) {
+    const file = dataPath(session.uploadId);
+    const { size } = await fs.promises.stat(file);
+    if (size !== session.bytesReceived) {
+        await fs.promises.truncate(file, session.bytesReceived);
+        hashers.delete(session.uploadId);
+    }
+    if (hashers.has(session.uploadId)) return hashers.get(session.uploadId);
+
+    const hash = crypto.createHash('sha256');
+    if (session.bytesReceived > 0) {
+        for await (const chunk of fs.createReadStream(file)) hash.update(chunk);
+    }
+    hashers.set(session.uploadId, hash);
+    return hash;
+}
+
+/**
+ * Look up a session owned by the user
+ * @returns {Promise<Object>} - { session } or { error, code }
+ */
+async function loadOwnedSession(uploadId, user) {
+    const session = await readSession(uploadId);
+    // Other users' sessions are reported as missing rather than forbidden
+    if (!session || session.createdBy.badgeNumber !== user.badgeNumber) {
+        return { error: 'Upload session not found', code: 404 };
+    }
+    return { session };
+}
+
+/**
+ * Start a chunked upload
+ * @param {Object} params - { fileName, fileSize, mimeType, caseId, evidenceType, source, collectedBy, clientHash }
+ * @param {Object} user - Authenticated user
+ * @returns {Promise<Object>} - { session } or { error, code }
+ */
+async function createSession(params, user) {
+    const fileSize = Number(params.fileSize);
+    if (!params.fileName || typeof params.fileName !== 'string') {
+        return { error: 'fileName is required', code: 400 };
+    }
+    if (!Number.isSafeInteger(fileSize) || fileSize <= 0) {
+        return { error: 'fileSize must be a positive number of bytes', code: 400 };
+    }
+    if (fileSize > MAX_FILE_SIZE) {
+        return { error: `Files larger than ${Math.floor(MAX_FILE_SIZE / 1024 / 1024)} MB cannot be uploaded`, code: 413 };
+    }
+
+    const clientHash = params.clientHash !== undefined && params.clientHash !== null ? normalizeHash(params.clientHash) : null;
+    if (params.clientHash !== undefined && params.clientHash !== null && !clientHash) {
+        return { error: 'clientHash must be a SHA-256 hex digest', code: 400 };
+    }
+
+    const now = new Date().toISOString();
+    const session = {
+        uploadId: crypto.randomUUID(),
+        fileName: params.fileName,
+        fileSize,
+        mimeType: params.mimeType || 'application/octet-stream',
+        caseId: params.caseId,
+        evidenceType: params.evidenceType || null,
+        source: params.source || null,
+        collectedBy: params.collectedBy || null,
+        clientHash,
+        chunkSize: CHUNK_SIZE,
+        bytesReceived: 0,
+        createdBy: { badgeNumber: user.badgeNumber, name: user.name },
+        createdAt: now,
+        updatedAt: now
+    };
+
+    await fs.promises.mkdir(sessionDir(session.uploadId), { recursive: true });
+    await fs.promises.writeFile(dataPath(session.uploadId), Buffer.alloc(0));
+    await writeSession(session);
+    hashers.set(session.uploadId, crypto.createHash('sha256'));
+    return { session: toPublic(session) };
+}
+
+/**
+ * Get a session's progress, e.g. to find where to resume
+ * @returns {Promise<Object>} - { session } or { error, code }
+ */
+async function getSession(uploadId, user) {
+    const found = await loadOwnedSession(uploadId, user);
+    return found.error ? found : { session: toPublic(found.session) };
+}
+
+/**
+ * Append a chunk at the given offset. Re-sending a chunk that was already
+ * stored (the response was lost) is accepted without writing it again.
+ * @param {string} uploadId
+ * @param {number} offset - Byte position of the chunk in the file
+ * @param {Buffer} chunk
+ * @param {Object} user - Authenticated user
+ * @returns {Promise<Object>} - { session } or { error, code, bytesReceived }
+ */
+async function appendChunk(uploadId, offset, chunk, user) {
+    const found = await loadOwnedSession(uploadId, user);
+    if (found.error) return found;
+    const { session } = found;
+
+    if (!Buffer.isBuffer(chunk) || chunk.length === 0) {
+        return { error: 'Chunk body is empty; send it as application/octet-stream', code: 400 };
+    }
+    if (!Number.isSafeInteger(offset) || offset < 0) {
+        return { error: 'offset must be a byte position', code: 400 };
+    }
+    if (offset + chunk.length <= session.bytesReceived) {
+        return { session: toPublic(session) };
+    }
+    if (offset !== session.bytesReceived) {
+        return { error: `Expected a chunk at offset ${session.bytesReceived}`, code: 409, bytesReceived: session.bytesReceived };
+    }
+    if (offset + chunk.length > session.fileSize) {
+        return { error: 'Chunk runs past the declared file size', code: 400 };
+    }
+    if (busy.has(uploadId)) {
+        return { error: 'Another chunk for this upload is still being written', code: 409, bytesReceived: session.bytesReceived };
+    }
+
+    busy.add(uploadId);
+    try {
+        const hash = await getHasher(session);
+        await fs.promises.appendFile(dataPath(uploadId), chunk);
+        hash.update(chunk);
+        session.bytesReceived += chunk.length;
+        await writeSession(session);
+        return { session: toPublic(session) };
+    } catch (error) {
+        // The hash may be ahead of what was recorded; rebuild it on the next chunk
+        hashers.delete(uploadId);
+        throw error;
+    } finally {
+        busy.delete(uploadId);
+    }
+}
+
+/**
+ * Claim a fully received upload for registration. The session stays on disk
+ * until removeSession() so registration can be retried if it fails.
+ * @returns {Promise<Object>} - { session, evidenceHash, filePath } or { error, code }
+ */
+async function finishSession(uploadId, user) {
+    const found = await loadOwnedSession(uploadId, user);
+    if (found.error) return found;
+    const { session } = found;
+
+    if (session.bytesReceived !== session.fileSize) {
+        return { error: `Upload is incomplete: ${session.bytesReceived} of ${session.fileSize} bytes received`, code: 409 };
+    }
+    if (busy.has(uploadId)) {
+        return { error: 'This upload is already being completed', code: 409 };
+    }
+
+    busy.add(uploadId);
+    try {
+        // digest() ends a Hash, so finish a copy and keep the original for a retry
+        const hash = await getHasher(session);
+        const evidenceHash = '0x' + hash.copy().digest('hex');
+        return { session, evidenceHash, filePath: dataPath(uploadId) };
+    } catch (error) {
+        busy.delete(uploadId);
+        throw error;
+    }
+}
+
+/**
+ * Release a session claimed with finishSession() without removing it
+ */
+function releaseSession(uploadId) {
+    busy.delete(uploadId);
+}
+
+/**
+ * Delete a session and its staging file
+ */
+async function removeSession(uploadId) {
+    hashers.delete(uploadId);
+    busy.delete(uploadId);
+    await fs.promises.rm(sessionDir(uploadId), { recursive: true, force: true });
+}
+
+/**
+ * Cancel one of the user's uploads
+ * @returns {Promise<Object>} - { session } or { error, code }
+ */
+async function cancelSession(uploadId, user) {
+    const found = await loadOwnedSession(uploadId, user);
+    if (found.error) return found;
+    if (busy.has(uploadId)) {
+        return { error: 'This upload is in progress and cannot be cancelled right now', code: 409 };
+    }
+    await removeSession(uploadId);
+    return { session: toPublic(found.session) };
+}
+
+/**
+ * Delete sessions that have not received a chunk within the session TTL
+ * @returns {Promise<number>} - Number of sessions removed
+ */
+async function sweepExpiredSessions() {
+    const cutoff = Date.now() - SESSION_TTL_MS;
+    let removed = 0;
+    for (const uploadId of await fs.promises.readdir(UPLOAD_DIR)) {
+        const session = await readSession(uploadId);
+        if (busy.has(uploadId)) continue;
+        if (!session || new Date(session.updatedAt).getTime() < cutoff) {
+            await removeSession(uploadId);
+            removed++;
+        }
+    }
+    return removed;
+}
+
+module.exports = {
+    CHUNK_SIZE,
+    createSession,
+    getSession,
+    appendChunk,
+    finishSession,
+    releaseSession,
+    removeSession,
+    cancelSession,
+    sweepExpiredSessions
+};
@@ -0,0 +1,66 @@
+const fs = require('fs');
+const path = require('path');
+
+const STORAGE_FILE = path.join(__dirname, '../data/users.json');
+
+// Ensure data directory exists
+const dataDir = path.dirname(STORAGE_FILE);
+if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+}
+
+// Initial load
+let users = [];
+if (fs.existsSync(STORAGE_FILE)) {
+    try {
+        users = JSON.parse(fs.readFileSync(STORAGE_FILE, 'utf8'));
+    } catch (e) {
+        console.error('Failed to load user storage:', e);
+        users = [];
+    }
+}
+
+/**
+ * Save a user account
+ * @param {Object} user - Row in the same shape as the users table
+ * @returns {boolean}
+ */
+function saveUser(user) {
+    const index = users.findIndex(u => u.badge_number === user.badge_number);
+    if (index >= 0) {
+        users[index] = { ...users[index], ...user };
+    } else {
+        users.push(user);
+    }
+
+    try {
+        fs.writeFileSync(STORAGE_FILE, JSON.stringify(users, null, 2));
+        return true;
+    } catch (e) {
+        console.error('Failed to save user:', e);
+        return false;
+    }
+}
+
+/**
+ * Get user by badge number
+ * @param {string} badgeNumber
+ * @returns {Object|undefined}
+ */
+function getUserByBadgeNumber(badgeNumber) {
+    return users.find(u => u.badge_number === badgeNumber);
+}
+
+/**
+ * Get all users
+ * @returns {Array}
+ */
+function getAllUsers() {
+    return users;
+}
+
+module.exports = {
+    saveUser,
+    getUserByBadgeNumber,
+    getAllUsers
+};
@@ -11,6 +11,17 @@ function computeFileHash(fileBuffer) {
     return '0x' + hash.digest('hex');
 }
 
+/**
+ * Normalize a SHA-256 digest supplied by a client to the form computeFileHash returns
+ * @param {string} value - 64 hex digits, with or without 0x prefix
+ * @returns {string|null} - Lowercase hex hash with 0x prefix, or null if value is not a SHA-256 digest
+ */
+function normalizeHash(value) {
+    if (typeof value !== 'string') return null;
+    const match = value.trim().match(/^(?:0x)?([0-9a-fA-F]{64})$/);
+    return match ? `0x${match[1].toLowerCase()}` : null;
+}
+
 /**
  * Compute SHA-256 hash of string
  * @param {string} data - String to hash
@@ -32,8 +43,67 @@ function computeObjectHash(obj) {
     return computeStringHash(jsonString);
 }
 
+/**
+ * Serialize a value as JSON with object keys sorted, so the output does not
+ * depend on key order (e.g. after a round trip through a jsonb column)
+ * @param {*} value - JSON-compatible value
+ * @returns {string}
+ */
+function canonicalStringify(value) {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const keys = Object.keys(value).filter(k => value[k] !== undefined).sort();
+        return `{${keys.map(k => `${JSON.stringify(k)}:${canonicalStringify(value[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value === undefined ? null : value);
+}
+
+/**
+ * Compute hash of JSON object independent of key order
+ * @param {object} obj - Object to hash
+ * @returns {string} - Hex hash with 0x prefix
+ */
+function computeCanonicalHash(obj) {
+    return computeStringHash(canonicalStringify(obj));
+}
+
+/**
+ * Hash a password with scrypt and a random salt
+ * @param {string} password - Plain-text password
+ * @returns {string} - Encoded hash in the form scrypt$<salt>$<hash>
+ */
+function hashPassword(password) {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+    return `scrypt$${salt}$${hash}`;
+}
+
+/**
+ * Check a password against a hash produced by hashPassword
+ * @param {string} password - Plain-text password
+ * @param {string} encoded - Stored hash
+ * @returns {boolean} - True if the password matches
+ */
+function verifyPassword(password, encoded) {
+    if (!password || !encoded) return false;
+
+    const [scheme, salt, hash] = encoded.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+    const expected = Buffer.from(hash, 'hex');
+    const actual = crypto.scryptSync(password, salt, expected.length);
+    return crypto.timingSafeEqual(expected, actual);
+}
+
 module.exports = {
     computeFileHash,
+    normalizeHash,
     computeStringHash,
-    computeObjectHash
+    computeObjectHash,
+    canonicalStringify,
+    computeCanonicalHash,
+    hashPassword,
+    verifyPassword
 };
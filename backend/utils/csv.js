@@ -0,0 +1,29 @@
+/**
+ * Quote a value for CSV (RFC 4180)
+ * @param {*} value - Objects are written as JSON
+ * @returns {string}
+ */
+function escapeCsvValue(value) {
+    if (value === null || value === undefined) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV document
+ * @param {Array<string>} columns - Header row; also the keys read from each row
+ * @param {Array<Object>} rows
+ * @returns {string}
+ */
+function toCsv(columns, rows) {
+    const lines = [columns.join(',')];
+    for (const row of rows) {
+        lines.push(columns.map(column => escapeCsvValue(row[column])).join(','));
+    }
+    return lines.join('\r\n') + '\r\n';
+}
+
+module.exports = {
+    escapeCsvValue,
+    toCsv
+};
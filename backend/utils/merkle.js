@@ -0,0 +1,64 @@
+/**
+ * Merkle trees over evidence file hashes, laid out the way
+ * EvidenceRegistry.verifyBatchItem checks them: each leaf is keccak256 of the
+ * item's SHA-256, each parent is keccak256 of its two children in ascending
+ * order, and an unpaired node moves up a level unchanged.
+ */
+
+const { ethers } = require('ethers');
+
+function hashLeaf(itemHash) {
+    return ethers.keccak256(itemHash);
+}
+
+function hashPair(a, b) {
+    return a.toLowerCase() < b.toLowerCase()
+        ? ethers.keccak256(ethers.concat([a, b]))
+        : ethers.keccak256(ethers.concat([b, a]));
+}
+
+/**
+ * Build a tree and the proof for every item
+ * @param {Array<string>} itemHashes - 0x-prefixed SHA-256 digests, in batch order
+ * @returns {Object} - { root, proofs } where proofs[i] is the sibling path for itemHashes[i]
+ */
+function buildMerkleTree(itemHashes) {
+    if (!itemHashes.length) throw new Error('Cannot build a Merkle tree without items');
+
+    const proofs = itemHashes.map(() => []);
+    // positions[i] is where item i's ancestor sits in the current level
+    let positions = itemHashes.map((_, i) => i);
+    let level = itemHashes.map(hashLeaf);
+
+    while (level.length > 1) {
+        const next = [];
+        for (let i = 0; i < level.length; i += 2) {
+            next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+        }
+        positions = positions.map((position, item) => {
+            const sibling = position ^ 1;
+            if (sibling < level.length) proofs[item].push(level[sibling]);
+            return position >> 1;
+        });
+        level = next;
+    }
+
+    return { root: level[0], proofs };
+}
+
+/**
+ * Check an item's proof against a root without a chain connection
+ * @param {string} itemHash - 0x-prefixed SHA-256 digest
+ * @param {Array<string>} proof - Sibling path from buildMerkleTree
+ * @param {string} root
+ * @returns {boolean}
+ */
+function verifyMerkleProof(itemHash, proof, root) {
+    const computed = proof.reduce((node, sibling) => hashPair(node, sibling), hashLeaf(itemHash));
+    return computed.toLowerCase() === root.toLowerCase();
+}
+
+module.exports = {
+    buildMerkleTree,
+    verifyMerkleProof
+};
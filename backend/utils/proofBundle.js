@@ -0,0 +1,220 @@
+/**
+ * Proof bundles: one evidence record packaged with everything needed to check
+ * it against the chain, so it can be verified without this backend or its
+ * database. This module only needs ethers so that scripts/verifyProofBundle.js
+ * can run on a machine that has nothing else.
+ */
+
+const crypto = require('crypto');
+const { ethers } = require('ethers');
+const { computeFileHash, computeStringHash, canonicalStringify } = require('./crypto');
+
+const PROOF_BUNDLE_FORMAT = 'evidence-proof-bundle';
+const PROOF_BUNDLE_VERSION = 1;
+
+// Contract functions and events a verifier calls; the rest of the ABI is left out of the bundle
+const PROOF_ABI_NAMES = ['getEvidence', 'getCustodyEvent', 'getCustodyEventCount', 'EvidenceRegistered', 'CustodyEventLogged'];
+
+/**
+ * Exact text covered by a bundle's signature: the bundle without its signature, keys sorted
+ * @param {Object} bundle
+ * @returns {string}
+ */
+function signedContent(bundle) {
+    const { signature, ...content } = bundle;
+    return canonicalStringify(content);
+}
+
+function sameHex(a, b) {
+    return typeof a === 'string' && typeof b === 'string' && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Fields a bundle must have before any check can run
+ * @returns {Array<string>} - Problems found; empty when the bundle is well formed
+ */
+function structureProblems(bundle) {
+    if (!bundle || typeof bundle !== 'object') return ['Bundle is not a JSON object'];
+
+    const problems = [];
+    if (bundle.format !== PROOF_BUNDLE_FORMAT) problems.push(`format must be ${PROOF_BUNDLE_FORMAT}`);
+    if (bundle.version !== PROOF_BUNDLE_VERSION) problems.push(`version ${bundle.version} is not supported`);
+    if (!bundle.evidence || !bundle.evidence.evidenceId || !bundle.evidence.sha256) problems.push('evidence.evidenceId and evidence.sha256 are required');
+    if (!bundle.chain || !bundle.chain.chainId || !bundle.chain.contractAddress || !bundle.chain.registration) {
+        problems.push('chain.chainId, chain.contractAddress and chain.registration are required');
+    }
+    if (!Array.isArray(bundle.custody)) problems.push('custody must be an array');
+
+    const abiNames = Array.isArray(bundle.abi) ? bundle.abi.map(fragment => fragment.name) : [];
+    const missing = PROOF_ABI_NAMES.filter(name => !abiNames.includes(name));
+    if (missing.length) problems.push(`abi is missing ${missing.join(', ')}`);
+    return problems;
+}
+
+/**
+ * Compare the bundle with what the chain holds right now
+ */
+async function checkChain(bundle, provider, record) {
+    const { evidence, chain } = bundle;
+
+    const network = await provider.getNetwork();
+    const chainId = network.chainId.toString();
+    if (chainId !== String(chain.chainId)) {
+        record('chainId', false, `RPC node is on chain ${chainId}; the bundle was anchored on chain ${chain.chainId}`);
+        return;
+    }
+    record('chainId', true, `Chain ${chainId}`);
+
+    const code = await provider.getCode(chain.contractAddress);
+    if (code === '0x') {
+        record('contract', false, `No contract is deployed at ${chain.contractAddress}`);
+        return;
+    }
+    record('contract', true, `Contract found at ${chain.contractAddress}`);
+
+    const contract = new ethers.Contract(chain.contractAddress, bundle.abi, provider);
+    const iface = contract.interface;
+    const parse = (log) => {
+        if (!sameHex(log.address, chain.contractAddress)) return null;
+        try {
+            return iface.parseLog(log);
+        } catch {
+            return null;
+        }
+    };
+
+    // The registry record is the anchor: its hash is what the file must match
+    const onChain = await contract.getEvidence(evidence.evidenceId);
+    record('evidenceHash', sameHex(onChain.evidenceHash, evidence.sha256),
+        sameHex(onChain.evidenceHash, evidence.sha256)
+            ? `Registry holds ${onChain.evidenceHash}`
+            : `Registry holds ${onChain.evidenceHash}; the bundle claims ${evidence.sha256}`);
+    record('caseId', onChain.caseId === evidence.caseId, `Registry case ID ${onChain.caseId}`);
+    if (chain.record) {
+        const collectorMatches = sameHex(onChain.collector, chain.record.collector);
+        const timestampMatches = Number(onChain.timestamp) === Number(chain.record.timestamp);
+        record('registryRecord', collectorMatches && timestampMatches,
+            `Collector ${onChain.collector}, registered at ${new Date(Number(onChain.timestamp) * 1000).toISOString()}`);
+    }
+
+    const { registration } = chain;
+    const receipt = await provider.getTransactionReceipt(registration.txHash);
+    const registeredLog = receipt && receipt.status === 1
+        ? receipt.logs.map(parse).find(parsed => parsed && parsed.name === 'EvidenceRegistered'
+            && parsed.args.evidenceId.toString() === String(evidence.evidenceId))
+        : null;
+    if (!registeredLog) {
+        record('registration', false, `Transaction ${registration.txHash} did not register evidence #${evidence.evidenceId} on this contract`);
+    } else {
+        const block = await provider.getBlock(receipt.blockNumber);
+        const passed = sameHex(registeredLog.args.evidenceHash, evidence.sha256)
+            && receipt.blockNumber === Number(registration.blockNumber)
+            && (!registration.blockHash || sameHex(receipt.blockHash, registration.blockHash));
+        record('registration', passed,
+            `Registered in block ${receipt.blockNumber} (${receipt.blockHash}) at ${new Date(block.timestamp * 1000).toISOString()}`);
+    }
+
+    const count = Number(await contract.getCustodyEventCount(evidence.evidenceId));
+    record('custodyCount', count >= bundle.custody.length,
+        count > bundle.custody.length
+            ? `${count} custody events on chain; ${count - bundle.custody.length} logged since the bundle was exported`
+            : `${count} custody events on chain, ${bundle.custody.length} in the bundle`);
+
+    for (const event of bundle.custody) {
+        const label = `custody[${event.eventIndex}]`;
+        if (event.eventIndex >= count) {
+            record(label, false, `Event ${event.eventIndex} (${event.action}) is not on chain`);
+            continue;
+        }
+
+        const onChainEvent = await contract.getCustodyEvent(evidence.evidenceId, event.eventIndex);
+        let passed = sameHex(onChainEvent.handler, event.handler)
+            && sameHex(onChainEvent.action, event.actionHash)
+            && Number(onChainEvent.timestamp) === Number(event.timestamp)
+            && sameHex(onChainEvent.metadataHash, event.metadataHash);
+        let detail = passed
+            ? `${event.action} by ${onChainEvent.handler} matches the registry`
+            : `${event.action} differs from the registry entry`;
+
+        if (passed && event.txHash) {
+            const eventReceipt = await provider.getTransactionReceipt(event.txHash);
+            const logged = eventReceipt && eventReceipt.logs.map(parse).some(parsed => parsed
+                && parsed.name === 'CustodyEventLogged'
+                && parsed.args.evidenceId.toString() === String(evidence.evidenceId)
+                && Number(parsed.args.eventIndex) === Number(event.eventIndex));
+            passed = !!logged;
+            detail = logged
+                ? `${detail}; logged by ${event.txHash} in block ${eventReceipt.blockNumber}`
+                : `Transaction ${event.txHash} did not log this event`;
+        }
+        record(label, passed, detail);
+    }
+}
+
+/**
+ * Check a proof bundle, and optionally a file and the chain, against each other
+ * @param {Object} bundle - Parsed bundle JSON
+ * @param {Object} [options]
+ * @param {Buffer} [options.fileBuffer] - Evidence file to compare with the bundle's hash
+ * @param {string} [options.fileHash] - SHA-256 of the evidence file, when the file itself is not at hand
+ * @param {Object} [options.provider] - ethers provider for any node of the bundle's chain
+ * @returns {Promise<Object>} - { valid, chainChecked, fileHash, checks: [{ check, status, detail }] }
+ */
+async function verifyProofBundle(bundle, { fileBuffer = null, fileHash = null, provider = null } = {}) {
+    const checks = [];
+    const record = (check, passed, detail) => checks.push({ check, status: passed ? 'PASS' : 'FAIL', detail });
+    const skip = (check, detail) => checks.push({ check, status: 'SKIPPED', detail });
+    const result = (extra) => ({ valid: checks.every(c => c.status !== 'FAIL'), checks, ...extra });
+
+    const problems = structureProblems(bundle);
+    record('format', !problems.length, problems.length ? problems.join('; ') : `${bundle.format} v${bundle.version}`);
+    if (problems.length) return result({ chainChecked: false, fileHash: null });
+
+    // The signature shows who exported the bundle; it is not what makes the evidence trustworthy
+    if (bundle.signature && bundle.signature.signature && bundle.signature.publicKey) {
+        const content = signedContent(bundle);
+        let passed = computeStringHash(content) === bundle.signature.sha256;
+        if (passed) {
+            try {
+                passed = crypto.verify(null, Buffer.from(content, 'utf8'),
+                    crypto.createPublicKey(bundle.signature.publicKey), Buffer.from(bundle.signature.signature, 'base64'));
+            } catch {
+                passed = false;
+            }
+        }
+        record('signature', passed, passed
+            ? `Signed by key ${bundle.signature.keyId} at ${bundle.signature.signedAt}`
+            : 'Bundle content does not match its signature; it was changed after export');
+    } else {
+        skip('signature', 'Bundle is not signed');
+    }
+
+    if (fileBuffer) fileHash = computeFileHash(fileBuffer);
+    if (fileHash) {
+        record('file', sameHex(fileHash, bundle.evidence.sha256), sameHex(fileHash, bundle.evidence.sha256)
+            ? `File SHA-256 ${fileHash} matches the bundle`
+            : `File SHA-256 ${fileHash} does not match the bundle's ${bundle.evidence.sha256}`);
+    } else {
+        skip('file', 'No file supplied');
+    }
+
+    if (!provider) {
+        skip('chain', 'No RPC node supplied; the bundle was not compared with the chain');
+        return result({ chainChecked: false, fileHash });
+    }
+
+    try {
+        await checkChain(bundle, provider, record);
+    } catch (error) {
+        record('chain', false, `RPC query failed: ${error.shortMessage || error.message}`);
+    }
+    return result({ chainChecked: true, fileHash });
+}
+
+module.exports = {
+    PROOF_BUNDLE_FORMAT,
+    PROOF_BUNDLE_VERSION,
+    PROOF_ABI_NAMES,
+    signedContent,
+    verifyProofBundle
+};
@@ -15,6 +15,15 @@ contract EvidenceRegistry {
         VERIFIED
     }
     
+    // Agreement among verifier attestations, kept apart from the status set by verifyEvidence
+    enum ConsensusStatus {
+        NONE,
+        PENDING,
+        CONFIRMED,
+        REJECTED,
+        DISPUTED
+    }
+    
     bytes32 public constant ACTION_COLLECTED = keccak256("COLLECTED");
     bytes32 public constant ACTION_ACCESSED = keccak256("ACCESSED");
     bytes32 public constant ACTION_TRANSFERRED = keccak256("TRANSFERRED");
@@ -22,6 +31,12 @@ contract EvidenceRegistry {
     bytes32 public constant ACTION_ANALYZED = keccak256("ANALYZED");
     bytes32 public constant ACTION_VIOLATION = keccak256("VIOLATION");
     
+    // Only holders of a role may make the writes it covers; admins grant and revoke roles
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN");
+    bytes32 public constant COLLECTOR_ROLE = keccak256("COLLECTOR");
+    bytes32 public constant CUSTODIAN_ROLE = keccak256("CUSTODIAN");
+    bytes32 public constant VERIFIER_ROLE = keccak256("VERIFIER");
+    
     struct Evidence {
         bytes32 evidenceHash;
         string caseId;
@@ -44,14 +59,38 @@ contract EvidenceRegistry {
         uint256 timestamp;
     }
     
+    struct Consensus {
+        ConsensusStatus status;
+        uint256 confirmations;
+        uint256 rejections;
+    }
+    
+    struct EvidenceBatch {
+        bytes32 merkleRoot;
+        string caseId;
+        uint256 itemCount;
+        address collector;
+        uint256 timestamp;
+    }
+    
     uint256 private _evidenceCounter;
     mapping(uint256 => Evidence) private _evidence;
     mapping(uint256 => mapping(uint256 => CustodyEvent)) private _custodyLog;
     mapping(bytes32 => bool) private _hashRegistered;
     
+    mapping(bytes32 => mapping(address => bool)) private _roles;
+    
     // ITEM #5: Attestation support
     mapping(uint256 => Attestation[]) private _attestations;
-    mapping(address => bool) public isRegisteredVerifier;
+    mapping(uint256 => Consensus) private _consensus;
+    
+    // Agreeing attestations needed to settle an item's consensus
+    uint256 public quorumThreshold = 2;
+    
+    // Batch registration: one Merkle root anchors many files
+    uint256 private _batchCounter;
+    mapping(uint256 => EvidenceBatch) private _batches;
+    mapping(bytes32 => bool) private _rootRegistered;
     
     event EvidenceRegistered(
         uint256 indexed evidenceId,
@@ -61,6 +100,15 @@ contract EvidenceRegistry {
         uint256 timestamp
     );
     
+    event BatchRegistered(
+        uint256 indexed batchId,
+        bytes32 indexed merkleRoot,
+        string caseId,
+        uint256 itemCount,
+        address indexed collector,
+        uint256 timestamp
+    );
+    
     event CustodyEventLogged(
         uint256 indexed evidenceId,
         address indexed handler,
@@ -90,6 +138,42 @@ contract EvidenceRegistry {
         uint256 timestamp
     );
     
+    event QuorumReached(
+        uint256 indexed evidenceId,
+        bool verified,
+        uint256 confirmations,
+        uint256 rejections,
+        uint256 threshold,
+        uint256 timestamp
+    );
+    
+    event AttestationDisputed(
+        uint256 indexed evidenceId,
+        uint256 confirmations,
+        uint256 rejections,
+        uint256 timestamp
+    );
+    
+    event QuorumThresholdChanged(
+        uint256 previousThreshold,
+        uint256 newThreshold,
+        address indexed changedBy
+    );
+    
+    event RoleGranted(
+        bytes32 indexed role,
+        address indexed account,
+        address indexed sender,
+        uint256 timestamp
+    );
+    
+    event RoleRevoked(
+        bytes32 indexed role,
+        address indexed account,
+        address indexed sender,
+        uint256 timestamp
+    );
+    
     event PolicyViolation(
         uint256 indexed evidenceId,
         address indexed violator,
@@ -98,6 +182,21 @@ contract EvidenceRegistry {
         uint256 timestamp
     );
     
+    /**
+     * @dev The deploying account administers the registry and, being the backend's
+     *      signing account by default, can also register evidence and log custody
+     */
+    constructor() {
+        _grantRole(ADMIN_ROLE, msg.sender);
+        _grantRole(COLLECTOR_ROLE, msg.sender);
+        _grantRole(CUSTODIAN_ROLE, msg.sender);
+    }
+    
+    modifier onlyRole(bytes32 role) {
+        require(_roles[role][msg.sender], "Caller is missing role");
+        _;
+    }
+    
     modifier evidenceExists(uint256 evidenceId) {
         require(
             evidenceId > 0 && evidenceId <= _evidenceCounter,
@@ -110,10 +209,18 @@ contract EvidenceRegistry {
         _;
     }
     
+    modifier batchExists(uint256 batchId) {
+        require(
+            batchId > 0 && batchId <= _batchCounter,
+            "Batch does not exist"
+        );
+        _;
+    }
+    
     function registerEvidence(
         bytes32 evidenceHash,
         string calldata caseId
-    ) external returns (uint256 evidenceId) {
+    ) external onlyRole(COLLECTOR_ROLE) returns (uint256 evidenceId) {
         require(evidenceHash != bytes32(0), "Invalid evidence hash");
         require(bytes(caseId).length > 0, "Case ID required");
         require(!_hashRegistered[evidenceHash], "Evidence hash already registered");
@@ -145,10 +252,68 @@ contract EvidenceRegistry {
         _logCustodyEventInternal(evidenceId, ACTION_COLLECTED, bytes32(0));
     }
     
+    /**
+     * @notice Anchor many evidence files in one transaction through the root of a Merkle tree over their hashes
+     * @dev Leaves are keccak256(itemHash); parents hash their two children in ascending order,
+     *      and an unpaired node moves up a level unchanged
+     */
+    function registerBatch(
+        bytes32 merkleRoot,
+        string calldata caseId,
+        uint256 itemCount
+    ) external onlyRole(COLLECTOR_ROLE) returns (uint256 batchId) {
+        require(merkleRoot != bytes32(0), "Invalid Merkle root");
+        require(bytes(caseId).length > 0, "Case ID required");
+        require(itemCount > 0, "Batch is empty");
+        require(!_rootRegistered[merkleRoot], "Merkle root already registered");
+        
+        unchecked {
+            _batchCounter++;
+        }
+        batchId = _batchCounter;
+        
+        _batches[batchId] = EvidenceBatch({
+            merkleRoot: merkleRoot,
+            caseId: caseId,
+            itemCount: itemCount,
+            collector: msg.sender,
+            timestamp: block.timestamp
+        });
+        
+        _rootRegistered[merkleRoot] = true;
+        
+        emit BatchRegistered(
+            batchId,
+            merkleRoot,
+            caseId,
+            itemCount,
+            msg.sender,
+            block.timestamp
+        );
+    }
+    
+    /**
+     * @notice Check that a file hash is one of a batch's items using its Merkle proof
+     */
+    function verifyBatchItem(
+        uint256 batchId,
+        bytes32 itemHash,
+        bytes32[] calldata proof
+    ) external view batchExists(batchId) returns (bool) {
+        bytes32 computed = keccak256(abi.encodePacked(itemHash));
+        for (uint256 i = 0; i < proof.length; i++) {
+            bytes32 sibling = proof[i];
+            computed = computed < sibling
+                ? keccak256(abi.encodePacked(computed, sibling))
+                : keccak256(abi.encodePacked(sibling, computed));
+        }
+        return computed == _batches[batchId].merkleRoot;
+    }
+    
     function logCustodyEvent(
         uint256 evidenceId,
         bytes32 action
-    ) external evidenceExists(evidenceId) {
+    ) external onlyRole(CUSTODIAN_ROLE) evidenceExists(evidenceId) {
         _logCustodyEventInternal(evidenceId, action, bytes32(0));
     }
     
@@ -156,7 +321,7 @@ contract EvidenceRegistry {
         uint256 evidenceId,
         bytes32 action,
         bytes32 metadataHash
-    ) external evidenceExists(evidenceId) {
+    ) external onlyRole(CUSTODIAN_ROLE) evidenceExists(evidenceId) {
         require(metadataHash != bytes32(0), "Metadata hash required");
         _logCustodyEventInternal(evidenceId, action, metadataHash);
     }
@@ -189,10 +354,17 @@ contract EvidenceRegistry {
         );
     }
     
+    /**
+     * @dev Open to verifiers and, since a passing verification is logged as a custody event, to custodians
+     */
     function verifyEvidence(
         uint256 evidenceId,
         bytes32 submittedHash
     ) external evidenceExists(evidenceId) returns (bool verified) {
+        require(
+            _roles[VERIFIER_ROLE][msg.sender] || _roles[CUSTODIAN_ROLE][msg.sender],
+            "Caller is missing role"
+        );
         require(submittedHash != bytes32(0), "Invalid submitted hash");
         
         Evidence storage evidence = _evidence[evidenceId];
@@ -222,17 +394,33 @@ contract EvidenceRegistry {
         }
     }
     
+    /**
+     * @notice Compare a hash with the registered one without recording anything
+     * @dev Read-only counterpart of verifyEvidence: no gas when called, no status change, no events
+     */
+    function checkEvidence(
+        uint256 evidenceId,
+        bytes32 submittedHash
+    ) external view evidenceExists(evidenceId) returns (
+        bool matches,
+        bytes32 expectedHash,
+        EvidenceStatus status
+    ) {
+        Evidence storage evidence = _evidence[evidenceId];
+        expectedHash = evidence.evidenceHash;
+        matches = (submittedHash != bytes32(0) && expectedHash == submittedHash);
+        status = evidence.status;
+    }
+    
     // ITEM #5: Multi-node attestation
-    function registerAsVerifier() external {
-        isRegisteredVerifier[msg.sender] = true;
+    function isRegisteredVerifier(address account) external view returns (bool) {
+        return _roles[VERIFIER_ROLE][account];
     }
     
     function attestVerification(
         uint256 evidenceId,
         bool verified
-    ) external evidenceExists(evidenceId) {
-        require(isRegisteredVerifier[msg.sender], "Not registered verifier");
-        
+    ) external onlyRole(VERIFIER_ROLE) evidenceExists(evidenceId) {
         Attestation[] storage attestations = _attestations[evidenceId];
         for (uint i = 0; i < attestations.length; i++) {
             require(attestations[i].verifier != msg.sender, "Already attested");
@@ -250,6 +438,105 @@ contract EvidenceRegistry {
             verified,
             block.timestamp
         );
+        
+        _updateConsensus(evidenceId, verified);
+    }
+    
+    /**
+     * @dev Settles on CONFIRMED or REJECTED once quorumThreshold attestations agree, and keeps
+     *      that status when a minority disagrees. The item becomes DISPUTED, for good, only when
+     *      the opposing side reaches quorumThreshold as well; later attestations only add to the counts.
+     */
+    function _updateConsensus(uint256 evidenceId, bool verified) private {
+        Consensus storage consensus = _consensus[evidenceId];
+        if (verified) {
+            consensus.confirmations++;
+        } else {
+            consensus.rejections++;
+        }
+        
+        if (consensus.status == ConsensusStatus.DISPUTED) {
+            return;
+        }
+        
+        uint256 agreeing = verified ? consensus.confirmations : consensus.rejections;
+        if (agreeing < quorumThreshold) {
+            if (consensus.status == ConsensusStatus.NONE) {
+                consensus.status = ConsensusStatus.PENDING;
+            }
+            return;
+        }
+        
+        if (consensus.status == ConsensusStatus.NONE || consensus.status == ConsensusStatus.PENDING) {
+            consensus.status = verified ? ConsensusStatus.CONFIRMED : ConsensusStatus.REJECTED;
+            emit QuorumReached(
+                evidenceId,
+                verified,
+                consensus.confirmations,
+                consensus.rejections,
+                quorumThreshold,
+                block.timestamp
+            );
+        } else if (consensus.status != (verified ? ConsensusStatus.CONFIRMED : ConsensusStatus.REJECTED)) {
+            consensus.status = ConsensusStatus.DISPUTED;
+            emit AttestationDisputed(
+                evidenceId,
+                consensus.confirmations,
+                consensus.rejections,
+                block.timestamp
+            );
+        }
+    }
+    
+    function setQuorumThreshold(uint256 threshold) external onlyRole(ADMIN_ROLE) {
+        require(threshold > 0, "Threshold must be positive");
+        emit QuorumThresholdChanged(quorumThreshold, threshold, msg.sender);
+        quorumThreshold = threshold;
+    }
+    
+    function grantRole(bytes32 role, address account) external onlyRole(ADMIN_ROLE) {
+        require(_isKnownRole(role), "Unknown role");
+        require(account != address(0), "Invalid account");
+        _grantRole(role, account);
+    }
+    
+    /**
+     * @dev An admin cannot revoke its own admin role, so the registry always keeps one
+     */
+    function revokeRole(bytes32 role, address account) external onlyRole(ADMIN_ROLE) {
+        require(_isKnownRole(role), "Unknown role");
+        require(!(role == ADMIN_ROLE && account == msg.sender), "Cannot revoke own admin role");
+        if (_roles[role][account]) {
+            _roles[role][account] = false;
+            emit RoleRevoked(role, account, msg.sender, block.timestamp);
+        }
+    }
+    
+    function hasRole(bytes32 role, address account) external view returns (bool) {
+        return _roles[role][account];
+    }
+    
+    function _grantRole(bytes32 role, address account) private {
+        if (!_roles[role][account]) {
+            _roles[role][account] = true;
+            emit RoleGranted(role, account, msg.sender, block.timestamp);
+        }
+    }
+    
+    function _isKnownRole(bytes32 role) private pure returns (bool) {
+        return role == ADMIN_ROLE
+            || role == COLLECTOR_ROLE
+            || role == CUSTODIAN_ROLE
+            || role == VERIFIER_ROLE;
+    }
+    
+    function getConsensus(uint256 evidenceId)
+        external
+        view
+        evidenceExists(evidenceId)
+        returns (Consensus memory)
+    {
+        return _consensus[evidenceId];
     }
     
     function getAttestationCount(uint256 evidenceId)
@@ -314,6 +601,19 @@ contract EvidenceRegistry {
         return _evidenceCounter;
     }
     
+    function getBatch(uint256 batchId)
+        external
+        view
+        batchExists(batchId)
+        returns (EvidenceBatch memory)
+    {
+        return _batches[batchId];
+    }
+    
+    function getBatchCount() external view returns (uint256) {
+        return _batchCounter;
+    }
+    
     function getActionHash(string memory actionName) 
         external 
         pure 
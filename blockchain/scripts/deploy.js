@@ -20,14 +20,17 @@ async function main() {
 
     await evidenceRegistry.waitForDeployment();
     const contractAddress = await evidenceRegistry.getAddress();
+    // The backend starts its event searches here
+    const deployBlock = (await evidenceRegistry.deploymentTransaction().wait()).blockNumber;
 
-    console.log("\n✅ EvidenceRegistry deployed to:", contractAddress);
+    console.log("\n✅ EvidenceRegistry deployed to:", contractAddress, `(block ${deployBlock})`);
 
-    // Register verifier nodes for attestation
-    console.log("\n📝 Registering verifier nodes...");
-    await evidenceRegistry.connect(verifier1).registerAsVerifier();
-    await evidenceRegistry.connect(verifier2).registerAsVerifier();
-    await evidenceRegistry.connect(verifier3).registerAsVerifier();
+    // Only accounts holding VERIFIER may attest; the deployer already holds ADMIN, COLLECTOR and CUSTODIAN
+    console.log("\n📝 Granting VERIFIER to verifier nodes...");
+    const verifierRole = await evidenceRegistry.VERIFIER_ROLE();
+    for (const verifier of [verifier1, verifier2, verifier3]) {
+        await (await evidenceRegistry.grantRole(verifierRole, verifier.address)).wait();
+    }
     console.log("   Verifier 1:", verifier1.address);
     console.log("   Verifier 2:", verifier2.address);
     console.log("   Verifier 3:", verifier3.address);
@@ -52,6 +55,7 @@ async function main() {
             verifier2.address,
             verifier3.address
         ],
+        deployBlock,
         blockNumber: await hre.ethers.provider.getBlockNumber(),
         timestamp: new Date().toISOString(),
         actions: actionHashes
@@ -80,6 +84,7 @@ async function main() {
         PORT: '3001',
         BLOCKCHAIN_RPC_URL: 'http://127.0.0.1:8545',
         CONTRACT_ADDRESS: contractAddress,
+        CONTRACT_DEPLOY_BLOCK: String(deployBlock),
         PRIVATE_KEY: deployer.privateKey || '',
         VERIFIER1_KEY: verifier1.privateKey || '',
         VERIFIER2_KEY: verifier2.privateKey || '',
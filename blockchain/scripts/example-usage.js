@@ -23,6 +23,11 @@ async function main() {
     const contractAddress = await contract.getAddress();
 
     console.log("📜 Contract Address:", contractAddress);
+
+    // The deployer holds ADMIN, COLLECTOR and CUSTODIAN; the other actors need theirs granted
+    await (await contract.grantRole(await contract.CUSTODIAN_ROLE(), analyst.address)).wait();
+    await (await contract.grantRole(await contract.VERIFIER_ROLE(), verifier.address)).wait();
+    console.log("🔑 Granted CUSTODIAN to analyst and VERIFIER to verifier");
     console.log("");
 
     // ===========================================
@@ -1,7 +1,24 @@
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
--- 1. Evidence Table
+-- 1. Evidence Batches
+-- Many files anchored on chain by one Merkle root; each file is still an evidence row (evidence_id B<batch>-<n>)
+CREATE TABLE evidence_batches (
+  batch_id bigint PRIMARY KEY,     -- ID assigned by EvidenceRegistry.registerBatch
+  case_id text NOT NULL,
+  merkle_root text UNIQUE NOT NULL,
+  item_count integer NOT NULL,
+  tx_hash text UNIQUE NOT NULL,
+  block_number bigint,
+  gas_used text,
+  registered_by text NOT NULL,     -- badge number
+  registered_by_name text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_evidence_batches_case ON evidence_batches(case_id);
+
+-- 2. Evidence Table
 CREATE TABLE evidence (
   id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
   evidence_id text UNIQUE NOT NULL,
@@ -15,9 +32,12 @@ CREATE TABLE evidence (
   sha256_hash text UNIQUE NOT NULL,
   storage_path text NOT NULL,
   storage_url text,
-  tx_hash text UNIQUE,
+  tx_hash text,                    -- not unique: items of a batch share its transaction
   block_number bigint,
   gas_used text,
+  batch_id bigint REFERENCES evidence_batches(batch_id),
+  batch_index integer,
+  merkle_proof jsonb,              -- sibling hashes from the item's leaf to the root
   created_at timestamptz DEFAULT now(),
   updated_at timestamptz DEFAULT now(),
   created_by uuid REFERENCES auth.users(id)
@@ -26,26 +46,32 @@ CREATE TABLE evidence (
 CREATE INDEX idx_evidence_case_id ON evidence(case_id);
 CREATE INDEX idx_evidence_hash ON evidence(sha256_hash);
 CREATE INDEX idx_evidence_tx_hash ON evidence(tx_hash);
+CREATE INDEX idx_evidence_batch ON evidence(batch_id, batch_index);
 
--- 2. Custody Events Table
+-- 3. Custody Events Table
+-- Filled by the chain indexer from CustodyEventLogged logs. No foreign key to evidence:
+-- an event can be indexed before the registration's metadata is saved.
 CREATE TABLE custody_events (
   id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
-  evidence_id text NOT NULL REFERENCES evidence(evidence_id) ON DELETE CASCADE,
+  evidence_id text NOT NULL,
   event_index integer NOT NULL,
-  action text NOT NULL,
+  action text NOT NULL,            -- action name, or UNKNOWN if no known name hashes to action_hash
+  action_hash text,
   handler text NOT NULL,
   metadata_hash text,
   details jsonb,
   tx_hash text,
   block_number bigint,
+  log_index integer,
   timestamp timestamptz NOT NULL,
-  created_at timestamptz DEFAULT now()
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (evidence_id, event_index)
 );
 
 CREATE INDEX idx_custody_evidence ON custody_events(evidence_id);
 CREATE INDEX idx_custody_timestamp ON custody_events(timestamp DESC);
 
--- 3. Tamper Alerts Table
+-- 4. Tamper Alerts Table
 CREATE TABLE tamper_alerts (
   id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
   evidence_id text REFERENCES evidence(evidence_id) ON DELETE SET NULL,
@@ -55,34 +81,222 @@ CREATE TABLE tamper_alerts (
   risk_score integer CHECK (risk_score >= 0 AND risk_score <= 100),
   reason text NOT NULL,
   details jsonb,
+  status text NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'ACKNOWLEDGED', 'UNDER_INVESTIGATION', 'RESOLVED', 'FALSE_POSITIVE')),
+  assigned_to text,              -- badge number
+  assigned_to_name text,
   resolved boolean DEFAULT false,
-  resolved_by uuid REFERENCES auth.users(id),
+  resolved_by text,              -- badge number
+  resolved_by_name text,
   resolved_at timestamptz,
+  resolution_notes text,
   created_at timestamptz DEFAULT now()
 );
 
 CREATE INDEX idx_alerts_evidence ON tamper_alerts(evidence_id);
 CREATE INDEX idx_alerts_severity ON tamper_alerts(severity, created_at DESC);
 CREATE INDEX idx_alerts_unresolved ON tamper_alerts(resolved) WHERE resolved = false;
+CREATE INDEX idx_alerts_status ON tamper_alerts(status, created_at DESC);
+CREATE INDEX idx_alerts_assignee ON tamper_alerts(assigned_to) WHERE assigned_to IS NOT NULL;
+CREATE INDEX idx_alerts_legacy_id ON tamper_alerts((details->>'legacyId'));
+CREATE INDEX idx_alerts_source_key ON tamper_alerts((details->>'sourceKey'));
+
+-- Every lifecycle change on an alert (state changes, assignment, notes)
+CREATE TABLE tamper_alert_history (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  alert_id uuid NOT NULL REFERENCES tamper_alerts(id) ON DELETE CASCADE,
+  change_type text NOT NULL CHECK (change_type IN ('STATUS_CHANGED', 'ASSIGNED', 'NOTE_ADDED')),
+  from_value text,
+  to_value text,
+  changed_by text NOT NULL,      -- badge number
+  changed_by_name text,
+  note text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_alert_history_alert ON tamper_alert_history(alert_id, created_at);
 
--- 4. Audit Log Table
+-- 5. Audit Log Table
+-- Append-only and hash-chained: entry_hash covers every column plus prev_hash
 CREATE TABLE audit_log (
   id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sequence bigint UNIQUE NOT NULL,
   actor text NOT NULL,
+  actor_name text,
+  actor_role text,
   action text NOT NULL,
+  severity text NOT NULL CHECK (severity IN ('info', 'warning', 'critical')),
   resource_type text,
   resource_id text,
   details jsonb,
   ip_address inet,
   user_agent text,
-  created_at timestamptz DEFAULT now()
+  created_at timestamptz DEFAULT now(),
+  prev_hash text NOT NULL,
+  entry_hash text UNIQUE NOT NULL
 );
 
 CREATE INDEX idx_audit_actor ON audit_log(actor, created_at DESC);
 CREATE INDEX idx_audit_resource ON audit_log(resource_type, resource_id);
 CREATE INDEX idx_audit_timestamp ON audit_log(created_at DESC);
+CREATE INDEX idx_audit_sequence ON audit_log(sequence DESC);
+CREATE INDEX idx_audit_action ON audit_log(action, sequence DESC);
+CREATE INDEX idx_audit_severity ON audit_log(severity, sequence DESC);
+
+-- 6. Users Table
+CREATE TABLE users (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  badge_number text UNIQUE NOT NULL,
+  name text NOT NULL,
+  role text NOT NULL CHECK (role IN ('Officer', 'Detective', 'Admin', 'Prosecutor', 'Judge')),
+  custody_role text CHECK (custody_role IN ('COLLECTOR', 'FORENSIC_ANALYST', 'DETECTIVE', 'COURT_CLERK')),
+  password_hash text NOT NULL,
+  active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_users_badge ON users(badge_number);
+
+-- 7. Custody Policies
+-- Each edit inserts a new version; earlier versions stay on record
+CREATE TABLE custody_policies (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  policy_id text NOT NULL,
+  version integer NOT NULL,
+  name text NOT NULL,
+  description text,
+  rules jsonb NOT NULL,          -- allowedRoles, actionRoles, requiredOrder, allowedSkips, maxAccessDurationHours, noParallelAccess
+  archived boolean DEFAULT false,
+  created_by text NOT NULL,      -- badge number
+  created_by_name text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (policy_id, version)
+);
+
+-- Which policy governs a case or an evidence type (case assignments take precedence)
+CREATE TABLE custody_policy_assignments (
+  scope_type text NOT NULL CHECK (scope_type IN ('CASE', 'EVIDENCE_TYPE')),
+  scope_value text NOT NULL,
+  policy_id text NOT NULL,
+  assigned_by text NOT NULL,     -- badge number
+  assigned_by_name text,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (scope_type, scope_value)
+);
+
+-- Policy engine state per evidence item (last custody step and current holder)
+CREATE TABLE custody_state (
+  evidence_id text PRIMARY KEY,
+  current_step text NOT NULL,
+  checkout jsonb,                -- { handler, handlerName, since, dueAt, purpose, overdueFlaggedAt }
+  policy_id text,
+  policy_version integer,
+  rebuilt_from_chain boolean DEFAULT false,
+  updated_at timestamptz DEFAULT now()
+);
+CREATE INDEX idx_custody_state_checkouts ON custody_state(evidence_id) WHERE checkout IS NOT NULL;
+
+-- 8. Cases
+-- Evidence may only be registered against an open case (evidence.case_id holds the case number)
+CREATE TABLE cases (
+  case_number text PRIMARY KEY,
+  title text NOT NULL,
+  description text,
+  status text NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'CLOSED')),
+  lead_investigator text NOT NULL,   -- badge number
+  lead_investigator_name text,
+  opened_at timestamptz DEFAULT now(),
+  closed_at timestamptz,
+  created_by text NOT NULL,          -- badge number
+  created_by_name text,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_cases_status ON cases(status, opened_at DESC);
+
+-- 9. Transaction Outbox
+-- Contract writes waiting to be sent, mined or handled; the backend retries them until they settle
+CREATE TABLE tx_outbox (
+  id uuid PRIMARY KEY,
+  kind text NOT NULL CHECK (kind IN ('REGISTER_EVIDENCE', 'REGISTER_BATCH', 'LOG_CUSTODY_EVENT', 'VERIFY_EVIDENCE', 'SET_ROLE', 'ATTEST_VERIFICATION')),
+  params jsonb NOT NULL,           -- contract call inputs
+  context jsonb,                   -- what to save once the transaction is mined
+  status text NOT NULL DEFAULT 'QUEUED' CHECK (status IN ('QUEUED', 'SENT', 'CONFIRMED', 'FAILED')),
+  attempts integer NOT NULL DEFAULT 0,
+  nonce bigint,
+  tx_hashes jsonb NOT NULL DEFAULT '[]',   -- every broadcast for the nonce; gas bumps add one each
+  fees jsonb,
+  last_error text,
+  next_attempt_at timestamptz,
+  sent_at timestamptz,
+  result jsonb,
+  handled_at timestamptz,
+  handler_attempts integer NOT NULL DEFAULT 0,   -- confirmation handler runs that threw
+  created_by text,                 -- badge number, or SYSTEM
+  created_by_name text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_tx_outbox_status ON tx_outbox(status, created_at);
+
+-- 10. Chain Index
+-- Registry events other than custody logs, and how far the indexer has read
+CREATE TABLE chain_events (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_name text NOT NULL CHECK (event_name IN ('EvidenceRegistered', 'VerificationPassed', 'TamperDetected', 'PolicyViolation', 'VerificationAttested', 'QuorumReached', 'AttestationDisputed', 'RoleGranted', 'RoleRevoked')),
+  evidence_id text,                -- null for role changes
+  args jsonb NOT NULL,
+  tx_hash text NOT NULL,
+  block_number bigint NOT NULL,
+  log_index integer NOT NULL,
+  timestamp timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX idx_chain_events_evidence ON chain_events(evidence_id);
+CREATE INDEX idx_chain_events_name ON chain_events(event_name, timestamp DESC);
+
+CREATE TABLE chain_sync_state (
+  name text PRIMARY KEY,           -- one row per indexer
+  contract_address text NOT NULL,
+  last_block bigint NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- 11. Reconciliation Reports
+-- Scheduled and manual comparisons of the evidence table with the registry
+CREATE TABLE reconciliation_reports (
+  id uuid PRIMARY KEY,
+  status text NOT NULL CHECK (status IN ('CLEAN', 'ISSUES_FOUND')),
+  trigger text NOT NULL CHECK (trigger IN ('SCHEDULED', 'MANUAL')),
+  triggered_by text,               -- badge number; null for scheduled runs
+  triggered_by_name text,
+  database_count integer NOT NULL,
+  chain_count integer NOT NULL,
+  summary jsonb NOT NULL,          -- issue count per type
+  issues jsonb NOT NULL DEFAULT '[]',
+  started_at timestamptz NOT NULL,
+  finished_at timestamptz NOT NULL
+);
+
+CREATE INDEX idx_reconciliation_reports_finished ON reconciliation_reports(finished_at DESC);
+
+-- 12. Registry Migrations
+-- Signed old-to-new ID mappings written when evidence is re-anchored in a new EvidenceRegistry deployment
+CREATE TABLE registry_migrations (
+  id uuid PRIMARY KEY,
+  from_chain_id text NOT NULL,
+  from_contract text NOT NULL,
+  to_chain_id text NOT NULL,
+  to_contract text NOT NULL,
+  document jsonb NOT NULL,         -- the signed mapping, exactly as written by scripts/migrateRegistry.js
+  migrated_at timestamptz NOT NULL
+);
+
+CREATE INDEX idx_registry_migrations_from ON registry_migrations(from_contract);
 
--- 5. Storage Policies (Note: You must create the 'evidence-files' bucket manually in Supabase Dashboard first)
+-- 13. Storage Policies (Note: You must create the 'evidence-files' bucket manually in Supabase Dashboard first)
 
 -- Policy 1: Allow authenticated uploads
 -- CREATE POLICY "Allow authenticated uploads"
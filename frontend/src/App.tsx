@@ -7,35 +7,46 @@ import { ChainOfCustody } from './pages/ChainOfCustody';
 import { Verification } from './pages/Verification';
 import { Alerts } from './pages/Alerts';
 import { AuditLog } from './pages/AuditLog';
+import { Policies } from './pages/Policies';
+import { Cases } from './pages/Cases';
 import { ToastProvider } from './components/ui/Toast';
 import { Login } from './pages/Login';
 import { Home } from './pages/Home';
 import { ThemeProvider } from './context/ThemeContext';
+import { AuthProvider } from './context/AuthContext';
+import { LiveEventsProvider } from './context/LiveEventsContext';
+import { RequireAuth } from './components/layout/RequireAuth';
 
 function App() {
   return (
     <ThemeProvider>
       <ToastProvider>
-        <BrowserRouter>
-          <Routes>
-            {/* Landing Page */}
-            <Route path="/home" element={<Home />} />
+        <AuthProvider>
+          <LiveEventsProvider>
+            <BrowserRouter>
+              <Routes>
+                {/* Landing Page */}
+                <Route path="/home" element={<Home />} />
 
-            {/* Public Route */}
-            <Route path="/login" element={<Login />} />
+                {/* Public Route */}
+                <Route path="/login" element={<Login />} />
 
-            {/* Protected Routes */}
-            <Route path="/" element={<Layout />}>
-              <Route index element={<Dashboard />} />
-              <Route path="vault" element={<EvidenceVault />} />
-              <Route path="upload" element={<UploadEvidence />} />
-              <Route path="custody" element={<ChainOfCustody />} />
-              <Route path="verification" element={<Verification />} />
-              <Route path="alerts" element={<Alerts />} />
-              <Route path="audit" element={<AuditLog />} />
-            </Route>
-          </Routes>
-        </BrowserRouter>
+                {/* Protected Routes */}
+                <Route path="/" element={<RequireAuth><Layout /></RequireAuth>}>
+                  <Route index element={<Dashboard />} />
+                  <Route path="cases" element={<RequireAuth permission="cases:read"><Cases /></RequireAuth>} />
+                  <Route path="vault" element={<RequireAuth permission="evidence:read"><EvidenceVault /></RequireAuth>} />
+                  <Route path="upload" element={<RequireAuth permission="evidence:upload"><UploadEvidence /></RequireAuth>} />
+                  <Route path="custody" element={<RequireAuth permission="custody:read"><ChainOfCustody /></RequireAuth>} />
+                  <Route path="verification" element={<RequireAuth permission="evidence:verify"><Verification /></RequireAuth>} />
+                  <Route path="alerts" element={<RequireAuth permission="alerts:read"><Alerts /></RequireAuth>} />
+                  <Route path="audit" element={<RequireAuth permission="audit:read"><AuditLog /></RequireAuth>} />
+                  <Route path="policies" element={<RequireAuth permission="policies:manage"><Policies /></RequireAuth>} />
+                </Route>
+              </Routes>
+            </BrowserRouter>
+          </LiveEventsProvider>
+        </AuthProvider>
       </ToastProvider>
     </ThemeProvider>
   );
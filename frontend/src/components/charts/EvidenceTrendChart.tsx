@@ -4,6 +4,7 @@ import { useTheme } from '../../context/ThemeContext';
 interface TrendData {
     date: string;
     uploads: number;
+    custodyEvents?: number;
 }
 
 interface EvidenceTrendChartProps {
@@ -22,6 +23,11 @@ export function EvidenceTrendChart({ data = [] }: EvidenceTrendChartProps) {
                     <p className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-600'}`}>
                         Uploads: <span className="font-bold text-blue-500">{payload[0].value}</span>
                     </p>
+                    {payload[1] && (
+                        <p className={`text-xs ${isDark ? 'text-slate-400' : 'text-slate-600'}`}>
+                            Custody events: <span className="font-bold text-emerald-500">{payload[1].value}</span>
+                        </p>
+                    )}
                 </div>
             );
         }
@@ -36,6 +42,10 @@ export function EvidenceTrendChart({ data = [] }: EvidenceTrendChartProps) {
                         <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.3} />
                         <stop offset="95%" stopColor="#3b82f6" stopOpacity={0} />
                     </linearGradient>
+                    <linearGradient id="colorCustody" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="5%" stopColor="#10b981" stopOpacity={0.3} />
+                        <stop offset="95%" stopColor="#10b981" stopOpacity={0} />
+                    </linearGradient>
                 </defs>
                 <CartesianGrid
                     strokeDasharray="3 3"
@@ -62,6 +72,14 @@ export function EvidenceTrendChart({ data = [] }: EvidenceTrendChartProps) {
                     fill="url(#colorUploads)"
                     animationDuration={1000}
                 />
+                <Area
+                    type="monotone"
+                    dataKey="custodyEvents"
+                    stroke="#10b981"
+                    strokeWidth={2}
+                    fill="url(#colorCustody)"
+                    animationDuration={1000}
+                />
             </AreaChart>
         </ResponsiveContainer>
     );
@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Scale, RotateCw } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+import { Dialog } from '../ui/Dialog';
+import { useToast } from '../ui/Toast';
+import { useAuth } from '../../hooks/useAuth';
+import { useLiveEvent } from '../../hooks/useLiveEvent';
+import { api } from '../../utils/api';
+import type { ReconciliationIssueType, ReconciliationReport } from '../../types';
+
+const ISSUE_LABELS: Record<ReconciliationIssueType, string> = {
+    MISSING_ON_CHAIN: 'Missing on chain',
+    HASH_MISMATCH: 'Hash mismatch',
+    CUSTODY_COUNT_MISMATCH: 'Custody count mismatch',
+    NOT_IN_DATABASE: 'Not in database'
+};
+
+/**
+ * Latest database-versus-chain reconciliation, with its issues in a dialog
+ */
+export function ReconciliationCard() {
+    const { can } = useAuth();
+    const { addToast } = useToast();
+    const [report, setReport] = useState<ReconciliationReport | null>(null);
+    const [running, setRunning] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [showDetails, setShowDetails] = useState(false);
+
+    const fetchReport = useCallback(async () => {
+        try {
+            const data = await api.getReconciliation();
+            setReport(data.report);
+            setRunning(data.running);
+        } catch (error) {
+            console.error('Failed to fetch reconciliation report:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchReport();
+    }, [fetchReport]);
+
+    useLiveEvent(['reconciliation.completed'], () => fetchReport());
+
+    const handleRun = async () => {
+        setRunning(true);
+        try {
+            const result = await api.runReconciliation();
+            setReport(result);
+            addToast(result.status === 'CLEAN' ? 'Database and chain agree' : `Reconciliation found ${result.issues.length} issue(s)`, result.status === 'CLEAN' ? 'success' : 'error');
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : 'Reconciliation failed', 'error');
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    return (
+        <Card className="p-6 dark:bg-slate-900 dark:border-slate-800">
+            <CardHeader className="flex flex-row items-center justify-between p-0 pb-4 space-y-0">
+                <CardTitle className="flex items-center gap-2 dark:text-white">
+                    <Scale className="w-5 h-5 text-blue-500" />
+                    Chain Reconciliation
+                </CardTitle>
+                {can('reconciliation:run') && (
+                    <Button size="sm" variant="outline" onClick={handleRun} isLoading={running} disabled={running}>
+                        {!running && <RotateCw className="w-4 h-4 mr-2" />}
+                        Run now
+                    </Button>
+                )}
+            </CardHeader>
+            <CardContent className="space-y-4 p-0">
+                {loading ? (
+                    <p className="text-sm text-slate-400 dark:text-slate-500">Loading...</p>
+                ) : !report ? (
+                    <p className="text-sm text-slate-400 dark:text-slate-500">No reconciliation has run yet</p>
+                ) : (
+                    <>
+                        <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium dark:text-slate-200">Status</span>
+                            <Badge variant={report.status === 'CLEAN' ? 'success' : 'danger'}>
+                                {report.status === 'CLEAN' ? 'In sync' : `${report.issues.length} issue(s)`}
+                            </Badge>
+                        </div>
+                        <div className="flex items-center justify-between text-sm">
+                            <span className="text-slate-500 dark:text-slate-400">Last run</span>
+                            <span className="dark:text-slate-200">
+                                {new Date(report.finishedAt).toLocaleString()} ({report.trigger === 'MANUAL' ? report.triggeredBy?.name || 'manual' : 'scheduled'})
+                            </span>
+                        </div>
+                        <div className="flex items-center justify-between text-sm">
+                            <span className="text-slate-500 dark:text-slate-400">Records / registrations</span>
+                            <span className="dark:text-slate-200">{report.databaseCount} / {report.chainCount}</span>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            {(Object.keys(ISSUE_LABELS) as ReconciliationIssueType[]).map(type => (
+                                <div key={type} className="flex items-center justify-between rounded border border-slate-100 dark:border-slate-800 px-3 py-2">
+                                    <span className="text-xs text-slate-500 dark:text-slate-400">{ISSUE_LABELS[type]}</span>
+                                    <span className={`text-sm font-semibold ${report.summary[type] ? 'text-red-600 dark:text-red-400' : 'dark:text-white'}`}>
+                                        {report.summary[type] || 0}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                        {report.issues.length > 0 && (
+                            <Button size="sm" variant="ghost" onClick={() => setShowDetails(true)}>
+                                View details
+                            </Button>
+                        )}
+                    </>
+                )}
+            </CardContent>
+
+            <Dialog
+                isOpen={showDetails && !!report}
+                onClose={() => setShowDetails(false)}
+                title="Reconciliation Issues"
+                description={report ? `Run finished ${new Date(report.finishedAt).toLocaleString()}` : undefined}
+            >
+                <div className="space-y-3">
+                    {report?.issues.map((issue, i) => (
+                        <div key={`${issue.type}-${issue.evidenceId}-${i}`} className="rounded border border-slate-200 dark:border-slate-800 p-3 space-y-1">
+                            <div className="flex items-center justify-between">
+                                <span className="text-sm font-medium dark:text-white">
+                                    Evidence #{issue.evidenceId}
+                                    {issue.caseId && <span className="text-slate-500 dark:text-slate-400"> · {issue.caseId}</span>}
+                                </span>
+                                <Badge variant={issue.type === 'HASH_MISMATCH' ? 'danger' : 'warning'}>{ISSUE_LABELS[issue.type]}</Badge>
+                            </div>
+                            {issue.fileName && <p className="text-xs text-slate-500 dark:text-slate-400">{issue.fileName}</p>}
+                            <p className="text-xs dark:text-slate-300">{issue.details}</p>
+                            {issue.storedHash && (
+                                <p className="text-xs font-mono break-all text-slate-500 dark:text-slate-400">Stored: {issue.storedHash}</p>
+                            )}
+                            {issue.chainHash && (
+                                <p className="text-xs font-mono break-all text-slate-500 dark:text-slate-400">On chain: {issue.chainHash}</p>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            </Dialog>
+        </Card>
+    );
+}
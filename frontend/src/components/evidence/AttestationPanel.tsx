@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Users, ShieldCheck } from 'lucide-react';
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+import { useToast } from '../ui/Toast';
+import { useAuth } from '../../hooks/useAuth';
+import { useLiveEvent } from '../../hooks/useLiveEvent';
+import { api } from '../../utils/api';
+import type { Attestation, AttestationConsensus, ConsensusStatus, VerifierNode } from '../../types';
+
+interface AttestationPanelProps {
+    evidenceId: string;
+    // A digest computed on this device; without one the panel only lists attestations
+    submittedHash?: string | null;
+}
+
+const CONSENSUS_BADGES: Record<ConsensusStatus, 'success' | 'danger' | 'warning' | 'secondary'> = {
+    NONE: 'secondary',
+    PENDING: 'secondary',
+    CONFIRMED: 'success',
+    REJECTED: 'danger',
+    DISPUTED: 'warning'
+};
+
+function shortAddress(address: string) {
+    return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/**
+ * Verdicts signed by independent verifier nodes for one item
+ */
+export function AttestationPanel({ evidenceId, submittedHash }: AttestationPanelProps) {
+    const { can } = useAuth();
+    const { addToast } = useToast();
+    const [attestations, setAttestations] = useState<Attestation[]>([]);
+    const [verifiers, setVerifiers] = useState<VerifierNode[]>([]);
+    const [consensus, setConsensus] = useState<AttestationConsensus | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [attesting, setAttesting] = useState(false);
+    // Outbox entries of attestations not yet mined
+    const [queued, setQueued] = useState<string[]>([]);
+
+    const fetchAttestations = useCallback(async () => {
+        try {
+            const data = await api.getAttestations(evidenceId);
+            setAttestations(data.attestations);
+            setVerifiers(data.verifiers);
+            setConsensus(data.consensus);
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to fetch attestations');
+        } finally {
+            setLoading(false);
+        }
+    }, [evidenceId]);
+
+    useEffect(() => {
+        setLoading(true);
+        fetchAttestations();
+    }, [fetchAttestations]);
+
+    useLiveEvent(['outbox.updated'], (event) => {
+        if (event.type === 'outbox.updated' && event.data.entry.settled && queued.includes(event.data.entry.id)) {
+            setQueued(current => current.filter(id => id !== event.data.entry.id));
+            fetchAttestations();
+        }
+    });
+
+    const handleAttest = async () => {
+        if (!submittedHash) return;
+        setAttesting(true);
+        try {
+            const result = await api.attestEvidence(evidenceId, submittedHash);
+            const rejected = result.verdicts.filter(v => !v.verified).length;
+            addToast(
+                rejected
+                    ? `${rejected} of ${result.verdicts.length} verifier node(s) found the stored copy does not match`
+                    : `${result.verdicts.length} verifier node(s) confirmed the hash`,
+                rejected ? 'error' : 'success'
+            );
+            if (result.skipped.length) {
+                addToast(`${result.skipped.map(s => s.verifierName).join(', ')} skipped: ${result.skipped[0].reason}`, 'info');
+            }
+            const failed = result.outbox.filter(entry => entry.status === 'FAILED');
+            if (failed.length) {
+                addToast(`${failed.length} attestation(s) could not be recorded: ${failed[0].lastError}`, 'error');
+            }
+            if (result.pending) {
+                setQueued(result.outbox.filter(entry => !entry.settled).map(entry => entry.id));
+                addToast('Attestations queued; they will show once their transactions are mined.', 'info');
+            }
+            await fetchAttestations();
+        } catch (err) {
+            addToast(err instanceof Error ? err.message : 'Attestation failed', 'error');
+        } finally {
+            setAttesting(false);
+        }
+    };
+
+    const awaiting = verifiers.filter(v => v.registered && !v.attested);
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <span className="text-slate-500 text-xs uppercase tracking-wider dark:text-slate-400 flex items-center gap-2">
+                    <Users className="w-3 h-3" /> Verifier Attestations
+                </span>
+                {consensus && consensus.status !== 'NONE' && (
+                    <Badge variant={CONSENSUS_BADGES[consensus.status]} title={`Quorum: ${consensus.threshold} agreeing attestations`}>
+                        {consensus.label}
+                    </Badge>
+                )}
+            </div>
+
+            {loading ? (
+                <p className="text-xs text-slate-400 dark:text-slate-500">Loading attestations...</p>
+            ) : error ? (
+                <p className="text-xs text-slate-400 dark:text-slate-500">{error}</p>
+            ) : (
+                <>
+                    {attestations.length === 0 ? (
+                        <p className="text-xs text-slate-400 dark:text-slate-500">No verifier node has attested this item yet.</p>
+                    ) : (
+                        <div className="space-y-2">
+                            {attestations.map(attestation => (
+                                <div key={attestation.verifier} className="flex items-center justify-between gap-3 p-2 rounded border border-slate-100 dark:border-slate-800 text-xs">
+                                    <div className="min-w-0">
+                                        <p className="font-medium dark:text-white">{attestation.verifierName || 'External verifier'}</p>
+                                        <p className="font-mono text-slate-400 dark:text-slate-500" title={attestation.verifier}>{shortAddress(attestation.verifier)}</p>
+                                    </div>
+                                    <div className="text-right space-y-1 shrink-0">
+                                        <Badge variant={attestation.verified ? 'success' : 'danger'}>
+                                            {attestation.verified ? 'VERIFIED' : 'REJECTED'}
+                                        </Badge>
+                                        <p className="text-slate-400 dark:text-slate-500">{new Date(attestation.attestedAt).toLocaleString()}</p>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {submittedHash && can('evidence:verify') && awaiting.length > 0 && (
+                        <Button size="sm" variant="outline" onClick={handleAttest} isLoading={attesting || queued.length > 0}>
+                            {!attesting && queued.length === 0 && <ShieldCheck className="w-4 h-4 mr-2" />}
+                            Request attestation from {awaiting.length} node(s)
+                        </Button>
+                    )}
+                    {verifiers.length === 0 && (
+                        <p className="text-xs text-slate-400 dark:text-slate-500">No verifier node keys are configured on this server.</p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,304 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Badge } from '../ui/Badge';
+import { useToast } from '../ui/Toast';
+import { AlertTriangle, CheckCircle, Loader2, RotateCw, X } from 'lucide-react';
+import { api } from '../../utils/api';
+import { hashFile } from '../../utils/hashFile';
+import { forgetUpload, sendInChunks } from '../../utils/chunkedUpload';
+import { useLiveEvent } from '../../hooks/useLiveEvent';
+import type { BatchRegistration, CaseSummary, OutboxEntry } from '../../types';
+
+type ItemStatus = 'waiting' | 'hashing' | 'sending' | 'sent' | 'failed';
+
+interface BatchItemState {
+    file: File;
+    hash: string | null;
+    uploadId: string | null;
+    status: ItemStatus;
+    progress: number;
+}
+
+const STATUS_BADGES: Record<ItemStatus, { label: string; variant: 'secondary' | 'warning' | 'success' | 'danger' }> = {
+    waiting: { label: 'Waiting', variant: 'secondary' },
+    hashing: { label: 'Hashing', variant: 'warning' },
+    sending: { label: 'Sending', variant: 'warning' },
+    sent: { label: 'Sent', variant: 'success' },
+    failed: { label: 'Failed', variant: 'danger' },
+};
+
+interface BatchUploadProps {
+    files: File[];
+    openCases: CaseSummary[];
+    onCancel: () => void;
+}
+
+/**
+ * Hash and send many files, then anchor them all on chain with one Merkle root.
+ * Files already sent are skipped when the batch is resumed after a failure.
+ */
+export function BatchUpload({ files, openCases, onCancel }: BatchUploadProps) {
+    const [items, setItems] = useState<BatchItemState[]>(() =>
+        files.map(file => ({ file, hash: null, uploadId: null, status: 'waiting', progress: 0 })));
+    const [caseId, setCaseId] = useState('');
+    const [evidenceType, setEvidenceType] = useState('');
+    const [collectedBy, setCollectedBy] = useState('');
+    const [running, setRunning] = useState(false);
+    const [result, setResult] = useState<BatchRegistration | null>(null);
+    // The queued registration while the server waits for it to be mined
+    const [anchoring, setAnchoring] = useState<OutboxEntry | null>(null);
+    const { addToast } = useToast();
+
+    // Keep whichever copy of the entry is newest; the fetch and the live event can arrive in either order
+    const trackAnchoring = (entry: OutboxEntry) => {
+        setAnchoring(current => !current || current.id !== entry.id || entry.updatedAt >= current.updatedAt ? entry : current);
+    };
+
+    useLiveEvent(['outbox.updated'], (event) => {
+        if (event.type === 'outbox.updated' && event.data.entry.id === anchoring?.id) {
+            trackAnchoring(event.data.entry);
+        }
+    });
+
+    const matchedCase = openCases.find(c => c.caseNumber === caseId.trim());
+    const caseError = caseId.trim() && !matchedCase
+        ? `No open case ${caseId.trim()}; open it on the Cases page first`
+        : undefined;
+
+    const totalBytes = items.reduce((sum, item) => sum + item.file.size, 0);
+    const doneBytes = items.reduce((sum, item) => sum + (item.status === 'sent' ? item.file.size : item.file.size * item.progress / 100), 0);
+    const percent = totalBytes ? Math.floor((doneBytes / totalBytes) * 100) : 0;
+    const sentCount = items.filter(item => item.status === 'sent').length;
+    const resumable = !running && items.some(item => item.status === 'failed');
+
+    const updateItem = (index: number, changes: Partial<BatchItemState>) => {
+        setItems(current => current.map((item, i) => i === index ? { ...item, ...changes } : item));
+    };
+
+    const handleRegister = async () => {
+        if (!caseId.trim() || caseError) {
+            addToast(caseError || 'Case ID is required', 'error');
+            return;
+        }
+
+        setRunning(true);
+        const fields = {
+            caseId: caseId.trim(),
+            evidenceType,
+            source: 'Web Portal (batch)',
+            collectedBy: collectedBy || 'Unknown Collector'
+        };
+        // Work from a local copy; state updates only drive the display
+        const work = items.map(item => ({ ...item }));
+
+        try {
+            for (const [index, item] of work.entries()) {
+                if (item.uploadId) continue;
+                try {
+                    if (!item.hash) {
+                        updateItem(index, { status: 'hashing', progress: 0 });
+                        item.hash = await hashFile(item.file);
+                        updateItem(index, { hash: item.hash });
+                    }
+                    updateItem(index, { status: 'sending' });
+                    const hash = item.hash;
+                    item.uploadId = await sendInChunks(item.file, hash, fields, ({ sent, total }) =>
+                        updateItem(index, { progress: total ? Math.floor((sent / total) * 100) : 100 }));
+                    updateItem(index, { uploadId: item.uploadId, status: 'sent', progress: 100 });
+                } catch (error) {
+                    updateItem(index, { status: 'failed' });
+                    throw error;
+                }
+            }
+
+            const registration = await api.registerBatch({
+                caseId: fields.caseId,
+                uploadIds: work.map(item => item.uploadId as string),
+                evidenceType: evidenceType || undefined,
+                collectedBy: fields.collectedBy
+            });
+            work.forEach(item => item.hash && forgetUpload(item.file, item.hash));
+            setResult(registration);
+            // Catch up on anything that happened before this component started listening
+            setAnchoring(registration.outbox);
+            api.getOutboxEntry(registration.outbox.id)
+                .then(trackAnchoring)
+                .catch(error => console.error('Failed to fetch anchoring status:', error));
+            addToast(`${registration.items.length} files received; anchoring to blockchain`, 'info');
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : 'Batch upload failed', 'error');
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    if (result) {
+        const anchorFailed = anchoring?.status === 'FAILED';
+        const batchId = anchoring?.status === 'CONFIRMED' ? anchoring.result?.batchId : undefined;
+        return (
+            <Card className="border-emerald-200 dark:border-emerald-800 bg-emerald-50 dark:bg-emerald-950/30 animate-in zoom-in-95">
+                <CardContent className="pt-8 space-y-6">
+                    <div className="text-center">
+                        <div className="mx-auto w-16 h-16 bg-emerald-100 rounded-full flex items-center justify-center shadow-sm">
+                            {anchorFailed ? (
+                                <AlertTriangle className="w-8 h-8 text-red-600" />
+                            ) : batchId ? (
+                                <CheckCircle className="w-8 h-8 text-emerald-600" />
+                            ) : (
+                                <Loader2 className="w-8 h-8 text-emerald-600 animate-spin" />
+                            )}
+                        </div>
+                        {anchorFailed ? (
+                            <>
+                                <h3 className="text-2xl font-bold text-red-700 dark:text-red-300 mt-4">Anchoring Failed</h3>
+                                <p className="text-red-600 dark:text-red-400 mt-2">{anchoring?.lastError}</p>
+                                <p className="text-emerald-700 dark:text-emerald-300 mt-2 text-sm">The files are stored; an administrator can retry the registration from the transaction outbox.</p>
+                            </>
+                        ) : batchId ? (
+                            <>
+                                <h3 className="text-2xl font-bold text-emerald-900 dark:text-emerald-100 mt-4">Batch #{batchId} Anchored</h3>
+                                <p className="text-emerald-700 dark:text-emerald-300 mt-2">
+                                    {result.batch.itemCount} files registered in one transaction ({Number(anchoring?.result?.gasUsed).toLocaleString()} gas).
+                                </p>
+                            </>
+                        ) : (
+                            <>
+                                <h3 className="text-2xl font-bold text-emerald-900 dark:text-emerald-100 mt-4">Batch Received</h3>
+                                <p className="text-emerald-700 dark:text-emerald-300 mt-2">Waiting for the registration to be mined; you can leave this page and it will carry on.</p>
+                                <div className="flex justify-center gap-2 mt-3">
+                                    <Badge variant="warning">{anchoring?.status}</Badge>
+                                    {!!anchoring?.attempts && <Badge variant="secondary">{anchoring.attempts} failed attempt{anchoring.attempts === 1 ? '' : 's'}</Badge>}
+                                    {!!anchoring?.gasBumps && <Badge variant="secondary">Fee raised {anchoring.gasBumps}×</Badge>}
+                                </div>
+                            </>
+                        )}
+                    </div>
+                    <div className="bg-white/60 dark:bg-slate-800/60 p-4 rounded-lg text-xs font-mono space-y-2 border border-emerald-100 dark:border-emerald-800">
+                        <div className="flex justify-between gap-4">
+                            <span className="text-slate-500 dark:text-slate-400 shrink-0">Merkle Root:</span>
+                            <span className="text-slate-900 dark:text-white break-all text-right">{result.batch.merkleRoot}</span>
+                        </div>
+                        <div className="flex justify-between gap-4">
+                            <span className="text-slate-500 dark:text-slate-400 shrink-0">TxID:</span>
+                            <span className="text-slate-900 dark:text-white break-all text-right">{anchoring?.txHash || 'Not sent yet'}</span>
+                        </div>
+                    </div>
+                    <div className="max-h-64 overflow-y-auto rounded-lg border border-emerald-100 dark:border-emerald-800 bg-white/60 dark:bg-slate-800/60 divide-y divide-emerald-100 dark:divide-emerald-900 text-sm">
+                        {result.items.map(item => (
+                            <div key={item.batchIndex} className="flex justify-between gap-4 px-4 py-2">
+                                {/* Same scheme as the server's batch item IDs: B<batch>-<position from 1> */}
+                                <span className="font-mono font-bold text-slate-900 dark:text-white">{batchId ? `B${batchId}-${item.batchIndex + 1}` : 'Pending'}</span>
+                                <span className="text-slate-600 dark:text-slate-300 truncate">{item.fileName}</span>
+                                <span className="text-xs text-slate-500 dark:text-slate-400 shrink-0">{item.proof.length}-step proof</span>
+                            </div>
+                        ))}
+                    </div>
+                    <p className="text-xs text-center text-emerald-700 dark:text-emerald-300">
+                        Each file keeps its own Merkle proof, so it can be checked on the Verification page without the rest of the batch.
+                    </p>
+                    <div className="text-center">
+                        <Button variant="outline" onClick={onCancel} className="bg-white dark:bg-slate-800">Upload More Evidence</Button>
+                    </div>
+                </CardContent>
+            </Card>
+        );
+    }
+
+    return (
+        <Card className="animate-in fade-in slide-in-from-bottom-4 duration-300 dark:bg-slate-900 dark:border-slate-800">
+            <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle className="dark:text-white">Batch Registration · {files.length} files</CardTitle>
+                <Button variant="ghost" size="sm" onClick={onCancel} disabled={running}><X className="w-4 h-4 mr-2" /> Cancel</Button>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <div className="max-h-64 overflow-y-auto rounded-md border border-slate-200 dark:border-slate-700 divide-y divide-slate-100 dark:divide-slate-800">
+                    {items.map((item, index) => (
+                        <div key={index} className="flex items-center gap-3 px-3 py-2 text-sm">
+                            <span className="flex-1 truncate text-slate-900 dark:text-white">{item.file.name}</span>
+                            <span className="text-xs text-slate-500 dark:text-slate-400 shrink-0">{(item.file.size / 1024 / 1024).toFixed(2)} MB</span>
+                            {item.status === 'sending' && <span className="text-xs text-slate-500 w-10 text-right">{item.progress}%</span>}
+                            <Badge variant={STATUS_BADGES[item.status].variant}>{STATUS_BADGES[item.status].label}</Badge>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium dark:text-slate-200">Case ID</label>
+                        <Input
+                            placeholder="Enter Case ID (e.g. CR-2024-XXXX)"
+                            className="dark:bg-slate-800 dark:border-slate-700 dark:text-white"
+                            value={caseId}
+                            onChange={e => setCaseId(e.target.value)}
+                            list="batch-open-cases"
+                            error={caseError}
+                            disabled={running || sentCount > 0}
+                        />
+                        <datalist id="batch-open-cases">
+                            {openCases.map(c => <option key={c.caseNumber} value={c.caseNumber}>{c.title}</option>)}
+                        </datalist>
+                    </div>
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium dark:text-slate-200">Evidence Type</label>
+                        <Input
+                            placeholder="Applies to every file, e.g. Image"
+                            className="dark:bg-slate-800 dark:border-slate-700 dark:text-white"
+                            value={evidenceType}
+                            onChange={e => setEvidenceType(e.target.value)}
+                            disabled={running}
+                        />
+                    </div>
+                </div>
+                <div className="space-y-2">
+                    <label className="text-sm font-medium dark:text-slate-200">Collector Identity</label>
+                    <Input
+                        placeholder="Enter collector name or badge ID"
+                        className="dark:bg-slate-800 dark:border-slate-700 dark:text-white"
+                        value={collectedBy}
+                        onChange={e => setCollectedBy(e.target.value)}
+                        disabled={running}
+                    />
+                </div>
+
+                {(running || sentCount > 0) && (
+                    <div className="space-y-1">
+                        <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400">
+                            <span>
+                                {sentCount < items.length
+                                    ? `${sentCount} of ${items.length} files sent`
+                                    : 'All files received; anchoring the Merkle root on the blockchain...'}
+                            </span>
+                            <span>{percent}%</span>
+                        </div>
+                        <div className="h-2 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+                            <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+                        </div>
+                    </div>
+                )}
+
+                <div className="bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800 rounded-md p-4 text-sm text-amber-800 dark:text-amber-200">
+                    <strong>Immutable Action:</strong> Every file is hashed on this device, then one Merkle root covering all of them is recorded on the blockchain in a single transaction.
+                </div>
+                <div className="flex justify-end">
+                    <Button onClick={handleRegister} disabled={running || !!caseError || !caseId.trim()}>
+                        {running ? (
+                            <>
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                Uploading & Anchoring...
+                            </>
+                        ) : resumable ? (
+                            <>
+                                <RotateCw className="mr-2 h-4 w-4" />
+                                Resume Batch
+                            </>
+                        ) : (
+                            `Register ${files.length} Files`
+                        )}
+                    </Button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,31 @@
+import type { FileHashState } from '../../hooks/useFileHash';
+
+/**
+ * Progress of a local SHA-256 computation, then the resulting digest
+ */
+export function HashProgress({ hash, hashing, progress, error }: FileHashState) {
+    if (error) {
+        return <p className="text-xs text-red-600 dark:text-red-400">Could not hash file: {error}</p>;
+    }
+
+    if (hashing) {
+        return (
+            <div className="space-y-1">
+                <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400">
+                    <span>Computing SHA-256 on this device...</span>
+                    <span>{progress}%</span>
+                </div>
+                <div className="h-1.5 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress}%` }} />
+                </div>
+            </div>
+        );
+    }
+
+    if (!hash) return null;
+    return (
+        <p className="text-xs font-mono text-slate-500 dark:text-slate-400 break-all" title={hash}>
+            SHA-256 {hash}
+        </p>
+    );
+}
@@ -0,0 +1,34 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import type { Permission } from '../../types';
+
+interface RequireAuthProps {
+    children: React.ReactNode;
+    permission?: Permission;
+}
+
+export function RequireAuth({ children, permission }: RequireAuthProps) {
+    const { user, loading, can } = useAuth();
+    const location = useLocation();
+
+    if (loading) {
+        return (
+            <div className="min-h-screen flex flex-col items-center justify-center bg-slate-50 dark:bg-black">
+                <Loader2 className="w-8 h-8 text-blue-500 animate-spin mb-4" />
+                <p className="text-slate-500">Restoring secure session...</p>
+            </div>
+        );
+    }
+
+    if (!user) {
+        return <Navigate to="/login" replace state={{ from: location }} />;
+    }
+
+    if (permission && !can(permission)) {
+        return <Navigate to="/" replace />;
+    }
+
+    return <>{children}</>;
+}
@@ -1,26 +1,34 @@
-import { NavLink } from 'react-router-dom';
+import { NavLink, useNavigate } from 'react-router-dom';
 import {
     LayoutDashboard,
     FileText,
+    Briefcase,
     Upload,
     GitCommit,
     ShieldCheck,
     AlertTriangle,
     History,
+    ScrollText,
     Moon,
-    Sun
+    Sun,
+    LogOut
 } from 'lucide-react';
 import { cn } from '../../utils/cn';
 import { useTheme } from '../../context/ThemeContext';
+import { useAuth } from '../../hooks/useAuth';
+import { useLiveEvents } from '../../hooks/useLiveEvents';
+import type { Permission } from '../../types';
 
-const navigation = [
-    { name: 'Dashboard', href: '/', icon: LayoutDashboard },
-    { name: 'Evidence Vault', href: '/vault', icon: FileText },
-    { name: 'Upload Evidence', href: '/upload', icon: Upload },
-    { name: 'Chain of Custody', href: '/custody', icon: GitCommit },
-    { name: 'Verification', href: '/verification', icon: ShieldCheck },
-    { name: 'Alerts & Flags', href: '/alerts', icon: AlertTriangle },
-    { name: 'Audit Log', href: '/audit', icon: History },
+const navigation: { name: string; href: string; icon: typeof LayoutDashboard; permission: Permission }[] = [
+    { name: 'Dashboard', href: '/', icon: LayoutDashboard, permission: 'analytics:read' },
+    { name: 'Cases', href: '/cases', icon: Briefcase, permission: 'cases:read' },
+    { name: 'Evidence Vault', href: '/vault', icon: FileText, permission: 'evidence:read' },
+    { name: 'Upload Evidence', href: '/upload', icon: Upload, permission: 'evidence:upload' },
+    { name: 'Chain of Custody', href: '/custody', icon: GitCommit, permission: 'custody:read' },
+    { name: 'Verification', href: '/verification', icon: ShieldCheck, permission: 'evidence:verify' },
+    { name: 'Alerts & Flags', href: '/alerts', icon: AlertTriangle, permission: 'alerts:read' },
+    { name: 'Audit Log', href: '/audit', icon: History, permission: 'audit:read' },
+    { name: 'Custody Policies', href: '/policies', icon: ScrollText, permission: 'policies:manage' },
 ];
 
 interface SidebarProps {
@@ -30,6 +38,14 @@ interface SidebarProps {
 
 export function Sidebar({ isOpen, onClose }: SidebarProps) {
     const { theme, toggleTheme } = useTheme();
+    const { user, logout, can } = useAuth();
+    const { unreadAlerts, connected } = useLiveEvents();
+    const navigate = useNavigate();
+
+    const handleLogout = async () => {
+        await logout();
+        navigate('/login');
+    };
 
     return (
         <>
@@ -67,7 +83,7 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
                 </div>
 
                 <nav className="flex-1 px-4 py-6 space-y-1 overflow-y-auto">
-                    {navigation.map((item) => (
+                    {navigation.filter(item => can(item.permission)).map((item) => (
                         <NavLink
                             key={item.name}
                             to={item.href}
@@ -86,6 +102,11 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
                                         isActive ? "text-brand-blue dark:text-white" : "text-slate-400 group-hover:text-slate-600 dark:text-slate-500 dark:group-hover:text-slate-300"
                                     )} />
                                     {item.name}
+                                    {item.href === '/alerts' && unreadAlerts > 0 && (
+                                        <span className="ml-auto min-w-[20px] h-5 px-1.5 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">
+                                            {unreadAlerts > 99 ? '99+' : unreadAlerts}
+                                        </span>
+                                    )}
                                 </>
                             )}
                         </NavLink>
@@ -108,6 +129,29 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
                         </div>
                     </button>
 
+                    {user && (
+                        <div className="flex items-center justify-between px-4 py-2.5 rounded-xl bg-white dark:bg-white/5 border border-slate-200/50 dark:border-white/5">
+                            <div className="min-w-0">
+                                <p className="text-xs font-medium text-slate-900 dark:text-white truncate flex items-center gap-1.5">
+                                    <span
+                                        title={connected ? 'Live updates connected' : 'Live updates offline'}
+                                        className={cn("w-1.5 h-1.5 rounded-full shrink-0", connected ? "bg-emerald-500" : "bg-slate-300 dark:bg-slate-600")}
+                                    />
+                                    {user.name}
+                                </p>
+                                <p className="text-[10px] text-slate-400 dark:text-slate-500 uppercase tracking-widest">
+                                    {user.role} · {user.badgeNumber}
+                                </p>
+                            </div>
+                            <button
+                                onClick={handleLogout}
+                                title="Sign out"
+                                className="p-1.5 rounded-lg text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-white/10 transition-colors"
+                            >
+                                <LogOut className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+                    )}
                 </div>
             </div>
         </>
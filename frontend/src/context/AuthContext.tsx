@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from 'react';
+import type { Permission, User } from '../types';
+import { api, getAuthToken, UNAUTHORIZED_EVENT } from '../utils/api';
+import { AuthContext } from './auth';
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+    const [user, setUser] = useState<User | null>(null);
+    const [loading, setLoading] = useState(() => !!getAuthToken());
+
+    useEffect(() => {
+        // Restore the session from a stored token
+        if (getAuthToken()) {
+            api.getCurrentUser()
+                .then(data => setUser(data.user))
+                .catch(() => setUser(null))
+                .finally(() => setLoading(false));
+        }
+
+        // Any 401 from the API ends the session
+        const handleUnauthorized = () => setUser(null);
+        window.addEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+        return () => window.removeEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+    }, []);
+
+    const login = async (badgeId: string, password: string) => {
+        const data = await api.login(badgeId, password);
+        setUser(data.user);
+        return data.user;
+    };
+
+    const logout = async () => {
+        await api.logout();
+        setUser(null);
+    };
+
+    // Mirrors the server-side permission matrix; the backend still enforces every route
+    const can = (permission: Permission) => !!user?.permissions?.includes(permission);
+
+    return (
+        <AuthContext.Provider value={{ user, loading, login, logout, can }}>
+            {children}
+        </AuthContext.Provider>
+    );
+}
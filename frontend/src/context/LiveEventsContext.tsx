@@ -0,0 +1,79 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { LiveEvent, LiveEventType } from '../types';
+import { api, getLiveEventsUrl } from '../utils/api';
+import { useAuth } from '../hooks/useAuth';
+import { LiveEventsContext, type LiveEventHandler } from './liveEvents';
+import { useToast } from '../components/ui/Toast';
+
+const EVENT_TYPES: LiveEventType[] = ['alert.created', 'alert.updated', 'custody.logged', 'custody.violation', 'evidence.registered', 'outbox.updated', 'reconciliation.completed'];
+
+// Per-user "alerts last seen" marker so the unread badge survives reloads
+const seenKey = (badgeNumber: string) => `sentinel-alerts-seen-${badgeNumber}`;
+
+export function LiveEventsProvider({ children }: { children: React.ReactNode }) {
+    const { user, can } = useAuth();
+    const { addToast } = useToast();
+    const [connected, setConnected] = useState(false);
+    const [unreadAlerts, setUnreadAlerts] = useState(0);
+    const listeners = useRef(new Set<{ types: LiveEventType[]; handler: LiveEventHandler }>());
+
+    const canReadAlerts = can('alerts:read');
+
+    // Count active alerts raised since this user last opened the Alerts page
+    useEffect(() => {
+        if (!user || !canReadAlerts) return;
+        const lastSeen = Number(localStorage.getItem(seenKey(user.badgeNumber)) || 0);
+        api.getAllAlerts({ status: 'OPEN,ACKNOWLEDGED,UNDER_INVESTIGATION' })
+            .then(data => setUnreadAlerts(data.alerts.filter((a: { timestamp: number }) => a.timestamp > lastSeen).length))
+            .catch(error => console.error('Failed to count unread alerts:', error));
+    }, [user, canReadAlerts]);
+
+    useEffect(() => {
+        if (!user) return;
+
+        const source = new EventSource(getLiveEventsUrl());
+        source.onopen = () => setConnected(true);
+        source.onerror = () => setConnected(false);
+
+        EVENT_TYPES.forEach(type => {
+            source.addEventListener(type, (message) => {
+                const event = { type, data: JSON.parse((message as MessageEvent).data) } as LiveEvent;
+
+                if (event.type === 'alert.created') {
+                    setUnreadAlerts(count => count + 1);
+                    addToast(`New integrity alert on Evidence #${event.data.alert.evidenceId}`, 'error');
+                } else if (event.type === 'custody.violation') {
+                    addToast(`Policy violation on Evidence #${event.data.evidenceId}: ${event.data.violation}`, 'error');
+                }
+
+                listeners.current.forEach(listener => {
+                    if (listener.types.includes(type)) listener.handler(event);
+                });
+            });
+        });
+
+        return () => {
+            source.close();
+            setConnected(false);
+        };
+    }, [user, addToast]);
+
+    const subscribe = useCallback((types: LiveEventType[], handler: LiveEventHandler) => {
+        const listener = { types, handler };
+        listeners.current.add(listener);
+        return () => {
+            listeners.current.delete(listener);
+        };
+    }, []);
+
+    const markAlertsRead = useCallback(() => {
+        if (user) localStorage.setItem(seenKey(user.badgeNumber), String(Date.now()));
+        setUnreadAlerts(0);
+    }, [user]);
+
+    return (
+        <LiveEventsContext.Provider value={{ connected, unreadAlerts: user && canReadAlerts ? unreadAlerts : 0, markAlertsRead, subscribe }}>
+            {children}
+        </LiveEventsContext.Provider>
+    );
+}
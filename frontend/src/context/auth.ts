@@ -0,0 +1,12 @@
+import { createContext } from 'react';
+import type { Permission, User } from '../types';
+
+export interface AuthContextType {
+    user: User | null;
+    loading: boolean;
+    login: (badgeId: string, password: string) => Promise<User>;
+    logout: () => Promise<void>;
+    can: (permission: Permission) => boolean;
+}
+
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -0,0 +1,13 @@
+import { createContext } from 'react';
+import type { LiveEvent, LiveEventType } from '../types';
+
+export type LiveEventHandler = (event: LiveEvent) => void;
+
+export interface LiveEventsContextType {
+    connected: boolean;
+    unreadAlerts: number;
+    markAlertsRead: () => void;
+    subscribe: (types: LiveEventType[], handler: LiveEventHandler) => () => void;
+}
+
+export const LiveEventsContext = createContext<LiveEventsContextType | undefined>(undefined);
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { hashFile } from '../utils/hashFile';
+
+interface HashRun {
+    file: File;
+    loaded: number;
+    hash: string | null;
+    error: string | null;
+}
+
+export interface FileHashState {
+    hash: string | null;
+    hashing: boolean;
+    progress: number;
+    error: string | null;
+}
+
+/**
+ * SHA-256 of a file as React state (see hashFile). Re-runs whenever the file changes.
+ */
+export function useFileHash(file: File | null): FileHashState {
+    const [run, setRun] = useState<HashRun | null>(null);
+
+    useEffect(() => {
+        if (!file) return;
+
+        const controller = new AbortController();
+        hashFile(file, loaded => setRun({ file, loaded, hash: null, error: null }), controller.signal)
+            .then(hash => setRun({ file, loaded: file.size, hash, error: null }))
+            .catch((error: Error) => {
+                if (!controller.signal.aborted) setRun({ file, loaded: 0, hash: null, error: error.message });
+            });
+
+        return () => controller.abort();
+    }, [file]);
+
+    // Ignore results that belong to a previously selected file
+    const current = file && run?.file === file ? run : null;
+    const hash = current?.hash ?? null;
+    const error = current?.error ?? null;
+    return {
+        hash,
+        error,
+        hashing: !!file && !hash && !error,
+        progress: hash ? 100 : file && file.size ? Math.floor(((current?.loaded ?? 0) / file.size) * 100) : 0,
+    };
+}
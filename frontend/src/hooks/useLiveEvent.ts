@@ -0,0 +1,20 @@
+import { useEffect, useRef } from 'react';
+import type { LiveEvent, LiveEventType } from '../types';
+import { useLiveEvents } from './useLiveEvents';
+
+/**
+ * Run a handler for live events of the given types while the component is mounted
+ */
+export function useLiveEvent(types: LiveEventType[], handler: (event: LiveEvent) => void) {
+    const { subscribe } = useLiveEvents();
+    const handlerRef = useRef(handler);
+
+    useEffect(() => {
+        handlerRef.current = handler;
+    });
+
+    const key = types.join(',');
+    useEffect(() => {
+        return subscribe(key.split(',') as LiveEventType[], (event) => handlerRef.current(event));
+    }, [subscribe, key]);
+}
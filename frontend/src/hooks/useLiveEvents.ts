@@ -0,0 +1,8 @@
+import { useContext } from 'react';
+import { LiveEventsContext } from '../context/liveEvents';
+
+export const useLiveEvents = () => {
+    const context = useContext(LiveEventsContext);
+    if (!context) throw new Error('useLiveEvents must be used within LiveEventsProvider');
+    return context;
+};
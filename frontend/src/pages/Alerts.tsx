@@ -1,28 +1,92 @@
 import { useState, useEffect } from 'react';
 import { Card, CardContent } from '../components/ui/Card';
 import { Badge } from '../components/ui/Badge';
-import { AlertOctagon, Info, AlertTriangle, Loader2 } from 'lucide-react';
+import { Button } from '../components/ui/Button';
+import { Select } from '../components/ui/Select';
+import { Dialog } from '../components/ui/Dialog';
+import { AlertOctagon, Info, AlertTriangle, Loader2, History, UserCheck, MessageSquarePlus } from 'lucide-react';
 import { api } from '../utils/api';
+import { useAuth } from '../hooks/useAuth';
+import { useLiveEvents } from '../hooks/useLiveEvents';
+import { useLiveEvent } from '../hooks/useLiveEvent';
+import { useToast } from '../components/ui/Toast';
+import type { Alert, AlertStatus, User } from '../types';
+
+const STATUS_LABELS: Record<AlertStatus, string> = {
+    OPEN: 'Open',
+    ACKNOWLEDGED: 'Acknowledged',
+    UNDER_INVESTIGATION: 'Under Investigation',
+    RESOLVED: 'Resolved',
+    FALSE_POSITIVE: 'False Positive'
+};
+
+const STATUS_VARIANTS = {
+    OPEN: 'danger',
+    ACKNOWLEDGED: 'warning',
+    UNDER_INVESTIGATION: 'default',
+    RESOLVED: 'success',
+    FALSE_POSITIVE: 'secondary'
+} as const;
+
+// Mirrors the transitions enforced by tamperLedgerService
+const TRANSITIONS: Record<AlertStatus, AlertStatus[]> = {
+    OPEN: ['ACKNOWLEDGED', 'UNDER_INVESTIGATION', 'RESOLVED', 'FALSE_POSITIVE'],
+    ACKNOWLEDGED: ['UNDER_INVESTIGATION', 'RESOLVED', 'FALSE_POSITIVE'],
+    UNDER_INVESTIGATION: ['RESOLVED', 'FALSE_POSITIVE'],
+    RESOLVED: ['OPEN'],
+    FALSE_POSITIVE: ['OPEN']
+};
+
+const TRANSITION_LABELS: Record<AlertStatus, string> = {
+    OPEN: 'Reopen',
+    ACKNOWLEDGED: 'Acknowledge',
+    UNDER_INVESTIGATION: 'Start Investigation',
+    RESOLVED: 'Resolve',
+    FALSE_POSITIVE: 'False Positive'
+};
+
+const CLOSED: AlertStatus[] = ['RESOLVED', 'FALSE_POSITIVE'];
+
+const ACTIVE_FILTER = 'OPEN,ACKNOWLEDGED,UNDER_INVESTIGATION';
+
+type NoteDialog = { alert: Alert; status: AlertStatus | null } | null;
 
 export function Alerts() {
-    const [alerts, setAlerts] = useState<any[]>([]);
+    const { user, can } = useAuth();
+    const { addToast } = useToast();
+    const [alerts, setAlerts] = useState<Alert[]>([]);
     const [loading, setLoading] = useState(true);
+    const [statusFilter, setStatusFilter] = useState(ACTIVE_FILTER);
+    const [severityFilter, setSeverityFilter] = useState('');
+    const [mineOnly, setMineOnly] = useState(false);
+    const [users, setUsers] = useState<User[]>([]);
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const [noteDialog, setNoteDialog] = useState<NoteDialog>(null);
+    const [note, setNote] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [version, setVersion] = useState(0);
+    const { markAlertsRead } = useLiveEvents();
+
+    const isManager = can('alerts:manage');
+
+    // Anything raised while this page is open counts as seen
+    useEffect(() => {
+        markAlertsRead();
+    }, [markAlertsRead, version]);
+
+    useLiveEvent(['alert.created', 'alert.updated'], () => setVersion(v => v + 1));
 
     useEffect(() => {
+        // Filter changes and live refreshes swap the list in place; the spinner is for the first load only
         const fetchAlerts = async () => {
             try {
-                const data = await api.getAllAlerts();
+                const data = await api.getAllAlerts({
+                    status: statusFilter,
+                    severity: severityFilter,
+                    assignedTo: mineOnly ? user?.badgeNumber : undefined
+                });
                 if (data.success) {
-                    // Map backend alerts to UI format
-                    const mappedAlerts = data.alerts.map((a: any) => ({
-                        id: a.id,
-                        severity: a.riskScore >= 70 ? 'high' : a.riskScore >= 40 ? 'medium' : 'low',
-                        title: a.detectedBy === 'AI' ? 'AI Risk Warning' : 'Integrity Mismatch',
-                        desc: a.reason,
-                        time: new Date(a.timestamp).toLocaleTimeString(),
-                        evidenceId: a.evidenceId
-                    }));
-                    setAlerts(mappedAlerts);
+                    setAlerts(data.alerts);
                 }
             } catch (error) {
                 console.error('Failed to fetch alerts:', error);
@@ -32,60 +96,252 @@ export function Alerts() {
         };
 
         fetchAlerts();
-    }, []);
+    }, [statusFilter, severityFilter, mineOnly, user?.badgeNumber, version]);
 
-    if (loading) {
-        return (
-            <div className="flex flex-col items-center justify-center py-20">
-                <Loader2 className="w-8 h-8 text-blue-500 animate-spin mb-4" />
-                <p className="text-slate-500">Loading system alerts...</p>
-            </div>
-        );
-    }
+    const canListUsers = can('users:read');
+    useEffect(() => {
+        if (!isManager || !canListUsers) return;
+        api.getUsers()
+            .then(data => setUsers(data.users))
+            .catch(error => console.error('Failed to fetch users:', error));
+    }, [isManager, canListUsers]);
+
+    const canWork = (alert: Alert) => isManager || alert.assignedTo?.badgeNumber === user?.badgeNumber;
+
+    const replaceAlert = (updated: Alert) => {
+        setAlerts(prev => prev.map(a => (a.id === updated.id ? updated : a)));
+    };
+
+    const handleTransition = async (alert: Alert, status: AlertStatus) => {
+        // Closing an alert needs resolution notes
+        if (CLOSED.includes(status)) {
+            setNote('');
+            setNoteDialog({ alert, status });
+            return;
+        }
+        try {
+            const data = await api.updateAlertStatus(alert.id, status);
+            replaceAlert(data.alert);
+            addToast(`Alert marked ${STATUS_LABELS[status]}.`, 'success');
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : 'Failed to update alert', 'error');
+        }
+    };
+
+    const handleAssign = async (alert: Alert, badgeNumber: string) => {
+        try {
+            const data = await api.assignAlert(alert.id, badgeNumber || null);
+            replaceAlert(data.alert);
+            addToast(badgeNumber ? `Assigned to ${data.alert.assignedTo?.name}.` : 'Assignment cleared.', 'success');
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : 'Failed to assign alert', 'error');
+        }
+    };
+
+    const handleSubmitNote = async () => {
+        if (!noteDialog || !note.trim()) {
+            addToast('Please enter a note.', 'error');
+            return;
+        }
+        setSaving(true);
+        try {
+            const data = noteDialog.status
+                ? await api.updateAlertStatus(noteDialog.alert.id, noteDialog.status, note)
+                : await api.addAlertNote(noteDialog.alert.id, note);
+            replaceAlert(data.alert);
+            addToast(noteDialog.status ? `Alert marked ${STATUS_LABELS[noteDialog.status]}.` : 'Note added.', 'success');
+            setNoteDialog(null);
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : 'Failed to save note', 'error');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const describeHistory = (entry: Alert['history'][number]) => {
+        if (entry.type === 'STATUS_CHANGED') {
+            return `${STATUS_LABELS[entry.from as AlertStatus] || entry.from} → ${STATUS_LABELS[entry.to as AlertStatus] || entry.to}`;
+        }
+        if (entry.type === 'ASSIGNED') {
+            return entry.to ? `Assigned to badge ${entry.to}` : 'Assignment cleared';
+        }
+        return 'Note added';
+    };
 
     return (
         <div className="space-y-6">
-            <div>
-                <h2 className="text-3xl font-bold tracking-tight text-slate-900 dark:text-white">Alerts & Flags</h2>
-                <p className="text-slate-500 dark:text-slate-400 mt-2">Active system integrity warnings.</p>
+            <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+                <div>
+                    <h2 className="text-3xl font-bold tracking-tight text-slate-900 dark:text-white">Alerts & Flags</h2>
+                    <p className="text-slate-500 dark:text-slate-400 mt-2">Integrity warnings and who is handling them.</p>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+                    <Select
+                        className="sm:w-52"
+                        value={statusFilter}
+                        onChange={(e) => setStatusFilter(e.target.value)}
+                        options={[
+                            { label: 'Active alerts', value: ACTIVE_FILTER },
+                            { label: 'All states', value: '' },
+                            ...Object.entries(STATUS_LABELS).map(([value, label]) => ({ label, value }))
+                        ]}
+                    />
+                    <Select
+                        className="sm:w-40"
+                        value={severityFilter}
+                        onChange={(e) => setSeverityFilter(e.target.value)}
+                        options={[
+                            { label: 'All severities', value: '' },
+                            { label: 'Critical', value: 'CRITICAL' },
+                            { label: 'High', value: 'HIGH' },
+                            { label: 'Medium', value: 'MEDIUM' },
+                            { label: 'Low', value: 'LOW' }
+                        ]}
+                    />
+                    <Button variant={mineOnly ? 'default' : 'outline'} onClick={() => setMineOnly(!mineOnly)} className="gap-2">
+                        <UserCheck className="w-4 h-4" /> Assigned to me
+                    </Button>
+                </div>
             </div>
 
-            <div className="space-y-4">
-                {alerts.length > 0 ? (
-                    alerts.map((alert) => (
-                        <Card key={alert.id} className="border-l-4 border-l-transparent data-[severity=high]:border-l-red-500 data-[severity=medium]:border-l-amber-500 data-[severity=low]:border-l-blue-500 dark:bg-slate-900 dark:border-slate-800" data-severity={alert.severity}>
-                            <CardContent className="p-4 sm:p-6">
-                                <div className="flex flex-col sm:flex-row sm:items-start gap-3 sm:gap-4">
-                                    <div className="flex items-center gap-3 sm:block">
-                                        {alert.severity === 'high' && <AlertOctagon className="text-red-600 dark:text-red-400 w-5 h-5 sm:w-6 sm:h-6" />}
-                                        {alert.severity === 'medium' && <AlertTriangle className="text-amber-600 dark:text-amber-400 w-5 h-5 sm:w-6 sm:h-6" />}
-                                        {alert.severity === 'low' && <Info className="text-blue-600 dark:text-blue-400 w-5 h-5 sm:w-6 sm:h-6" />}
-                                        <h3 className="text-base sm:text-lg font-semibold text-slate-900 dark:text-white sm:hidden">{alert.title}</h3>
-                                    </div>
-                                    <div className="flex-1 min-w-0">
-                                        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-1">
-                                            <h3 className="hidden sm:block text-lg font-semibold text-slate-900 dark:text-white">{alert.title}</h3>
-                                            <span className="text-xs text-slate-400 dark:text-slate-500 font-mono">{alert.time}</span>
+            {loading ? (
+                <div className="flex flex-col items-center justify-center py-20">
+                    <Loader2 className="w-8 h-8 text-blue-500 animate-spin mb-4" />
+                    <p className="text-slate-500">Loading system alerts...</p>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {alerts.length > 0 ? (
+                        alerts.map((alert) => (
+                            <Card key={alert.id} className="border-l-4 border-l-transparent data-[severity=CRITICAL]:border-l-red-600 data-[severity=HIGH]:border-l-red-500 data-[severity=MEDIUM]:border-l-amber-500 data-[severity=LOW]:border-l-blue-500 dark:bg-slate-900 dark:border-slate-800" data-severity={alert.severity}>
+                                <CardContent className="p-4 sm:p-6">
+                                    <div className="flex flex-col sm:flex-row sm:items-start gap-3 sm:gap-4">
+                                        <div className="flex items-center gap-3 sm:block">
+                                            {(alert.severity === 'CRITICAL' || alert.severity === 'HIGH') && <AlertOctagon className="text-red-600 dark:text-red-400 w-5 h-5 sm:w-6 sm:h-6" />}
+                                            {alert.severity === 'MEDIUM' && <AlertTriangle className="text-amber-600 dark:text-amber-400 w-5 h-5 sm:w-6 sm:h-6" />}
+                                            {alert.severity === 'LOW' && <Info className="text-blue-600 dark:text-blue-400 w-5 h-5 sm:w-6 sm:h-6" />}
+                                            <h3 className="text-base sm:text-lg font-semibold text-slate-900 dark:text-white sm:hidden">
+                                                {alert.detectedBy === 'AI' ? 'AI Risk Warning' : 'Integrity Mismatch'}
+                                            </h3>
                                         </div>
-                                        <p className="text-sm sm:text-base text-slate-600 dark:text-slate-400 mt-1 break-words">{alert.desc}</p>
-                                        <div className="mt-3 flex flex-wrap gap-2">
-                                            <Badge variant="outline" className="font-mono text-xs dark:border-slate-700 dark:text-slate-300 truncate max-w-[150px] sm:max-w-none">{alert.evidenceId}</Badge>
-                                            <Badge variant={alert.severity === 'high' ? 'danger' : alert.severity === 'medium' ? 'warning' : 'secondary'}>
-                                                {alert.severity.toUpperCase()}
-                                            </Badge>
+                                        <div className="flex-1 min-w-0">
+                                            <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-1">
+                                                <h3 className="hidden sm:block text-lg font-semibold text-slate-900 dark:text-white">
+                                                    {alert.detectedBy === 'AI' ? 'AI Risk Warning' : 'Integrity Mismatch'}
+                                                </h3>
+                                                <span className="text-xs text-slate-400 dark:text-slate-500 font-mono">{new Date(alert.timestamp).toLocaleString()}</span>
+                                            </div>
+                                            <p className="text-sm sm:text-base text-slate-600 dark:text-slate-400 mt-1 break-words">{alert.reason}</p>
+                                            <div className="mt-3 flex flex-wrap gap-2">
+                                                <Badge variant="outline" className="font-mono text-xs dark:border-slate-700 dark:text-slate-300 truncate max-w-[150px] sm:max-w-none">{alert.evidenceId}</Badge>
+                                                <Badge variant={alert.severity === 'CRITICAL' || alert.severity === 'HIGH' ? 'danger' : alert.severity === 'MEDIUM' ? 'warning' : 'secondary'}>
+                                                    {alert.severity}
+                                                </Badge>
+                                                <Badge variant={STATUS_VARIANTS[alert.status]}>{STATUS_LABELS[alert.status]}</Badge>
+                                                <Badge variant="outline" className="dark:border-slate-700 dark:text-slate-300">
+                                                    {alert.assignedTo ? `Assigned: ${alert.assignedTo.name}` : 'Unassigned'}
+                                                </Badge>
+                                            </div>
+
+                                            {alert.resolutionNotes && (
+                                                <p className="mt-3 text-sm text-slate-600 dark:text-slate-300 bg-slate-50 dark:bg-slate-800/50 rounded-lg p-3">
+                                                    <span className="font-semibold">{STATUS_LABELS[alert.status]} by {alert.resolvedBy?.name}:</span> {alert.resolutionNotes}
+                                                </p>
+                                            )}
+
+                                            <div className="mt-4 flex flex-wrap items-center gap-2">
+                                                {canWork(alert) && TRANSITIONS[alert.status].map(status => (
+                                                    <Button
+                                                        key={status}
+                                                        size="sm"
+                                                        variant={status === 'RESOLVED' ? 'default' : 'outline'}
+                                                        onClick={() => handleTransition(alert, status)}
+                                                    >
+                                                        {TRANSITION_LABELS[status]}
+                                                    </Button>
+                                                ))}
+                                                {canWork(alert) && (
+                                                    <Button
+                                                        size="sm"
+                                                        variant="ghost"
+                                                        className="gap-1"
+                                                        onClick={() => { setNote(''); setNoteDialog({ alert, status: null }); }}
+                                                    >
+                                                        <MessageSquarePlus className="w-4 h-4" /> Note
+                                                    </Button>
+                                                )}
+                                                {isManager && (
+                                                    <Select
+                                                        className="w-48"
+                                                        value={alert.assignedTo?.badgeNumber || ''}
+                                                        onChange={(e) => handleAssign(alert, e.target.value)}
+                                                        options={[
+                                                            { label: 'Unassigned', value: '' },
+                                                            ...users.map(u => ({ label: `${u.name} (${u.role})`, value: u.badgeNumber }))
+                                                        ]}
+                                                        placeholder="Assign to..."
+                                                    />
+                                                )}
+                                                <Button
+                                                    size="sm"
+                                                    variant="ghost"
+                                                    className="gap-1 ml-auto"
+                                                    onClick={() => setExpanded(expanded === alert.id ? null : alert.id)}
+                                                >
+                                                    <History className="w-4 h-4" /> History ({alert.history.length})
+                                                </Button>
+                                            </div>
+
+                                            {expanded === alert.id && (
+                                                <ol className="mt-4 border-l-2 border-slate-200 dark:border-slate-700 pl-4 space-y-3">
+                                                    {alert.history.length > 0 ? [...alert.history].reverse().map((entry, idx) => (
+                                                        <li key={idx} className="text-sm">
+                                                            <div className="flex flex-wrap justify-between gap-2">
+                                                                <span className="font-medium text-slate-800 dark:text-slate-200">{describeHistory(entry)}</span>
+                                                                <span className="text-xs text-slate-400 font-mono">{new Date(entry.at).toLocaleString()}</span>
+                                                            </div>
+                                                            <p className="text-xs text-slate-500">by {entry.by.name} (Badge {entry.by.badgeNumber})</p>
+                                                            {entry.note && <p className="text-slate-600 dark:text-slate-400 mt-1">{entry.note}</p>}
+                                                        </li>
+                                                    )) : (
+                                                        <li className="text-sm text-slate-500">No changes since the alert was raised.</li>
+                                                    )}
+                                                </ol>
+                                            )}
                                         </div>
                                     </div>
-                                </div>
-                            </CardContent>
-                        </Card>
-                    ))
-                ) : (
-                    <div className="text-center py-12 border-2 border-dashed border-slate-200 dark:border-slate-800 rounded-lg">
-                        <Info className="w-12 h-12 text-slate-300 mx-auto mb-4" />
-                        <p className="text-slate-500">No active alerts. System integrity confirmed.</p>
+                                </CardContent>
+                            </Card>
+                        ))
+                    ) : (
+                        <div className="text-center py-12 border-2 border-dashed border-slate-200 dark:border-slate-800 rounded-lg">
+                            <Info className="w-12 h-12 text-slate-300 mx-auto mb-4" />
+                            <p className="text-slate-500">No alerts match these filters.</p>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <Dialog
+                isOpen={!!noteDialog}
+                onClose={() => setNoteDialog(null)}
+                title={noteDialog?.status ? `Mark as ${STATUS_LABELS[noteDialog.status]}` : 'Add Investigation Note'}
+                description={noteDialog?.status ? 'Resolution notes are kept in the alert history and cannot be edited.' : undefined}
+            >
+                <div className="space-y-4">
+                    <textarea
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        rows={5}
+                        placeholder={noteDialog?.status === 'FALSE_POSITIVE' ? 'Why is this not a real integrity issue?' : 'What was found and what was done?'}
+                        className="w-full rounded-2xl bg-slate-100 dark:bg-slate-800/50 px-4 py-3 text-sm dark:text-white placeholder:text-slate-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-brand-blue shadow-inner"
+                    />
+                    <div className="flex justify-end gap-2">
+                        <Button variant="ghost" onClick={() => setNoteDialog(null)}>Cancel</Button>
+                        <Button onClick={handleSubmitNote} isLoading={saving}>Save</Button>
                     </div>
-                )}
-            </div>
+                </div>
+            </Dialog>
         </div>
     );
 }
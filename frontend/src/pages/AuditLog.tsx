@@ -1,31 +1,201 @@
 import { useState, useEffect } from 'react';
-import { Card } from '../components/ui/Card';
+import { Card, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Badge } from '../components/ui/Badge';
+import { Input } from '../components/ui/Input';
+import { Select } from '../components/ui/Select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/Table';
-import { Loader2 } from 'lucide-react';
+import { Loader2, ShieldCheck, ShieldAlert, Search, FileDown, RotateCcw } from 'lucide-react';
 import { api } from '../utils/api';
+import { useToast } from '../components/ui/Toast';
+import type { AuditChainVerification, AuditLogEntry, AuditLogFilters } from '../types';
+
+const PAGE_SIZE = 50;
+
+const ACTION_OPTIONS = [
+    'AUTH_LOGIN',
+    'AUTH_LOGOUT',
+    'CASE_OPENED',
+    'CASE_UPDATED',
+    'EVIDENCE_UPLOAD_STARTED',
+    'EVIDENCE_UPLOADED',
+    'EVIDENCE_UPLOAD_CANCELLED',
+    'EVIDENCE_BATCH_REGISTERED',
+    'EVIDENCE_ANCHORED',
+    'EVIDENCE_BATCH_ANCHORED',
+    'EVIDENCE_DOWNLOADED',
+    'EVIDENCE_CHECKED',
+    'EVIDENCE_VERIFIED',
+    'EVIDENCE_ATTESTED',
+    'REPORT_GENERATED',
+    'REPORT_VERIFIED',
+    'PROOF_BUNDLE_EXPORTED',
+    'PROOF_BUNDLE_VERIFIED',
+    'CUSTODY_EVENT_LOGGED',
+    'CUSTODY_CHECKED_OUT',
+    'CUSTODY_CHECKED_IN',
+    'CHECKOUT_OVERDUE',
+    'CUSTODY_STATE_REBUILT',
+    'CHAIN_WRITE_FAILED',
+    'CHAIN_WRITE_RETRIED',
+    'RECONCILIATION_RUN',
+    'RECONCILIATION_ISSUES_FOUND',
+    'CHAIN_ROLE_GRANTED',
+    'CHAIN_ROLE_REVOKED',
+    'AI_RISK_ANALYZED',
+    'ALERT_STATUS_CHANGED',
+    'ALERT_ASSIGNED',
+    'ALERT_NOTE_ADDED',
+    'POLICY_CREATED',
+    'POLICY_UPDATED',
+    'POLICY_ARCHIVED',
+    'POLICY_ASSIGNED',
+    'POLICY_UNASSIGNED',
+    'AUDIT_LOG_EXPORTED'
+];
+
+const RESOURCE_OPTIONS = ['case', 'evidence', 'alert', 'policy', 'report', 'session', 'file', 'upload', 'batch', 'outbox', 'reconciliation', 'chain_role', 'audit_log'];
+
+const SEVERITY_VARIANTS = {
+    info: 'secondary',
+    warning: 'warning',
+    critical: 'danger'
+} as const;
+
+const EMPTY_FILTERS = { actor: '', action: '', resourceType: '', resourceId: '', severity: '', from: '', to: '' };
+
+// datetime-local inputs are in local time; the API expects ISO timestamps
+function toApiFilters(form: typeof EMPTY_FILTERS): AuditLogFilters {
+    return {
+        ...form,
+        from: form.from ? new Date(form.from).toISOString() : '',
+        to: form.to ? new Date(form.to).toISOString() : ''
+    };
+}
+
+function saveFile(content: string, filename: string, type: string) {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+// Short one-line summary of the structured details, without the request echo
+function summarizeDetails(details: Record<string, unknown>) {
+    return Object.entries(details || {})
+        .filter(([key]) => !['method', 'path', 'statusCode'].includes(key))
+        .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`)
+        .join(' · ');
+}
 
 export function AuditLog() {
-    const [logs, setLogs] = useState<any[]>([]);
+    const [logs, setLogs] = useState<AuditLogEntry[]>([]);
     const [loading, setLoading] = useState(true);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [nextCursor, setNextCursor] = useState<number | null>(null);
+    const [form, setForm] = useState(EMPTY_FILTERS);
+    const [appliedFilters, setAppliedFilters] = useState<AuditLogFilters>({});
+    const [exporting, setExporting] = useState<'csv' | 'json' | null>(null);
+    const [verifying, setVerifying] = useState(false);
+    const [verification, setVerification] = useState<AuditChainVerification | null>(null);
+    const { addToast } = useToast();
 
     useEffect(() => {
         const fetchLogs = async () => {
+            setLoading(true);
             try {
-                const data = await api.getAuditLogs();
+                const data = await api.getAuditLogs(appliedFilters, null, PAGE_SIZE);
                 if (data.success) {
                     setLogs(data.logs);
+                    setNextCursor(data.nextCursor);
                 }
             } catch (error) {
                 console.error('Failed to fetch audit logs:', error);
+                addToast(error instanceof Error ? error.message : 'Failed to fetch audit log', 'error');
             } finally {
                 setLoading(false);
             }
         };
 
         fetchLogs();
-    }, []);
+    }, [appliedFilters, addToast]);
+
+    const updateForm = (key: keyof typeof EMPTY_FILTERS, value: string) => {
+        setForm(prev => ({ ...prev, [key]: value }));
+    };
+
+    const handleApply = () => setAppliedFilters(toApiFilters(form));
+
+    const handleReset = () => {
+        setForm(EMPTY_FILTERS);
+        setAppliedFilters({});
+    };
+
+    const handleLoadMore = async () => {
+        if (!nextCursor) return;
+        setLoadingMore(true);
+        try {
+            const data = await api.getAuditLogs(appliedFilters, nextCursor, PAGE_SIZE);
+            setLogs(prev => [...prev, ...data.logs]);
+            setNextCursor(data.nextCursor);
+        } catch (error) {
+            console.error('Failed to fetch audit logs:', error);
+            addToast('Failed to load more entries.', 'error');
+        } finally {
+            setLoadingMore(false);
+        }
+    };
 
-    if (loading) {
+    const handleExport = async (format: 'csv' | 'json') => {
+        setExporting(format);
+        try {
+            const data = await api.exportAuditLog(format, appliedFilters);
+            if (format === 'csv') {
+                // CSV cannot carry its own signature, so it ships with a detached .sig.json
+                saveFile(data.csv, data.filename, 'text/csv');
+                saveFile(
+                    JSON.stringify({ file: data.filename, manifest: data.manifest, signature: data.signature }, null, 2),
+                    `${data.filename}.sig.json`,
+                    'application/json'
+                );
+            } else {
+                saveFile(
+                    JSON.stringify({ manifest: data.manifest, entries: data.entries, signature: data.signature }, null, 2),
+                    data.filename,
+                    'application/json'
+                );
+            }
+            addToast(`Exported ${data.manifest.entryCount} signed entries${data.manifest.truncated ? ' (truncated)' : ''}.`, 'success');
+        } catch (error) {
+            console.error('Failed to export audit log:', error);
+            addToast(error instanceof Error ? error.message : 'Export failed', 'error');
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    const handleVerify = async () => {
+        setVerifying(true);
+        try {
+            const data = await api.verifyAuditLog();
+            setVerification(data);
+            if (data.valid) {
+                addToast(`Ledger intact: ${data.totalEntries} entries verified.`, 'success');
+            } else {
+                addToast(`Ledger broken at entry #${data.brokenAt.sequence}.`, 'error');
+            }
+        } catch (error) {
+            console.error('Failed to verify audit log:', error);
+            addToast('Ledger verification failed.', 'error');
+        } finally {
+            setVerifying(false);
+        }
+    };
+
+    if (loading && logs.length === 0 && Object.keys(appliedFilters).length === 0) {
         return (
             <div className="flex flex-col items-center justify-center py-20">
                 <Loader2 className="w-8 h-8 text-blue-500 animate-spin mb-4" />
@@ -34,55 +204,197 @@ export function AuditLog() {
         );
     }
 
+    const brokenSequence = verification?.brokenAt?.sequence;
+
     return (
         <div className="space-y-6">
-            <div>
-                <h2 className="text-3xl font-bold tracking-tight text-slate-900 dark:text-white">Audit Log</h2>
-                <p className="text-slate-500 dark:text-slate-400 mt-2">Immutable chronological system ledger.</p>
+            <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+                <div>
+                    <h2 className="text-3xl font-bold tracking-tight text-slate-900 dark:text-white">Audit Log</h2>
+                    <p className="text-slate-500 dark:text-slate-400 mt-2">Immutable chronological system ledger.</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" onClick={() => handleExport('csv')} isLoading={exporting === 'csv'} disabled={!!exporting} className="gap-2">
+                        {exporting !== 'csv' && <FileDown className="w-4 h-4" />}
+                        Export CSV
+                    </Button>
+                    <Button variant="outline" onClick={() => handleExport('json')} isLoading={exporting === 'json'} disabled={!!exporting} className="gap-2">
+                        {exporting !== 'json' && <FileDown className="w-4 h-4" />}
+                        Export JSON
+                    </Button>
+                    <Button onClick={handleVerify} isLoading={verifying} className="gap-2">
+                        {!verifying && <ShieldCheck className="w-4 h-4" />}
+                        Verify ledger integrity
+                    </Button>
+                </div>
             </div>
 
+            <Card className="dark:bg-slate-900 dark:border-slate-800">
+                <CardContent className="p-4 space-y-3">
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+                        <Input
+                            placeholder="Actor badge or name"
+                            value={form.actor}
+                            onChange={(e) => updateForm('actor', e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleApply()}
+                            className="h-10 rounded-xl"
+                        />
+                        <Select
+                            value={form.action}
+                            onChange={(e) => updateForm('action', e.target.value)}
+                            options={[{ label: 'All actions', value: '' }, ...ACTION_OPTIONS.map(a => ({ label: a, value: a }))]}
+                            placeholder="All actions"
+                        />
+                        <Select
+                            value={form.severity}
+                            onChange={(e) => updateForm('severity', e.target.value)}
+                            options={[
+                                { label: 'All severities', value: '' },
+                                { label: 'Info', value: 'info' },
+                                { label: 'Warning', value: 'warning' },
+                                { label: 'Critical', value: 'critical' }
+                            ]}
+                            placeholder="All severities"
+                        />
+                        <div className="flex gap-2">
+                            <Select
+                                value={form.resourceType}
+                                onChange={(e) => updateForm('resourceType', e.target.value)}
+                                options={[{ label: 'Any resource', value: '' }, ...RESOURCE_OPTIONS.map(r => ({ label: r, value: r }))]}
+                                placeholder="Any resource"
+                            />
+                            <Input
+                                placeholder="ID"
+                                value={form.resourceId}
+                                onChange={(e) => updateForm('resourceId', e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && handleApply()}
+                                className="h-10 rounded-xl w-24"
+                            />
+                        </div>
+                    </div>
+                    <div className="flex flex-col md:flex-row md:items-center gap-3">
+                        <label className="flex items-center gap-2 text-xs text-slate-500">
+                            From
+                            <Input type="datetime-local" value={form.from} onChange={(e) => updateForm('from', e.target.value)} className="h-10 rounded-xl" />
+                        </label>
+                        <label className="flex items-center gap-2 text-xs text-slate-500">
+                            To
+                            <Input type="datetime-local" value={form.to} onChange={(e) => updateForm('to', e.target.value)} className="h-10 rounded-xl" />
+                        </label>
+                        <div className="flex gap-2 md:ml-auto">
+                            <Button variant="ghost" onClick={handleReset} className="gap-2">
+                                <RotateCcw className="w-4 h-4" /> Reset
+                            </Button>
+                            <Button onClick={handleApply} isLoading={loading} className="gap-2">
+                                {!loading && <Search className="w-4 h-4" />}
+                                Apply filters
+                            </Button>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {verification && (
+                <Card className={verification.valid
+                    ? 'border-green-200 bg-green-50 dark:bg-green-900/10 dark:border-green-900/50'
+                    : 'border-red-200 bg-red-50 dark:bg-red-900/10 dark:border-red-900/50'}>
+                    <CardContent className="p-4 flex items-start gap-3">
+                        {verification.valid
+                            ? <ShieldCheck className="w-6 h-6 text-green-600 dark:text-green-400 shrink-0" />
+                            : <ShieldAlert className="w-6 h-6 text-red-600 dark:text-red-400 shrink-0" />}
+                        <div className="space-y-1 min-w-0">
+                            <p className={`font-semibold ${verification.valid ? 'text-green-900 dark:text-green-300' : 'text-red-900 dark:text-red-300'}`}>
+                                {verification.valid
+                                    ? `Hash chain intact - ${verification.totalEntries} entries verified`
+                                    : `Hash chain broken at entry #${verification.brokenAt?.sequence}`}
+                            </p>
+                            {verification.brokenAt ? (
+                                <div className="text-xs text-red-800 dark:text-red-300 space-y-1">
+                                    <p>{verification.brokenAt.reason}. {verification.totalEntries} entries before it verified.</p>
+                                    <p className="font-mono break-all">Stored hash: {verification.brokenAt.storedHash}</p>
+                                    <p className="font-mono break-all">Recomputed: {verification.brokenAt.recomputedHash}</p>
+                                    <p className="font-mono break-all">Expected prev: {verification.brokenAt.expectedPrevHash}</p>
+                                    <p className="font-mono break-all">Recorded prev: {verification.brokenAt.actualPrevHash}</p>
+                                </div>
+                            ) : (
+                                <p className="text-xs font-mono text-green-800 dark:text-green-400 break-all">Head: {verification.headHash}</p>
+                            )}
+                            <p className="text-[10px] text-slate-500">Checked {new Date(verification.verifiedAt).toLocaleString()}</p>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
             <Card className="dark:bg-slate-900 dark:border-slate-800">
                 <Table>
                     <TableHeader>
                         <TableRow>
+                            <TableHead className="w-[60px] dark:text-slate-200">#</TableHead>
                             <TableHead className="w-[180px] dark:text-slate-200">Timestamp</TableHead>
-                            <TableHead className="dark:text-slate-200">Ref ID</TableHead>
                             <TableHead className="dark:text-slate-200">Actor</TableHead>
                             <TableHead className="dark:text-slate-200">Action</TableHead>
+                            <TableHead className="dark:text-slate-200">Severity</TableHead>
+                            <TableHead className="dark:text-slate-200">Resource</TableHead>
                             <TableHead className="text-right dark:text-slate-200">Context/Hash</TableHead>
                         </TableRow>
                     </TableHeader>
                     <TableBody>
                         {logs.length > 0 ? (
                             logs.map((log) => (
-                                <TableRow key={log.id} className="dark:border-slate-800 dark:hover:bg-slate-800/50">
+                                <TableRow
+                                    key={log.id}
+                                    className={log.sequence === brokenSequence
+                                        ? 'bg-red-50 dark:bg-red-900/20 dark:border-slate-800'
+                                        : 'dark:border-slate-800 dark:hover:bg-slate-800/50'}
+                                >
+                                    <TableCell className="font-mono text-xs text-slate-500 dark:text-slate-400">{log.sequence}</TableCell>
                                     <TableCell className="font-mono text-xs text-slate-500 dark:text-slate-400">
                                         {new Date(log.timestamp).toLocaleString()}
                                     </TableCell>
-                                    <TableCell className="font-mono text-xs dark:text-slate-300">{log.id}</TableCell>
                                     <TableCell className="dark:text-slate-300">
-                                        <span className={log.actor.includes('AI') || log.actor.includes('BLOCKCHAIN') ? "text-blue-500 font-semibold" : ""}>
-                                            {log.actor}
-                                        </span>
+                                        <div className="flex flex-col">
+                                            <span>{log.actorName || log.actor}</span>
+                                            {log.actorName && (
+                                                <span className="text-[10px] text-slate-500">{log.actorRole} · Badge {log.actor}</span>
+                                            )}
+                                        </div>
+                                    </TableCell>
+                                    <TableCell className="dark:text-slate-300">
+                                        <div className="flex items-center gap-2">
+                                            <span className="font-mono text-xs">{log.action}</span>
+                                            {log.details?.outcome === 'FAILURE' && <Badge variant="danger">FAILED</Badge>}
+                                        </div>
+                                    </TableCell>
+                                    <TableCell>
+                                        <Badge variant={SEVERITY_VARIANTS[log.severity] || 'secondary'}>{(log.severity || 'info').toUpperCase()}</Badge>
+                                    </TableCell>
+                                    <TableCell className="font-mono text-xs dark:text-slate-300">
+                                        {log.resourceId ? `${log.resourceType} #${log.resourceId}` : log.resourceType || '-'}
                                     </TableCell>
-                                    <TableCell className="dark:text-slate-300">{log.action}</TableCell>
                                     <TableCell className="text-right font-mono text-xs text-slate-400 dark:text-slate-500">
                                         <div className="flex flex-col items-end">
-                                            <span className="truncate max-w-[150px]">{log.hash}</span>
-                                            <span className="text-[10px] text-slate-500 mt-1">{log.details}</span>
+                                            <span className="truncate max-w-[150px]" title={log.hash}>{log.hash}</span>
+                                            <span className="text-[10px] text-slate-500 mt-1">{summarizeDetails(log.details)}</span>
                                         </div>
                                     </TableCell>
                                 </TableRow>
                             ))
                         ) : (
                             <TableRow>
-                                <TableCell colSpan={5} className="text-center py-12 text-slate-500">
+                                <TableCell colSpan={7} className="text-center py-12 text-slate-500">
                                     No transaction records found on the ledger.
                                 </TableCell>
                             </TableRow>
                         )}
                     </TableBody>
                 </Table>
+                {nextCursor && (
+                    <div className="flex justify-center p-4 border-t border-slate-100 dark:border-slate-800">
+                        <Button variant="outline" onClick={handleLoadMore} isLoading={loadingMore}>
+                            Load older entries
+                        </Button>
+                    </div>
+                )}
             </Card>
         </div>
     );
@@ -0,0 +1,441 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/Card';
+import { Badge } from '../components/ui/Badge';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Select } from '../components/ui/Select';
+import { Dialog } from '../components/ui/Dialog';
+import { AlertTriangle, Briefcase, Clock, Download, FileText, GitCommit, Loader2, Lock, Plus, Unlock } from 'lucide-react';
+import { api } from '../utils/api';
+import { saveBlob } from '../utils/download';
+import { useToast } from '../components/ui/Toast';
+import { useAuth } from '../hooks/useAuth';
+import { useLiveEvent } from '../hooks/useLiveEvent';
+import type { CaseEvidenceItem, CaseStatus, CaseSummary, CaseWorkspace } from '../types';
+
+const EVIDENCE_STATUS_VARIANTS = {
+    verified: 'success',
+    flagged: 'warning',
+    disputed: 'warning',
+    breached: 'danger'
+} as const;
+
+const CLOSED_ALERT_STATUSES = ['RESOLVED', 'FALSE_POSITIVE'];
+
+// Custody events shown in the workspace before "show all"
+const RECENT_CUSTODY_LIMIT = 10;
+
+const EMPTY_FORM = { caseNumber: '', title: '', description: '', leadInvestigator: '' };
+
+export function Cases() {
+    const { addToast } = useToast();
+    const { can } = useAuth();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const selectedCase = searchParams.get('case') || '';
+
+    const [cases, setCases] = useState<CaseSummary[]>([]);
+    const [unregistered, setUnregistered] = useState<string[]>([]);
+    const [statusFilter, setStatusFilter] = useState<'' | CaseStatus>('');
+    const [loading, setLoading] = useState(true);
+    const [workspace, setWorkspace] = useState<CaseWorkspace | null>(null);
+    const [workspaceLoading, setWorkspaceLoading] = useState(false);
+    const [showAllCustody, setShowAllCustody] = useState(false);
+    // Bumped by live events and edits to refetch without a page reload
+    const [version, setVersion] = useState(0);
+
+    const [showForm, setShowForm] = useState(false);
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [saving, setSaving] = useState(false);
+    const [generatingReport, setGeneratingReport] = useState(false);
+
+    useLiveEvent(['evidence.registered', 'custody.logged', 'custody.violation', 'alert.created', 'alert.updated'], () => setVersion(v => v + 1));
+
+    useEffect(() => {
+        api.getCases(statusFilter || undefined)
+            .then(data => {
+                setCases(data.cases);
+                setUnregistered(data.unregisteredCaseIds);
+            })
+            .catch(error => console.error('Failed to fetch cases:', error))
+            .finally(() => setLoading(false));
+    }, [statusFilter, version]);
+
+    useEffect(() => {
+        if (!selectedCase) return;
+
+        let cancelled = false;
+        const fetchWorkspace = async () => {
+            setWorkspaceLoading(true);
+            try {
+                const data = await api.getCase(selectedCase);
+                if (!cancelled) setWorkspace(data);
+            } catch (error) {
+                if (!cancelled) {
+                    setWorkspace(null);
+                    addToast(error instanceof Error ? error.message : 'Failed to load case', 'error');
+                }
+            } finally {
+                if (!cancelled) setWorkspaceLoading(false);
+            }
+        };
+        fetchWorkspace();
+        return () => {
+            cancelled = true;
+        };
+    }, [selectedCase, version, addToast]);
+
+    const selectCase = (caseNumber: string) => {
+        setShowAllCustody(false);
+        setSearchParams({ case: caseNumber });
+    };
+
+    const openForm = (caseNumber = '') => {
+        setForm({ ...EMPTY_FORM, caseNumber });
+        setShowForm(true);
+    };
+
+    const handleCreate = async () => {
+        if (!form.caseNumber.trim() || !form.title.trim()) {
+            addToast('Case number and title are required.', 'error');
+            return;
+        }
+
+        setSaving(true);
+        try {
+            const data = await api.createCase({
+                caseNumber: form.caseNumber.trim(),
+                title: form.title.trim(),
+                description: form.description.trim() || undefined,
+                leadInvestigator: form.leadInvestigator.trim() || undefined
+            });
+            addToast(`Case ${data.case.caseNumber} opened.`, 'success');
+            setShowForm(false);
+            setVersion(v => v + 1);
+            selectCase(data.case.caseNumber);
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : 'Failed to open case', 'error');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleStatusChange = async (status: CaseStatus) => {
+        if (!workspace) return;
+        try {
+            await api.updateCase(workspace.case.caseNumber, { status });
+            addToast(status === 'CLOSED' ? 'Case closed.' : 'Case reopened.', 'success');
+            setVersion(v => v + 1);
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : 'Failed to update case', 'error');
+        }
+    };
+
+    const handleCourtReport = async () => {
+        if (!workspace) return;
+        setGeneratingReport(true);
+        try {
+            const { blob, filename } = await api.getIntegrityReport('cases', workspace.case.caseNumber);
+            saveBlob(blob, filename);
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : 'Failed to generate report', 'error');
+        } finally {
+            setGeneratingReport(false);
+        }
+    };
+
+    const evidenceLabel = (evidenceId: string) => {
+        const item = workspace?.evidence.find((e: CaseEvidenceItem) => String(e.evidenceId) === String(evidenceId));
+        return item?.fileName ? `#${evidenceId} ${item.fileName}` : `#${evidenceId}`;
+    };
+
+    if (loading) {
+        return (
+            <div className="flex flex-col items-center justify-center py-20">
+                <Loader2 className="w-8 h-8 text-blue-500 animate-spin mb-4" />
+                <p className="text-slate-500">Loading cases...</p>
+            </div>
+        );
+    }
+
+    const current = workspace && workspace.case.caseNumber === selectedCase ? workspace : null;
+    const openAlerts = current ? current.alerts.filter(a => !CLOSED_ALERT_STATUSES.includes(a.status)) : [];
+    const custody = current
+        ? (showAllCustody ? current.custody : current.custody.slice(0, RECENT_CUSTODY_LIMIT))
+        : [];
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+                <div>
+                    <h2 className="text-3xl font-bold tracking-tight text-slate-900 dark:text-white">Cases</h2>
+                    <p className="text-slate-500 dark:text-slate-400 mt-2">Every investigation with its evidence, custody activity and alerts.</p>
+                </div>
+                <div className="flex gap-2">
+                    <Select
+                        value={statusFilter}
+                        onChange={(e) => setStatusFilter(e.target.value as '' | CaseStatus)}
+                        options={[
+                            { label: 'All cases', value: '' },
+                            { label: 'Open', value: 'OPEN' },
+                            { label: 'Closed', value: 'CLOSED' }
+                        ]}
+                    />
+                    {can('cases:manage') && (
+                        <Button onClick={() => openForm()} className="gap-2 shrink-0">
+                            <Plus className="w-4 h-4" /> Open Case
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="space-y-3">
+                    {cases.length === 0 && (
+                        <p className="text-sm text-slate-500 dark:text-slate-400">No cases yet.</p>
+                    )}
+                    {cases.map(c => (
+                        <Card
+                            key={c.caseNumber}
+                            className={`cursor-pointer transition-colors dark:bg-slate-900 dark:border-slate-800 ${selectedCase === c.caseNumber ? 'ring-2 ring-brand-blue' : ''}`}
+                            onClick={() => selectCase(c.caseNumber)}
+                        >
+                            <CardContent className="p-4">
+                                <div className="flex items-start justify-between gap-2">
+                                    <div className="min-w-0">
+                                        <h3 className="font-semibold text-slate-900 dark:text-white truncate">{c.title}</h3>
+                                        <p className="text-xs font-mono text-slate-400">{c.caseNumber}</p>
+                                    </div>
+                                    <Badge variant={c.status === 'OPEN' ? 'success' : 'secondary'}>{c.status}</Badge>
+                                </div>
+                                <p className="text-xs text-slate-500 mt-2">Lead: {c.leadInvestigator.name}</p>
+                                <div className="flex flex-wrap gap-3 text-xs text-slate-500 mt-1">
+                                    <span>{c.evidenceCount} evidence</span>
+                                    {c.openAlerts > 0 && <span className="text-red-600 dark:text-red-400">{c.openAlerts} open alerts</span>}
+                                    {c.breachedCount > 0 && <span className="text-red-600 dark:text-red-400">{c.breachedCount} breached</span>}
+                                </div>
+                            </CardContent>
+                        </Card>
+                    ))}
+
+                    {unregistered.length > 0 && (
+                        <Card className="dark:bg-slate-900 dark:border-slate-800">
+                            <CardContent className="p-4 space-y-2">
+                                <p className="text-sm font-medium text-slate-700 dark:text-slate-300">Case IDs on evidence without a case record</p>
+                                <div className="flex flex-wrap gap-2">
+                                    {unregistered.map(caseId => (
+                                        can('cases:manage') ? (
+                                            <Button key={caseId} variant="outline" size="sm" onClick={() => openForm(caseId)} className="font-mono">
+                                                {caseId}
+                                            </Button>
+                                        ) : (
+                                            <Badge key={caseId} variant="outline" className="font-mono">{caseId}</Badge>
+                                        )
+                                    ))}
+                                </div>
+                            </CardContent>
+                        </Card>
+                    )}
+                </div>
+
+                <div className="lg:col-span-2 space-y-6">
+                    {!selectedCase && (
+                        <Card className="dark:bg-slate-900 dark:border-slate-800">
+                            <CardContent className="p-12 text-center">
+                                <Briefcase className="w-12 h-12 text-slate-400 dark:text-slate-600 mx-auto mb-4" />
+                                <p className="text-slate-500 dark:text-slate-400">Select a case to open its workspace.</p>
+                            </CardContent>
+                        </Card>
+                    )}
+
+                    {selectedCase && !current && workspaceLoading && (
+                        <div className="flex justify-center py-12">
+                            <Loader2 className="w-8 h-8 text-blue-500 animate-spin" />
+                        </div>
+                    )}
+
+                    {current && (
+                        <>
+                            <Card className="dark:bg-slate-900 dark:border-slate-800">
+                                <CardContent className="p-6 space-y-4">
+                                    <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                                        <div>
+                                            <div className="flex items-center gap-2">
+                                                <h3 className="text-xl font-semibold text-slate-900 dark:text-white">{current.case.title}</h3>
+                                                <Badge variant={current.case.status === 'OPEN' ? 'success' : 'secondary'}>{current.case.status}</Badge>
+                                            </div>
+                                            <p className="text-sm font-mono text-slate-400">{current.case.caseNumber}</p>
+                                            {current.case.description && (
+                                                <p className="text-sm text-slate-600 dark:text-slate-300 mt-2">{current.case.description}</p>
+                                            )}
+                                            <p className="text-xs text-slate-500 mt-2">
+                                                Lead investigator {current.case.leadInvestigator.name} (Badge {current.case.leadInvestigator.badgeNumber})
+                                                {' · '}opened {new Date(current.case.openedAt).toLocaleDateString()}
+                                                {current.case.closedAt && <> · closed {new Date(current.case.closedAt).toLocaleDateString()}</>}
+                                            </p>
+                                        </div>
+                                        <div className="flex gap-2 shrink-0">
+                                            {can('reports:generate') && (
+                                                <Button variant="outline" size="sm" onClick={handleCourtReport} isLoading={generatingReport} className="gap-2">
+                                                    <Download className="w-4 h-4" /> Court Report (PDF)
+                                                </Button>
+                                            )}
+                                            {can('cases:manage') && (
+                                                current.case.status === 'OPEN' ? (
+                                                    <Button variant="outline" size="sm" onClick={() => handleStatusChange('CLOSED')} className="gap-2">
+                                                        <Lock className="w-4 h-4" /> Close Case
+                                                    </Button>
+                                                ) : (
+                                                    <Button variant="outline" size="sm" onClick={() => handleStatusChange('OPEN')} className="gap-2">
+                                                        <Unlock className="w-4 h-4" /> Reopen Case
+                                                    </Button>
+                                                )
+                                            )}
+                                        </div>
+                                    </div>
+
+                                    <div className="grid grid-cols-4 gap-4">
+                                        <div className="rounded-lg bg-green-50 dark:bg-green-900/20 p-3">
+                                            <p className="text-2xl font-bold text-green-700 dark:text-green-400">{current.verification.verified}</p>
+                                            <p className="text-xs text-green-700 dark:text-green-400">Verified</p>
+                                        </div>
+                                        <div className="rounded-lg bg-amber-50 dark:bg-amber-900/20 p-3">
+                                            <p className="text-2xl font-bold text-amber-700 dark:text-amber-400">{current.verification.flagged}</p>
+                                            <p className="text-xs text-amber-700 dark:text-amber-400">Flagged</p>
+                                        </div>
+                                        <div className="rounded-lg bg-orange-50 dark:bg-orange-900/20 p-3">
+                                            <p className="text-2xl font-bold text-orange-700 dark:text-orange-400">{current.verification.disputed}</p>
+                                            <p className="text-xs text-orange-700 dark:text-orange-400">Disputed</p>
+                                        </div>
+                                        <div className="rounded-lg bg-red-50 dark:bg-red-900/20 p-3">
+                                            <p className="text-2xl font-bold text-red-700 dark:text-red-400">{current.verification.breached}</p>
+                                            <p className="text-xs text-red-700 dark:text-red-400">Breached</p>
+                                        </div>
+                                    </div>
+                                </CardContent>
+                            </Card>
+
+                            <Card className="dark:bg-slate-900 dark:border-slate-800">
+                                <CardHeader>
+                                    <CardTitle className="text-base flex items-center gap-2 dark:text-white">
+                                        <FileText className="w-4 h-4" /> Evidence ({current.evidence.length})
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-2">
+                                    {current.evidence.length === 0 && (
+                                        <p className="text-sm text-slate-500 dark:text-slate-400">No evidence registered against this case yet.</p>
+                                    )}
+                                    {current.evidence.map(item => {
+                                        const checkout = current.checkouts.find(c => String(c.evidenceId) === String(item.evidenceId));
+                                        return (
+                                            <div key={item.evidenceId} className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-slate-100 dark:border-slate-800 p-3">
+                                                <div className="min-w-0">
+                                                    <p className="text-sm font-medium text-slate-900 dark:text-white truncate">
+                                                        #{item.evidenceId} {item.fileName || item.evidenceType}
+                                                    </p>
+                                                    <p className="text-xs text-slate-500">
+                                                        Collected by {item.collectedBy} on {new Date(item.timestamp).toLocaleString()}
+                                                    </p>
+                                                    {checkout && (
+                                                        <p className="text-xs text-slate-500 flex items-center gap-1 mt-1">
+                                                            <Clock className="w-3 h-3" /> Checked out by {checkout.handlerName}
+                                                            {checkout.overdue && <Badge variant="danger" className="ml-1">Overdue</Badge>}
+                                                        </p>
+                                                    )}
+                                                </div>
+                                                <Badge variant={EVIDENCE_STATUS_VARIANTS[item.status]} title={item.consensus?.label}>{item.status}</Badge>
+                                            </div>
+                                        );
+                                    })}
+                                </CardContent>
+                            </Card>
+
+                            <Card className="dark:bg-slate-900 dark:border-slate-800">
+                                <CardHeader>
+                                    <CardTitle className="text-base flex items-center gap-2 dark:text-white">
+                                        <AlertTriangle className="w-4 h-4" /> Open Alerts ({openAlerts.length})
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-2">
+                                    {openAlerts.length === 0 && (
+                                        <p className="text-sm text-slate-500 dark:text-slate-400">No open alerts on this case.</p>
+                                    )}
+                                    {openAlerts.map(alert => (
+                                        <div key={alert.id} className="rounded-lg border border-red-100 dark:border-red-900/40 p-3 text-sm">
+                                            <div className="flex flex-wrap items-center gap-2">
+                                                <Badge variant={alert.severity === 'CRITICAL' || alert.severity === 'HIGH' ? 'danger' : 'warning'}>{alert.severity}</Badge>
+                                                <span className="font-medium text-slate-900 dark:text-white">{evidenceLabel(alert.evidenceId)}</span>
+                                                <span className="text-xs text-slate-500">{new Date(alert.timestamp).toLocaleString()}</span>
+                                            </div>
+                                            <p className="text-slate-600 dark:text-slate-300 mt-1 break-all">{alert.reason}</p>
+                                        </div>
+                                    ))}
+                                </CardContent>
+                            </Card>
+
+                            <Card className="dark:bg-slate-900 dark:border-slate-800">
+                                <CardHeader>
+                                    <CardTitle className="text-base flex items-center gap-2 dark:text-white">
+                                        <GitCommit className="w-4 h-4" /> Custody Activity
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-2">
+                                    {!current.custodySource && (
+                                        <p className="text-sm text-slate-500 dark:text-slate-400">Blockchain unavailable; custody history could not be read.</p>
+                                    )}
+                                    {current.custodySource && current.custody.length === 0 && (
+                                        <p className="text-sm text-slate-500 dark:text-slate-400">No custody events recorded yet.</p>
+                                    )}
+                                    {custody.map(event => (
+                                        <div key={`${event.evidenceId}-${event.eventIndex}`} className="flex flex-wrap items-center justify-between gap-2 text-sm border-b border-slate-100 dark:border-slate-800 pb-2">
+                                            <div className="flex items-center gap-2">
+                                                <Badge variant={event.action === 'VIOLATION' ? 'danger' : 'outline'}>{event.action}</Badge>
+                                                <span className="text-slate-700 dark:text-slate-300">{evidenceLabel(event.evidenceId)}</span>
+                                            </div>
+                                            <span className="text-xs text-slate-500">{new Date(event.timestamp).toLocaleString()}</span>
+                                        </div>
+                                    ))}
+                                    {current.custody.length > RECENT_CUSTODY_LIMIT && (
+                                        <Button variant="ghost" size="sm" onClick={() => setShowAllCustody(!showAllCustody)}>
+                                            {showAllCustody ? 'Show recent only' : `Show all ${current.custody.length} events`}
+                                        </Button>
+                                    )}
+                                </CardContent>
+                            </Card>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            <Dialog
+                isOpen={showForm}
+                onClose={() => setShowForm(false)}
+                title="Open Case"
+                description="Evidence can only be uploaded against an open case."
+            >
+                <div className="space-y-4 mt-4">
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium text-slate-700 dark:text-slate-300">Case number</label>
+                        <Input value={form.caseNumber} onChange={(e) => setForm({ ...form, caseNumber: e.target.value })} placeholder="e.g. CR-2024-001" />
+                    </div>
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium text-slate-700 dark:text-slate-300">Title</label>
+                        <Input value={form.title} onChange={(e) => setForm({ ...form, title: e.target.value })} placeholder="e.g. Warehouse burglary" />
+                    </div>
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium text-slate-700 dark:text-slate-300">Description (optional)</label>
+                        <Input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+                    </div>
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium text-slate-700 dark:text-slate-300">Lead investigator badge (defaults to you)</label>
+                        <Input value={form.leadInvestigator} onChange={(e) => setForm({ ...form, leadInvestigator: e.target.value })} placeholder="e.g. 1001" />
+                    </div>
+                    <div className="flex justify-end gap-2 pt-2">
+                        <Button variant="outline" onClick={() => setShowForm(false)}>Cancel</Button>
+                        <Button onClick={handleCreate} isLoading={saving}>Open Case</Button>
+                    </div>
+                </div>
+            </Dialog>
+        </div>
+    );
+}
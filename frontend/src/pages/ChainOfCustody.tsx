@@ -4,10 +4,13 @@ import { Badge } from '../components/ui/Badge';
 import { Button } from '../components/ui/Button';
 import { Input } from '../components/ui/Input';
 import { Select } from '../components/ui/Select';
-import { Check, User, AlertCircle, Download, Search, Filter, Calendar, Loader2, Plus } from 'lucide-react';
+import { Check, User, AlertCircle, AlertTriangle, Download, Search, Filter, Calendar, Loader2, Plus, LogIn, LogOut, Clock } from 'lucide-react';
 import { cn } from '../utils/cn';
 import { api } from '../utils/api';
 import { useToast } from '../components/ui/Toast';
+import { useAuth } from '../hooks/useAuth';
+import { useLiveEvent } from '../hooks/useLiveEvent';
+import type { Checkout, CustodyLogEvent, CustodySimulation, CustodyTimeline } from '../types';
 
 interface CustodyEvent {
     id: string;
@@ -25,6 +28,32 @@ interface TimelineEventProps extends CustodyEvent {
     isLast?: boolean;
 }
 
+function toTimelineEvent(e: CustodyLogEvent, id: string): CustodyEvent {
+    return {
+        id,
+        action: e.action,
+        actor: e.handler || 'Authorized Handler',
+        role: e.action === 'INITIAL_REGISTRATION' ? 'SYSTEM' : 'CUSTODIAN',
+        timestamp: e.timestamp,
+        hash: e.metadataHash || '0x00...000',
+        status: e.action === 'VIOLATION' ? 'breach' : 'verified'
+    };
+}
+
+/**
+ * Map backend events to UI format, starting with the custody an item had in
+ * registries it was migrated out of
+ */
+function toTimelineEvents({ events, previousAnchors = [] }: CustodyTimeline): CustodyEvent[] {
+    const earlier = previousAnchors.flatMap(anchor => anchor.custody.map(e => ({
+        ...toTimelineEvent(e, `${anchor.contractAddress}:${e.eventIndex}`),
+        details: `Recorded as evidence #${anchor.evidenceId} on chain ${anchor.chainId}`,
+        location: `Registry ${anchor.contractAddress.slice(0, 6)}...${anchor.contractAddress.slice(-4)} (before migration)`
+    })));
+    const current = events.map((e, idx) => ({ ...toTimelineEvent(e, String(idx)), details: 'Blockchain entry recorded.' }));
+    return [...earlier, ...current];
+}
+
 function TimelineEvent({
     action,
     actor,
@@ -127,6 +156,16 @@ export function ChainOfCustody() {
     const [custodyEvents, setCustodyEvents] = useState<CustodyEvent[]>([]);
     const [loading, setLoading] = useState(true);
     const [eventsLoading, setEventsLoading] = useState(false);
+    // Bumped by live events to refetch without a page reload
+    const [evidenceVersion, setEvidenceVersion] = useState(0);
+    const [custodyVersion, setCustodyVersion] = useState(0);
+    const [holdingsVersion, setHoldingsVersion] = useState(0);
+
+    // Check-out / check-in state
+    const [holdings, setHoldings] = useState<Checkout[]>([]);
+    const [purpose, setPurpose] = useState('');
+    const [returnNotes, setReturnNotes] = useState('');
+    const [checkoutBusy, setCheckoutBusy] = useState(false);
 
     const [searchTerm, setSearchTerm] = useState('');
     const [statusFilter, setStatusFilter] = useState<'all' | 'verified' | 'breach'>('all');
@@ -135,19 +174,36 @@ export function ChainOfCustody() {
     // Log event dialog state
     const [showLogDialog, setShowLogDialog] = useState(false);
     const [logAction, setLogAction] = useState('TRANSFERRED');
-    const [logHandler, setLogHandler] = useState('');
     const [logDetails, setLogDetails] = useState('');
     const [logging, setLogging] = useState(false);
+    // Dry-run verdict for the form as currently filled, keyed so a stale result is never shown
+    const [policyCheck, setPolicyCheck] = useState<{ key: string; result: CustodySimulation | null } | null>(null);
+    const [acknowledgedKey, setAcknowledgedKey] = useState('');
     const { addToast } = useToast();
+    const { user, can } = useAuth();
+
+    useLiveEvent(['evidence.registered'], () => setEvidenceVersion(v => v + 1));
+    useLiveEvent(['custody.logged', 'custody.violation'], (event) => {
+        if ('evidenceId' in event.data && String(event.data.evidenceId) === String(selectedEvidence)) {
+            setCustodyVersion(v => v + 1);
+        }
+        setHoldingsVersion(v => v + 1);
+    });
+
+    useEffect(() => {
+        api.getHoldings()
+            .then(data => setHoldings(data.checkouts))
+            .catch(error => console.error('Failed to fetch holdings:', error));
+    }, [holdingsVersion]);
 
-    // Fetch evidence list on mount
+    // Fetch evidence list on mount and when new evidence is registered
     useEffect(() => {
         const fetchEvidence = async () => {
             try {
                 const data = await api.getEvidence();
                 if (data.success && data.evidence.length > 0) {
                     setEvidenceItems(data.evidence);
-                    setSelectedEvidence(data.evidence[0].evidenceId);
+                    setSelectedEvidence(prev => prev || data.evidence[0].evidenceId);
                 }
             } catch (error) {
                 console.error('Failed to fetch evidence:', error);
@@ -156,7 +212,7 @@ export function ChainOfCustody() {
             }
         };
         fetchEvidence();
-    }, []);
+    }, [evidenceVersion]);
 
     // Fetch custody events when selected evidence changes
     useEffect(() => {
@@ -167,18 +223,7 @@ export function ChainOfCustody() {
             try {
                 const data = await api.getCustodyEvents(selectedEvidence);
                 if (data.events) {
-                    // Map backend events to UI format
-                    const mappedEvents = data.events.map((e: any, idx: number) => ({
-                        id: String(idx),
-                        action: e.action,
-                        actor: e.handler || 'Authorized Handler',
-                        role: e.action === 'INITIAL_REGISTRATION' ? 'SYSTEM' : 'CUSTODIAN',
-                        timestamp: e.timestamp,
-                        hash: e.metadataHash || '0x00...000',
-                        status: e.action === 'VIOLATION' ? 'breach' : 'verified',
-                        details: e.details || 'Blockchain entry recorded.'
-                    }));
-                    setCustodyEvents(mappedEvents);
+                    setCustodyEvents(toTimelineEvents(data));
                 }
             } catch (error) {
                 console.error('Failed to fetch custody events:', error);
@@ -187,7 +232,33 @@ export function ChainOfCustody() {
             }
         };
         fetchCustody();
-    }, [selectedEvidence]);
+    }, [selectedEvidence, custodyVersion]);
+
+    // Re-check the proposed action against custody policy whenever the form or the custody state changes
+    const policyCheckKey = `${selectedEvidence}:${logAction}:${custodyVersion}:${holdingsVersion}`;
+    useEffect(() => {
+        if (!showLogDialog || !selectedEvidence) return;
+
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            api.simulateCustodyActions(selectedEvidence, [logAction])
+                .then(result => {
+                    if (!cancelled) setPolicyCheck({ key: policyCheckKey, result });
+                })
+                .catch(error => {
+                    console.error('Failed to check custody policy:', error);
+                    if (!cancelled) setPolicyCheck({ key: policyCheckKey, result: null });
+                });
+        }, 300);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [showLogDialog, selectedEvidence, logAction, policyCheckKey]);
+
+    const currentPolicyCheck = policyCheck && policyCheck.key === policyCheckKey ? policyCheck : null;
+    const rejectedStep = currentPolicyCheck?.result?.steps.find(step => !step.valid);
+    const needsAcknowledgement = !!rejectedStep && acknowledgedKey !== policyCheckKey;
 
     const evidenceOptions = evidenceItems.map(item => ({
         label: `${item.evidenceId} - ${item.fileName}`,
@@ -223,34 +294,23 @@ export function ChainOfCustody() {
     };
 
     const handleLogEvent = async () => {
-        if (!selectedEvidence || !logHandler.trim()) {
-            addToast('Please enter a handler name', 'error');
+        if (!selectedEvidence) {
+            addToast('Please select an evidence item', 'error');
             return;
         }
 
         setLogging(true);
         try {
-            await api.logCustodyEvent(selectedEvidence, logAction, logHandler, { notes: logDetails });
-            addToast('Custody event logged successfully!', 'success');
+            const logged = await api.logCustodyEvent(selectedEvidence, logAction, { notes: logDetails });
+            addToast(logged.pending ? 'Custody event queued; it will appear once mined.' : 'Custody event logged successfully!', 'success');
 
             // Refresh custody events
             const data = await api.getCustodyEvents(selectedEvidence);
             if (data.events) {
-                const mappedEvents = data.events.map((e: any, idx: number) => ({
-                    id: String(idx),
-                    action: e.action,
-                    actor: e.handler || 'Authorized Handler',
-                    role: e.action === 'INITIAL_REGISTRATION' ? 'SYSTEM' : 'CUSTODIAN',
-                    timestamp: e.timestamp,
-                    hash: e.metadataHash || '0x00...000',
-                    status: e.action === 'VIOLATION' ? 'breach' : 'verified',
-                    details: e.details || 'Blockchain entry recorded.'
-                }));
-                setCustodyEvents(mappedEvents);
+                setCustodyEvents(toTimelineEvents(data));
             }
 
             // Reset form
-            setLogHandler('');
             setLogDetails('');
             setShowLogDialog(false);
         } catch (error: any) {
@@ -260,6 +320,39 @@ export function ChainOfCustody() {
         }
     };
 
+    const currentCheckout = holdings.find(c => String(c.evidenceId) === String(selectedEvidence));
+    const heldByMe = !!currentCheckout && currentCheckout.handler === user?.badgeNumber;
+
+    const handleCheckOut = async () => {
+        setCheckoutBusy(true);
+        try {
+            const data = await api.checkOutEvidence(selectedEvidence, purpose);
+            addToast(`Checked out until ${new Date(data.checkout.dueAt).toLocaleString()}.${data.pending ? ' The custody record will appear once mined.' : ''}`, 'success');
+            setPurpose('');
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : 'Failed to check out evidence', 'error');
+        } finally {
+            setCheckoutBusy(false);
+            setHoldingsVersion(v => v + 1);
+            setCustodyVersion(v => v + 1);
+        }
+    };
+
+    const handleCheckIn = async (force = false) => {
+        setCheckoutBusy(true);
+        try {
+            const data = await api.checkInEvidence(selectedEvidence, returnNotes, force);
+            addToast(data.pending ? 'Evidence checked in. The custody record will appear once mined.' : 'Evidence checked in.', 'success');
+            setReturnNotes('');
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : 'Failed to check in evidence', 'error');
+        } finally {
+            setCheckoutBusy(false);
+            setHoldingsVersion(v => v + 1);
+            setCustodyVersion(v => v + 1);
+        }
+    };
+
     const stats = useMemo(() => {
         return {
             total: custodyEvents.length,
@@ -332,8 +425,106 @@ export function ChainOfCustody() {
                 </Card>
             </div>
 
-            {/* Log New Event Card */}
+            {/* Check-out / Check-in */}
             {selectedEvidence && (
+                <Card className="dark:bg-slate-900 dark:border-slate-800">
+                    <CardHeader>
+                        <CardTitle className="text-base dark:text-white">Custody Status - {selectedEvidence}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        {currentCheckout ? (
+                            <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                                <Clock className="w-4 h-4" />
+                                Checked out by <span className="font-medium">{currentCheckout.handlerName}</span>
+                                (Badge {currentCheckout.handler}) since {new Date(currentCheckout.since).toLocaleString()}, due back {new Date(currentCheckout.dueAt).toLocaleString()}
+                                <Badge variant={currentCheckout.overdue ? 'danger' : 'success'}>
+                                    {currentCheckout.overdue ? 'Overdue' : 'On time'}
+                                </Badge>
+                                {currentCheckout.purpose && <span className="text-slate-500">- {currentCheckout.purpose}</span>}
+                            </div>
+                        ) : (
+                            <p className="text-sm text-slate-600 dark:text-slate-300">Not checked out; the item is in secure storage.</p>
+                        )}
+
+                        {can('custody:log') && (!currentCheckout || !heldByMe) && (
+                            <div className="flex flex-col sm:flex-row gap-2">
+                                <Input
+                                    placeholder="Purpose, e.g. lab analysis"
+                                    value={purpose}
+                                    onChange={(e) => setPurpose(e.target.value)}
+                                    className="dark:bg-slate-800 dark:border-slate-700 dark:text-white"
+                                />
+                                <Button onClick={handleCheckOut} isLoading={checkoutBusy} className="gap-2 shrink-0">
+                                    <LogOut className="w-4 h-4" /> Check Out
+                                </Button>
+                            </div>
+                        )}
+
+                        {currentCheckout && !heldByMe && can('custody:override') && (
+                            <div className="flex flex-col sm:flex-row gap-2">
+                                <Input
+                                    placeholder="Reason for checking it in on their behalf"
+                                    value={returnNotes}
+                                    onChange={(e) => setReturnNotes(e.target.value)}
+                                    className="dark:bg-slate-800 dark:border-slate-700 dark:text-white"
+                                />
+                                <Button variant="outline" onClick={() => handleCheckIn(true)} isLoading={checkoutBusy} className="shrink-0">
+                                    Force Check In
+                                </Button>
+                            </div>
+                        )}
+
+                        {can('custody:log') && heldByMe && (
+                            <div className="flex flex-col sm:flex-row gap-2">
+                                <Input
+                                    placeholder="Return notes (optional)"
+                                    value={returnNotes}
+                                    onChange={(e) => setReturnNotes(e.target.value)}
+                                    className="dark:bg-slate-800 dark:border-slate-700 dark:text-white"
+                                />
+                                <Button onClick={() => handleCheckIn()} isLoading={checkoutBusy} className="gap-2 shrink-0">
+                                    <LogIn className="w-4 h-4" /> Check In
+                                </Button>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+
+            {/* Who currently holds what */}
+            <Card className="dark:bg-slate-900 dark:border-slate-800">
+                <CardHeader>
+                    <CardTitle className="text-base dark:text-white">Currently Checked Out ({holdings.length})</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {holdings.length > 0 ? (
+                        <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+                            {holdings.map(checkout => (
+                                <li key={checkout.evidenceId}>
+                                    <button
+                                        onClick={() => setSelectedEvidence(String(checkout.evidenceId))}
+                                        className="w-full flex flex-wrap items-center justify-between gap-2 py-3 text-left text-sm hover:bg-slate-50 dark:hover:bg-slate-800/50 rounded-lg px-2"
+                                    >
+                                        <span className="dark:text-slate-200">
+                                            <span className="font-mono">#{checkout.evidenceId}</span> held by <span className="font-medium">{checkout.handlerName}</span>
+                                            <span className="text-slate-500"> (Badge {checkout.handler})</span>
+                                        </span>
+                                        <span className="flex items-center gap-2 text-xs text-slate-500">
+                                            due {new Date(checkout.dueAt).toLocaleString()}
+                                            <Badge variant={checkout.overdue ? 'danger' : 'secondary'}>{checkout.overdue ? 'Overdue' : 'Out'}</Badge>
+                                        </span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="text-sm text-slate-500">All evidence is in secure storage.</p>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Log New Event Card */}
+            {selectedEvidence && can('custody:log') && (
                 <Card className="dark:bg-slate-900 dark:border-slate-800">
                     <CardHeader>
                         <div className="flex items-center justify-between">
@@ -371,13 +562,12 @@ export function ChainOfCustody() {
                                 </div>
                                 <div className="space-y-2">
                                     <label className="text-sm font-medium dark:text-slate-200">
-                                        Handler Name *
+                                        Handler
                                     </label>
                                     <Input
-                                        placeholder="Officer name or badge ID"
-                                        value={logHandler}
-                                        onChange={(e) => setLogHandler(e.target.value)}
-                                        className="dark:bg-slate-800 dark:border-slate-700 dark:text-white"
+                                        value={user ? `${user.name} (Badge ${user.badgeNumber})` : ''}
+                                        readOnly
+                                        className="bg-slate-50 dark:bg-slate-800 dark:border-slate-700 dark:text-slate-400"
                                     />
                                 </div>
                                 <div className="space-y-2">
@@ -392,11 +582,50 @@ export function ChainOfCustody() {
                                     />
                                 </div>
                             </div>
+
+                            {!currentPolicyCheck && (
+                                <p className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+                                    <Loader2 className="w-4 h-4 animate-spin" /> Checking custody policy...
+                                </p>
+                            )}
+                            {currentPolicyCheck && !currentPolicyCheck.result && (
+                                <p className="text-sm text-slate-500 dark:text-slate-400">
+                                    Could not check this action against custody policy.
+                                </p>
+                            )}
+                            {currentPolicyCheck?.result && !rejectedStep && (
+                                <p className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+                                    <Check className="w-4 h-4" />
+                                    Allowed by policy "{currentPolicyCheck.result.policy.name}" (v{currentPolicyCheck.result.policy.version})
+                                </p>
+                            )}
+                            {currentPolicyCheck?.result && rejectedStep && (
+                                <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800 dark:border-red-800 dark:bg-red-900/20 dark:text-red-300 space-y-2">
+                                    <p className="flex items-center gap-2 font-medium">
+                                        <AlertTriangle className="w-4 h-4" />
+                                        {rejectedStep.violation}: {rejectedStep.details}
+                                    </p>
+                                    <p>
+                                        {currentPolicyCheck.result.enforced
+                                            ? 'Submitting will be rejected by policy and permanently recorded on-chain as a VIOLATION.'
+                                            : 'Policy enforcement is off, so this will be recorded as-is even though it breaks the custody policy.'}
+                                    </p>
+                                    <label className="flex items-center gap-2">
+                                        <input
+                                            type="checkbox"
+                                            className="h-4 w-4 rounded border-slate-300 dark:border-slate-600"
+                                            checked={!needsAcknowledgement}
+                                            onChange={(e) => setAcknowledgedKey(e.target.checked ? policyCheckKey : '')}
+                                        />
+                                        I understand and want to submit anyway
+                                    </label>
+                                </div>
+                            )}
+
                             <div className="flex justify-end gap-2">
                                 <Button
                                     variant="outline"
                                     onClick={() => {
-                                        setLogHandler('');
                                         setLogDetails('');
                                         setShowLogDialog(false);
                                     }}
@@ -406,8 +635,9 @@ export function ChainOfCustody() {
                                 </Button>
                                 <Button
                                     onClick={handleLogEvent}
-                                    disabled={logging || !logHandler.trim()}
-                                    className="bg-blue-600 hover:bg-blue-700 text-white"
+                                    disabled={logging || needsAcknowledgement}
+                                    variant={rejectedStep ? 'destructive' : 'default'}
+                                    className={rejectedStep ? undefined : 'bg-blue-600 hover:bg-blue-700 text-white'}
                                 >
                                     {logging ? (
                                         <>
@@ -417,7 +647,7 @@ export function ChainOfCustody() {
                                     ) : (
                                         <>
                                             <Plus className="w-4 h-4 mr-2" />
-                                            Log Event
+                                            {rejectedStep ? 'Submit Anyway' : 'Log Event'}
                                         </>
                                     )}
                                 </Button>
@@ -4,15 +4,26 @@ import { Badge } from '../components/ui/Badge';
 import { EvidenceStatusChart } from '../components/charts/EvidenceStatusChart';
 import { EvidenceTrendChart } from '../components/charts/EvidenceTrendChart';
 import { CollectorActivityChart } from '../components/charts/CollectorActivityChart';
+import { ReconciliationCard } from '../components/dashboard/ReconciliationCard';
 import { useEffect, useState } from 'react';
 import { api } from '../utils/api';
+import { useLiveEvent } from '../hooks/useLiveEvent';
+import { useAuth } from '../hooks/useAuth';
 
 export function Dashboard() {
+    const { can } = useAuth();
     const [stats, setStats] = useState<any>(null);
     const [statusData, setStatusData] = useState<any[]>([]);
     const [trendData, setTrendData] = useState<any[]>([]);
     const [collectorData, setCollectorData] = useState<any[]>([]);
     const [loading, setLoading] = useState(true);
+    const [version, setVersion] = useState(0);
+
+    // Any pushed change can move the counters, so refetch everything
+    useLiveEvent(
+        ['alert.created', 'alert.updated', 'custody.logged', 'custody.violation', 'evidence.registered'],
+        () => setVersion(v => v + 1)
+    );
 
     useEffect(() => {
         const fetchAllData = async () => {
@@ -35,7 +46,7 @@ export function Dashboard() {
             }
         };
         fetchAllData();
-    }, []);
+    }, [version]);
 
     return (
         <div className="space-y-8">
@@ -102,7 +113,7 @@ export function Dashboard() {
                     <CardHeader>
                         <CardTitle className="flex items-center gap-2 dark:text-white">
                             <TrendingUp className="w-5 h-5 text-blue-500" />
-                            Evidence Upload Trend
+                            Evidence & Custody Activity
                         </CardTitle>
                     </CardHeader>
                     <CardContent>
@@ -178,6 +189,8 @@ export function Dashboard() {
                     </CardContent>
                 </Card>
             </div>
+
+            {can('audit:read') && <ReconciliationCard />}
         </div>
     );
 }
@@ -6,9 +6,14 @@ import { Input } from '../components/ui/Input';
 import { Button } from '../components/ui/Button';
 import { Select } from '../components/ui/Select';
 import { Dialog } from '../components/ui/Dialog';
-import { Search, ShieldCheck, Download, History } from 'lucide-react';
+import { Search, ShieldCheck, Download, History, FileText, PackageCheck, RotateCw } from 'lucide-react';
 import { api } from '../utils/api';
+import { saveBlob } from '../utils/download';
+import { useAuth } from '../hooks/useAuth';
+import { useToast } from '../components/ui/Toast';
+import { AttestationPanel } from '../components/evidence/AttestationPanel';
 import { AIAnalysisResult } from '../components/evidence/AIAnalysisResult';
+import { useLiveEvent } from '../hooks/useLiveEvent';
 
 export function EvidenceVault() {
     const [search, setSearch] = useState('');
@@ -18,6 +23,11 @@ export function EvidenceVault() {
     const [evidenceList, setEvidenceList] = useState<any[]>([]);
     const [loading, setLoading] = useState(true);
     const [tamperEvents, setTamperEvents] = useState<any[]>([]);
+    const [generatingReport, setGeneratingReport] = useState(false);
+    const [exportingBundle, setExportingBundle] = useState(false);
+    const [retrying, setRetrying] = useState<string | null>(null);
+    const { can } = useAuth();
+    const { addToast } = useToast();
 
     // Debounce search
     useEffect(() => {
@@ -27,8 +37,14 @@ export function EvidenceVault() {
         return () => clearTimeout(timer);
     }, [search, typeFilter, statusFilter]);
 
-    const fetchEvidence = async () => {
-        setLoading(true);
+    // Uploads still waiting for their on-chain ID change state in the background
+    useLiveEvent(['outbox.updated', 'evidence.registered'], (event) => {
+        if (event.type === 'outbox.updated' && event.data.entry.kind !== 'REGISTER_EVIDENCE') return;
+        fetchEvidence(true);
+    });
+
+    const fetchEvidence = async (quiet = false) => {
+        if (!quiet) setLoading(true);
         try {
             const filters = {
                 search: search || undefined,
@@ -40,6 +56,10 @@ export function EvidenceVault() {
 
             const mapped = res.evidence.map((e: any) => ({
                 id: e.evidenceId,
+                pendingId: e.pendingId,
+                batchId: e.batchId,
+                consensus: e.consensus,
+                anchoring: e.anchoring,
                 type: e.evidenceType,
                 source: e.source,
                 collectedBy: e.collectedBy,
@@ -59,6 +79,19 @@ export function EvidenceVault() {
         }
     };
 
+    const handleRetryAnchoring = async (pendingId: string) => {
+        setRetrying(pendingId);
+        try {
+            await api.retryOutboxEntry(pendingId);
+            addToast('Registration queued again', 'success');
+            fetchEvidence(true);
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : 'Failed to retry registration', 'error');
+        } finally {
+            setRetrying(null);
+        }
+    };
+
     const handleDownload = async (id: string) => {
         try {
             const res = await api.getDownloadUrl(id);
@@ -75,6 +108,30 @@ export function EvidenceVault() {
         }
     };
 
+    const handleCourtReport = async (id: string) => {
+        setGeneratingReport(true);
+        try {
+            const { blob, filename } = await api.getIntegrityReport('evidence', id);
+            saveBlob(blob, filename);
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : 'Failed to generate report', 'error');
+        } finally {
+            setGeneratingReport(false);
+        }
+    };
+
+    const handleProofBundle = async (id: string) => {
+        setExportingBundle(true);
+        try {
+            const { blob, filename } = await api.getProofBundle(id);
+            saveBlob(blob, filename);
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : 'Failed to export proof bundle', 'error');
+        } finally {
+            setExportingBundle(false);
+        }
+    };
+
     const handleExportReport = () => {
         if (!evidenceList.length) {
             alert('No evidence to export');
@@ -164,7 +221,9 @@ export function EvidenceVault() {
                             { label: 'All Statuses', value: 'All Statuses' },
                             { label: 'Verified', value: 'verified' },
                             { label: 'Flagged', value: 'flagged' },
-                            { label: 'Breached', value: 'breached' }
+                            { label: 'Disputed', value: 'disputed' },
+                            { label: 'Breached', value: 'breached' },
+                            { label: 'Pending', value: 'pending' }
                         ]}
                         value={statusFilter}
                         onChange={e => setStatusFilter(e.target.value)}
@@ -188,7 +247,27 @@ export function EvidenceVault() {
                         <TableBody>
                             {loading ? (
                                 <TableRow><TableCell colSpan={6} className="text-center py-8">Loading evidence records...</TableCell></TableRow>
-                            ) : evidenceList.map((item) => (
+                            ) : evidenceList.map((item) => item.pendingId ? (
+                                <TableRow key={item.pendingId} className="dark:border-slate-800">
+                                    <TableCell className="font-mono text-xs italic text-slate-400 whitespace-nowrap">Awaiting ID</TableCell>
+                                    <TableCell className="dark:text-slate-300">{item.type}</TableCell>
+                                    <TableCell className="dark:text-slate-300 whitespace-nowrap">{item.source}</TableCell>
+                                    <TableCell className="dark:text-slate-300 whitespace-nowrap">{item.collectedBy}</TableCell>
+                                    <TableCell className="dark:text-slate-300 whitespace-nowrap">{item.date}</TableCell>
+                                    <TableCell>
+                                        <div className="flex items-center gap-2">
+                                            <Badge variant={item.anchoring.status === 'FAILED' ? 'danger' : 'secondary'} title={item.anchoring.lastError || undefined}>
+                                                PENDING · {item.anchoring.status}
+                                            </Badge>
+                                            {item.anchoring.status === 'FAILED' && can('outbox:manage') && (
+                                                <Button variant="ghost" size="sm" onClick={() => handleRetryAnchoring(item.pendingId)} isLoading={retrying === item.pendingId}>
+                                                    <RotateCw className="w-3 h-3 mr-1" /> Retry
+                                                </Button>
+                                            )}
+                                        </div>
+                                    </TableCell>
+                                </TableRow>
+                            ) : (
                                 <TableRow
                                     key={item.id}
                                     className="cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/50 dark:border-slate-800 transition-colors"
@@ -200,9 +279,12 @@ export function EvidenceVault() {
                                     <TableCell className="dark:text-slate-300 whitespace-nowrap">{item.collectedBy}</TableCell>
                                     <TableCell className="dark:text-slate-300 whitespace-nowrap">{item.date}</TableCell>
                                     <TableCell>
-                                        <Badge variant={item.status === 'verified' ? 'success' : item.status === 'flagged' ? 'warning' : 'danger'}>
+                                        <Badge variant={item.status === 'verified' ? 'success' : item.status === 'flagged' || item.status === 'disputed' ? 'warning' : 'danger'}>
                                             {item.status.toUpperCase()}
                                         </Badge>
+                                        {item.consensus && (
+                                            <p className="text-[10px] text-slate-500 dark:text-slate-400 mt-1 whitespace-nowrap">{item.consensus.label}</p>
+                                        )}
                                     </TableCell>
                                 </TableRow>
                             ))}
@@ -276,6 +358,12 @@ export function EvidenceVault() {
                             </div>
                         )}
 
+                        {!selectedEvidence.batchId && (
+                            <div className="pt-2">
+                                <AttestationPanel evidenceId={selectedEvidence.id} />
+                            </div>
+                        )}
+
                         {tamperEvents.length > 0 && (
                             <div className="space-y-3 pt-2">
                                 <span className="text-slate-500 text-xs uppercase tracking-wider flex items-center gap-2">
@@ -300,6 +388,16 @@ export function EvidenceVault() {
                             <Button variant="outline" onClick={() => handleDownload(selectedEvidence.id)}>
                                 <Download className="w-4 h-4 mr-2" /> Download File
                             </Button>
+                            {can('reports:generate') && (
+                                <Button variant="outline" onClick={() => handleCourtReport(selectedEvidence.id)} isLoading={generatingReport}>
+                                    <FileText className="w-4 h-4 mr-2" /> Court Report (PDF)
+                                </Button>
+                            )}
+                            {can('reports:generate') && (
+                                <Button variant="outline" onClick={() => handleProofBundle(selectedEvidence.id)} isLoading={exportingBundle}>
+                                    <PackageCheck className="w-4 h-4 mr-2" /> Proof Bundle
+                                </Button>
+                            )}
                             <Button onClick={() => {
                                 const proof = {
                                     evidenceId: selectedEvidence.id,
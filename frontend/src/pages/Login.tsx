@@ -1,28 +1,43 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/Card';
 import { Input } from '../components/ui/Input';
 import { Button } from '../components/ui/Button';
 import { useToast } from '../components/ui/Toast';
+import { useAuth } from '../hooks/useAuth';
 import { ShieldCheck, Lock } from 'lucide-react';
 
 export function Login() {
     const [loading, setLoading] = useState(false);
+    const [badgeId, setBadgeId] = useState('');
+    const [password, setPassword] = useState('');
     const navigate = useNavigate();
+    const location = useLocation();
     const { addToast } = useToast();
+    const { user, login } = useAuth();
 
-    const handleLogin = (e: React.FormEvent) => {
+    const from = (location.state as { from?: { pathname: string } } | null)?.from?.pathname || '/';
+
+    const handleLogin = async (e: React.FormEvent) => {
         e.preventDefault();
         setLoading(true);
 
-        // Simulate API call
-        setTimeout(() => {
+        try {
+            const signedIn = await login(badgeId.trim(), password);
+            addToast(`Welcome back, ${signedIn.role} ${signedIn.name}.`, "success");
+            navigate(from, { replace: true });
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : "Login failed", "error");
+            setPassword('');
+        } finally {
             setLoading(false);
-            addToast("Welcome back, Officer.", "success");
-            navigate('/');
-        }, 1500);
+        }
     };
 
+    if (user) {
+        return <Navigate to={from} replace />;
+    }
+
     return (
         <div className="min-h-screen bg-slate-100 dark:bg-black flex items-center justify-center p-4">
             <Card className="w-full max-w-md border-0 shadow-lg bg-white dark:bg-slate-900">
@@ -40,14 +55,29 @@ export function Login() {
                         <div className="space-y-2">
                             <label className="text-sm font-medium text-slate-700 dark:text-slate-300">Badge ID</label>
                             <div className="relative">
-                                <Input placeholder="Enter your badge ID..." className="pl-10" required />
+                                <Input
+                                    placeholder="Enter your badge ID..."
+                                    className="pl-10"
+                                    autoComplete="username"
+                                    value={badgeId}
+                                    onChange={e => setBadgeId(e.target.value)}
+                                    required
+                                />
                                 <ShieldCheck className="w-4 h-4 absolute left-3 top-3 text-slate-400" />
                             </div>
                         </div>
                         <div className="space-y-2">
                             <label className="text-sm font-medium text-slate-700 dark:text-slate-300">Secure Password</label>
                             <div className="relative">
-                                <Input type="password" placeholder="••••••••" className="pl-10" required />
+                                <Input
+                                    type="password"
+                                    placeholder="••••••••"
+                                    className="pl-10"
+                                    autoComplete="current-password"
+                                    value={password}
+                                    onChange={e => setPassword(e.target.value)}
+                                    required
+                                />
                                 <Lock className="w-4 h-4 absolute left-3 top-3 text-slate-400" />
                             </div>
                         </div>
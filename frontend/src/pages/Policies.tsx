@@ -0,0 +1,409 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from '../components/ui/Card';
+import { Badge } from '../components/ui/Badge';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Select } from '../components/ui/Select';
+import { ArrowDown, ArrowUp, Archive, Loader2, Plus, Save, ScrollText, X } from 'lucide-react';
+import { api } from '../utils/api';
+import { useToast } from '../components/ui/Toast';
+import type { CustodyPolicy, CustodyPolicyRules, CustodyRole, PolicyAssignment, PolicyScopeType } from '../types';
+
+const CUSTODY_ROLES: CustodyRole[] = ['COLLECTOR', 'FORENSIC_ANALYST', 'DETECTIVE', 'COURT_CLERK'];
+
+const SCOPE_LABELS: Record<PolicyScopeType, string> = {
+    CASE: 'Case',
+    EVIDENCE_TYPE: 'Evidence type'
+};
+
+const EMPTY_RULES: CustodyPolicyRules = {
+    allowedRoles: [...CUSTODY_ROLES],
+    actionRoles: {},
+    requiredOrder: ['COLLECTED', 'SEALED', 'ANALYZED', 'VERIFIED'],
+    allowedSkips: [],
+    maxAccessDurationHours: 48,
+    noParallelAccess: true
+};
+
+interface Draft {
+    policyId: string | null;
+    name: string;
+    description: string;
+    rules: CustodyPolicyRules;
+}
+
+const toDraft = (policy: CustodyPolicy): Draft => ({
+    policyId: policy.policyId,
+    name: policy.name,
+    description: policy.description || '',
+    rules: { ...policy.rules }
+});
+
+const checkboxClass = 'w-4 h-4 rounded border-slate-300 text-brand-blue focus:ring-brand-blue';
+
+export function Policies() {
+    const { addToast } = useToast();
+    const [policies, setPolicies] = useState<CustodyPolicy[]>([]);
+    const [assignments, setAssignments] = useState<PolicyAssignment[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [version, setVersion] = useState(0);
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [history, setHistory] = useState<CustodyPolicy[]>([]);
+    const [newStep, setNewStep] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [scopeType, setScopeType] = useState<PolicyScopeType>('CASE');
+    const [scopeValue, setScopeValue] = useState('');
+    const [assignPolicyId, setAssignPolicyId] = useState('');
+
+    useEffect(() => {
+        api.getPolicies()
+            .then(data => {
+                setPolicies(data.policies);
+                setAssignments(data.assignments);
+            })
+            .catch(error => console.error('Failed to fetch policies:', error))
+            .finally(() => setLoading(false));
+    }, [version]);
+
+    const selectPolicy = async (policyId: string) => {
+        try {
+            const data = await api.getPolicy(policyId);
+            setDraft(toDraft(data.policy));
+            setHistory(data.versions);
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : 'Failed to load policy', 'error');
+        }
+    };
+
+    const startNewPolicy = () => {
+        setDraft({ policyId: null, name: '', description: '', rules: { ...EMPTY_RULES } });
+        setHistory([]);
+    };
+
+    const updateRules = (change: Partial<CustodyPolicyRules>) => {
+        setDraft(prev => (prev ? { ...prev, rules: { ...prev.rules, ...change } } : prev));
+    };
+
+    const toggle = <T extends string>(list: T[], value: T) =>
+        (list.includes(value) ? list.filter(item => item !== value) : [...list, value]);
+
+    const moveStep = (index: number, offset: number) => {
+        if (!draft) return;
+        const order = [...draft.rules.requiredOrder];
+        const [step] = order.splice(index, 1);
+        order.splice(index + offset, 0, step);
+        updateRules({ requiredOrder: order });
+    };
+
+    const removeStep = (step: string) => {
+        if (!draft) return;
+        updateRules({
+            requiredOrder: draft.rules.requiredOrder.filter(s => s !== step),
+            allowedSkips: draft.rules.allowedSkips.filter(s => s !== step)
+        });
+    };
+
+    const addStep = () => {
+        const step = newStep.trim().toUpperCase().replace(/[^A-Z_]+/g, '_');
+        if (!draft || !step) return;
+        if (draft.rules.requiredOrder.includes(step)) {
+            addToast(`${step} is already in the order.`, 'error');
+            return;
+        }
+        updateRules({ requiredOrder: [...draft.rules.requiredOrder, step] });
+        setNewStep('');
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        if (!draft.name.trim()) {
+            addToast('Please give the policy a name.', 'error');
+            return;
+        }
+        setSaving(true);
+        try {
+            const data = await api.savePolicy(draft.policyId, {
+                name: draft.name,
+                description: draft.description,
+                rules: draft.rules
+            });
+            addToast(`Saved ${data.policy.name} as version ${data.policy.version}.`, 'success');
+            await selectPolicy(data.policy.policyId);
+            setVersion(v => v + 1);
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : 'Failed to save policy', 'error');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleArchive = async () => {
+        if (!draft?.policyId) return;
+        try {
+            await api.archivePolicy(draft.policyId);
+            addToast(`Archived ${draft.name}.`, 'success');
+            setDraft(null);
+            setVersion(v => v + 1);
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : 'Failed to archive policy', 'error');
+        }
+    };
+
+    const handleAssign = async () => {
+        if (!scopeValue.trim() || !assignPolicyId) {
+            addToast('Choose a policy and enter a case ID or evidence type.', 'error');
+            return;
+        }
+        try {
+            await api.assignPolicy(scopeType, scopeValue.trim(), assignPolicyId);
+            addToast(`${SCOPE_LABELS[scopeType]} ${scopeValue.trim()} now uses ${assignPolicyId}.`, 'success');
+            setScopeValue('');
+            setVersion(v => v + 1);
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : 'Failed to assign policy', 'error');
+        }
+    };
+
+    const handleUnassign = async (assignment: PolicyAssignment) => {
+        try {
+            await api.unassignPolicy(assignment.scopeType, assignment.scopeValue);
+            addToast('Assignment removed.', 'success');
+            setVersion(v => v + 1);
+        } catch (error) {
+            addToast(error instanceof Error ? error.message : 'Failed to remove assignment', 'error');
+        }
+    };
+
+    const policyName = (policyId: string) => policies.find(p => p.policyId === policyId)?.name || policyId;
+
+    if (loading) {
+        return (
+            <div className="flex flex-col items-center justify-center py-20">
+                <Loader2 className="w-8 h-8 text-blue-500 animate-spin mb-4" />
+                <p className="text-slate-500">Loading custody policies...</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+                <div>
+                    <h2 className="text-3xl font-bold tracking-tight text-slate-900 dark:text-white">Custody Policies</h2>
+                    <p className="text-slate-500 dark:text-slate-400 mt-2">Rules the policy engine enforces, per case or evidence type.</p>
+                </div>
+                <Button onClick={startNewPolicy} className="gap-2">
+                    <Plus className="w-4 h-4" /> New Policy
+                </Button>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="space-y-3">
+                    {policies.map(policy => (
+                        <Card
+                            key={policy.policyId}
+                            className={`cursor-pointer transition-colors dark:bg-slate-900 dark:border-slate-800 ${draft?.policyId === policy.policyId ? 'ring-2 ring-brand-blue' : ''}`}
+                            onClick={() => selectPolicy(policy.policyId)}
+                        >
+                            <CardContent className="p-4">
+                                <div className="flex items-start justify-between gap-2">
+                                    <div className="min-w-0">
+                                        <h3 className="font-semibold text-slate-900 dark:text-white truncate">{policy.name}</h3>
+                                        <p className="text-xs font-mono text-slate-400">{policy.policyId}</p>
+                                    </div>
+                                    <Badge variant="outline" className="dark:border-slate-700 dark:text-slate-300">v{policy.version}</Badge>
+                                </div>
+                                <p className="text-xs text-slate-500 mt-2">
+                                    {policy.rules.requiredOrder.join(' → ')}
+                                </p>
+                                <p className="text-xs text-slate-500 mt-1">
+                                    {assignments.filter(a => a.policyId === policy.policyId).length} assignments
+                                </p>
+                            </CardContent>
+                        </Card>
+                    ))}
+                </div>
+
+                <div className="lg:col-span-2">
+                    {draft ? (
+                        <Card className="dark:bg-slate-900 dark:border-slate-800">
+                            <CardContent className="p-6 space-y-6">
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    <div className="space-y-2">
+                                        <label className="text-sm font-medium text-slate-700 dark:text-slate-300">Name</label>
+                                        <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Homicide" />
+                                    </div>
+                                    <div className="space-y-2">
+                                        <label className="text-sm font-medium text-slate-700 dark:text-slate-300">Max access duration (hours)</label>
+                                        <Input
+                                            type="number"
+                                            min={1}
+                                            value={draft.rules.maxAccessDurationHours}
+                                            onChange={(e) => updateRules({ maxAccessDurationHours: Number(e.target.value) })}
+                                        />
+                                    </div>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium text-slate-700 dark:text-slate-300">Description</label>
+                                    <Input value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} placeholder="When this policy applies" />
+                                </div>
+
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium text-slate-700 dark:text-slate-300">Required order</label>
+                                    <ol className="space-y-2">
+                                        {draft.rules.requiredOrder.map((step, index) => (
+                                            <li key={step} className="flex items-center gap-2 rounded-xl bg-slate-50 dark:bg-slate-800/50 px-3 py-2">
+                                                <span className="text-xs text-slate-400 w-5">{index + 1}.</span>
+                                                <span className="font-mono text-sm flex-1 dark:text-white">{step}</span>
+                                                <label className="flex items-center gap-1 text-xs text-slate-500">
+                                                    <input
+                                                        type="checkbox"
+                                                        className={checkboxClass}
+                                                        checked={draft.rules.allowedSkips.includes(step)}
+                                                        onChange={() => updateRules({ allowedSkips: toggle(draft.rules.allowedSkips, step) })}
+                                                    />
+                                                    May be skipped
+                                                </label>
+                                                <Button size="icon" variant="ghost" disabled={index === 0} onClick={() => moveStep(index, -1)} aria-label={`Move ${step} up`}>
+                                                    <ArrowUp className="w-4 h-4" />
+                                                </Button>
+                                                <Button size="icon" variant="ghost" disabled={index === draft.rules.requiredOrder.length - 1} onClick={() => moveStep(index, 1)} aria-label={`Move ${step} down`}>
+                                                    <ArrowDown className="w-4 h-4" />
+                                                </Button>
+                                                <Button size="icon" variant="ghost" onClick={() => removeStep(step)} aria-label={`Remove ${step}`}>
+                                                    <X className="w-4 h-4" />
+                                                </Button>
+                                            </li>
+                                        ))}
+                                    </ol>
+                                    <div className="flex gap-2">
+                                        <Input
+                                            value={newStep}
+                                            onChange={(e) => setNewStep(e.target.value)}
+                                            onKeyDown={(e) => { if (e.key === 'Enter') addStep(); }}
+                                            placeholder="Add step, e.g. PHOTOGRAPHED"
+                                        />
+                                        <Button variant="outline" onClick={addStep}>Add</Button>
+                                    </div>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium text-slate-700 dark:text-slate-300">Custody roles allowed to log events</label>
+                                    <div className="flex flex-wrap gap-4">
+                                        {CUSTODY_ROLES.map(role => (
+                                            <label key={role} className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                                                <input
+                                                    type="checkbox"
+                                                    className={checkboxClass}
+                                                    checked={draft.rules.allowedRoles.includes(role)}
+                                                    onChange={() => updateRules({ allowedRoles: toggle(draft.rules.allowedRoles, role) })}
+                                                />
+                                                {role}
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                                    <input
+                                        type="checkbox"
+                                        className={checkboxClass}
+                                        checked={draft.rules.noParallelAccess}
+                                        onChange={(e) => updateRules({ noParallelAccess: e.target.checked })}
+                                    />
+                                    No parallel access (only the current holder may log further events)
+                                </label>
+
+                                <div className="flex flex-wrap justify-end gap-2 pt-2 border-t border-slate-100 dark:border-slate-800">
+                                    {draft.policyId && draft.policyId !== 'default' && (
+                                        <Button variant="ghost" className="gap-2 text-red-600" onClick={handleArchive}>
+                                            <Archive className="w-4 h-4" /> Archive
+                                        </Button>
+                                    )}
+                                    <Button onClick={handleSave} isLoading={saving} className="gap-2">
+                                        <Save className="w-4 h-4" /> {draft.policyId ? 'Save as new version' : 'Create policy'}
+                                    </Button>
+                                </div>
+
+                                {history.length > 0 && (
+                                    <div className="space-y-2">
+                                        <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300">Version history</h4>
+                                        <ol className="border-l-2 border-slate-200 dark:border-slate-700 pl-4 space-y-2">
+                                            {history.map(entry => (
+                                                <li key={entry.version} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                                                    <span className="text-slate-700 dark:text-slate-200">
+                                                        v{entry.version} by {entry.createdBy.name}
+                                                        <span className="text-xs text-slate-400 font-mono ml-2">{new Date(entry.createdAt).toLocaleString()}</span>
+                                                    </span>
+                                                    <Button size="sm" variant="ghost" onClick={() => setDraft({ ...toDraft(entry), policyId: draft.policyId })}>
+                                                        Load into editor
+                                                    </Button>
+                                                </li>
+                                            ))}
+                                        </ol>
+                                    </div>
+                                )}
+                            </CardContent>
+                        </Card>
+                    ) : (
+                        <div className="text-center py-12 border-2 border-dashed border-slate-200 dark:border-slate-800 rounded-lg">
+                            <ScrollText className="w-12 h-12 text-slate-300 mx-auto mb-4" />
+                            <p className="text-slate-500">Select a policy to edit, or create a new one.</p>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <Card className="dark:bg-slate-900 dark:border-slate-800">
+                <CardContent className="p-6 space-y-4">
+                    <div>
+                        <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Assignments</h3>
+                        <p className="text-sm text-slate-500">A case assignment takes precedence over an evidence type; everything else uses the default policy.</p>
+                    </div>
+                    <div className="flex flex-col sm:flex-row gap-2">
+                        <Select
+                            className="sm:w-44"
+                            value={scopeType}
+                            onChange={(e) => setScopeType(e.target.value as PolicyScopeType)}
+                            options={Object.entries(SCOPE_LABELS).map(([value, label]) => ({ label, value }))}
+                        />
+                        <Input
+                            value={scopeValue}
+                            onChange={(e) => setScopeValue(e.target.value)}
+                            placeholder={scopeType === 'CASE' ? 'Case ID, e.g. CASE-2024-001' : 'Evidence type, e.g. Video'}
+                        />
+                        <Select
+                            className="sm:w-56"
+                            value={assignPolicyId}
+                            onChange={(e) => setAssignPolicyId(e.target.value)}
+                            options={policies.map(p => ({ label: p.name, value: p.policyId }))}
+                            placeholder="Policy..."
+                        />
+                        <Button onClick={handleAssign}>Assign</Button>
+                    </div>
+                    {assignments.length > 0 ? (
+                        <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+                            {assignments.map(assignment => (
+                                <li key={`${assignment.scopeType}:${assignment.scopeValue}`} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+                                    <span className="text-slate-700 dark:text-slate-200">
+                                        <Badge variant="secondary" className="mr-2">{SCOPE_LABELS[assignment.scopeType]}</Badge>
+                                        <span className="font-mono">{assignment.scopeValue}</span> → {policyName(assignment.policyId)}
+                                    </span>
+                                    <span className="flex items-center gap-2 text-xs text-slate-400">
+                                        by {assignment.assignedBy.name}
+                                        <Button size="icon" variant="ghost" onClick={() => handleUnassign(assignment)} aria-label="Remove assignment">
+                                            <X className="w-4 h-4" />
+                                        </Button>
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="text-sm text-slate-500">No assignments yet.</p>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -1,27 +1,70 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/Card';
 import { AIAnalysisResult } from '../components/evidence/AIAnalysisResult';
 import { Button } from '../components/ui/Button';
 import { Input } from '../components/ui/Input';
+import { Badge } from '../components/ui/Badge';
 import { useToast } from '../components/ui/Toast';
-import { Upload, FileText, CheckCircle, Loader2, X } from 'lucide-react';
+import { Upload, FileText, CheckCircle, Loader2, X, RotateCw, AlertTriangle } from 'lucide-react';
 import { api } from '../utils/api';
+import { hasResumableUpload, uploadInChunks, type UploadProgress } from '../utils/chunkedUpload';
+import { useFileHash } from '../hooks/useFileHash';
+import { HashProgress } from '../components/evidence/HashProgress';
+import { BatchUpload } from '../components/evidence/BatchUpload';
+import { useLiveEvent } from '../hooks/useLiveEvent';
+import type { CaseSummary, OutboxEntry } from '../types';
 
+// The pre-upload AI preview sends the whole file in one request, so it is skipped for large files
+const MAX_PREVIEW_ANALYSIS_BYTES = 100 * 1024 * 1024;
 
 export function UploadEvidence() {
     const [uploading, setUploading] = useState(false);
     const [step, setStep] = useState(1);
     const [file, setFile] = useState<File | null>(null);
+    // Several files picked at once are registered together under one Merkle root
+    const [batchFiles, setBatchFiles] = useState<File[]>([]);
     const [caseId, setCaseId] = useState('');
     const [evidenceType, setEvidenceType] = useState('');
     const [collectedBy, setCollectedBy] = useState('');
     const [uploadResult, setUploadResult] = useState<any>(null);
     const [aiAnalysis, setAiAnalysis] = useState<any>(null);
+    const [openCases, setOpenCases] = useState<CaseSummary[]>([]);
+    const [progress, setProgress] = useState<UploadProgress | null>(null);
+    const [interrupted, setInterrupted] = useState(false);
+    // The queued registration while the server waits for it to be mined
+    const [anchoring, setAnchoring] = useState<OutboxEntry | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const fileHash = useFileHash(file);
     const { addToast } = useToast();
 
+    // Evidence can only be registered against an open case
+    useEffect(() => {
+        api.getCases('OPEN')
+            .then(data => setOpenCases(data.cases))
+            .catch(error => console.error('Failed to fetch cases:', error));
+    }, []);
+
+    // Keep whichever copy of the entry is newest; the fetch and the live event can arrive in either order
+    const trackAnchoring = (entry: OutboxEntry) => {
+        setAnchoring(current => !current || current.id !== entry.id || entry.updatedAt >= current.updatedAt ? entry : current);
+    };
+
+    useLiveEvent(['outbox.updated'], (event) => {
+        if (event.type === 'outbox.updated' && event.data.entry.id === anchoring?.id) {
+            trackAnchoring(event.data.entry);
+        }
+    });
+
+    const matchedCase = openCases.find(c => c.caseNumber === caseId.trim());
+    const caseError = caseId.trim() && !matchedCase
+        ? `No open case ${caseId.trim()}; open it on the Cases page first`
+        : undefined;
+
     const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
+        if (e.target.files && e.target.files.length > 1) {
+            setBatchFiles(Array.from(e.target.files));
+            setStep(2);
+        } else if (e.target.files && e.target.files[0]) {
             setFile(e.target.files[0]);
             setStep(2);
         }
@@ -29,7 +72,11 @@ export function UploadEvidence() {
 
     const clearFile = () => {
         setFile(null);
+        setBatchFiles([]);
         setStep(1);
+        setProgress(null);
+        setInterrupted(false);
+        setAnchoring(null);
         if (fileInputRef.current) fileInputRef.current.value = '';
     };
 
@@ -38,37 +85,66 @@ export function UploadEvidence() {
             addToast("Case ID is required", "error");
             return;
         }
+        if (caseError) {
+            addToast(caseError, "error");
+            return;
+        }
+        if (!fileHash.hash) {
+            addToast("Wait for the file's SHA-256 to finish computing", "error");
+            return;
+        }
 
         setUploading(true);
+        setInterrupted(false);
         try {
             // 1. Run AI Analysis first (optional feature demo)
-            try {
-                const analysisRes = await api.analyzeRisk(file);
-                setAiAnalysis(analysisRes.analysis);
-            } catch (e) {
-                console.warn("AI analysis bypassed or failed");
+            if (!aiAnalysis && file.size <= MAX_PREVIEW_ANALYSIS_BYTES) {
+                try {
+                    const analysisRes = await api.analyzeRisk(file);
+                    setAiAnalysis(analysisRes.analysis);
+                } catch (e) {
+                    console.warn("AI analysis bypassed or failed");
+                }
             }
 
-            // 2. Perform real blockchain registration
-            const formData = new FormData();
-            formData.append('file', file);
-            formData.append('caseId', caseId);
-            formData.append('evidenceType', evidenceType || file.type.split('/')[0]);
-            formData.append('source', 'Web Portal');
-            formData.append('collectedBy', collectedBy || 'Unknown Collector');
-
-            const result = await api.registerEvidence(formData);
+            // 2. Send the file in chunks, then register it on the blockchain.
+            // The server hashes the chunks as they arrive and rejects the upload if its digest differs from ours.
+            const result = await uploadInChunks(file, fileHash.hash, {
+                caseId: caseId.trim(),
+                evidenceType: evidenceType || file.type.split('/')[0],
+                source: 'Web Portal',
+                collectedBy: collectedBy || 'Unknown Collector'
+            }, setProgress);
 
             setUploadResult(result);
             setUploading(false);
             setStep(3);
-            addToast("Evidence successfully anchored to blockchain", "success");
+            if (result.pending) {
+                // Catch up on anything that happened before this page started listening
+                setAnchoring(result.outbox);
+                api.getOutboxEntry(result.outbox.id)
+                    .then(trackAnchoring)
+                    .catch(error => console.error('Failed to fetch anchoring status:', error));
+                addToast("Evidence received; anchoring to blockchain", "info");
+            } else {
+                addToast("Evidence successfully anchored to blockchain", "success");
+            }
         } catch (error: any) {
             setUploading(false);
+            // What the server already stored is kept, so the same file can carry on from there
+            setInterrupted(!!file && !!fileHash.hash && hasResumableUpload(file, fileHash.hash));
             addToast(error.message || "Upload failed", "error");
         }
     };
 
+    // Also true when a file interrupted in an earlier visit is picked again
+    const resumable = interrupted || (!!file && !!fileHash.hash && hasResumableUpload(file, fileHash.hash));
+    const percentSent = progress && progress.total ? Math.floor((progress.sent / progress.total) * 100) : 0;
+    const anchorFailed = anchoring?.status === 'FAILED';
+    const anchorPending = !!anchoring && !anchorFailed && anchoring.status !== 'CONFIRMED';
+    const evidenceId = anchoring ? anchoring.result?.evidenceId : uploadResult?.evidence.id;
+    const txHash: string | null | undefined = anchoring ? anchoring.txHash : uploadResult?.blockchain.txHash;
+
     return (
         <div className="max-w-3xl mx-auto space-y-8">
             <div>
@@ -87,12 +163,13 @@ export function UploadEvidence() {
                             className="hidden"
                             ref={fileInputRef}
                             onChange={handleFileSelect}
+                            multiple
                         />
                         <div className="mx-auto w-12 h-12 bg-slate-100 dark:bg-slate-800 group-hover:bg-slate-200 dark:group-hover:bg-slate-700 transition-colors rounded-full flex items-center justify-center mb-4">
                             <Upload className="w-6 h-6 text-slate-600 dark:text-slate-400" />
                         </div>
                         <h3 className="text-lg font-medium text-slate-900 dark:text-white">Drag & drop evidence files here</h3>
-                        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">or click to browse from secure device</p>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">or click to browse from secure device; select several to register them as one batch</p>
                         <div className="mt-6 flex justify-center gap-4 text-xs text-slate-400 dark:text-slate-500">
                             <span className="flex items-center"><FileText className="w-3 h-3 mr-1" /> SHA-256 Hashing</span>
                             <span className="flex items-center"><FileText className="w-3 h-3 mr-1" /> Auto-Encryption</span>
@@ -100,7 +177,11 @@ export function UploadEvidence() {
                     </Card>
                 )}
 
-                {step === 2 && (
+                {step === 2 && batchFiles.length > 0 && (
+                    <BatchUpload files={batchFiles} openCases={openCases} onCancel={clearFile} />
+                )}
+
+                {step === 2 && batchFiles.length === 0 && (
                     <Card className="animate-in fade-in slide-in-from-bottom-4 duration-300 dark:bg-slate-900 dark:border-slate-800">
                         <CardHeader className="flex flex-row items-center justify-between">
                             <CardTitle className="dark:text-white">Metadata Entry</CardTitle>
@@ -113,7 +194,10 @@ export function UploadEvidence() {
                                 </div>
                                 <div className="flex-1 overflow-hidden">
                                     <p className="text-sm font-medium text-slate-900 dark:text-white truncate">{file?.name}</p>
-                                    <p className="text-xs text-slate-500 dark:text-slate-400">{(file?.size || 0 / 1024 / 1024).toFixed(2)} MB • Ready to Hash</p>
+                                    <p className="text-xs text-slate-500 dark:text-slate-400">{((file?.size || 0) / 1024 / 1024).toFixed(2)} MB • {fileHash.hash ? 'Hashed' : 'Hashing'}</p>
+                                    <div className="mt-2">
+                                        <HashProgress {...fileHash} />
+                                    </div>
                                 </div>
                             </div>
 
@@ -125,7 +209,15 @@ export function UploadEvidence() {
                                         className="dark:bg-slate-800 dark:border-slate-700 dark:text-white"
                                         value={caseId}
                                         onChange={e => setCaseId(e.target.value)}
+                                        list="open-cases"
+                                        error={caseError}
                                     />
+                                    <datalist id="open-cases">
+                                        {openCases.map(c => <option key={c.caseNumber} value={c.caseNumber}>{c.title}</option>)}
+                                    </datalist>
+                                    {matchedCase && (
+                                        <p className="text-xs text-slate-500 dark:text-slate-400">{matchedCase.title} · lead {matchedCase.leadInvestigator.name}</p>
+                                    )}
                                 </div>
                                 <div className="space-y-2">
                                     <label className="text-sm font-medium dark:text-slate-200">Evidence Type</label>
@@ -163,12 +255,40 @@ export function UploadEvidence() {
                                     <strong>Immutable Action:</strong> Uploading will permanently record the file's hash on the blockchain. Ensure all metadata is correct.
                                 </div>
                             </div>
+                            {progress && (
+                                <div className="space-y-1">
+                                    <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400">
+                                        <span>
+                                            {progress.sent < progress.total
+                                                ? `Sending ${(progress.sent / 1024 / 1024).toFixed(1)} of ${(progress.total / 1024 / 1024).toFixed(1)} MB`
+                                                : 'File received; anchoring on the blockchain...'}
+                                        </span>
+                                        <span>{percentSent}%</span>
+                                    </div>
+                                    <div className="h-2 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+                                        <div
+                                            className={`h-full transition-all ${interrupted ? 'bg-amber-500' : 'bg-blue-500'}`}
+                                            style={{ width: `${percentSent}%` }}
+                                        />
+                                    </div>
+                                    {interrupted && (
+                                        <p className="text-xs text-amber-700 dark:text-amber-300">
+                                            Upload interrupted. The server kept what it received; resume to send the rest.
+                                        </p>
+                                    )}
+                                </div>
+                            )}
                             <div className="flex justify-end pt-2">
-                                <Button onClick={handleUpload} disabled={uploading}>
+                                <Button onClick={handleUpload} disabled={uploading || !!caseError || !fileHash.hash}>
                                     {uploading ? (
                                         <>
                                             <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                            Hashing & Anchoring...
+                                            Uploading & Anchoring...
+                                        </>
+                                    ) : resumable ? (
+                                        <>
+                                            <RotateCw className="mr-2 h-4 w-4" />
+                                            Resume Upload
                                         </>
                                     ) : (
                                         "Generate Cryptographic Proof"
@@ -183,16 +303,41 @@ export function UploadEvidence() {
                     <Card className="border-emerald-200 dark:border-emerald-800 bg-emerald-50 dark:bg-emerald-950/30 animate-in zoom-in-95">
                         <CardContent className="pt-8 text-center space-y-6">
                             <div className="mx-auto w-20 h-20 bg-emerald-100 rounded-full flex items-center justify-center shadow-sm">
-                                <CheckCircle className="w-10 h-10 text-emerald-600" />
-                            </div>
-                            <div>
-                                <h3 className="text-2xl font-bold text-emerald-900 dark:text-emerald-100">Evidence Anchored Successfully</h3>
-                                <p className="text-emerald-700 dark:text-emerald-300 mt-2">Transaction #{uploadResult?.blockchain.txHash.substring(0, 10)}... confirmed on blockchain.</p>
+                                {anchorFailed ? (
+                                    <AlertTriangle className="w-10 h-10 text-red-600" />
+                                ) : anchorPending ? (
+                                    <Loader2 className="w-10 h-10 text-emerald-600 animate-spin" />
+                                ) : (
+                                    <CheckCircle className="w-10 h-10 text-emerald-600" />
+                                )}
                             </div>
+                            {anchorFailed ? (
+                                <div>
+                                    <h3 className="text-2xl font-bold text-red-700 dark:text-red-300">Anchoring Failed</h3>
+                                    <p className="text-red-600 dark:text-red-400 mt-2">{anchoring?.lastError}</p>
+                                    <p className="text-emerald-700 dark:text-emerald-300 mt-2 text-sm">The file is stored; an administrator can retry the registration from the Evidence Vault.</p>
+                                </div>
+                            ) : anchorPending ? (
+                                <div>
+                                    <h3 className="text-2xl font-bold text-emerald-900 dark:text-emerald-100">Evidence Received</h3>
+                                    <p className="text-emerald-700 dark:text-emerald-300 mt-2">Waiting for the registration to be mined; you can leave this page and it will carry on.</p>
+                                    <div className="flex justify-center gap-2 mt-3">
+                                        <Badge variant="warning">{anchoring?.status}</Badge>
+                                        {!!anchoring?.attempts && <Badge variant="secondary">{anchoring.attempts} failed attempt{anchoring.attempts === 1 ? '' : 's'}</Badge>}
+                                        {!!anchoring?.gasBumps && <Badge variant="secondary">Fee raised {anchoring.gasBumps}×</Badge>}
+                                    </div>
+                                    {anchoring?.lastError && <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">Last error: {anchoring.lastError}</p>}
+                                </div>
+                            ) : (
+                                <div>
+                                    <h3 className="text-2xl font-bold text-emerald-900 dark:text-emerald-100">Evidence Anchored Successfully</h3>
+                                    <p className="text-emerald-700 dark:text-emerald-300 mt-2">Transaction #{txHash?.substring(0, 10)}... confirmed on blockchain.</p>
+                                </div>
+                            )}
                             <div className="bg-white/60 dark:bg-slate-800/60 p-6 rounded-lg text-left text-xs font-mono space-y-3 border border-emerald-100 dark:border-emerald-800 max-w-lg mx-auto shadow-sm">
                                 <div className="flex justify-between border-b border-emerald-100 dark:border-emerald-800 pb-2">
                                     <span className="text-slate-500 dark:text-slate-400">Evidence ID:</span>
-                                    <span className="text-slate-900 dark:text-white font-bold">{uploadResult?.evidence.id}</span>
+                                    <span className="text-slate-900 dark:text-white font-bold">{evidenceId || 'Assigned once mined'}</span>
                                 </div>
                                 <div className="flex justify-between border-b border-emerald-100 dark:border-emerald-800 pb-2">
                                     <span className="text-slate-500 dark:text-slate-400">File Name:</span>
@@ -204,7 +349,7 @@ export function UploadEvidence() {
                                 </div>
                                 <div className="flex justify-between">
                                     <span className="text-slate-500 dark:text-slate-400">TxID:</span>
-                                    <span className="text-slate-900 dark:text-white truncate ml-4">{uploadResult?.blockchain.txHash}</span>
+                                    <span className="text-slate-900 dark:text-white truncate ml-4">{txHash || 'Not sent yet'}</span>
                                 </div>
                                 <div className="flex justify-between pt-2 border-t border-emerald-100 dark:border-emerald-800">
                                     <span className="text-slate-500 dark:text-slate-400">Timestamp:</span>
@@ -1,18 +1,143 @@
 import { useState, useEffect } from 'react';
-import { Card, CardContent } from '../components/ui/Card';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
+import { Badge } from '../components/ui/Badge';
+import { Input } from '../components/ui/Input';
 import { Select } from '../components/ui/Select';
-import { ShieldCheck, ShieldAlert, FileSearch, CheckCircle2, Loader2, Upload } from 'lucide-react';
+import { ShieldCheck, ShieldAlert, FileSearch, CheckCircle2, Loader2, Upload, PackageCheck, Eye } from 'lucide-react';
 import { api } from '../utils/api';
 import { useToast } from '../components/ui/Toast';
+import { useAuth } from '../hooks/useAuth';
+import { useFileHash } from '../hooks/useFileHash';
+import { HashProgress } from '../components/evidence/HashProgress';
+import { AttestationPanel } from '../components/evidence/AttestationPanel';
+import type { EvidenceCheck, ProofBundleVerification, ProofCheckStatus } from '../types';
+
+const CHECK_BADGES: Record<ProofCheckStatus, 'success' | 'danger' | 'secondary'> = {
+    PASS: 'success',
+    FAIL: 'danger',
+    SKIPPED: 'secondary',
+};
+
+/**
+ * Check an exported proof bundle against a file, which is hashed locally and
+ * never uploaded. The same checks run without this server using
+ * `npm run verify-proof-bundle` and any RPC node.
+ */
+function ProofBundlePanel() {
+    const [bundle, setBundle] = useState<File | null>(null);
+    const [file, setFile] = useState<File | null>(null);
+    const [checking, setChecking] = useState(false);
+    const [result, setResult] = useState<ProofBundleVerification | null>(null);
+    const fileHash = useFileHash(file);
+    const { addToast } = useToast();
+
+    const handleCheck = async () => {
+        if (!bundle) return;
+        setChecking(true);
+        try {
+            setResult(await api.verifyProofBundle(bundle, fileHash.hash));
+        } catch (error) {
+            setResult(null);
+            addToast(error instanceof Error ? error.message : 'Failed to verify proof bundle', 'error');
+        } finally {
+            setChecking(false);
+        }
+    };
+
+    const pickers = [
+        { id: 'proof-bundle-upload', label: 'Proof Bundle (.json)', value: bundle, accept: 'application/json,.json', onChange: setBundle },
+        { id: 'proof-file-upload', label: 'Evidence File (optional)', value: file, accept: undefined, onChange: setFile },
+    ];
+
+    return (
+        <Card className="dark:bg-slate-900 dark:border-slate-800">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2 dark:text-white">
+                    <PackageCheck className="w-5 h-5 text-blue-500" /> Proof Bundle Check
+                </CardTitle>
+                <p className="text-sm text-slate-500 dark:text-slate-400">
+                    Check a file against an exported proof bundle. Parties without access to this vault can run the
+                    same checks against any node with <span className="font-mono text-xs">npm run verify-proof-bundle -- &lt;bundle.json&gt; &lt;file&gt; --rpc &lt;url&gt;</span>.
+                </p>
+            </CardHeader>
+            <CardContent className="grid md:grid-cols-3 gap-6">
+                <div className="space-y-4">
+                    {pickers.map(picker => (
+                        <div key={picker.id} className="space-y-2">
+                            <label className="text-sm font-medium text-slate-700 dark:text-slate-200">{picker.label}</label>
+                            <div
+                                className="p-3 border-2 border-dashed rounded-lg text-center text-sm text-slate-500 dark:text-slate-400 dark:border-slate-700 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors"
+                                onClick={() => document.getElementById(picker.id)?.click()}
+                            >
+                                <span className="truncate block">{picker.value ? picker.value.name : 'Click to browse'}</span>
+                                <input
+                                    type="file"
+                                    id={picker.id}
+                                    className="hidden"
+                                    accept={picker.accept}
+                                    onChange={(e) => {
+                                        picker.onChange(e.target.files ? e.target.files[0] : null);
+                                        setResult(null);
+                                    }}
+                                />
+                            </div>
+                        </div>
+                    ))}
+                    <HashProgress {...fileHash} />
+                    <Button className="w-full" onClick={handleCheck} disabled={!bundle || (!!file && !fileHash.hash)} isLoading={checking}>
+                        Check Bundle
+                    </Button>
+                </div>
+
+                <div className="md:col-span-2">
+                    {!result ? (
+                        <div className="h-full flex items-center justify-center p-8 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-lg text-sm text-slate-400 dark:text-slate-500">
+                            Upload a proof bundle exported from the Evidence Vault.
+                        </div>
+                    ) : (
+                        <div className="space-y-3">
+                            <div className={`p-3 rounded-md border text-sm font-medium ${result.valid
+                                ? 'border-emerald-200 bg-emerald-50 text-emerald-800 dark:border-emerald-800 dark:bg-emerald-950/30 dark:text-emerald-300'
+                                : 'border-red-200 bg-red-50 text-red-800 dark:border-red-800 dark:bg-red-950/30 dark:text-red-300'}`}
+                            >
+                                {!result.valid
+                                    ? 'Proof bundle verification failed'
+                                    : result.chainChecked
+                                        ? 'Proof bundle matches the chain'
+                                        : 'Proof bundle is intact, but was not compared with the chain'}
+                            </div>
+                            <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+                                {result.checks.map((check, idx) => (
+                                    <li key={`${check.check}-${idx}`} className="py-2 flex items-start gap-3 text-sm">
+                                        <Badge variant={CHECK_BADGES[check.status]} className="shrink-0 w-16 justify-center">{check.status}</Badge>
+                                        <div className="min-w-0">
+                                            <p className="font-medium text-slate-900 dark:text-slate-100">{check.check}</p>
+                                            <p className="text-xs text-slate-500 dark:text-slate-400 break-all">{check.detail}</p>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
 
 export function Verification() {
-    const [status, setStatus] = useState<'idle' | 'verifying' | 'verified' | 'failed'>('idle');
+    // 'previewed' is a read-only check; 'verified' and 'failed' are recorded on chain
+    const [status, setStatus] = useState<'idle' | 'checking' | 'previewed' | 'verifying' | 'verified' | 'failed'>('idle');
     const [evidenceItems, setEvidenceItems] = useState<any[]>([]);
     const [selectedEvidenceId, setSelectedEvidenceId] = useState('');
     const [file, setFile] = useState<File | null>(null);
+    const [preview, setPreview] = useState<EvidenceCheck | null>(null);
+    const [reason, setReason] = useState('');
     const [result, setResult] = useState<any>(null);
+    const fileHash = useFileHash(file);
     const { addToast } = useToast();
+    const { can } = useAuth();
 
     useEffect(() => {
         const fetchEvidence = async () => {
@@ -29,16 +154,44 @@ export function Verification() {
         fetchEvidence();
     }, []);
 
-    const handleVerify = async () => {
-        if (!selectedEvidenceId || !file) {
-            addToast('Please select an evidence ID and upload a file to verify.', 'error');
+    // A new file or evidence item invalidates the last preview
+    const resetCheck = () => {
+        setStatus('idle');
+        setPreview(null);
+    };
+
+    const handlePreview = async () => {
+        if (!selectedEvidenceId || !fileHash.hash) {
+            addToast('Please select an evidence ID and a file to verify.', 'error');
             return;
         }
 
+        setStatus('checking');
+        try {
+            // Only the digest is sent; the file stays on this device
+            setPreview(await api.previewVerification(selectedEvidenceId, fileHash.hash));
+            setStatus('previewed');
+        } catch (error) {
+            setStatus('idle');
+            addToast(error instanceof Error ? error.message : 'Preview check failed', 'error');
+        }
+    };
+
+    const handleRecord = async () => {
+        if (!preview || !reason.trim()) return;
+
         setStatus('verifying');
         try {
-            const data = await api.verifyIntegrity(selectedEvidenceId, file);
+            const data = await api.verifyHash(preview.evidenceId, preview.submittedHash, reason.trim());
+            if (data.pending) {
+                // The outcome is recorded when the transaction is mined; the preview already shows what it will be
+                setReason('');
+                setStatus('previewed');
+                addToast('Verification queued; it will be recorded once its transaction is mined.', 'info');
+                return;
+            }
             setResult(data);
+            setReason('');
             if (data.verified) {
                 setStatus('verified');
             } else {
@@ -51,6 +204,8 @@ export function Verification() {
         }
     };
 
+    const selectedItem = evidenceItems.find(item => item.evidenceId === selectedEvidenceId);
+
     const evidenceOptions = evidenceItems.map(item => ({
         label: `${item.evidenceId} - ${item.fileName}`,
         value: item.evidenceId
@@ -73,14 +228,17 @@ export function Verification() {
                                 </label>
                                 <Select
                                     value={selectedEvidenceId}
-                                    onChange={(e) => setSelectedEvidenceId(e.target.value)}
+                                    onChange={(e) => {
+                                        setSelectedEvidenceId(e.target.value);
+                                        resetCheck();
+                                    }}
                                     options={evidenceOptions}
                                 />
                             </div>
 
                             <div className="space-y-2">
                                 <label className="text-sm font-medium text-slate-700 dark:text-slate-200">
-                                    Upload File to Check
+                                    File to Check (hashed on this device)
                                 </label>
                                 <div
                                     className="p-4 border-2 border-dashed rounded-lg text-center text-sm text-slate-500 dark:text-slate-400 dark:border-slate-700 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors"
@@ -101,23 +259,35 @@ export function Verification() {
                                         type="file"
                                         id="file-upload"
                                         className="hidden"
-                                        onChange={(e) => setFile(e.target.files ? e.target.files[0] : null)}
+                                        onChange={(e) => {
+                                            setFile(e.target.files ? e.target.files[0] : null);
+                                            resetCheck();
+                                        }}
                                     />
                                 </div>
+                                <HashProgress {...fileHash} />
                             </div>
 
                             <Button
                                 className="w-full"
-                                onClick={handleVerify}
-                                disabled={status === 'verifying' || !file}
+                                onClick={handlePreview}
+                                disabled={status === 'checking' || status === 'verifying' || !fileHash.hash}
                             >
-                                {status === 'verifying' ? (
+                                {status === 'checking' ? (
                                     <>
                                         <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                                         Checking Blockchain...
                                     </>
-                                ) : 'Verify Integrity'}
+                                ) : (
+                                    <>
+                                        <Eye className="w-4 h-4 mr-2" />
+                                        Preview Check
+                                    </>
+                                )}
                             </Button>
+                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                                A preview only reads the blockchain. Nothing is recorded until you record an official verification.
+                            </p>
                         </CardContent>
                     </Card>
                 </div>
@@ -130,13 +300,85 @@ export function Verification() {
                         </div>
                     )}
 
-                    {status === 'verifying' && (
+                    {(status === 'checking' || status === 'verifying') && (
                         <div className="h-full flex flex-col items-center justify-center p-12 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-lg">
                             <Loader2 className="w-12 h-12 mb-4 text-blue-500 animate-spin" />
-                            <p className="text-slate-500">Computing SHA-256 hash and verifying on Ethereum network...</p>
+                            <p className="text-slate-500">
+                                {status === 'checking'
+                                    ? "Comparing the file's SHA-256 hash with the on-chain record..."
+                                    : 'Recording the verification on the Ethereum network...'}
+                            </p>
                         </div>
                     )}
 
+                    {status === 'previewed' && preview && (
+                        <Card className={`h-full ${preview.matches
+                            ? 'border-emerald-300 dark:border-emerald-800'
+                            : 'border-amber-400 dark:border-amber-700'}`}
+                        >
+                            <CardContent className="flex flex-col items-center justify-center h-full p-8 space-y-6">
+                                <div className="text-center">
+                                    <Badge variant="secondary" className="mb-3">PREVIEW · NOTHING RECORDED</Badge>
+                                    <h3 className={`text-2xl font-bold tracking-tight ${preview.matches
+                                        ? 'text-emerald-800 dark:text-emerald-200'
+                                        : 'text-amber-800 dark:text-amber-200'}`}
+                                    >
+                                        {preview.matches ? 'Hash matches the on-chain record' : 'Hash does not match the on-chain record'}
+                                    </h3>
+                                    <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">
+                                        On-chain status is unchanged: {preview.onChainStatus}
+                                    </p>
+                                </div>
+
+                                <div className="bg-slate-50 dark:bg-slate-800/50 p-4 rounded-md border border-slate-200 dark:border-slate-700 w-full max-w-md space-y-2 text-sm">
+                                    <div className="flex justify-between gap-4">
+                                        <span className="text-slate-500 dark:text-slate-400 shrink-0">On-chain Hash:</span>
+                                        <span className="font-mono text-xs break-all text-right">{preview.expectedHash}</span>
+                                    </div>
+                                    <div className="flex justify-between gap-4">
+                                        <span className="text-slate-500 dark:text-slate-400 shrink-0">File Hash:</span>
+                                        <span className={`font-mono text-xs break-all text-right ${preview.matches ? '' : 'text-red-600 dark:text-red-400'}`}>{preview.submittedHash}</span>
+                                    </div>
+                                </div>
+
+                                {preview.batchId ? (
+                                    <p className="text-xs text-slate-500 dark:text-slate-400 max-w-md text-center">
+                                        This item is anchored by the Merkle root of batch #{preview.batchId}. The proof check above is its verification; batch items have no per-item status to record.
+                                    </p>
+                                ) : can('evidence:verify') ? (
+                                    <div className="w-full max-w-md space-y-3">
+                                        <label className="text-sm font-medium text-slate-700 dark:text-slate-200">
+                                            Reason for recording an official verification
+                                        </label>
+                                        <Input
+                                            placeholder="e.g. Pre-trial integrity check requested by the prosecutor"
+                                            value={reason}
+                                            onChange={(e) => setReason(e.target.value)}
+                                        />
+                                        {!preview.matches && (
+                                            <p className="text-xs text-red-600 dark:text-red-400">
+                                                Recording a mismatch permanently flags this evidence as tampered on chain and raises a critical alert.
+                                            </p>
+                                        )}
+                                        <Button
+                                            className="w-full"
+                                            variant={preview.matches ? 'default' : 'destructive'}
+                                            onClick={handleRecord}
+                                            disabled={!reason.trim()}
+                                        >
+                                            <ShieldCheck className="w-4 h-4 mr-2" />
+                                            Record Official Verification
+                                        </Button>
+                                    </div>
+                                ) : (
+                                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                                        Your role can preview checks but not record official verifications.
+                                    </p>
+                                )}
+                            </CardContent>
+                        </Card>
+                    )}
+
                     {status === 'verified' && (
                         <Card className="border-emerald-500 bg-emerald-50/30 dark:bg-emerald-950/30 dark:border-emerald-700 h-full">
                             <CardContent className="flex flex-col items-center justify-center h-full p-12 space-y-6">
@@ -211,6 +453,25 @@ export function Verification() {
                     )}
                 </div>
             </div>
+
+            {selectedItem && !selectedItem.batchId && !selectedItem.pendingId && (
+                <Card className="dark:bg-slate-900 dark:border-slate-800">
+                    <CardContent className="pt-6">
+                        <AttestationPanel
+                            key={selectedEvidenceId}
+                            evidenceId={selectedEvidenceId}
+                            submittedHash={status === 'previewed' ? preview?.submittedHash : null}
+                        />
+                        {status !== 'previewed' && can('evidence:verify') && (
+                            <p className="text-xs text-slate-500 dark:text-slate-400 mt-3">
+                                Run a preview check to have the verifier nodes attest the file's hash.
+                            </p>
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+
+            {can('reports:generate') && <ProofBundlePanel />}
         </div>
     );
 }
@@ -1,4 +1,4 @@
-export type EvidenceStatus = 'verified' | 'flagged' | 'breached' | 'pending';
+export type EvidenceStatus = 'verified' | 'flagged' | 'disputed' | 'breached' | 'pending';
 
 export type EvidenceType = 'Video' | 'Audio' | 'Document' | 'Image' | 'Other';
 
@@ -12,30 +12,453 @@ export interface Evidence {
     hash: string;
     txId?: string;
     size?: string;
+    consensus?: AttestationConsensus | null;
 }
 
+export type Permission =
+    | 'evidence:read'
+    | 'evidence:download'
+    | 'evidence:upload'
+    | 'evidence:verify'
+    | 'reports:generate'
+    | 'ai:analyze'
+    | 'cases:read'
+    | 'cases:manage'
+    | 'custody:read'
+    | 'custody:log'
+    | 'custody:override'
+    | 'policies:read'
+    | 'policies:manage'
+    | 'analytics:read'
+    | 'alerts:read'
+    | 'alerts:manage'
+    | 'outbox:manage'
+    | 'reconciliation:run'
+    | 'audit:read'
+    | 'users:read';
+
+export type CustodyRole = 'COLLECTOR' | 'FORENSIC_ANALYST' | 'DETECTIVE' | 'COURT_CLERK';
+
 export interface User {
     id: string;
     name: string;
     role: 'Officer' | 'Detective' | 'Admin' | 'Prosecutor' | 'Judge';
     badgeNumber: string;
+    custodyRole?: CustodyRole | null;
+    permissions?: Permission[];
+}
+
+export type AuditSeverity = 'info' | 'warning' | 'critical';
+
+export interface AuditLogFilters {
+    actor?: string;
+    action?: string;
+    resourceType?: string;
+    resourceId?: string;
+    severity?: string;
+    from?: string;
+    to?: string;
 }
 
 export interface AuditLogEntry {
     id: string;
+    sequence: number;
     timestamp: string;
     actor: string;
+    actorName?: string | null;
+    actorRole?: string | null;
     action: string;
-    details: string;
+    severity: AuditSeverity;
+    resourceType?: string | null;
+    resourceId?: string | null;
+    details: Record<string, unknown>;
+    ipAddress?: string | null;
+    userAgent?: string | null;
     hash: string;
-    severity: 'low' | 'medium' | 'high';
+    prevHash: string;
+}
+
+export interface AuditChainVerification {
+    valid: boolean;
+    totalEntries: number;
+    headHash: string;
+    verifiedAt: string;
+    brokenAt: {
+        sequence: number;
+        id: string;
+        reason: string;
+        storedHash: string;
+        recomputedHash: string;
+        expectedPrevHash: string;
+        actualPrevHash: string;
+    } | null;
+}
+
+export type AlertStatus = 'OPEN' | 'ACKNOWLEDGED' | 'UNDER_INVESTIGATION' | 'RESOLVED' | 'FALSE_POSITIVE';
+
+export type AlertSeverity = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+export interface UserRef {
+    badgeNumber: string;
+    name: string;
+}
+
+export interface AlertHistoryEntry {
+    type: 'STATUS_CHANGED' | 'ASSIGNED' | 'NOTE_ADDED';
+    from: string | null;
+    to: string | null;
+    by: UserRef;
+    note: string | null;
+    at: string;
 }
 
 export interface Alert {
-    id: number;
-    severity: 'low' | 'medium' | 'high';
+    id: string;
+    evidenceId: string;
+    alertType: string;
+    detectedBy: string;
+    reason: string;
+    riskScore: number;
+    details: Record<string, unknown> | null;
+    timestamp: number;
+    severity: AlertSeverity;
+    status: AlertStatus;
+    assignedTo: UserRef | null;
+    resolved: boolean;
+    resolvedBy: UserRef | null;
+    resolvedAt: string | null;
+    resolutionNotes: string | null;
+    history: AlertHistoryEntry[];
+}
+
+interface CustodyLiveData {
+    evidenceId: string;
+    action: string;
+    handler: UserRef;
+    txHash: string;
+    at: string;
+}
+
+// Events pushed by GET /api/events
+export type LiveEvent =
+    | { type: 'alert.created' | 'alert.updated'; data: { alert: Alert; at: string } }
+    | { type: 'custody.logged'; data: CustodyLiveData }
+    | { type: 'custody.violation'; data: CustodyLiveData & { violation: string; details: string } }
+    | { type: 'evidence.registered'; data: { evidenceId: string; caseId: string; fileName: string; collectedBy: string; txHash: string; at: string } }
+    | { type: 'outbox.updated'; data: { entry: OutboxEntry } }
+    | { type: 'reconciliation.completed'; data: { reportId: string; status: ReconciliationStatus; summary: Record<ReconciliationIssueType, number>; at: string } };
+
+export type LiveEventType = LiveEvent['type'];
+
+export interface CustodyPolicyRules {
+    allowedRoles: CustodyRole[];
+    actionRoles: Record<string, CustodyRole[]>;
+    requiredOrder: string[];
+    allowedSkips: string[];
+    maxAccessDurationHours: number;
+    noParallelAccess: boolean;
+}
+
+export interface CustodyPolicy {
+    policyId: string;
+    version: number;
+    name: string;
+    description: string | null;
+    rules: CustodyPolicyRules;
+    archived: boolean;
+    createdBy: UserRef;
+    createdAt: string;
+}
+
+export type PolicyScopeType = 'CASE' | 'EVIDENCE_TYPE';
+
+export interface PolicyAssignment {
+    scopeType: PolicyScopeType;
+    scopeValue: string;
+    policyId: string;
+    assignedBy: UserRef;
+    assignedAt: string;
+}
+
+export interface Checkout {
+    evidenceId: string;
+    handler: string;
+    handlerName: string;
+    since: number;
+    dueAt: number;
+    purpose: string | null;
+    overdue: boolean;
+    overdueFlaggedAt: number | null;
+    policyId: string | null;
+    policyVersion: number | null;
+}
+
+export interface CustodySimulationStep {
+    action: string;
+    valid: boolean;
+    violation?: string;
+    details?: string;
+}
+
+export interface CustodySimulation {
+    valid: boolean;
+    // False when the server would record the action without running policy checks
+    enforced: boolean;
+    steps: CustodySimulationStep[];
+    policy: { policyId: string; version: number; name: string };
+    startState: { currentStep: string; checkout: Checkout | null } | null;
+    finalState: { currentStep: string; checkout: Checkout | null } | null;
+}
+
+export type CaseStatus = 'OPEN' | 'CLOSED';
+
+export interface Case {
+    caseNumber: string;
     title: string;
-    description: string;
+    description: string | null;
+    status: CaseStatus;
+    leadInvestigator: UserRef;
+    openedAt: string;
+    closedAt: string | null;
+    createdBy: UserRef;
+    updatedAt: string;
+}
+
+export interface CaseSummary extends Case {
+    evidenceCount: number;
+    breachedCount: number;
+    openAlerts: number;
+}
+
+export interface CaseEvidenceItem {
+    evidenceId: string;
+    fileName?: string;
+    evidenceType?: string;
+    collectedBy: string;
+    timestamp: string;
+    evidenceHash: string;
+    txHash?: string;
+    status: 'verified' | 'flagged' | 'disputed' | 'breached';
+    consensus?: AttestationConsensus | null;
+}
+
+export interface CaseCustodyEvent {
+    evidenceId: string;
+    eventIndex: number;
+    action: string;
+    handler: string;
     timestamp: string;
-    evidenceId?: string;
+    metadataHash: string;
+    txHash?: string;
+    blockNumber?: number;
+}
+
+export interface CustodyLogEvent {
+    eventIndex: number;
+    action: string;
+    handler: string;
+    timestamp: string;
+    metadataHash: string;
+    txHash?: string;
+    blockNumber?: number;
+}
+
+// Where an item was anchored before its registry was migrated, and the status, custody and attestations it had there
+export interface PreviousAnchor {
+    migrationId: string;
+    chainId: string;
+    contractAddress: string;
+    evidenceId: string;
+    registration: { txHash: string; blockNumber: number } | null;
+    // Null for migrations recorded before status was carried over
+    status: 'NONE' | 'REGISTERED' | 'FLAGGED' | 'VERIFIED' | 'UNKNOWN' | null;
+    custody: CustodyLogEvent[];
+    attestations: { verifier: string; verified: boolean; attestedAt: string }[];
+    migratedAt: string;
+}
+
+export interface CustodyTimeline {
+    evidenceId: string;
+    events: CustodyLogEvent[];
+    previousAnchors?: PreviousAnchor[];
+    totalEvents?: number;
+    error?: string;
+}
+
+export interface CaseWorkspace {
+    case: Case;
+    evidence: CaseEvidenceItem[];
+    custody: CaseCustodyEvent[];
+    // null when the chain is unreachable and custody history could not be read
+    custodySource: 'blockchain' | null;
+    alerts: Alert[];
+    checkouts: Checkout[];
+    verification: { verified: number; flagged: number; disputed: number; breached: number };
+}
+
+// Resumable upload started with POST /api/uploads
+export interface UploadSession {
+    uploadId: string;
+    fileName: string;
+    fileSize: number;
+    mimeType: string;
+    caseId: string;
+    chunkSize: number;
+    bytesReceived: number;
+    complete: boolean;
+    createdAt: string;
+    expiresAt: string;
+}
+
+export interface EvidenceBatch {
+    batchId: string;
+    caseId: string;
+    merkleRoot: string;
+    itemCount: number;
+    txHash: string;
+    blockNumber: number;
+    gasUsed: string;
+    registeredBy: UserRef;
+    registeredAt: string;
+}
+
+export interface BatchItem {
+    evidenceId: string;
+    fileName: string;
+    hash: string;
+    batchIndex: number;
+    // Sibling hashes from the item's leaf up to the batch's Merkle root
+    proof: string[];
+}
+
+// A batch queued in the transaction outbox; its ID, and so its items' IDs, are assigned once it is mined
+export interface BatchRegistration {
+    pending: true;
+    batch: Pick<EvidenceBatch, 'caseId' | 'merkleRoot' | 'itemCount'> & { batchId: null; pendingId: string; status: 'pending' };
+    items: (Omit<BatchItem, 'evidenceId'> & { evidenceId: null })[];
+    outbox: OutboxEntry;
+}
+
+export interface EvidenceCheck {
+    evidenceId: string;
+    matches: boolean;
+    submittedHash: string;
+    expectedHash: string;
+    onChainStatus: 'NONE' | 'REGISTERED' | 'FLAGGED' | 'VERIFIED' | 'UNKNOWN';
+    // Set for batch items, which are checked against their batch's Merkle root
+    batchId?: string;
+    checkedAt: string;
+}
+
+export type ProofCheckStatus = 'PASS' | 'FAIL' | 'SKIPPED';
+
+export interface ProofBundleCheck {
+    check: string;
+    status: ProofCheckStatus;
+    detail: string;
+}
+
+export interface ProofBundleVerification {
+    valid: boolean;
+    // False when the bundle was only checked for internal consistency, not against the chain
+    chainChecked: boolean;
+    fileHash: string | null;
+    checks: ProofBundleCheck[];
+}
+
+export type OutboxKind = 'REGISTER_EVIDENCE' | 'REGISTER_BATCH' | 'LOG_CUSTODY_EVENT' | 'VERIFY_EVIDENCE' | 'SET_ROLE' | 'ATTEST_VERIFICATION';
+
+export type OutboxStatus = 'QUEUED' | 'SENT' | 'CONFIRMED' | 'FAILED';
+
+// A chain write queued by the server and retried until it is mined
+export interface OutboxEntry {
+    id: string;
+    kind: OutboxKind;
+    params: Record<string, string | number>;
+    status: OutboxStatus;
+    // True once the write is mined and its follow-up work is done, or it has failed
+    settled: boolean;
+    attempts: number;
+    nonce: number | null;
+    txHash: string | null;
+    gasBumps: number;
+    lastError: string | null;
+    nextAttemptAt: string | null;
+    result: { evidenceId?: string; batchId?: string; txHash: string; blockNumber: number; gasUsed: string; verified?: boolean; verifier?: string } | null;
+    createdBy: UserRef;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// A verifier node's signed verdict on an item (EvidenceRegistry.attestVerification)
+export interface Attestation {
+    verifier: string;
+    // Null for a verifier whose key this server does not hold
+    verifierName: string | null;
+    verified: boolean;
+    attestedAt: string;
+    txHash: string | null;
+    blockNumber: number | null;
+}
+
+export type ConsensusStatus = 'NONE' | 'PENDING' | 'CONFIRMED' | 'REJECTED' | 'DISPUTED';
+
+// Agreement among an item's attestations, settled on chain once quorumThreshold of them agree
+export interface AttestationConsensus {
+    status: ConsensusStatus;
+    confirmations: number;
+    rejections: number;
+    threshold: number;
+    // e.g. "Attested by 3/3 verifiers"
+    label: string;
+}
+
+export interface VerifierNode {
+    name: string;
+    address: string;
+    registered: boolean;
+    attested: boolean;
+}
+
+// A verifier node's verdict as queued for the chain
+export interface AttestationVerdict {
+    verifier: string;
+    verifierName: string;
+    verified: boolean;
+    // Digest of the stored copy the node hashed; null when the file is not in storage
+    storedHash: string | null;
+    outboxId: string;
+}
+
+export type ReconciliationIssueType = 'MISSING_ON_CHAIN' | 'HASH_MISMATCH' | 'CUSTODY_COUNT_MISMATCH' | 'NOT_IN_DATABASE';
+
+export type ReconciliationStatus = 'CLEAN' | 'ISSUES_FOUND';
+
+export interface ReconciliationIssue {
+    type: ReconciliationIssueType;
+    evidenceId: string;
+    caseId: string;
+    fileName?: string;
+    batchId?: string;
+    storedHash?: string;
+    chainHash?: string;
+    // Custody event counts, for CUSTODY_COUNT_MISMATCH
+    chainCount?: number;
+    indexedCount?: number;
+    registeredAt?: string;
+    details: string;
+}
+
+// One comparison of the evidence table with the registry
+export interface ReconciliationReport {
+    id: string;
+    status: ReconciliationStatus;
+    trigger: 'SCHEDULED' | 'MANUAL';
+    triggeredBy: UserRef | null;
+    databaseCount: number;
+    chainCount: number;
+    summary: Record<ReconciliationIssueType, number>;
+    issues: ReconciliationIssue[];
+    startedAt: string;
+    finishedAt: string;
 }
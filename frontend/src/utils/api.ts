@@ -1,6 +1,84 @@
+import type { Alert, AlertStatus, Attestation, AttestationConsensus, AttestationVerdict, AuditLogFilters, BatchRegistration, Case, CaseStatus, CaseSummary, CaseWorkspace, Checkout, CustodyPolicy, CustodySimulation, CustodyPolicyRules, CustodyTimeline, EvidenceCheck, OutboxEntry, PolicyAssignment, PolicyScopeType, ProofBundleVerification, ReconciliationReport, UploadSession, User, VerifierNode } from '../types';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+const TOKEN_KEY = 'sentinel-token';
+
+export const UNAUTHORIZED_EVENT = 'sentinel:unauthorized';
+
+export function getAuthToken() {
+    return localStorage.getItem(TOKEN_KEY);
+}
+
+export function setAuthToken(token: string | null) {
+    if (token) {
+        localStorage.setItem(TOKEN_KEY, token);
+    } else {
+        localStorage.removeItem(TOKEN_KEY);
+    }
+}
+
+/**
+ * fetch() wrapper that attaches the session token and signs the user out on 401
+ */
+async function apiFetch(path: string, init: RequestInit = {}) {
+    const headers = new Headers(init.headers);
+    const token = getAuthToken();
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+
+    const response = await fetch(`${API_BASE_URL}${path}`, { ...init, headers });
+    if (response.status === 401 && token) {
+        setAuthToken(null);
+        window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+    }
+    return response;
+}
+
+/**
+ * URL of the live event stream; EventSource cannot send headers, so the token goes in the query
+ */
+export function getLiveEventsUrl() {
+    return `${API_BASE_URL}/events?token=${encodeURIComponent(getAuthToken() || '')}`;
+}
 
 export const api = {
+    /**
+     * Sign in with badge ID and password; stores the session token
+     */
+    async login(badgeId: string, password: string): Promise<{ user: User; token: string; expiresAt: string }> {
+        const response = await fetch(`${API_BASE_URL}/auth/login`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ badgeId, password })
+        });
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.error || 'Login failed');
+        }
+        const data = await response.json();
+        setAuthToken(data.token);
+        return data;
+    },
+
+    /**
+     * Get the user for the current session token
+     */
+    async getCurrentUser(): Promise<{ user: User; expiresAt: string }> {
+        const response = await apiFetch('/auth/me');
+        if (!response.ok) throw new Error('Session expired');
+        return response.json();
+    },
+
+    /**
+     * Revoke the current session token
+     */
+    async logout() {
+        try {
+            await apiFetch('/auth/logout', { method: 'POST' });
+        } finally {
+            setAuthToken(null);
+        }
+    },
+
     /**
      * Get all evidence from the backend
      */
@@ -13,7 +91,7 @@ export const api = {
         if (filters?.type) params.append('type', filters.type);
         if (filters?.status) params.append('status', filters.status);
 
-        const response = await fetch(`${API_BASE_URL}/evidence?${params.toString()}`);
+        const response = await apiFetch(`/evidence?${params.toString()}`);
         if (!response.ok) throw new Error('Failed to fetch evidence');
         return response.json();
     },
@@ -22,16 +100,63 @@ export const api = {
      * Get download URL for evidence file
      */
     async getDownloadUrl(evidenceId: string) {
-        const response = await fetch(`${API_BASE_URL}/evidence/${evidenceId}/download`);
+        const response = await apiFetch(`/evidence/${evidenceId}/download`);
         if (!response.ok) throw new Error('Failed to get download URL');
         return response.json();
     },
 
+    /**
+     * Court-ready PDF integrity report for an evidence item or a whole case
+     */
+    async getIntegrityReport(scope: 'evidence' | 'cases', id: string): Promise<{ blob: Blob; filename: string; contentHash: string }> {
+        const response = await apiFetch(`/${scope}/${encodeURIComponent(id)}/report`);
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.message || error.error || 'Failed to generate report');
+        }
+        const disposition = response.headers.get('Content-Disposition') || '';
+        const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `integrity-report-${id}.pdf`;
+        return { blob: await response.blob(), filename, contentHash: response.headers.get('X-Content-Hash') || '' };
+    },
+
+    /**
+     * Export an evidence item as a proof bundle that can be verified without this API
+     */
+    async getProofBundle(evidenceId: string): Promise<{ blob: Blob; filename: string }> {
+        const response = await apiFetch(`/evidence/${encodeURIComponent(evidenceId)}/proof-bundle`);
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.message || error.error || 'Failed to export proof bundle');
+        }
+        const disposition = response.headers.get('Content-Disposition') || '';
+        const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `proof-bundle-${evidenceId}.json`;
+        return { blob: await response.blob(), filename };
+    },
+
+    /**
+     * Check a proof bundle, and optionally the evidence file's SHA-256, against the chain
+     */
+    async verifyProofBundle(bundle: File, fileHash: string | null): Promise<ProofBundleVerification> {
+        const formData = new FormData();
+        formData.append('bundle', bundle);
+        if (fileHash) formData.append('fileHash', fileHash);
+
+        const response = await apiFetch(`/proof-bundles/verify`, {
+            method: 'POST',
+            body: formData,
+        });
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.message || error.error || 'Failed to verify proof bundle');
+        }
+        return response.json();
+    },
+
     /**
      * Upload and register evidence on blockchain
      */
     async registerEvidence(formData: FormData) {
-        const response = await fetch(`${API_BASE_URL}/evidence/upload-blockchain`, {
+        const response = await apiFetch(`/evidence/upload-blockchain`, {
             method: 'POST',
             body: formData,
         });
@@ -42,11 +167,156 @@ export const api = {
         return response.json();
     },
 
+    /**
+     * Start a resumable upload; the file is then sent with uploadChunk and registered with completeUpload
+     */
+    async startUpload(params: {
+        fileName: string;
+        fileSize: number;
+        mimeType: string;
+        caseId: string;
+        evidenceType: string;
+        source: string;
+        collectedBy: string;
+        clientHash: string;
+    }): Promise<UploadSession> {
+        const response = await apiFetch('/uploads', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(params)
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.message || data.error || 'Failed to start upload');
+        return data.upload;
+    },
+
+    /**
+     * Get an upload's progress; null once it has been completed, cancelled or has expired
+     */
+    async getUpload(uploadId: string): Promise<UploadSession | null> {
+        const response = await apiFetch(`/uploads/${encodeURIComponent(uploadId)}`);
+        if (response.status === 404) return null;
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.message || data.error || 'Failed to fetch upload');
+        return data.upload;
+    },
+
+    /**
+     * Send one chunk of an upload. Uses XMLHttpRequest because fetch() cannot report upload progress.
+     */
+    uploadChunk(uploadId: string, offset: number, chunk: Blob, onProgress?: (loaded: number) => void): Promise<UploadSession> {
+        return new Promise((resolve, reject) => {
+            const xhr = new XMLHttpRequest();
+            xhr.open('PUT', `${API_BASE_URL}/uploads/${encodeURIComponent(uploadId)}/chunks?offset=${offset}`);
+            const token = getAuthToken();
+            if (token) xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+            xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+            xhr.responseType = 'json';
+
+            if (onProgress) xhr.upload.onprogress = (event) => onProgress(event.loaded);
+            xhr.onerror = () => reject(new Error('Connection lost while sending the file'));
+            xhr.ontimeout = () => reject(new Error('Connection timed out while sending the file'));
+            xhr.onload = () => {
+                const data = xhr.response || {};
+                if (xhr.status === 401 && token) {
+                    setAuthToken(null);
+                    window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+                }
+                if (xhr.status >= 200 && xhr.status < 300) {
+                    resolve(data.upload);
+                } else {
+                    reject(new Error(data.message || data.error || 'Failed to send chunk'));
+                }
+            };
+            xhr.send(chunk);
+        });
+    },
+
+    /**
+     * Register a fully sent upload on the blockchain
+     */
+    async completeUpload(uploadId: string) {
+        const response = await apiFetch(`/uploads/${encodeURIComponent(uploadId)}/complete`, { method: 'POST' });
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.message || error.details || error.error || 'Upload failed');
+        }
+        return response.json();
+    },
+
+    /**
+     * Abandon an upload; the server deletes what it received
+     */
+    async cancelUpload(uploadId: string) {
+        const response = await apiFetch(`/uploads/${encodeURIComponent(uploadId)}`, { method: 'DELETE' });
+        if (!response.ok && response.status !== 404) throw new Error('Failed to cancel upload');
+    },
+
+    /**
+     * Register fully sent uploads as one batch anchored by a single Merkle root
+     */
+    async registerBatch(params: {
+        caseId: string;
+        uploadIds: string[];
+        evidenceType?: string;
+        source?: string;
+        collectedBy?: string;
+    }): Promise<BatchRegistration> {
+        const response = await apiFetch('/batches', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(params)
+        });
+        const data = await response.json();
+        if (!response.ok || !data.success) throw new Error(data.message || data.details || data.error || 'Batch registration failed');
+        return data;
+    },
+
+    /**
+     * Follow a chain write queued by an upload, custody log or verification
+     */
+    async getOutboxEntry(id: string): Promise<OutboxEntry> {
+        const response = await apiFetch(`/outbox/${id}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.message || data.error || 'Failed to fetch outbox entry');
+        return data.entry;
+    },
+
+    /**
+     * Send a failed chain write again (admin only)
+     */
+    async retryOutboxEntry(id: string): Promise<OutboxEntry> {
+        const response = await apiFetch(`/outbox/${id}/retry`, { method: 'POST' });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.message || data.error || 'Failed to retry chain write');
+        return data.entry;
+    },
+
+    /**
+     * Get the latest database-versus-chain reconciliation report
+     */
+    async getReconciliation(): Promise<{ report: ReconciliationReport | null; running: boolean }> {
+        const response = await apiFetch(`/reconciliation`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.message || data.error || 'Failed to fetch reconciliation report');
+        return data;
+    },
+
+    /**
+     * Reconcile the database with the chain now (admin only)
+     */
+    async runReconciliation(): Promise<ReconciliationReport> {
+        const response = await apiFetch(`/reconciliation/run`, { method: 'POST' });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.message || data.error || 'Reconciliation failed');
+        return data.report;
+    },
+
     /**
      * Get dashboard summary stats
      */
     async getDashboardSummary() {
-        const response = await fetch(`${API_BASE_URL}/analytics/summary`);
+        const response = await apiFetch(`/analytics/summary`);
         if (!response.ok) throw new Error('Failed to fetch analytics');
         return response.json();
     },
@@ -55,7 +325,7 @@ export const api = {
      * Get tamper events for evidence
      */
     async getTamperEvents(evidenceId: string) {
-        const response = await fetch(`${API_BASE_URL}/tamper-events/${evidenceId}`);
+        const response = await apiFetch(`/tamper-events/${evidenceId}`);
         if (!response.ok) throw new Error('Failed to fetch tamper events');
         return response.json();
     },
@@ -63,73 +333,392 @@ export const api = {
     /**
      * Get all alerts from tamper ledger
      */
-    async getAllAlerts() {
-        const response = await fetch(`${API_BASE_URL}/alerts`);
+    async getAllAlerts(filters?: { status?: string, severity?: string, assignedTo?: string }) {
+        const params = new URLSearchParams();
+        if (filters?.status) params.append('status', filters.status);
+        if (filters?.severity) params.append('severity', filters.severity);
+        if (filters?.assignedTo) params.append('assignedTo', filters.assignedTo);
+
+        const response = await apiFetch(`/alerts?${params.toString()}`);
         if (!response.ok) throw new Error('Failed to fetch alerts');
         return response.json();
     },
 
     /**
-     * Get system-wide audit logs
+     * Move an alert to a new lifecycle state; notes are required to close it
+     */
+    async updateAlertStatus(alertId: string, status: AlertStatus, note?: string): Promise<{ alert: Alert }> {
+        const response = await apiFetch(`/alerts/${alertId}/status`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ status, note })
+        });
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.message || error.error || 'Failed to update alert');
+        }
+        return response.json();
+    },
+
+    /**
+     * Assign an alert to a user (null to unassign)
+     */
+    async assignAlert(alertId: string, badgeNumber: string | null): Promise<{ alert: Alert }> {
+        const response = await apiFetch(`/alerts/${alertId}/assign`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ badgeNumber })
+        });
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.message || error.error || 'Failed to assign alert');
+        }
+        return response.json();
+    },
+
+    /**
+     * Add an investigation note to an alert
+     */
+    async addAlertNote(alertId: string, note: string): Promise<{ alert: Alert }> {
+        const response = await apiFetch(`/alerts/${alertId}/notes`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ note })
+        });
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.message || error.error || 'Failed to add note');
+        }
+        return response.json();
+    },
+
+    /**
+     * List active users (supervisors only)
+     */
+    async getUsers(): Promise<{ users: User[] }> {
+        const response = await apiFetch('/users');
+        if (!response.ok) throw new Error('Failed to fetch users');
+        return response.json();
+    },
+
+    /**
+     * List cases with evidence and alert counts, plus case IDs used on evidence without a case record
+     */
+    async getCases(status?: CaseStatus): Promise<{ cases: CaseSummary[]; unregisteredCaseIds: string[] }> {
+        const response = await apiFetch(`/cases${status ? `?status=${status}` : ''}`);
+        if (!response.ok) throw new Error('Failed to fetch cases');
+        return response.json();
+    },
+
+    /**
+     * Case workspace: evidence, custody activity, alerts and open checkouts for one case
+     */
+    async getCase(caseNumber: string): Promise<CaseWorkspace> {
+        const response = await apiFetch(`/cases/${encodeURIComponent(caseNumber)}`);
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.message || error.error || 'Failed to fetch case');
+        }
+        return response.json();
+    },
+
+    /**
+     * Open a case; leadInvestigator is a badge number and defaults to the signed-in user
+     */
+    async createCase(data: { caseNumber: string; title: string; description?: string; leadInvestigator?: string }): Promise<{ case: Case }> {
+        const response = await apiFetch('/cases', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(data)
+        });
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.message || error.error || 'Failed to open case');
+        }
+        return response.json();
+    },
+
+    /**
+     * Edit a case, change its lead investigator, or close / reopen it
+     */
+    async updateCase(caseNumber: string, changes: { title?: string; description?: string; leadInvestigator?: string; status?: CaseStatus }): Promise<{ case: Case }> {
+        const response = await apiFetch(`/cases/${encodeURIComponent(caseNumber)}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(changes)
+        });
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.message || error.error || 'Failed to update case');
+        }
+        return response.json();
+    },
+
+    /**
+     * List the latest version of each custody policy with current assignments
+     */
+    async getPolicies(includeArchived = false): Promise<{ policies: CustodyPolicy[]; assignments: PolicyAssignment[] }> {
+        const response = await apiFetch(`/policies${includeArchived ? '?includeArchived=true' : ''}`);
+        if (!response.ok) throw new Error('Failed to fetch policies');
+        return response.json();
+    },
+
+    /**
+     * Get a policy and its version history (newest first)
+     */
+    async getPolicy(policyId: string): Promise<{ policy: CustodyPolicy; versions: CustodyPolicy[] }> {
+        const response = await apiFetch(`/policies/${encodeURIComponent(policyId)}`);
+        if (!response.ok) throw new Error('Failed to fetch policy');
+        return response.json();
+    },
+
+    /**
+     * Create a policy, or save a new version of an existing one
+     */
+    async savePolicy(policyId: string | null, policy: { name: string; description: string; rules: CustodyPolicyRules }): Promise<{ policy: CustodyPolicy }> {
+        const response = await apiFetch(policyId ? `/policies/${encodeURIComponent(policyId)}` : '/policies', {
+            method: policyId ? 'PUT' : 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(policy)
+        });
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.message || error.error || 'Failed to save policy');
+        }
+        return response.json();
+    },
+
+    /**
+     * Archive a policy
+     */
+    async archivePolicy(policyId: string): Promise<{ policy: CustodyPolicy }> {
+        const response = await apiFetch(`/policies/${encodeURIComponent(policyId)}`, { method: 'DELETE' });
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.message || error.error || 'Failed to archive policy');
+        }
+        return response.json();
+    },
+
+    /**
+     * Assign a policy to a case or evidence type
+     */
+    async assignPolicy(scopeType: PolicyScopeType, scopeValue: string, policyId: string): Promise<{ assignment: PolicyAssignment }> {
+        const response = await apiFetch('/policy-assignments', {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ scopeType, scopeValue, policyId })
+        });
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.message || error.error || 'Failed to assign policy');
+        }
+        return response.json();
+    },
+
+    /**
+     * Remove a policy assignment
+     */
+    async unassignPolicy(scopeType: PolicyScopeType, scopeValue: string) {
+        const response = await apiFetch(`/policy-assignments/${scopeType}/${encodeURIComponent(scopeValue)}`, { method: 'DELETE' });
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.message || error.error || 'Failed to remove assignment');
+        }
+        return response.json();
+    },
+
+    /**
+     * Get one page of the audit log, newest first
+     */
+    async getAuditLogs(filters: AuditLogFilters = {}, cursor?: number | null, limit = 50) {
+        const params = new URLSearchParams();
+        Object.entries(filters).forEach(([key, value]) => {
+            if (value) params.append(key, value);
+        });
+        if (cursor) params.append('cursor', String(cursor));
+        params.append('limit', String(limit));
+
+        const response = await apiFetch(`/audit-log?${params.toString()}`);
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.error || 'Failed to fetch audit log');
+        }
+        return response.json();
+    },
+
+    /**
+     * Export the filtered audit log as a signed CSV or JSON document
+     */
+    async exportAuditLog(format: 'csv' | 'json', filters: AuditLogFilters = {}) {
+        const params = new URLSearchParams({ format });
+        Object.entries(filters).forEach(([key, value]) => {
+            if (value) params.append(key, value);
+        });
+
+        const response = await apiFetch(`/audit-log/export?${params.toString()}`);
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.error || 'Failed to export audit log');
+        }
+        return response.json();
+    },
+
+    /**
+     * Recompute the audit log hash chain on the server
      */
-    async getAuditLogs() {
-        const response = await fetch(`${API_BASE_URL}/audit-log`);
-        if (!response.ok) throw new Error('Failed to fetch audit log');
+    async verifyAuditLog() {
+        const response = await apiFetch(`/audit-log/verify`);
+        if (!response.ok) throw new Error('Failed to verify audit log');
         return response.json();
     },
 
     /**
      * Get custody events for evidence
      */
-    async getCustodyEvents(evidenceId: string) {
-        const response = await fetch(`${API_BASE_URL}/custody/${evidenceId}`);
+    async getCustodyEvents(evidenceId: string): Promise<CustodyTimeline> {
+        const response = await apiFetch(`/custody/${evidenceId}`);
         if (!response.ok) throw new Error('Failed to fetch custody events');
         return response.json();
     },
 
     /**
-     * Log a new custody event
+     * Log a new custody event as the signed-in user
      */
-    async logCustodyEvent(evidenceId: string, action: string, handler: string, details?: any) {
-        const response = await fetch(`${API_BASE_URL}/custody/${evidenceId}/log`, {
+    async logCustodyEvent(evidenceId: string, action: string, details?: any) {
+        const response = await apiFetch(`/custody/${evidenceId}/log`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ action, handler, details })
+            body: JSON.stringify({ action, details })
         });
         if (!response.ok) {
             const error = await response.json();
-            throw new Error(error.details || error.reason || 'Failed to log custody event');
+            throw new Error(error.details || error.reason || error.message || 'Failed to log custody event');
         }
         return response.json();
     },
 
     /**
-     * Verify evidence integrity against blockchain
+     * Dry-run one or more custody actions against policy; nothing is recorded
      */
-    async verifyIntegrity(evidenceId: string, file: File) {
-        const formData = new FormData();
-        formData.append('file', file);
-        formData.append('evidenceId', evidenceId);
+    async simulateCustodyActions(evidenceId: string, actions: string[], details?: Record<string, unknown>): Promise<CustodySimulation> {
+        const response = await apiFetch(`/custody/${evidenceId}/simulate`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ actions, details })
+        });
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.message || error.error || 'Failed to check custody policy');
+        }
+        return response.json();
+    },
 
-        const response = await fetch(`${API_BASE_URL}/verify-blockchain`, {
+    /**
+     * Every open checkout (who currently holds what)
+     */
+    async getHoldings(): Promise<{ checkouts: Checkout[] }> {
+        const response = await apiFetch('/custody/holdings');
+        if (!response.ok) throw new Error('Failed to fetch holdings');
+        return response.json();
+    },
+
+    /**
+     * Check evidence out to the signed-in user
+     */
+    async checkOutEvidence(evidenceId: string, purpose: string): Promise<{ checkout: Checkout; pending?: boolean }> {
+        const response = await apiFetch(`/custody/${evidenceId}/checkout`, {
             method: 'POST',
-            body: formData,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ purpose })
+        });
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.details || error.error || error.message || 'Failed to check out evidence');
+        }
+        return response.json();
+    },
+
+    /**
+     * Return checked-out evidence; force lets supervisors return evidence held by someone else
+     */
+    async checkInEvidence(evidenceId: string, notes: string, force = false) {
+        const response = await apiFetch(`/custody/${evidenceId}/checkin`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ notes, force })
+        });
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.error || error.message || 'Failed to check in evidence');
+        }
+        return response.json();
+    },
+
+    /**
+     * Compare a SHA-256 computed in the browser with the on-chain record without recording anything
+     */
+    async previewVerification(evidenceId: string, hash: string): Promise<EvidenceCheck> {
+        const response = await apiFetch(`/verify-preview`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ evidenceId, hash }),
+        });
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+            throw new Error(data.message || data.error || 'Preview check failed');
+        }
+        return data;
+    },
+
+    /**
+     * Record an official verification on chain from a SHA-256 computed in the browser; the file is not sent
+     */
+    async verifyHash(evidenceId: string, hash: string, reason: string) {
+        const response = await apiFetch(`/verify-hash`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ evidenceId, hash, reason }),
         });
 
         if (!response.ok) {
             const error = await response.json();
-            throw new Error(error.message || 'Verification failed');
+            throw new Error(error.message || error.error || 'Verification failed');
         }
         return response.json();
     },
 
+    /**
+     * Verifier node attestations for an item
+     */
+    async getAttestations(evidenceId: string): Promise<{ attestations: Attestation[]; consensus: AttestationConsensus; verifiers: VerifierNode[] }> {
+        const response = await apiFetch(`/evidence/${evidenceId}/attestations`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.message || data.error || 'Failed to fetch attestations');
+        return data;
+    },
+
+    /**
+     * Have the verifier nodes check an item and sign their verdicts on chain; pending until the outbox entries are mined
+     */
+    async attestEvidence(evidenceId: string, hash: string, verifier?: string): Promise<{ pending?: boolean; verdicts: AttestationVerdict[]; skipped: { verifier: string; verifierName: string; reason: string }[]; outbox: OutboxEntry[] }> {
+        const response = await apiFetch(`/evidence/${evidenceId}/attestations`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ hash, verifier })
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.message || data.error || 'Attestation failed');
+        return data;
+    },
+
     /**
      * Run AI Risk analysis
      */
     async analyzeRisk(file: File) {
         const formData = new FormData();
         formData.append('file', file);
-        const response = await fetch(`${API_BASE_URL}/ai/risk-score`, {
+        const response = await apiFetch(`/ai/risk-score`, {
             method: 'POST',
             body: formData,
         });
@@ -141,7 +730,7 @@ export const api = {
      * Get chart data: Status distribution
      */
     async getAnalyticsStatus() {
-        const response = await fetch(`${API_BASE_URL}/analytics/status`);
+        const response = await apiFetch(`/analytics/status`);
         if (!response.ok) throw new Error('Failed to fetch status analytics');
         return response.json();
     },
@@ -150,7 +739,7 @@ export const api = {
      * Get chart data: Upload trends
      */
     async getAnalyticsTrends() {
-        const response = await fetch(`${API_BASE_URL}/analytics/trends`);
+        const response = await apiFetch(`/analytics/trends`);
         if (!response.ok) throw new Error('Failed to fetch trend analytics');
         return response.json();
     },
@@ -159,7 +748,7 @@ export const api = {
      * Get chart data: Top collectors
      */
     async getAnalyticsCollectors() {
-        const response = await fetch(`${API_BASE_URL}/analytics/collectors`);
+        const response = await apiFetch(`/analytics/collectors`);
         if (!response.ok) throw new Error('Failed to fetch collector analytics');
         return response.json();
     }
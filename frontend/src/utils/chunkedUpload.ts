@@ -0,0 +1,130 @@
+import { api } from './api';
+
+const RESUME_KEY_PREFIX = 'sentinel-upload:';
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+
+export interface UploadProgress {
+    sent: number;
+    total: number;
+}
+
+export interface ChunkedUploadFields {
+    caseId: string;
+    evidenceType: string;
+    source: string;
+    collectedBy: string;
+}
+
+// The same file picked again (same name, size, date and digest) resumes where it stopped
+function resumeKey(file: File, hash: string) {
+    return `${RESUME_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}:${hash}`;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Whether an earlier attempt to upload this file was interrupted
+ */
+export function hasResumableUpload(file: File, hash: string) {
+    return localStorage.getItem(resumeKey(file, hash)) !== null;
+}
+
+/**
+ * Forget the stored upload ID for a file once its upload has been registered
+ */
+export function forgetUpload(file: File, hash: string) {
+    localStorage.removeItem(resumeKey(file, hash));
+}
+
+/**
+ * Send a file through the resumable upload API without registering it.
+ * Each chunk is retried with backoff; when the connection stays down the upload
+ * ID is kept, and calling this again with the same file continues from the last
+ * byte the server stored.
+ * @param file - File to upload
+ * @param hash - SHA-256 computed in the browser; the server rejects the upload if its own digest differs
+ * @param fields - Evidence metadata
+ * @param onProgress - Called as bytes are sent
+ * @returns Upload ID, ready for completeUpload or a batch
+ */
+export async function sendInChunks(
+    file: File,
+    hash: string,
+    fields: ChunkedUploadFields,
+    onProgress: (progress: UploadProgress) => void
+) {
+    const key = resumeKey(file, hash);
+    const storedId = localStorage.getItem(key);
+    let session = storedId ? await api.getUpload(storedId) : null;
+
+    // Metadata is fixed when an upload starts, so a changed case means starting over
+    if (session && session.caseId !== fields.caseId) {
+        await api.cancelUpload(session.uploadId);
+        session = null;
+    }
+    if (!session || session.fileSize !== file.size) {
+        session = await api.startUpload({
+            fileName: file.name,
+            fileSize: file.size,
+            mimeType: file.type || 'application/octet-stream',
+            clientHash: hash,
+            ...fields
+        });
+        localStorage.setItem(key, session.uploadId);
+    }
+
+    const { uploadId, chunkSize } = session;
+    let offset = session.bytesReceived;
+    onProgress({ sent: offset, total: file.size });
+
+    while (offset < file.size) {
+        const chunk = file.slice(offset, Math.min(offset + chunkSize, file.size));
+        const chunkStart = offset;
+        for (let attempt = 1; ; attempt++) {
+            try {
+                session = await api.uploadChunk(uploadId, chunkStart, chunk,
+                    loaded => onProgress({ sent: chunkStart + loaded, total: file.size }));
+                break;
+            } catch (error) {
+                if (attempt === MAX_ATTEMPTS) throw error;
+                await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+                // The chunk may have arrived before the connection dropped; ask where to carry on
+                const current = await api.getUpload(uploadId).catch(() => null);
+                if (current && current.bytesReceived !== chunkStart) {
+                    session = current;
+                    break;
+                }
+            }
+        }
+        offset = session.bytesReceived;
+        onProgress({ sent: offset, total: file.size });
+    }
+
+    return uploadId;
+}
+
+/**
+ * Send a file with sendInChunks and register it on the blockchain
+ */
+export async function uploadInChunks(
+    file: File,
+    hash: string,
+    fields: ChunkedUploadFields,
+    onProgress: (progress: UploadProgress) => void
+) {
+    const uploadId = await sendInChunks(file, hash, fields, onProgress);
+
+    let result;
+    try {
+        result = await api.completeUpload(uploadId);
+    } catch (error) {
+        // The server keeps the upload only when registration can be retried
+        const kept = await api.getUpload(uploadId).then(Boolean, () => true);
+        if (!kept) forgetUpload(file, hash);
+        throw error;
+    }
+    forgetUpload(file, hash);
+    if (!result.success) throw new Error(result.error || 'Upload failed');
+    return result;
+}
@@ -0,0 +1,44 @@
+import type { HashFileResponse } from '../workers/hashFile.worker';
+
+/**
+ * SHA-256 of a file, computed in a Web Worker so large files neither leave the
+ * device nor block the page
+ * @param file - File to hash
+ * @param onProgress - Called with the number of bytes hashed so far
+ * @param signal - Aborting stops the worker and rejects the promise
+ * @returns 0x-prefixed hex digest
+ */
+export function hashFile(file: File, onProgress?: (loaded: number) => void, signal?: AbortSignal): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const worker = new Worker(new URL('../workers/hashFile.worker.ts', import.meta.url), { type: 'module' });
+        const stop = () => {
+            worker.terminate();
+            reject(new DOMException('Hashing was cancelled', 'AbortError'));
+        };
+        if (signal?.aborted) return stop();
+        signal?.addEventListener('abort', stop, { once: true });
+
+        const finish = () => {
+            signal?.removeEventListener('abort', stop);
+            worker.terminate();
+        };
+        worker.onmessage = (event: MessageEvent<HashFileResponse>) => {
+            const message = event.data;
+            if (message.type === 'progress') {
+                onProgress?.(message.loaded);
+                return;
+            }
+            finish();
+            if (message.type === 'done') {
+                resolve(message.hash);
+            } else {
+                reject(new Error(message.message));
+            }
+        };
+        worker.onerror = (event) => {
+            finish();
+            reject(new Error(event.message || 'Failed to hash file'));
+        };
+        worker.postMessage({ file });
+    });
+}
@@ -0,0 +1,48 @@
+import { Sha256, toHexHash } from '../utils/sha256';
+
+export interface HashFileRequest {
+    file: File;
+}
+
+export type HashFileResponse =
+    | { type: 'progress'; loaded: number; total: number }
+    | { type: 'done'; hash: string }
+    | { type: 'error'; message: string };
+
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+// Up to this size the file is collected and hashed natively with Web Crypto; larger files are streamed through Sha256
+const WEB_CRYPTO_MAX_BYTES = 256 * 1024 * 1024;
+
+// The app is type-checked against the DOM library, so describe the worker scope by hand
+const scope = self as unknown as {
+    onmessage: ((event: MessageEvent<HashFileRequest>) => void) | null;
+    postMessage(message: HashFileResponse): void;
+};
+
+async function hashFile(file: File): Promise<string> {
+    const useWebCrypto = !!globalThis.crypto?.subtle && file.size <= WEB_CRYPTO_MAX_BYTES;
+    const collected = useWebCrypto ? new Uint8Array(file.size) : null;
+    const hasher = new Sha256();
+
+    for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+        const chunk = new Uint8Array(await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+        if (collected) collected.set(chunk, offset);
+        else hasher.update(chunk);
+        scope.postMessage({ type: 'progress', loaded: Math.min(offset + CHUNK_SIZE, file.size), total: file.size });
+    }
+
+    if (collected) {
+        return toHexHash(new Uint8Array(await crypto.subtle.digest('SHA-256', collected)));
+    }
+    return toHexHash(hasher.digest());
+}
+
+scope.onmessage = (event) => {
+    hashFile(event.data.file)
+        .then(hash => scope.postMessage({ type: 'done', hash }))
+        .catch((error: unknown) => scope.postMessage({
+            type: 'error',
+            message: error instanceof Error ? error.message : 'Failed to hash file',
+        }));
+};
@@ -0,0 +1,235 @@
+-- Upgrades a database created from the original db_schema.sql to the current one.
+-- Run once in the Supabase SQL editor; new installs only need db_schema.sql.
+BEGIN;
+
+-- Evidence Batches
+CREATE TABLE evidence_batches (
+  batch_id bigint PRIMARY KEY,     -- ID assigned by EvidenceRegistry.registerBatch
+  case_id text NOT NULL,
+  merkle_root text UNIQUE NOT NULL,
+  item_count integer NOT NULL,
+  tx_hash text UNIQUE NOT NULL,
+  block_number bigint,
+  gas_used text,
+  registered_by text NOT NULL,     -- badge number
+  registered_by_name text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_evidence_batches_case ON evidence_batches(case_id);
+
+-- Evidence: items of a batch share its transaction, so tx_hash is no longer unique
+ALTER TABLE evidence DROP CONSTRAINT evidence_tx_hash_key;
+ALTER TABLE evidence ADD COLUMN batch_id bigint REFERENCES evidence_batches(batch_id);
+ALTER TABLE evidence ADD COLUMN batch_index integer;
+ALTER TABLE evidence ADD COLUMN merkle_proof jsonb;
+
+CREATE INDEX idx_evidence_batch ON evidence(batch_id, batch_index);
+
+-- Custody Events: now an index of CustodyEventLogged logs, with no foreign key to evidence.
+-- Existing rows are dropped; the chain indexer reads them back from the contract's deploy
+-- block because chain_sync_state starts empty.
+ALTER TABLE custody_events DROP CONSTRAINT custody_events_evidence_id_fkey;
+DELETE FROM custody_events;
+ALTER TABLE custody_events ADD COLUMN action_hash text;
+ALTER TABLE custody_events ADD COLUMN log_index integer;
+ALTER TABLE custody_events ADD CONSTRAINT custody_events_evidence_id_event_index_key UNIQUE (evidence_id, event_index);
+
+-- Tamper Alerts: lifecycle status and assignment; resolved_by holds a badge number
+ALTER TABLE tamper_alerts DROP CONSTRAINT tamper_alerts_resolved_by_fkey;
+ALTER TABLE tamper_alerts ALTER COLUMN resolved_by TYPE text USING resolved_by::text;
+ALTER TABLE tamper_alerts ADD COLUMN status text NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'ACKNOWLEDGED', 'UNDER_INVESTIGATION', 'RESOLVED', 'FALSE_POSITIVE'));
+ALTER TABLE tamper_alerts ADD COLUMN assigned_to text;
+ALTER TABLE tamper_alerts ADD COLUMN assigned_to_name text;
+ALTER TABLE tamper_alerts ADD COLUMN resolved_by_name text;
+ALTER TABLE tamper_alerts ADD COLUMN resolution_notes text;
+UPDATE tamper_alerts SET status = 'RESOLVED' WHERE resolved;
+
+CREATE INDEX idx_alerts_status ON tamper_alerts(status, created_at DESC);
+CREATE INDEX idx_alerts_assignee ON tamper_alerts(assigned_to) WHERE assigned_to IS NOT NULL;
+CREATE INDEX idx_alerts_legacy_id ON tamper_alerts((details->>'legacyId'));
+CREATE INDEX idx_alerts_source_key ON tamper_alerts((details->>'sourceKey'));
+
+-- Every lifecycle change on an alert (state changes, assignment, notes)
+CREATE TABLE tamper_alert_history (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  alert_id uuid NOT NULL REFERENCES tamper_alerts(id) ON DELETE CASCADE,
+  change_type text NOT NULL CHECK (change_type IN ('STATUS_CHANGED', 'ASSIGNED', 'NOTE_ADDED')),
+  from_value text,
+  to_value text,
+  changed_by text NOT NULL,      -- badge number
+  changed_by_name text,
+  note text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_alert_history_alert ON tamper_alert_history(alert_id, created_at);
+
+-- Audit Log: hash-chained. The original backend never wrote to audit_log, so it is expected
+-- to be empty; the NOT NULL columns make this migration fail if it is not.
+ALTER TABLE audit_log ADD COLUMN sequence bigint UNIQUE NOT NULL;
+ALTER TABLE audit_log ADD COLUMN actor_name text;
+ALTER TABLE audit_log ADD COLUMN actor_role text;
+ALTER TABLE audit_log ADD COLUMN severity text NOT NULL CHECK (severity IN ('info', 'warning', 'critical'));
+ALTER TABLE audit_log ADD COLUMN prev_hash text NOT NULL;
+ALTER TABLE audit_log ADD COLUMN entry_hash text UNIQUE NOT NULL;
+
+CREATE INDEX idx_audit_sequence ON audit_log(sequence DESC);
+CREATE INDEX idx_audit_action ON audit_log(action, sequence DESC);
+CREATE INDEX idx_audit_severity ON audit_log(severity, sequence DESC);
+
+-- Users Table
+CREATE TABLE users (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  badge_number text UNIQUE NOT NULL,
+  name text NOT NULL,
+  role text NOT NULL CHECK (role IN ('Officer', 'Detective', 'Admin', 'Prosecutor', 'Judge')),
+  custody_role text CHECK (custody_role IN ('COLLECTOR', 'FORENSIC_ANALYST', 'DETECTIVE', 'COURT_CLERK')),
+  password_hash text NOT NULL,
+  active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_users_badge ON users(badge_number);
+
+-- Custody Policies
+-- Each edit inserts a new version; earlier versions stay on record
+CREATE TABLE custody_policies (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  policy_id text NOT NULL,
+  version integer NOT NULL,
+  name text NOT NULL,
+  description text,
+  rules jsonb NOT NULL,          -- allowedRoles, actionRoles, requiredOrder, allowedSkips, maxAccessDurationHours, noParallelAccess
+  archived boolean DEFAULT false,
+  created_by text NOT NULL,      -- badge number
+  created_by_name text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (policy_id, version)
+);
+
+-- Which policy governs a case or an evidence type (case assignments take precedence)
+CREATE TABLE custody_policy_assignments (
+  scope_type text NOT NULL CHECK (scope_type IN ('CASE', 'EVIDENCE_TYPE')),
+  scope_value text NOT NULL,
+  policy_id text NOT NULL,
+  assigned_by text NOT NULL,     -- badge number
+  assigned_by_name text,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (scope_type, scope_value)
+);
+
+-- Policy engine state per evidence item (last custody step and current holder)
+CREATE TABLE custody_state (
+  evidence_id text PRIMARY KEY,
+  current_step text NOT NULL,
+  checkout jsonb,                -- { handler, handlerName, since, dueAt, purpose, overdueFlaggedAt }
+  policy_id text,
+  policy_version integer,
+  rebuilt_from_chain boolean DEFAULT false,
+  updated_at timestamptz DEFAULT now()
+);
+CREATE INDEX idx_custody_state_checkouts ON custody_state(evidence_id) WHERE checkout IS NOT NULL;
+
+-- Cases
+-- Evidence may only be registered against an open case (evidence.case_id holds the case number)
+CREATE TABLE cases (
+  case_number text PRIMARY KEY,
+  title text NOT NULL,
+  description text,
+  status text NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'CLOSED')),
+  lead_investigator text NOT NULL,   -- badge number
+  lead_investigator_name text,
+  opened_at timestamptz DEFAULT now(),
+  closed_at timestamptz,
+  created_by text NOT NULL,          -- badge number
+  created_by_name text,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_cases_status ON cases(status, opened_at DESC);
+
+-- Transaction Outbox
+-- Contract writes waiting to be sent, mined or handled; the backend retries them until they settle
+CREATE TABLE tx_outbox (
+  id uuid PRIMARY KEY,
+  kind text NOT NULL CHECK (kind IN ('REGISTER_EVIDENCE', 'REGISTER_BATCH', 'LOG_CUSTODY_EVENT', 'VERIFY_EVIDENCE', 'SET_ROLE', 'ATTEST_VERIFICATION')),
+  params jsonb NOT NULL,           -- contract call inputs
+  context jsonb,                   -- what to save once the transaction is mined
+  status text NOT NULL DEFAULT 'QUEUED' CHECK (status IN ('QUEUED', 'SENT', 'CONFIRMED', 'FAILED')),
+  attempts integer NOT NULL DEFAULT 0,
+  nonce bigint,
+  tx_hashes jsonb NOT NULL DEFAULT '[]',   -- every broadcast for the nonce; gas bumps add one each
+  fees jsonb,
+  last_error text,
+  next_attempt_at timestamptz,
+  sent_at timestamptz,
+  result jsonb,
+  handled_at timestamptz,
+  handler_attempts integer NOT NULL DEFAULT 0,   -- confirmation handler runs that threw
+  created_by text,                 -- badge number, or SYSTEM
+  created_by_name text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_tx_outbox_status ON tx_outbox(status, created_at);
+
+-- Chain Index
+-- Registry events other than custody logs, and how far the indexer has read
+CREATE TABLE chain_events (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_name text NOT NULL CHECK (event_name IN ('EvidenceRegistered', 'VerificationPassed', 'TamperDetected', 'PolicyViolation', 'VerificationAttested', 'QuorumReached', 'AttestationDisputed', 'RoleGranted', 'RoleRevoked')),
+  evidence_id text,                -- null for role changes
+  args jsonb NOT NULL,
+  tx_hash text NOT NULL,
+  block_number bigint NOT NULL,
+  log_index integer NOT NULL,
+  timestamp timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX idx_chain_events_evidence ON chain_events(evidence_id);
+CREATE INDEX idx_chain_events_name ON chain_events(event_name, timestamp DESC);
+
+CREATE TABLE chain_sync_state (
+  name text PRIMARY KEY,           -- one row per indexer
+  contract_address text NOT NULL,
+  last_block bigint NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Reconciliation Reports
+-- Scheduled and manual comparisons of the evidence table with the registry
+CREATE TABLE reconciliation_reports (
+  id uuid PRIMARY KEY,
+  status text NOT NULL CHECK (status IN ('CLEAN', 'ISSUES_FOUND')),
+  trigger text NOT NULL CHECK (trigger IN ('SCHEDULED', 'MANUAL')),
+  triggered_by text,               -- badge number; null for scheduled runs
+  triggered_by_name text,
+  database_count integer NOT NULL,
+  chain_count integer NOT NULL,
+  summary jsonb NOT NULL,          -- issue count per type
+  issues jsonb NOT NULL DEFAULT '[]',
+  started_at timestamptz NOT NULL,
+  finished_at timestamptz NOT NULL
+);
+
+CREATE INDEX idx_reconciliation_reports_finished ON reconciliation_reports(finished_at DESC);
+
+-- Registry Migrations
+-- Signed old-to-new ID mappings written when evidence is re-anchored in a new EvidenceRegistry deployment
+CREATE TABLE registry_migrations (
+  id uuid PRIMARY KEY,
+  from_chain_id text NOT NULL,
+  from_contract text NOT NULL,
+  to_chain_id text NOT NULL,
+  to_contract text NOT NULL,
+  document jsonb NOT NULL,         -- the signed mapping, exactly as written by scripts/migrateRegistry.js
+  migrated_at timestamptz NOT NULL
+);
+
+CREATE INDEX idx_registry_migrations_from ON registry_migrations(from_contract);
+
+COMMIT;